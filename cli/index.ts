@@ -0,0 +1,245 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { isMainThread } from 'node:worker_threads';
+import { v4 as uuidv4 } from 'uuid';
+import type { CollectionRun } from '../src/database';
+import { RunEngine } from '../src/services/runEngine';
+import { DataFileService } from '../src/services/dataFileService';
+import type { DataRow } from '../src/services/dataFileService';
+import { findByIdOrName, loadWorkspace } from './loader';
+import { reporters } from './reporters';
+import type { ReporterName } from './reporters';
+import { runScript, startScriptWorker } from './scriptRunner';
+
+const USAGE = `Usage: webpostman run <file> [options]
+
+Runs a collection from a WebPostman export or a Postman v2.1 collection.
+
+Options:
+  -c, --collection <name|id>   Collection to run (default: every top-level collection)
+  -e, --environment <name|id>  Environment from the export file to apply
+      --env-var <key=value>    Set an environment variable (repeatable)
+  -n, --iterations <count>     Number of iterations (default: 1)
+  -d, --data <file>            CSV or JSON data file, one iteration per row
+      --delay <ms>             Delay between requests (default: 0)
+      --bail                   Stop on the first failed request
+  -r, --reporter <name>        console, json or junit (default: console)
+  -o, --output <file>          Write the report to a file instead of stdout
+      --proxy <url>            Send requests through a proxy
+  -h, --help                   Show this help
+`;
+
+interface CliOptions {
+  file?: string;
+  collection?: string;
+  environment?: string;
+  envVars: Record<string, string>;
+  iterations: number;
+  data?: string;
+  delay: number;
+  bail: boolean;
+  reporter: ReporterName;
+  output?: string;
+  proxy?: string;
+}
+
+class UsageError extends Error {}
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    envVars: {},
+    iterations: 1,
+    delay: 0,
+    bail: false,
+    reporter: 'console'
+  };
+
+  const [command, ...rest] = args;
+  if (command !== 'run') {
+    throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const next = () => {
+      const value = rest[++i];
+      if (value === undefined) {
+        throw new UsageError(`Missing value for ${arg}`);
+      }
+      return value;
+    };
+
+    switch (arg) {
+      case '-c':
+      case '--collection':
+        options.collection = next();
+        break;
+      case '-e':
+      case '--environment':
+        options.environment = next();
+        break;
+      case '--env-var': {
+        const pair = next();
+        const separator = pair.indexOf('=');
+        if (separator <= 0) {
+          throw new UsageError(`Invalid --env-var: ${pair}`);
+        }
+        options.envVars[pair.slice(0, separator)] = pair.slice(separator + 1);
+        break;
+      }
+      case '-n':
+      case '--iterations':
+        options.iterations = parseInt(next(), 10);
+        if (!(options.iterations > 0)) {
+          throw new UsageError('--iterations must be a positive number');
+        }
+        break;
+      case '-d':
+      case '--data':
+        options.data = next();
+        break;
+      case '--delay':
+        options.delay = parseInt(next(), 10) || 0;
+        break;
+      case '--bail':
+        options.bail = true;
+        break;
+      case '-r':
+      case '--reporter': {
+        const reporter = next();
+        if (!(reporter in reporters)) {
+          throw new UsageError(`Unknown reporter: ${reporter}`);
+        }
+        options.reporter = reporter as ReporterName;
+        break;
+      }
+      case '-o':
+      case '--output':
+        options.output = next();
+        break;
+      case '--proxy':
+        options.proxy = next();
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new UsageError(`Unknown option: ${arg}`);
+        }
+        if (options.file) {
+          throw new UsageError(`Unexpected argument: ${arg}`);
+        }
+        options.file = arg;
+    }
+  }
+
+  if (!options.file) {
+    throw new UsageError('Missing collection file');
+  }
+
+  return options;
+};
+
+const main = async (args: string[]): Promise<number> => {
+  if (args.includes('-h') || args.includes('--help')) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+
+  const workspace = await loadWorkspace(JSON.parse(await readFile(options.file!, 'utf8')));
+
+  const collections = options.collection
+    ? [findByIdOrName(workspace.collections, options.collection)]
+    : workspace.collections.filter(collection => !collection.parentId);
+  if (collections.length === 0 || !collections[0]) {
+    process.stderr.write(`Collection not found: ${options.collection ?? '(none in file)'}\n`);
+    return 2;
+  }
+
+  const environment = options.environment
+    ? findByIdOrName(workspace.environments, options.environment)
+    : undefined;
+  if (options.environment && !environment) {
+    process.stderr.write(`Environment not found: ${options.environment}\n`);
+    return 2;
+  }
+
+  let data: DataRow[] | undefined;
+  if (options.data) {
+    data = DataFileService.parse(await readFile(options.data, 'utf8'), options.data);
+  }
+
+  const runs: CollectionRun[] = [];
+  for (const collection of collections) {
+    if (!collection) continue;
+
+    const requests = RunEngine.collectRequests(collection.id, workspace.collections, workspace.requests);
+    const startedAt = new Date();
+    const outcome = await RunEngine.run(
+      requests,
+      {
+        ...RunEngine.collectVariables(collection.id, workspace.collections),
+        ...environment?.variables,
+        ...options.envVars
+      },
+      { iterations: options.iterations, delay: options.delay, stopOnFailure: options.bail, data },
+      { runScript, sendOptions: { proxyUrl: options.proxy } }
+    );
+    const finishedAt = new Date();
+
+    runs.push({
+      id: uuidv4(),
+      collectionId: collection.id,
+      collectionName: collection.name,
+      environmentId: environment?.id,
+      iterations: outcome.iterations,
+      delay: options.delay,
+      stopOnFailure: options.bail,
+      dataFileName: options.data,
+      results: outcome.results,
+      passed: outcome.results.filter(r => r.passed).length,
+      failed: outcome.results.filter(r => !r.passed).length,
+      totalTime: finishedAt.getTime() - startedAt.getTime(),
+      status: outcome.status,
+      startedAt,
+      finishedAt
+    });
+
+    if (options.bail && outcome.status !== 'completed') break;
+  }
+
+  const report = reporters[options.reporter](runs);
+
+  if (options.output) {
+    await writeFile(options.output, report);
+    // Keep a readable summary on the terminal when the report goes to a file
+    if (options.reporter !== 'console') {
+      process.stdout.write(`${reporters.console(runs)}\n`);
+    }
+  } else {
+    process.stdout.write(`${report}\n`);
+  }
+
+  return runs.some(run => run.failed > 0 || run.status === 'failed') ? 1 : 0;
+};
+
+if (isMainThread) {
+  main(process.argv.slice(2))
+    .then(code => {
+      process.exitCode = code;
+    })
+    .catch(error => {
+      process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+      process.exitCode = 1;
+    });
+} else {
+  startScriptWorker();
+}
@@ -0,0 +1,39 @@
+import type { Collection, Environment, Request } from '../src/database';
+import type { ExportData } from '../src/services/exportImportService';
+import { PostmanService } from '../src/services/postmanService';
+
+export interface Workspace {
+  collections: Collection[];
+  requests: Request[];
+  environments: Environment[];
+}
+
+/**
+ * Load an app export (ExportImportService.exportToFile) or a Postman collection
+ */
+export const loadWorkspace = async (json: unknown): Promise<Workspace> => {
+  const data: Partial<ExportData> & { info?: unknown; item?: unknown } = json && typeof json === 'object' ? json : {};
+  if (Array.isArray(data.collections) && Array.isArray(data.requests)) {
+    return {
+      collections: data.collections,
+      requests: data.requests,
+      environments: data.environments || []
+    };
+  }
+
+  if (data.info && Array.isArray(data.item)) {
+    const { collections, requests, summary } = await PostmanService.importCollection(data);
+    summary.skipped.forEach(message => process.stderr.write(`warning: ${message}\n`));
+    return { collections, requests, environments: [] };
+  }
+
+  throw new Error('Unrecognised file: expected a WebPostman export or a Postman collection');
+};
+
+/**
+ * Find a record by id or, failing that, by case-insensitive name
+ */
+export const findByIdOrName = <T extends { id: string; name: string }>(items: T[], query: string): T | undefined => {
+  return items.find(item => item.id === query)
+    || items.find(item => item.name.toLowerCase() === query.toLowerCase());
+};
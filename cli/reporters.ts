@@ -0,0 +1,100 @@
+import type { CollectionRun, RunResult } from '../src/database';
+
+export type ReporterName = 'console' | 'json' | 'junit';
+
+/**
+ * Every reporter formats all the runs of one CLI invocation into a single report
+ */
+export const reporters: Record<ReporterName, (runs: CollectionRun[]) => string> = {
+  console: runs => runs.map(formatConsole).join('\n\n'),
+  json: runs => JSON.stringify(runs.length === 1 ? runs[0] : runs, null, 2),
+  junit: formatJunit
+};
+
+function formatConsole(run: CollectionRun): string {
+  const lines: string[] = [`${run.collectionName}`];
+
+  run.results.forEach(result => {
+    const mark = result.passed ? '✓' : '✗';
+    const iteration = run.iterations > 1 ? `[${result.iteration + 1}] ` : '';
+    lines.push(`  ${mark} ${iteration}${result.method} ${result.name} → ${result.status} ${result.statusText} (${result.responseTime}ms, ${result.responseSize} B)`);
+    if (result.error) {
+      lines.push(`      error: ${result.error}`);
+    }
+    result.tests.forEach(test => {
+      lines.push(`      ${test.passed ? '✓' : '✗'} ${test.name}${test.error ? ` — ${test.error}` : ''}`);
+    });
+  });
+
+  const tests = run.results.flatMap(result => result.tests);
+  lines.push('');
+  lines.push(`Requests: ${run.passed} passed, ${run.failed} failed, ${run.results.length} total`);
+  lines.push(`Tests:    ${tests.filter(t => t.passed).length} passed, ${tests.filter(t => !t.passed).length} failed, ${tests.length} total`);
+  lines.push(`Time:     ${run.totalTime}ms${run.status !== 'completed' ? ` (${run.status})` : ''}`);
+
+  return lines.join('\n');
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const countFailures = (result: RunResult) => result.tests.length > 0
+  ? result.tests.filter(test => !test.passed).length
+  : result.error ? 1 : 0;
+
+/**
+ * One testsuite per collection run, one testcase per pm.test. Requests without
+ * tests still report a single case for the request itself, and a request that
+ * errored despite having tests reports the error as an extra case.
+ */
+function formatJunit(runs: CollectionRun[]): string {
+  const suites = runs.map(run => {
+    const cases = run.results.flatMap(result => {
+      const classname = `${escapeXml(run.collectionName)}.${escapeXml(run.iterations > 1 ? `${result.name} [${result.iteration + 1}]` : result.name)}`;
+      const seconds = (result.responseTime / 1000).toFixed(3);
+      const testcase = (name: string, outcome: string) => [
+        `    <testcase name="${escapeXml(name)}" classname="${classname}" time="${seconds}">`,
+        outcome,
+        '    </testcase>'
+      ].filter(Boolean).join('\n');
+
+      const requestName = `${result.method} ${result.url}`;
+      if (result.tests.length === 0) {
+        return [testcase(requestName, result.error ? `      <failure message="${escapeXml(result.error)}"/>` : '')];
+      }
+      return [
+        ...result.tests.map(test => testcase(test.name, test.passed ? '' : `      <failure message="${escapeXml(test.error || 'Test failed')}"/>`)),
+        ...(result.error ? [testcase(requestName, `      <error message="${escapeXml(result.error)}"/>`)] : [])
+      ];
+    });
+
+    const failures = run.results.reduce((sum, result) => sum + countFailures(result), 0);
+    const errors = run.results.filter(result => result.tests.length > 0 && result.error).length;
+
+    return {
+      tests: cases.length,
+      failures,
+      errors,
+      xml: [
+        `  <testsuite name="${escapeXml(run.collectionName)}" tests="${cases.length}" failures="${failures}" errors="${errors}" time="${(run.totalTime / 1000).toFixed(3)}" timestamp="${new Date(run.startedAt).toISOString()}">`,
+        ...cases,
+        '  </testsuite>'
+      ].join('\n')
+    };
+  });
+
+  const total = (key: 'tests' | 'failures' | 'errors') => suites.reduce((sum, suite) => sum + suite[key], 0);
+  const time = runs.reduce((sum, run) => sum + run.totalTime, 0);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(runs.length === 1 ? runs[0].collectionName : 'WebPostman')}" tests="${total('tests')}" failures="${total('failures')}" errors="${total('errors')}" time="${(time / 1000).toFixed(3)}">`,
+    ...suites.map(suite => suite.xml),
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,62 @@
+import { Worker, parentPort } from 'node:worker_threads';
+import { fileURLToPath } from 'node:url';
+import vm from 'node:vm';
+import type { ScriptContext, ScriptResult } from '../src/types';
+import { ScriptSandbox } from '../src/services/scriptSandbox';
+
+const SCRIPT_TIMEOUT_MS = 5000;
+
+/**
+ * Entry point for the worker thread spawned by `runScript`. The CLI bundle
+ * is a single file, so the worker is the same module started off the main thread.
+ * Scripts run in a vm context of their own that cannot compile code from strings.
+ */
+export const startScriptWorker = () => {
+  parentPort?.on('message', (context: ScriptContext) => {
+    // The pm API's functions come from this realm, so their constructors must not compile strings either
+    ScriptSandbox.lockdown(globalThis, []);
+    parentPort?.postMessage(ScriptSandbox.execute(context, (script, scope) => {
+      const sandbox = vm.createContext({ ...scope }, { codeGeneration: { strings: false, wasm: false } });
+      vm.runInContext(`"use strict";\n${script}`, sandbox, { timeout: SCRIPT_TIMEOUT_MS });
+    }));
+  });
+};
+
+/**
+ * Node counterpart of ScriptService.runScript: one worker thread per script,
+ * terminated when the script finishes or times out.
+ */
+export const runScript = (context: ScriptContext): Promise<ScriptResult> => {
+  if (!context.script.trim()) {
+    return Promise.resolve({
+      request: context.request,
+      variables: context.variables,
+      tests: [],
+      logs: []
+    });
+  }
+
+  return new Promise(resolve => {
+    const worker = new Worker(fileURLToPath(import.meta.url));
+
+    const finish = (result: ScriptResult) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(result);
+    };
+
+    const fail = (error: string) => finish({
+      request: context.request,
+      variables: context.variables,
+      tests: [],
+      logs: [],
+      error
+    });
+
+    const timer = setTimeout(() => fail(`Script timed out after ${SCRIPT_TIMEOUT_MS}ms`), SCRIPT_TIMEOUT_MS);
+
+    worker.on('message', (result: ScriptResult) => finish(result));
+    worker.on('error', error => fail(error.message));
+    worker.postMessage(context);
+  });
+};
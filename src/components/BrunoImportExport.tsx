@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { BrunoService } from '../services/brunoService';
+import type { BrunoFile } from '../services/brunoService';
+import { CollectionService } from '../services/collectionService';
+import type { ImportSummary } from '../types';
+
+interface BrunoImportExportProps {
+  onClose: () => void;
+  onImportComplete?: () => void;
+}
+
+const BrunoImportExport: React.FC<BrunoImportExportProps> = ({ onClose, onImportComplete }) => {
+  const { collections, environments, activeEnvironment } = useApp();
+  const [importFiles, setImportFiles] = useState<BrunoFile[]>([]);
+  const [importSource, setImportSource] = useState<string>('');
+  const [importStatus, setImportStatus] = useState<string>('');
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [hasImported, setHasImported] = useState(false);
+  const [exportCollectionId, setExportCollectionId] = useState<string>('');
+  const [exportEnvironmentIds, setExportEnvironmentIds] = useState<string[]>(activeEnvironment ? [activeEnvironment.id] : []);
+
+  // Imports write straight to the database, so the app needs a refresh afterwards
+  const handleClose = () => {
+    if (hasImported && onImportComplete) {
+      onImportComplete();
+    } else {
+      onClose();
+    }
+  };
+
+  // A folder upload lists every file with its path inside the chosen folder
+  const handleFolderChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).filter(file => /(\.bru|bruno\.json)$/i.test(file.name));
+    if (files.length === 0) {
+      setImportStatus('The selected folder contains no .bru files');
+      return;
+    }
+
+    setImportFiles(await Promise.all(files.map(async file => ({
+      path: file.webkitRelativePath || file.name,
+      content: await file.text()
+    }))));
+    setImportSource(`${files.length} files from ${files[0].webkitRelativePath.split('/')[0] || 'the folder'}`);
+    setImportStatus('');
+    setImportSummary(null);
+  };
+
+  const handleZipChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !/\.zip$/i.test(file.name)) {
+      setImportStatus('Please select a zip file');
+      return;
+    }
+
+    try {
+      const { default: JSZip } = await import('jszip');
+      const zip = await JSZip.loadAsync(file);
+      const entries = Object.values(zip.files).filter(entry => !entry.dir && /(\.bru|bruno\.json)$/i.test(entry.name));
+      setImportFiles(await Promise.all(entries.map(async entry => ({ path: entry.name, content: await entry.async('string') }))));
+      setImportSource(`${entries.length} files from ${file.name}`);
+      setImportStatus('');
+      setImportSummary(null);
+    } catch (error) {
+      setImportStatus(`Could not read the zip file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (importFiles.length === 0) {
+      setImportStatus('Please select a folder or zip file to import');
+      return;
+    }
+
+    try {
+      const result = await BrunoService.importFiles(importFiles);
+      await CollectionService.saveImport(result);
+
+      const { summary } = result;
+      setHasImported(true);
+      setImportSummary(summary);
+      setImportStatus(
+        `Successfully imported "${result.collections[0].name}" with ${summary.requests} requests in ` +
+        `${summary.collections - 1} folders and ${result.environments.length} environments`
+      );
+    } catch (error) {
+      setImportStatus(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const toggleEnvironment = (id: string) => {
+    setExportEnvironmentIds(prev => (prev.includes(id) ? prev.filter(environmentId => environmentId !== id) : [...prev, id]));
+  };
+
+  const handleExport = async () => {
+    if (!exportCollectionId) {
+      setImportStatus('Please select a collection to export');
+      return;
+    }
+
+    try {
+      const files = await BrunoService.exportCollection(exportCollectionId, exportEnvironmentIds);
+      const { default: JSZip } = await import('jszip');
+      const zip = new JSZip();
+      files.forEach(file => zip.file(file.path, file.content));
+
+      const fileName = `${files[0].path.split('/')[0]}.zip`;
+      const url = URL.createObjectURL(await zip.generateAsync({ type: 'blob' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setImportStatus(`Successfully exported ${fileName}`);
+    } catch (error) {
+      setImportStatus(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-800">Bruno Import/Export</h2>
+        <button
+          onClick={handleClose}
+          className="text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Import Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Import Bruno Collection</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select the Collection Folder (containing bruno.json)
+            </label>
+            <input
+              type="file"
+              multiple
+              onChange={handleFolderChange}
+              {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Or a Zip Archive of the Folder
+            </label>
+            <input
+              type="file"
+              accept=".zip"
+              onChange={handleZipChange}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          {importSource && <p className="text-sm text-slate-500">Selected {importSource}</p>}
+          <button
+            onClick={handleImport}
+            disabled={importFiles.length === 0}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Import Collection
+          </button>
+        </div>
+      </div>
+
+      {/* Export Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Export Collection as Bruno Zip</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select Collection to Export
+            </label>
+            <select
+              value={exportCollectionId}
+              onChange={(e) => setExportCollectionId(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">Choose a collection...</option>
+              {collections.filter(c => !c.parentId).map(collection => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Environments to Include
+            </label>
+            <div className="max-h-32 overflow-y-auto border border-slate-300 rounded-lg divide-y divide-slate-100">
+              {environments.length === 0 && (
+                <p className="px-3 py-2 text-sm text-slate-500">No environments</p>
+              )}
+              {environments.map(environment => (
+                <label key={environment.id} className="flex items-center gap-2 px-3 py-2 text-sm text-slate-700 cursor-pointer hover:bg-slate-50">
+                  <input
+                    type="checkbox"
+                    checked={exportEnvironmentIds.includes(environment.id)}
+                    onChange={() => toggleEnvironment(environment.id)}
+                  />
+                  {environment.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={!exportCollectionId}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Export Zip
+          </button>
+        </div>
+      </div>
+
+      {/* Status Message */}
+      {importStatus && (
+        <div className={`p-3 rounded-lg ${
+          importStatus.includes('Successfully')
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {importStatus}
+        </div>
+      )}
+
+      {/* Import Summary */}
+      {importSummary && importSummary.skipped.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200">
+          <h4 className="font-semibold mb-2">Skipped during import ({importSummary.skipped.length})</h4>
+          <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+            {importSummary.skipped.map((message, index) => (
+              <li key={index}>• {message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Instructions */}
+      <div className="bg-slate-50 p-4 rounded-lg">
+        <h4 className="font-semibold text-slate-700 mb-2">Instructions</h4>
+        <ul className="text-sm text-slate-600 space-y-1">
+          <li>• <strong>Structure:</strong> Sub-directories become folders, ordered by their <code>seq</code></li>
+          <li>• <strong>Environments:</strong> Files in <code>environments/</code> become environments; secret variables are created empty</li>
+          <li>• <strong>Path parameters:</strong> <code>:id</code> segments become <code>{'{{id}}'}</code> collection variables</li>
+          <li>• <strong>Scripts:</strong> Bruno scripts and tests are imported unchanged and may need adjusting</li>
+          <li>• <strong>Export:</strong> The zip contains a collection folder that Bruno can open directly</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default BrunoImportExport;
@@ -1,7 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import type { RequestConfig } from '../types';
+import { useApp } from '../context/AppContext';
 import { CodeGenService } from '../services/codeGenService';
+import type { CodeGenOption, CodeGenOptions, CodeGenOptionValue } from '../services/codeGenService';
+import { PostmanService } from '../services/postmanService';
+import { RedactionService } from '../services/redactionService';
+import { SdkGenService } from '../services/sdkGenService';
+
+const OPTIONS_KEY = 'webpostman-codegen-options';
 
 interface CodeGeneratorProps {
   requestConfig: RequestConfig;
@@ -9,8 +16,21 @@ interface CodeGeneratorProps {
 }
 
 const CodeGenerator: React.FC<CodeGeneratorProps> = ({ requestConfig, onClose }) => {
-  const [selectedLanguage, setSelectedLanguage] = useState<'curl' | 'javascript' | 'python'>('curl');
+  const { collections, activeEnvironment } = useApp();
+  const rootCollections = collections.filter(collection => !collection.parentId);
+  const generators = CodeGenService.getGenerators();
+  const [selectedLanguage, setSelectedLanguage] = useState(() => localStorage.getItem('webpostman-codegen-language') || 'curl');
+  // Options chosen for each generator, keyed by generator id
+  const [generatorOptions, setGeneratorOptions] = useState<Record<string, CodeGenOptions>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(OPTIONS_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  });
   const [mounted, setMounted] = useState(false);
+  const [redactSecrets, setRedactSecrets] = useState(false);
+  const [sdkCollectionId, setSdkCollectionId] = useState(() => rootCollections[0]?.id ?? '');
 
   useEffect(() => {
     setMounted(true);
@@ -29,33 +49,106 @@ const CodeGenerator: React.FC<CodeGeneratorProps> = ({ requestConfig, onClose })
     }
   }, [mounted, onClose]);
   
-  const generateCode = () => {
-    switch (selectedLanguage) {
-      case 'curl':
-        return CodeGenService.generateCurl(requestConfig);
-      case 'javascript':
-        return CodeGenService.generateJavaScript(requestConfig);
-      case 'python':
-        return CodeGenService.generatePython(requestConfig);
-      default:
-        return '';
+  const generator = CodeGenService.getGenerator(selectedLanguage) ?? generators[0];
+  const options = { ...CodeGenService.defaultOptions(generator), ...generatorOptions[generator.id] };
+
+  const redaction = RedactionService.createContext();
+  const code = CodeGenService.generate(generator.id, requestConfig, {
+    options,
+    variables: activeEnvironment?.variables,
+    redaction: redactSecrets ? redaction : undefined
+  });
+  const secretCount = Object.keys(redaction.secrets).length;
+
+  const selectLanguage = (id: string) => {
+    setSelectedLanguage(id);
+    localStorage.setItem('webpostman-codegen-language', id);
+  };
+
+  const setOption = (option: CodeGenOption, value: CodeGenOptionValue) => {
+    const updated = { ...generatorOptions, [generator.id]: { ...generatorOptions[generator.id], [option.id]: value } };
+    setGeneratorOptions(updated);
+    localStorage.setItem(OPTIONS_KEY, JSON.stringify(updated));
+  };
+
+  const renderOption = (option: CodeGenOption) => {
+    const value = options[option.id];
+    switch (option.type) {
+      case 'boolean':
+        return (
+          <label key={option.id} className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={!!value}
+              onChange={(e) => setOption(option, e.target.checked)}
+              className="h-4 w-4 text-orange-600 focus:ring-orange-500 border-gray-300 rounded"
+            />
+            {option.label}
+          </label>
+        );
+      case 'number':
+        return (
+          <label key={option.id} className="flex items-center gap-2 text-sm text-slate-600">
+            {option.label}
+            <input
+              type="number"
+              min={0}
+              value={Number(value)}
+              onChange={(e) => setOption(option, Math.max(0, Number(e.target.value) || 0))}
+              className="w-20 px-2 py-1 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </label>
+        );
+      case 'select':
+        return (
+          <label key={option.id} className="flex items-center gap-2 text-sm text-slate-600">
+            {option.label}
+            <select
+              value={String(value)}
+              onChange={(e) => setOption(option, e.target.value)}
+              className="px-2 py-1 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              {option.choices?.map(choice => (
+                <option key={choice.value} value={choice.value}>{choice.label}</option>
+              ))}
+            </select>
+          </label>
+        );
     }
   };
 
   const copyToClipboard = async () => {
     try {
-      await navigator.clipboard.writeText(generateCode());
+      await navigator.clipboard.writeText(code);
       alert('Code copied to clipboard!');
     } catch (error) {
       console.error('Failed to copy to clipboard:', error);
     }
   };
 
-  const languages = [
-    { id: 'curl', label: 'cURL', icon: '🌐' },
-    { id: 'javascript', label: 'JavaScript', icon: '🟨' },
-    { id: 'python', label: 'Python', icon: '🐍' }
-  ];
+  const downloadFile = (fileName: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadSecrets = () => {
+    const { fileName, content } = PostmanService.exportSecrets(redaction.secrets, 'Snippet Secrets');
+    downloadFile(fileName, content, 'application/json');
+  };
+
+  const downloadSdk = async () => {
+    try {
+      const { fileName, content } = await SdkGenService.exportCollection(sdkCollectionId, activeEnvironment?.id);
+      downloadFile(fileName, content, 'text/plain');
+    } catch (error) {
+      console.error('Failed to generate SDK:', error);
+      alert(`Failed to generate SDK: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
 
   if (!mounted) return null;
 
@@ -102,13 +195,13 @@ const CodeGenerator: React.FC<CodeGeneratorProps> = ({ requestConfig, onClose })
             <label className="block text-sm font-medium text-slate-700 mb-4">
               Select Programming Language
             </label>
-            <div className="flex space-x-3">
-              {languages.map(lang => (
+            <div className="flex flex-wrap gap-3">
+              {generators.map(lang => (
                 <button
                   key={lang.id}
-                  onClick={() => setSelectedLanguage(lang.id as any)}
+                  onClick={() => selectLanguage(lang.id)}
                   className={`px-6 py-3 rounded-xl text-sm font-semibold transition-all duration-200 ${
-                    selectedLanguage === lang.id
+                    generator.id === lang.id
                       ? 'bg-gradient-to-r from-orange-500 to-orange-600 text-white shadow-modern'
                       : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
                   }`}
@@ -120,23 +213,84 @@ const CodeGenerator: React.FC<CodeGeneratorProps> = ({ requestConfig, onClose })
             </div>
           </div>
 
+          {/* Generator Options */}
+          {generator.options.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-4">
+                Options
+              </label>
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+                {generator.options.map(renderOption)}
+              </div>
+            </div>
+          )}
+
           {/* Generated Code */}
           <div>
             <div className="flex items-center justify-between mb-4">
               <label className="block text-sm font-medium text-slate-700">
                 Generated Code
               </label>
-              <button
-                onClick={copyToClipboard}
-                className="px-4 py-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white text-sm rounded-xl hover:from-orange-600 hover:to-orange-700 transition-all duration-200 font-semibold shadow-modern"
-              >
-                📋 Copy Code
-              </button>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={redactSecrets}
+                    onChange={(e) => setRedactSecrets(e.target.checked)}
+                    className="h-4 w-4 text-orange-600 focus:ring-orange-500 border-gray-300 rounded"
+                  />
+                  Redact secrets
+                </label>
+                {secretCount > 0 && (
+                  <button
+                    onClick={downloadSecrets}
+                    className="px-4 py-2 border border-slate-300 text-slate-700 text-sm rounded-xl hover:bg-slate-50 transition-all duration-200 font-semibold"
+                  >
+                    Download Secrets ({secretCount})
+                  </button>
+                )}
+                <button
+                  onClick={copyToClipboard}
+                  className="px-4 py-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white text-sm rounded-xl hover:from-orange-600 hover:to-orange-700 transition-all duration-200 font-semibold shadow-modern"
+                >
+                  📋 Copy Code
+                </button>
+              </div>
             </div>
             <div className="bg-slate-900 text-slate-100 rounded-xl p-6 font-mono text-sm overflow-auto max-h-96 border border-slate-700">
-              <pre className="whitespace-pre-wrap">{generateCode()}</pre>
+              <pre className={`whitespace-pre-wrap language-${generator.syntax}`}>{code}</pre>
             </div>
           </div>
+
+          {/* Collection SDK */}
+          {rootCollections.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                TypeScript SDK
+              </label>
+              <p className="text-sm text-slate-500 mb-4">
+                A typed client module with one async function per request in the collection
+              </p>
+              <div className="flex items-center gap-3">
+                <select
+                  value={sdkCollectionId}
+                  onChange={(e) => setSdkCollectionId(e.target.value)}
+                  className="px-3 py-2 border border-slate-300 rounded-xl bg-white text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                >
+                  {rootCollections.map(collection => (
+                    <option key={collection.id} value={collection.id}>{collection.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={downloadSdk}
+                  disabled={!sdkCollectionId}
+                  className="px-4 py-2 border border-slate-300 text-slate-700 text-sm rounded-xl hover:bg-slate-50 transition-all duration-200 font-semibold disabled:opacity-50"
+                >
+                  Download SDK
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="border-t border-slate-200 bg-slate-50 -m-6 p-6 mt-6 flex justify-end">
@@ -0,0 +1,474 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { useApp } from '../context/AppContext';
+import type { CollectionRun, RunResult } from '../database';
+import { RunnerService } from '../services/runnerService';
+import { HarService } from '../services/harService';
+import { DataFileService } from '../services/dataFileService';
+import type { DataRow } from '../services/dataFileService';
+
+interface CollectionRunnerProps {
+  onClose: () => void;
+}
+
+const CollectionRunner: React.FC<CollectionRunnerProps> = ({ onClose }) => {
+  const { collections, environments, activeEnvironment } = useApp();
+  // Folders run as part of their collection
+  const rootCollections = collections.filter(c => !c.parentId);
+  const [collectionId, setCollectionId] = useState(rootCollections[0]?.id || '');
+  const [environmentId, setEnvironmentId] = useState(activeEnvironment?.id || '');
+  const [iterations, setIterations] = useState(1);
+  const [delay, setDelay] = useState(0);
+  const [stopOnFailure, setStopOnFailure] = useState(false);
+  const [dataRows, setDataRows] = useState<DataRow[] | null>(null);
+  const [dataFileName, setDataFileName] = useState('');
+  const [dataError, setDataError] = useState('');
+  const [showFailedOnly, setShowFailedOnly] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<RunResult[]>([]);
+  const [pastRuns, setPastRuns] = useState<CollectionRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [mounted, setMounted] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setMounted(true);
+    loadRuns();
+  }, []);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isRunning) {
+        onClose();
+      }
+    };
+
+    if (mounted) {
+      document.addEventListener('keydown', handleEscape);
+      return () => document.removeEventListener('keydown', handleEscape);
+    }
+  }, [mounted, isRunning, onClose]);
+
+  const loadRuns = async () => {
+    try {
+      setPastRuns(await RunnerService.getRuns());
+    } catch (error) {
+      console.error('Failed to load runs:', error);
+    }
+  };
+
+  const handleDataFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const rows = DataFileService.parse(await file.text(), file.name);
+      if (rows.length === 0) {
+        throw new Error('Data file contains no rows');
+      }
+      setDataRows(rows);
+      setDataFileName(file.name);
+      setDataError('');
+    } catch (error) {
+      setDataRows(null);
+      setDataFileName('');
+      setDataError(error instanceof Error ? error.message : 'Invalid data file');
+    }
+  };
+
+  const handleClearDataFile = () => {
+    setDataRows(null);
+    setDataFileName('');
+    setDataError('');
+  };
+
+  const handleRun = async () => {
+    if (!collectionId) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setResults([]);
+    setSelectedRunId(null);
+
+    try {
+      const run = await RunnerService.runCollection(
+        {
+          collectionId,
+          environmentId: environmentId || undefined,
+          iterations: Math.max(1, iterations),
+          delay: Math.max(0, delay),
+          stopOnFailure,
+          data: dataRows || undefined,
+          dataFileName: dataFileName || undefined
+        },
+        result => setResults(prev => [...prev, result]),
+        controller.signal
+      );
+      setPastRuns(prev => [run, ...prev]);
+      setSelectedRunId(run.id);
+    } catch (error) {
+      console.error('Collection run failed:', error);
+      alert(`Run failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleDeleteRun = async (id: string) => {
+    await RunnerService.deleteRun(id);
+    setPastRuns(prev => prev.filter(run => run.id !== id));
+    if (selectedRunId === id) {
+      setSelectedRunId(null);
+      setResults([]);
+    }
+  };
+
+  const handleExportHar = async (run: CollectionRun) => {
+    const requests = await RunnerService.getCollectionRequests(run.collectionId);
+    const blob = new Blob([HarService.exportRun(run, requests)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${run.collectionName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_run.har`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSelectRun = (run: CollectionRun) => {
+    setSelectedRunId(run.id);
+    setResults(run.results);
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const passedCount = results.filter(result => result.passed).length;
+  const failedCount = results.length - passedCount;
+  const failedRows = Array.from(new Set(
+    results.filter(result => !result.passed && result.dataRow).map(result => result.iteration + 1)
+  ));
+  const visibleResults = showFailedOnly ? results.filter(result => !result.passed) : results;
+
+  if (!mounted) return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[9999]"
+      onClick={() => !isRunning && onClose()}
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 99999,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center'
+      }}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[80vh] overflow-hidden mx-4"
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '12px',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)',
+          maxWidth: '72rem',
+          width: '100%',
+          margin: '0 4rem'
+        }}
+      >
+        <div className="p-6">
+        <div className="border-b border-slate-200 bg-slate-50 -m-6 p-6 mb-6">
+          <h2 className="text-xl font-bold text-slate-800">Collection Runner</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Run every request in a collection and review the results
+          </p>
+        </div>
+
+        <div className="space-y-6 overflow-y-auto max-h-[50vh]">
+          {/* Run Configuration */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Collection</label>
+              <select
+                value={collectionId}
+                onChange={(e) => setCollectionId(e.target.value)}
+                disabled={isRunning}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+              >
+                <option value="">Choose a collection...</option>
+                {rootCollections.map(collection => (
+                  <option key={collection.id} value={collection.id}>
+                    {collection.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Environment</label>
+              <select
+                value={environmentId}
+                onChange={(e) => setEnvironmentId(e.target.value)}
+                disabled={isRunning}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+              >
+                <option value="">No Environment</option>
+                {environments.map(env => (
+                  <option key={env.id} value={env.id}>
+                    {env.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Iterations</label>
+              <input
+                type="number"
+                min={1}
+                value={dataRows ? dataRows.length : iterations}
+                onChange={(e) => setIterations(parseInt(e.target.value, 10) || 1)}
+                disabled={isRunning || !!dataRows}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Delay (ms)</label>
+              <input
+                type="number"
+                min={0}
+                value={delay}
+                onChange={(e) => setDelay(parseInt(e.target.value, 10) || 0)}
+                disabled={isRunning}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">
+              Data File (CSV or JSON array)
+            </label>
+            <div className="flex items-center space-x-3">
+              <input
+                type="file"
+                accept=".csv,.json"
+                onChange={handleDataFileChange}
+                disabled={isRunning}
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+              {dataRows && (
+                <button
+                  onClick={handleClearDataFile}
+                  disabled={isRunning}
+                  className="px-3 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-all duration-200"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {dataRows && (
+              <p className="mt-2 text-xs text-slate-500">
+                {dataFileName}: {dataRows.length} rows, one iteration per row. Columns: {Object.keys(dataRows[0]).join(', ')}
+              </p>
+            )}
+            {dataError && <p className="mt-2 text-xs text-red-600">{dataError}</p>}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="stopOnFailure"
+                checked={stopOnFailure}
+                onChange={(e) => setStopOnFailure(e.target.checked)}
+                disabled={isRunning}
+                className="h-4 w-4 text-orange-600 focus:ring-orange-500 border-gray-300 rounded"
+              />
+              <label htmlFor="stopOnFailure" className="ml-2 text-sm font-medium text-slate-700">
+                Stop on first failure
+              </label>
+            </div>
+            {isRunning ? (
+              <button
+                onClick={handleStop}
+                className="px-6 py-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-all duration-200 font-semibold"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={!collectionId}
+                className="px-6 py-3 bg-gradient-to-r from-orange-500 to-orange-600 text-white rounded-xl hover:from-orange-600 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold shadow-modern"
+              >
+                Run Collection
+              </button>
+            )}
+          </div>
+
+          {/* Results */}
+          {(isRunning || results.length > 0) && (
+            <div>
+              <div className="flex items-center space-x-4 mb-3">
+                <h3 className="text-lg font-semibold text-slate-700">Results</h3>
+                <span className="text-sm font-semibold text-green-700 bg-green-100 px-3 py-1 rounded-lg">
+                  {passedCount} passed
+                </span>
+                <span className="text-sm font-semibold text-red-700 bg-red-100 px-3 py-1 rounded-lg">
+                  {failedCount} failed
+                </span>
+                {isRunning && <span className="text-sm text-slate-500">Running...</span>}
+                <label className="flex items-center text-sm text-slate-600 ml-auto">
+                  <input
+                    type="checkbox"
+                    checked={showFailedOnly}
+                    onChange={(e) => setShowFailedOnly(e.target.checked)}
+                    className="h-4 w-4 mr-2 text-orange-600 focus:ring-orange-500 border-gray-300 rounded"
+                  />
+                  Failures only
+                </label>
+              </div>
+              {failedRows.length > 0 && (
+                <p className="text-sm text-red-700 mb-3">
+                  Failing data rows: {failedRows.join(', ')}
+                </p>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-4">#</th>
+                    <th className="py-2 pr-4">Request</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4">Time</th>
+                    <th className="py-2 pr-4">Size</th>
+                    <th className="py-2 pr-4">Tests</th>
+                    <th className="py-2">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleResults.map((result, index) => (
+                    <tr key={index} className="border-b border-slate-100 align-top">
+                      <td className="py-2 pr-4 text-slate-500">{result.iteration + 1}</td>
+                      <td className="py-2 pr-4">
+                        <div className="font-semibold text-slate-700">
+                          <span className="text-xs mr-2">{result.method}</span>
+                          {result.name}
+                        </div>
+                        {result.dataRow && (
+                          <div className="text-xs text-slate-500 break-all">
+                            {Object.entries(result.dataRow).map(([key, value]) => `${key}=${value}`).join(', ')}
+                          </div>
+                        )}
+                        {result.error && <div className="text-xs text-red-600 break-all">{result.error}</div>}
+                        {result.tests.filter(test => !test.passed).map((test, testIndex) => (
+                          <div key={testIndex} className="text-xs text-red-600 break-all">
+                            {test.name}: {test.error}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="py-2 pr-4">{result.status} {result.statusText}</td>
+                      <td className="py-2 pr-4">{result.responseTime}ms</td>
+                      <td className="py-2 pr-4">{formatSize(result.responseSize)}</td>
+                      <td className="py-2 pr-4">
+                        {result.tests.filter(test => test.passed).length}/{result.tests.length}
+                      </td>
+                      <td className="py-2">
+                        <span className={`px-2 py-1 text-xs rounded font-semibold ${
+                          result.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {result.passed ? 'PASS' : 'FAIL'}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Past Runs */}
+          <div>
+            <h3 className="text-lg font-semibold text-slate-700 mb-3">Past Runs</h3>
+            {pastRuns.length === 0 ? (
+              <p className="text-sm text-slate-500">No runs yet</p>
+            ) : (
+              <div className="space-y-2">
+                {pastRuns.map(run => (
+                  <div
+                    key={run.id}
+                    onClick={() => !isRunning && handleSelectRun(run)}
+                    className={`flex items-center justify-between p-3 rounded-xl cursor-pointer group transition-all duration-200 ${
+                      selectedRunId === run.id ? 'bg-orange-50 border border-orange-200' : 'hover:bg-slate-100'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <span className="text-sm font-semibold text-slate-700">{run.collectionName}</span>
+                      <span className="text-xs text-slate-500">{new Date(run.startedAt).toLocaleString()}</span>
+                      <span className="text-xs text-slate-500">{run.totalTime}ms</span>
+                      {run.dataFileName && (
+                        <span className="text-xs text-slate-500">{run.dataFileName}</span>
+                      )}
+                      {run.status !== 'completed' && (
+                        <span className="text-xs text-slate-500">({run.status})</span>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xs font-semibold text-green-700">{run.passed} passed</span>
+                      <span className="text-xs font-semibold text-red-700">{run.failed} failed</span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleExportHar(run);
+                        }}
+                        className="text-xs text-slate-400 hover:text-slate-700 opacity-0 group-hover:opacity-100 transition-all duration-200 px-1 rounded-lg hover:bg-slate-200"
+                        title="Export run as HAR"
+                      >
+                        HAR
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteRun(run.id);
+                        }}
+                        className="text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-all duration-200 p-1 rounded-lg hover:bg-red-50"
+                        title="Delete run"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="border-t border-slate-200 bg-slate-50 -m-6 p-6 mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            disabled={isRunning}
+            className="px-6 py-3 border border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-semibold"
+          >
+            Close
+          </button>
+        </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default CollectionRunner;
@@ -1,6 +1,18 @@
 import React, { useState } from 'react';
 import { ExportImportService } from '../services/exportImportService';
+import { GitExportService } from '../services/gitExportService';
+import { PostmanService } from '../services/postmanService';
+import { RedactionService } from '../services/redactionService';
 import PostmanImportExport from './PostmanImportExport';
+import OpenApiImportExport from './OpenApiImportExport';
+import HarImportExport from './HarImportExport';
+import InsomniaImportExport from './InsomniaImportExport';
+import HttpFileImportExport from './HttpFileImportExport';
+import BrunoImportExport from './BrunoImportExport';
+import TestExport from './TestExport';
+import LoadTestExport from './LoadTestExport';
+import MergeImport from './MergeImport';
+import PassphrasePrompt from './PassphrasePrompt';
 
 interface ExportImportDialogProps {
   onClose: () => void;
@@ -8,15 +20,31 @@ interface ExportImportDialogProps {
 }
 
 const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImportComplete }) => {
-  const [activeTab, setActiveTab] = useState<'export' | 'import' | 'curl' | 'postman'>('export');
+  const [activeTab, setActiveTab] = useState<'export' | 'import' | 'curl' | 'postman' | 'insomnia' | 'bruno' | 'openapi' | 'har' | 'http' | 'tests' | 'load'>('export');
   const [isLoading, setIsLoading] = useState(false);
   const [curlText, setCurlText] = useState('');
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [redactExport, setRedactExport] = useState(false);
+  const [redactedSecrets, setRedactedSecrets] = useState<Record<string, string> | null>(null);
+  const [passphraseRequest, setPassphraseRequest] = useState<((passphrase: string | null) => void) | null>(null);
+
+  // Importing an encrypted file pauses until the prompt is answered
+  const requestPassphrase = () => new Promise<string | null>(resolve => setPassphraseRequest(() => resolve));
 
   const handleExport = async () => {
+    if (encryptExport && (!exportPassphrase || exportPassphrase !== confirmPassphrase)) {
+      alert(exportPassphrase ? 'The passphrases do not match.' : 'Please enter a passphrase.');
+      return;
+    }
+
     setIsLoading(true);
     try {
-      await ExportImportService.exportToFile();
-      alert('Data exported successfully!');
+      const redaction = redactExport ? RedactionService.createContext() : undefined;
+      await ExportImportService.exportToFile({ passphrase: encryptExport ? exportPassphrase : undefined, redaction });
+      showExportResult(redaction?.secrets);
     } catch (error) {
       console.error('Export failed:', error);
       alert('Export failed. Please try again.');
@@ -28,13 +56,63 @@ const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImpo
   const handleImport = async () => {
     setIsLoading(true);
     try {
-      await ExportImportService.importFromFile();
+      await ExportImportService.importFromFile(requestPassphrase);
       alert('Data imported successfully!');
       onImportComplete();
       onClose();
     } catch (error) {
       console.error('Import failed:', error);
-      alert('Import failed. Please check the file format.');
+      alert(`Import failed: ${error instanceof Error ? error.message : 'Please check the file format.'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Redacted secrets stay available until the next export so they can be saved separately
+  const showExportResult = (secrets?: Record<string, string>) => {
+    const count = secrets ? Object.keys(secrets).length : 0;
+    setRedactedSecrets(count > 0 ? secrets! : null);
+    alert(count > 0
+      ? `Data exported successfully with ${count} secret${count === 1 ? '' : 's'} replaced by placeholders.`
+      : 'Data exported successfully!');
+  };
+
+  const handleSecretsExport = () => {
+    if (!redactedSecrets) return;
+
+    const { fileName, content } = PostmanService.exportSecrets(redactedSecrets, 'WebPostman Secrets');
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleGitExport = async () => {
+    setIsLoading(true);
+    try {
+      const redaction = redactExport ? RedactionService.createContext() : undefined;
+      await GitExportService.exportToZip(redaction);
+      showExportResult(redaction?.secrets);
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Export failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGitImport = async () => {
+    setIsLoading(true);
+    try {
+      await GitExportService.importFromZip();
+      alert('Data imported successfully!');
+      onImportComplete();
+      onClose();
+    } catch (error) {
+      console.error('Import failed:', error);
+      alert(`Import failed: ${error instanceof Error ? error.message : 'Please check the file format.'}`);
     } finally {
       setIsLoading(false);
     }
@@ -42,15 +120,15 @@ const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImpo
 
   const handleCurlImport = async () => {
     if (!curlText.trim()) {
-      alert('Please enter cURL commands');
+      alert('Please enter commands to import');
       return;
     }
 
     setIsLoading(true);
     try {
-      const requests = ExportImportService.generateCurlImport(curlText);
+      const { requests, ignored } = ExportImportService.generateCurlImport(curlText);
       if (requests.length === 0) {
-        alert('No valid cURL commands found');
+        alert('No cURL, fetch, PowerShell or HTTPie commands found');
         return;
       }
 
@@ -58,7 +136,10 @@ const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImpo
       const { db } = await import('../database');
       await db.requests.bulkAdd(requests);
       
-      alert(`${requests.length} requests imported successfully!`);
+      alert(
+        `${requests.length} requests imported successfully!` +
+        (ignored.length > 0 ? `\n\nIgnored options:\n${ignored.map(option => `• ${option}`).join('\n')}` : '')
+      );
       onImportComplete();
       onClose();
     } catch (error) {
@@ -73,7 +154,14 @@ const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImpo
     { id: 'export', label: 'Export', icon: '📤' },
     { id: 'import', label: 'Import', icon: '📥' },
     { id: 'curl', label: 'cURL', icon: '🌐' },
-    { id: 'postman', label: 'Postman', icon: '🚀' }
+    { id: 'postman', label: 'Postman', icon: '🚀' },
+    { id: 'insomnia', label: 'Insomnia', icon: '🌙' },
+    { id: 'bruno', label: 'Bruno', icon: '🐶' },
+    { id: 'openapi', label: 'OpenAPI', icon: '📘' },
+    { id: 'har', label: 'HAR', icon: '🗂️' },
+    { id: 'http', label: '.http', icon: '📄' },
+    { id: 'tests', label: 'Tests', icon: '🧪' },
+    { id: 'load', label: 'Load Tests', icon: '📈' }
   ];
 
   return (
@@ -138,15 +226,78 @@ const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImpo
                 <div className="text-4xl mb-4">📤</div>
                 <h3 className="text-lg font-medium text-gray-800 mb-2">Export Data</h3>
                 <p className="text-gray-600 mb-6">
-                  Export all your collections, requests, and environments to a JSON file.
+                  Export all your collections, requests, and environments to a JSON file,
+                  or to a zip with one YAML file per request that diffs cleanly in git.
                 </p>
-                <button
-                  onClick={handleExport}
-                  disabled={isLoading}
-                  className="px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isLoading ? 'Exporting...' : 'Export Data'}
-                </button>
+                <div className="max-w-sm mx-auto mb-6 space-y-2 text-left">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={redactExport}
+                      onChange={(e) => setRedactExport(e.target.checked)}
+                    />
+                    Replace secrets with placeholders
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={encryptExport}
+                      onChange={(e) => setEncryptExport(e.target.checked)}
+                    />
+                    Encrypt the JSON export with a passphrase
+                  </label>
+                  {encryptExport && (
+                    <>
+                      <input
+                        type="password"
+                        value={exportPassphrase}
+                        onChange={(e) => setExportPassphrase(e.target.value)}
+                        placeholder="Passphrase"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <input
+                        type="password"
+                        value={confirmPassphrase}
+                        onChange={(e) => setConfirmPassphrase(e.target.value)}
+                        placeholder="Confirm passphrase"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="text-xs text-gray-500">
+                        The passphrase cannot be recovered; without it the export cannot be imported.
+                      </p>
+                    </>
+                  )}
+                </div>
+                <div className="flex justify-center gap-3">
+                  <button
+                    onClick={handleExport}
+                    disabled={isLoading}
+                    className="px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoading ? 'Exporting...' : 'Export Data'}
+                  </button>
+                  <button
+                    onClick={handleGitExport}
+                    disabled={isLoading || encryptExport}
+                    title={encryptExport ? 'The git-friendly zip is not encrypted' : undefined}
+                    className="px-6 py-3 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Export Git-friendly Zip
+                  </button>
+                </div>
+                {redactedSecrets && (
+                  <div className="mt-4">
+                    <button
+                      onClick={handleSecretsExport}
+                      className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                    >
+                      Export Secrets Environment ({Object.keys(redactedSecrets).length})
+                    </button>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Keep this file private; importing it as an environment fills in the placeholders.
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -156,19 +307,53 @@ const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImpo
               <div className="text-center">
                 <div className="text-4xl mb-4">📥</div>
                 <h3 className="text-lg font-medium text-gray-800 mb-2">Import Data</h3>
-                <p className="text-gray-600 mb-6">
-                  Import collections, requests, and environments from a JSON file.
-                  <br />
-                  <strong className="text-red-600">Warning: This will replace all existing data!</strong>
+                <p className="text-gray-600 mb-4">
+                  Import collections, requests, and environments from a JSON file, an encrypted JSON export or a git-friendly zip.
                 </p>
-                <button
-                  onClick={handleImport}
-                  disabled={isLoading}
-                  className="px-6 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isLoading ? 'Importing...' : 'Import Data'}
-                </button>
+                <div className="inline-flex rounded-md border border-gray-300 overflow-hidden mb-2">
+                  <button
+                    onClick={() => setImportMode('merge')}
+                    className={`px-4 py-2 text-sm ${importMode === 'merge' ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    Merge into my data
+                  </button>
+                  <button
+                    onClick={() => setImportMode('replace')}
+                    className={`px-4 py-2 text-sm ${importMode === 'replace' ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    Replace all data
+                  </button>
+                </div>
               </div>
+
+              {importMode === 'merge' ? (
+                <MergeImport
+                  requestPassphrase={requestPassphrase}
+                  onImportComplete={() => { onImportComplete(); onClose(); }}
+                />
+              ) : (
+                <div className="text-center">
+                  <p className="text-gray-600 mb-6">
+                    <strong className="text-red-600">Warning: This will replace all existing data!</strong>
+                  </p>
+                  <div className="flex justify-center gap-3">
+                    <button
+                      onClick={handleImport}
+                      disabled={isLoading}
+                      className="px-6 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isLoading ? 'Importing...' : 'Import Data'}
+                    </button>
+                    <button
+                      onClick={handleGitImport}
+                      disabled={isLoading}
+                      className="px-6 py-3 border border-green-600 text-green-600 rounded-md hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Import Git-friendly Zip
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -178,13 +363,13 @@ const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImpo
                 <div className="text-4xl mb-4">🌐</div>
                 <h3 className="text-lg font-medium text-gray-800 mb-2">Import cURL Commands</h3>
                 <p className="text-gray-600">
-                  Paste cURL commands to import them as requests.
+                  Paste cURL commands, or requests copied as fetch, Node.js fetch, PowerShell or HTTPie, to import them as requests.
                 </p>
               </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  cURL Commands
+                  Commands
                 </label>
                 <textarea
                   value={curlText}
@@ -214,9 +399,62 @@ const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImpo
               }}
             />
           )}
+
+          {activeTab === 'insomnia' && (
+            <InsomniaImportExport
+              onClose={() => {
+                onImportComplete();
+                onClose();
+              }}
+            />
+          )}
+
+          {activeTab === 'bruno' && (
+            <BrunoImportExport
+              onClose={() => {
+                onImportComplete();
+                onClose();
+              }}
+            />
+          )}
+
+          {activeTab === 'openapi' && (
+            <OpenApiImportExport
+              onClose={() => {
+                onImportComplete();
+                onClose();
+              }}
+            />
+          )}
+
+          {activeTab === 'har' && (
+            <HarImportExport
+              onClose={() => {
+                onImportComplete();
+                onClose();
+              }}
+            />
+          )}
+
+          {activeTab === 'http' && (
+            <HttpFileImportExport
+              onClose={() => {
+                onImportComplete();
+                onClose();
+              }}
+            />
+          )}
+
+          {activeTab === 'tests' && (
+            <TestExport onClose={onClose} />
+          )}
+
+          {activeTab === 'load' && (
+            <LoadTestExport onClose={onClose} />
+          )}
         </div>
 
-        {activeTab !== 'postman' && (
+        {!['postman', 'insomnia', 'bruno', 'openapi', 'har', 'http', 'tests', 'load'].includes(activeTab) && (
           <div className="border-t border-slate-200 bg-slate-50 -m-6 p-6 mt-6 flex justify-end">
             <button
               onClick={onClose}
@@ -228,6 +466,15 @@ const ExportImportDialog: React.FC<ExportImportDialogProps> = ({ onClose, onImpo
         )}
         </div>
       </div>
+
+      {passphraseRequest && (
+        <PassphrasePrompt
+          onSubmit={(passphrase) => {
+            passphraseRequest(passphrase);
+            setPassphraseRequest(null);
+          }}
+        />
+      )}
     </div>
   );
 };
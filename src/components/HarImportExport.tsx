@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { HarService } from '../services/harService';
+import { CollectionService } from '../services/collectionService';
+import type { ImportSummary } from '../types';
+
+interface HarImportExportProps {
+  onClose: () => void;
+  onImportComplete?: () => void;
+}
+
+const HarImportExport: React.FC<HarImportExportProps> = ({ onClose, onImportComplete }) => {
+  const { history, activeEnvironment } = useApp();
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importStatus, setImportStatus] = useState<string>('');
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [hasImported, setHasImported] = useState(false);
+  const [selectedHistoryIds, setSelectedHistoryIds] = useState<string[]>([]);
+
+  // Imports write straight to the database, so the app needs a refresh afterwards
+  const handleClose = () => {
+    if (hasImported && onImportComplete) {
+      onImportComplete();
+    } else {
+      onClose();
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && /\.(har|json)$/i.test(file.name)) {
+      setImportFile(file);
+      setImportStatus('');
+      setImportSummary(null);
+    } else {
+      setImportStatus('Please select a HAR file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile) {
+      setImportStatus('Please select a file to import');
+      return;
+    }
+
+    try {
+      const result = await HarService.importHar(JSON.parse(await importFile.text()));
+      await CollectionService.saveImport(result);
+
+      const { summary } = result;
+      setHasImported(true);
+      setImportSummary(summary);
+      setImportStatus(
+        `Successfully imported "${result.collections[0].name}" with ${summary.requests} requests and ${summary.examples} responses`
+      );
+    } catch (error) {
+      setImportStatus(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const toggleHistoryEntry = (id: string) => {
+    setSelectedHistoryIds(prev => (prev.includes(id) ? prev.filter(entryId => entryId !== id) : [...prev, id]));
+  };
+
+  const handleExport = () => {
+    const entries = history.filter(entry => selectedHistoryIds.includes(entry.id));
+    if (entries.length === 0) {
+      setImportStatus('Please select history entries to export');
+      return;
+    }
+
+    const har = HarService.exportHistory(entries, activeEnvironment?.variables);
+    const blob = new Blob([har], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `webpostman-history-${new Date().toISOString().split('T')[0]}.har`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    setImportStatus(`Successfully exported ${entries.length} history entries`);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-800">HAR Import/Export</h2>
+        <button
+          onClick={handleClose}
+          className="text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Import Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Import HAR File</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select HAR 1.2 File (e.g. saved from browser DevTools)
+            </label>
+            <input
+              type="file"
+              accept=".har,.json"
+              onChange={handleFileChange}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <button
+            onClick={handleImport}
+            disabled={!importFile}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Import HAR
+          </button>
+        </div>
+      </div>
+
+      {/* Export Section */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-slate-700">Export History as HAR</h3>
+          <button
+            onClick={() => setSelectedHistoryIds(
+              selectedHistoryIds.length === history.length ? [] : history.map(entry => entry.id)
+            )}
+            disabled={history.length === 0}
+            className="text-sm text-slate-600 hover:text-slate-800 disabled:opacity-50"
+          >
+            {selectedHistoryIds.length === history.length && history.length > 0 ? 'Select none' : 'Select all'}
+          </button>
+        </div>
+        <div className="space-y-3">
+          <div className="max-h-40 overflow-y-auto border border-slate-300 rounded-lg divide-y divide-slate-100">
+            {history.length === 0 && (
+              <p className="px-3 py-2 text-sm text-slate-500">No history yet</p>
+            )}
+            {history.map(entry => (
+              <label key={entry.id} className="flex items-center gap-2 px-3 py-2 text-sm text-slate-700 cursor-pointer hover:bg-slate-50">
+                <input
+                  type="checkbox"
+                  checked={selectedHistoryIds.includes(entry.id)}
+                  onChange={() => toggleHistoryEntry(entry.id)}
+                />
+                <span className="font-semibold">{entry.method}</span>
+                <span className="truncate flex-1">{entry.url}</span>
+                {entry.status !== undefined && <span className="text-xs text-slate-500">{entry.status}</span>}
+                <span className="text-xs text-slate-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={selectedHistoryIds.length === 0}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Export HAR
+          </button>
+        </div>
+      </div>
+
+      {/* Status Message */}
+      {importStatus && (
+        <div className={`p-3 rounded-lg ${
+          importStatus.includes('Successfully')
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {importStatus}
+        </div>
+      )}
+
+      {/* Import Summary */}
+      {importSummary && importSummary.skipped.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200">
+          <h4 className="font-semibold mb-2">Skipped during import ({importSummary.skipped.length})</h4>
+          <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+            {importSummary.skipped.map((message, index) => (
+              <li key={index}>• {message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Instructions */}
+      <div className="bg-slate-50 p-4 rounded-lg">
+        <h4 className="font-semibold text-slate-700 mb-2">Instructions</h4>
+        <ul className="text-sm text-slate-600 space-y-1">
+          <li>• <strong>Import:</strong> Each captured request becomes a request in a new collection; captured responses are saved as examples</li>
+          <li>• <strong>Export:</strong> Selected history entries are resolved with the active environment and exported with their status and timing</li>
+          <li>• <strong>Runner:</strong> Collection run results can be exported as HAR from the Collection Runner</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default HarImportExport;
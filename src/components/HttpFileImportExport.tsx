@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { HttpFileService } from '../services/httpFileService';
+import { CollectionService } from '../services/collectionService';
+import type { ImportSummary } from '../types';
+
+interface HttpFileImportExportProps {
+  onClose: () => void;
+  onImportComplete?: () => void;
+}
+
+const HttpFileImportExport: React.FC<HttpFileImportExportProps> = ({ onClose, onImportComplete }) => {
+  const { collections } = useApp();
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importStatus, setImportStatus] = useState<string>('');
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [hasImported, setHasImported] = useState(false);
+  const [exportCollectionId, setExportCollectionId] = useState<string>('');
+
+  // Imports write straight to the database, so the app needs a refresh afterwards
+  const handleClose = () => {
+    if (hasImported && onImportComplete) {
+      onImportComplete();
+    } else {
+      onClose();
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && /\.(http|rest)$/i.test(file.name)) {
+      setImportFile(file);
+      setImportStatus('');
+      setImportSummary(null);
+    } else {
+      setImportStatus('Please select a .http or .rest file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile) {
+      setImportStatus('Please select a file to import');
+      return;
+    }
+
+    try {
+      const result = await HttpFileService.importHttpFile(await importFile.text(), importFile.name);
+      await CollectionService.saveImport(result);
+
+      const { summary } = result;
+      setHasImported(true);
+      setImportSummary(summary);
+      setImportStatus(
+        `Successfully imported "${result.collections[0].name}" with ${summary.requests} requests and ${summary.variables} variables`
+      );
+    } catch (error) {
+      setImportStatus(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!exportCollectionId) {
+      setImportStatus('Please select a collection to export');
+      return;
+    }
+
+    try {
+      const { fileName, content } = await HttpFileService.exportCollection(exportCollectionId);
+      const blob = new Blob([content], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setImportStatus(`Successfully exported ${fileName}`);
+    } catch (error) {
+      setImportStatus(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-800">.http File Import/Export</h2>
+        <button
+          onClick={handleClose}
+          className="text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Import Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Import .http File</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select a VS Code REST Client or JetBrains HTTP Client File
+            </label>
+            <input
+              type="file"
+              accept=".http,.rest"
+              onChange={handleFileChange}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <button
+            onClick={handleImport}
+            disabled={!importFile}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Import File
+          </button>
+        </div>
+      </div>
+
+      {/* Export Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Export Collection as .http File</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select Collection to Export
+            </label>
+            <select
+              value={exportCollectionId}
+              onChange={(e) => setExportCollectionId(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">Choose a collection...</option>
+              {collections.filter(c => !c.parentId).map(collection => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={!exportCollectionId}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Export File
+          </button>
+        </div>
+      </div>
+
+      {/* Status Message */}
+      {importStatus && (
+        <div className={`p-3 rounded-lg ${
+          importStatus.includes('Successfully')
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {importStatus}
+        </div>
+      )}
+
+      {/* Import Summary */}
+      {importSummary && importSummary.skipped.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200">
+          <h4 className="font-semibold mb-2">Skipped during import ({importSummary.skipped.length})</h4>
+          <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+            {importSummary.skipped.map((message, index) => (
+              <li key={index}>• {message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Instructions */}
+      <div className="bg-slate-50 p-4 rounded-lg">
+        <h4 className="font-semibold text-slate-700 mb-2">Instructions</h4>
+        <ul className="text-sm text-slate-600 space-y-1">
+          <li>• <strong>Requests:</strong> Each block separated by <code>###</code> becomes a request, named by its title or <code># @name</code></li>
+          <li>• <strong>Variables:</strong> <code>@name = value</code> declarations become collection variables</li>
+          <li>• <strong>Auth:</strong> Bearer and Basic <code>Authorization</code> headers become request auth</li>
+          <li>• <strong>Export:</strong> Folder names prefix the request titles and are recreated on import; scripts are not exported</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default HttpFileImportExport;
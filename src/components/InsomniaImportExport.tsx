@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { InsomniaService } from '../services/insomniaService';
+import type { InsomniaFormat } from '../services/insomniaService';
+import { CollectionService } from '../services/collectionService';
+import type { ImportSummary } from '../types';
+
+interface InsomniaImportExportProps {
+  onClose: () => void;
+  onImportComplete?: () => void;
+}
+
+const InsomniaImportExport: React.FC<InsomniaImportExportProps> = ({ onClose, onImportComplete }) => {
+  const { collections, environments, activeEnvironment } = useApp();
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importStatus, setImportStatus] = useState<string>('');
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [hasImported, setHasImported] = useState(false);
+  const [exportCollectionId, setExportCollectionId] = useState<string>('');
+  const [exportEnvironmentIds, setExportEnvironmentIds] = useState<string[]>(activeEnvironment ? [activeEnvironment.id] : []);
+  const [exportFormat, setExportFormat] = useState<InsomniaFormat>('json');
+
+  // Imports write straight to the database, so the app needs a refresh afterwards
+  const handleClose = () => {
+    if (hasImported && onImportComplete) {
+      onImportComplete();
+    } else {
+      onClose();
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && /\.(json|ya?ml)$/i.test(file.name)) {
+      setImportFile(file);
+      setImportStatus('');
+      setImportSummary(null);
+    } else {
+      setImportStatus('Please select a JSON or YAML file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile) {
+      setImportStatus('Please select a file to import');
+      return;
+    }
+
+    try {
+      const data = InsomniaService.parse(await importFile.text());
+      const result = await InsomniaService.importExport(data);
+      await CollectionService.saveImport(result);
+
+      const { summary } = result;
+      const workspaces = result.collections.filter(collection => !collection.parentId);
+      setHasImported(true);
+      setImportSummary(summary);
+      setImportStatus(
+        `Successfully imported ${workspaces.map(workspace => `"${workspace.name}"`).join(', ')} with ` +
+        `${summary.requests} requests and ${result.environments.length} environments`
+      );
+    } catch (error) {
+      setImportStatus(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const toggleEnvironment = (id: string) => {
+    setExportEnvironmentIds(prev => (prev.includes(id) ? prev.filter(environmentId => environmentId !== id) : [...prev, id]));
+  };
+
+  const handleExport = async () => {
+    if (!exportCollectionId) {
+      setImportStatus('Please select a collection to export');
+      return;
+    }
+
+    try {
+      const { fileName, content } = await InsomniaService.exportCollection(exportCollectionId, exportFormat, exportEnvironmentIds);
+      const blob = new Blob([content], { type: exportFormat === 'yaml' ? 'application/yaml' : 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setImportStatus(`Successfully exported ${fileName}`);
+    } catch (error) {
+      setImportStatus(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-800">Insomnia Import/Export</h2>
+        <button
+          onClick={handleClose}
+          className="text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Import Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Import Insomnia Export</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select Insomnia v4 Export (JSON or YAML)
+            </label>
+            <input
+              type="file"
+              accept=".json,.yaml,.yml"
+              onChange={handleFileChange}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <button
+            onClick={handleImport}
+            disabled={!importFile}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Import Workspace
+          </button>
+        </div>
+      </div>
+
+      {/* Export Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Export Collection to Insomnia</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select Collection to Export
+            </label>
+            <select
+              value={exportCollectionId}
+              onChange={(e) => setExportCollectionId(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">Choose a collection...</option>
+              {collections.filter(c => !c.parentId).map(collection => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Environments to Include as Sub-Environments
+            </label>
+            <div className="max-h-32 overflow-y-auto border border-slate-300 rounded-lg divide-y divide-slate-100">
+              {environments.length === 0 && (
+                <p className="px-3 py-2 text-sm text-slate-500">No environments</p>
+              )}
+              {environments.map(environment => (
+                <label key={environment.id} className="flex items-center gap-2 px-3 py-2 text-sm text-slate-700 cursor-pointer hover:bg-slate-50">
+                  <input
+                    type="checkbox"
+                    checked={exportEnvironmentIds.includes(environment.id)}
+                    onChange={() => toggleEnvironment(environment.id)}
+                  />
+                  {environment.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as InsomniaFormat)}
+              className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="json">JSON</option>
+              <option value="yaml">YAML</option>
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={!exportCollectionId}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Export Workspace
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Status Message */}
+      {importStatus && (
+        <div className={`p-3 rounded-lg ${
+          importStatus.includes('Successfully')
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {importStatus}
+        </div>
+      )}
+
+      {/* Import Summary */}
+      {importSummary && importSummary.skipped.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200">
+          <h4 className="font-semibold mb-2">Skipped during import ({importSummary.skipped.length})</h4>
+          <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+            {importSummary.skipped.map((message, index) => (
+              <li key={index}>• {message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Instructions */}
+      <div className="bg-slate-50 p-4 rounded-lg">
+        <h4 className="font-semibold text-slate-700 mb-2">Instructions</h4>
+        <ul className="text-sm text-slate-600 space-y-1">
+          <li>• <strong>Structure:</strong> Each workspace becomes a collection and request groups become folders</li>
+          <li>• <strong>Environments:</strong> The base environment becomes collection variables; each sub-environment becomes an environment</li>
+          <li>• <strong>Templates:</strong> <code>{'{{ _.name }}'}</code> becomes <code>{'{{name}}'}</code>; prompt tags become variables and other tags are kept as text</li>
+          <li>• <strong>Export:</strong> Collection variables are written to the base environment and the selected environments as sub-environments</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default InsomniaImportExport;
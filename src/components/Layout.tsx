@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { AppProvider, useApp } from '../context/AppContext';
 import { HttpService } from '../services/httpService';
+import { ScriptService } from '../services/scriptService';
+import { RunEngine } from '../services/runEngine';
+import { RequestService } from '../services/collectionService';
+import type { RequestConfig, ScriptResult } from '../types';
 import Sidebar from './Sidebar';
 import TopBar from './TopBar';
 import RequestBuilder from './RequestBuilder';
@@ -10,8 +14,9 @@ import SSEClient from './SSEClient';
 import ResizablePanel from './ResizablePanel';
 
 const LayoutContent: React.FC = () => {
-  const { tabs, activeTabId, createTab, closeTab, selectTab, addToHistory, activeEnvironment, initialRequestData, clearInitialRequestData } = useApp();
+  const { tabs, activeTabId, createTab, closeTab, selectTab, addToHistory, collections, requests, activeEnvironment, updateEnvironment, updateRequest, initialRequestData, clearInitialRequestData } = useApp();
   const [response, setResponse] = useState<any>(null);
+  const [scriptResult, setScriptResult] = useState<ScriptResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [getCurrentRequestConfig, setGetCurrentRequestConfig] = useState<((config: any) => void) | null>(null);
   const [sidebarWidth, setSidebarWidth] = useState(() => {
@@ -73,36 +78,85 @@ const LayoutContent: React.FC = () => {
     selectTab(tabId);
   };
 
-  const handleSendRequest = async (requestConfig: any) => {
+  const handleSendRequest = async (builderConfig: RequestConfig, requestId?: string) => {
     setIsLoading(true);
+    setScriptResult(null);
     try {
-      // Interpolate variables if active environment exists
-      let processedConfig = { ...requestConfig };
-      if (activeEnvironment) {
-        processedConfig.url = HttpService.interpolateVariables(requestConfig.url, activeEnvironment.variables);
-        processedConfig.body = requestConfig.body ? HttpService.interpolateVariables(requestConfig.body, activeEnvironment.variables) : undefined;
-        
-        // Interpolate headers
-        const processedHeaders: Record<string, string> = {};
-        Object.entries(requestConfig.headers).forEach(([key, value]) => {
-          processedHeaders[key] = HttpService.interpolateVariables(value as string, activeEnvironment.variables);
+      // A saved request inherits variables, auth and scripts from its collection chain, like in the runner
+      const saved = requestId ? requests.find(request => request.id === requestId) : undefined;
+      const collectionId = saved?.collectionId ?? saved?.folderId;
+      const chain = collectionId ? RunEngine.getChain(collectionId, collections) : [];
+      const requestConfig = RunEngine.inherit(builderConfig, chain);
+      const environmentVariables = activeEnvironment?.variables || {};
+      const initialVariables = {
+        ...(collectionId ? RunEngine.collectVariables(collectionId, collections) : {}),
+        ...environmentVariables
+      };
+
+      // Run the pre-request script so it can adjust the request and variables
+      const preRequest = await ScriptService.runPreRequestScript(
+        requestConfig.preRequestScript || '',
+        requestConfig,
+        initialVariables
+      );
+      const variables = preRequest.variables;
+
+      // A failing pre-request script may have left the request half-prepared, so it is not sent
+      if (preRequest.error) {
+        setScriptResult(preRequest);
+        setResponse({
+          status: 0,
+          statusText: 'Pre-request script failed',
+          headers: {},
+          body: `Request not sent: ${preRequest.error}`,
+          responseTime: 0,
+          responseSize: 0
         });
-        processedConfig.headers = processedHeaders;
+        return;
       }
 
+      // Interpolate variables from the (possibly script-updated) environment
+      const processedConfig = HttpService.interpolateRequest(preRequest.request, variables);
+
       const response = await HttpService.sendRequest(processedConfig);
       setResponse(response);
+      if (saved && response.status > 0) {
+        await RequestService.saveLastResponse(saved.id, response);
+      }
+
+      // Run the test script against the response
+      const testRun = await ScriptService.runTestScript(
+        requestConfig.testScript || '',
+        processedConfig,
+        response,
+        variables
+      );
+
+      if (requestConfig.preRequestScript?.trim() || requestConfig.testScript?.trim()) {
+        setScriptResult({
+          ...testRun,
+          logs: [...preRequest.logs, ...testRun.logs]
+        });
+      }
+
+      // Persist variables set or unset by scripts; collection values stay out of the environment unless changed
+      const changed = Object.entries(testRun.variables).filter(([key, value]) => initialVariables[key] !== value);
+      const removed = Object.keys(initialVariables).filter(key => !(key in testRun.variables));
+      if (activeEnvironment && (changed.length > 0 || removed.length > 0)) {
+        const variables = Object.fromEntries(Object.entries(environmentVariables).filter(([key]) => !removed.includes(key)));
+        await updateEnvironment(activeEnvironment.id, { variables: { ...variables, ...Object.fromEntries(changed) } });
+      }
       
       // Add to history
       await addToHistory({
-        name: requestConfig.url,
-        method: requestConfig.method,
-        url: requestConfig.url,
-        headers: requestConfig.headers,
-        params: requestConfig.params,
-        body: requestConfig.body,
-        bodyType: requestConfig.bodyType,
-        auth: requestConfig.auth,
+        name: builderConfig.url,
+        method: builderConfig.method,
+        url: builderConfig.url,
+        headers: builderConfig.headers,
+        params: builderConfig.params,
+        body: builderConfig.body,
+        bodyType: builderConfig.bodyType,
+        auth: builderConfig.auth,
         status: response.status,
         statusText: response.statusText,
         responseTime: response.responseTime,
@@ -123,6 +177,20 @@ const LayoutContent: React.FC = () => {
     }
   };
 
+  const handleSaveRequest = async (requestId: string, requestConfig: RequestConfig) => {
+    await updateRequest(requestId, {
+      method: requestConfig.method,
+      url: requestConfig.url,
+      headers: requestConfig.headers,
+      params: requestConfig.params,
+      body: requestConfig.body,
+      bodyType: requestConfig.bodyType,
+      auth: requestConfig.auth,
+      preRequestScript: requestConfig.preRequestScript,
+      testScript: requestConfig.testScript
+    });
+  };
+
   return (
     <div className="flex h-screen bg-slate-50">
       {/* Resizable Sidebar */}
@@ -164,6 +232,7 @@ const LayoutContent: React.FC = () => {
                   <RequestBuilder
                     tab={activeTab}
                     onSendRequest={handleSendRequest}
+                    onSaveRequest={handleSaveRequest}
                     isLoading={isLoading}
                     onGetRequestConfig={getCurrentRequestConfig}
                     initialData={initialRequestData}
@@ -190,7 +259,7 @@ const LayoutContent: React.FC = () => {
               resizeHandle="left"
             >
               <div className="h-full border-l border-slate-200 bg-slate-50/50">
-                <ResponseViewer response={response} />
+                <ResponseViewer response={response} scriptResult={scriptResult} />
               </div>
             </ResizablePanel>
           )}
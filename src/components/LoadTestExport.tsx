@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { LoadTestExportService, DEFAULT_STAGES } from '../services/loadTestExportService';
+import type { LoadStage, LoadTestFormat } from '../services/loadTestExportService';
+
+interface LoadTestExportProps {
+  onClose: () => void;
+}
+
+const LoadTestExport: React.FC<LoadTestExportProps> = ({ onClose }) => {
+  const { collections, environments, activeEnvironment } = useApp();
+  const [exportCollectionId, setExportCollectionId] = useState<string>('');
+  const [environmentId, setEnvironmentId] = useState<string>(activeEnvironment?.id ?? '');
+  const [format, setFormat] = useState<LoadTestFormat>('k6');
+  const [stages, setStages] = useState<LoadStage[]>(DEFAULT_STAGES);
+  const [exportStatus, setExportStatus] = useState<string>('');
+
+  const updateStage = (index: number, updates: Partial<LoadStage>) => {
+    setStages(stages.map((stage, i) => (i === index ? { ...stage, ...updates } : stage)));
+  };
+
+  const handleExport = async () => {
+    if (!exportCollectionId) {
+      setExportStatus('Please select a collection to export');
+      return;
+    }
+    if (stages.length === 0 || stages.some(stage => stage.duration <= 0)) {
+      setExportStatus('Every stage needs a duration of at least one second');
+      return;
+    }
+
+    try {
+      const { fileName, content } = await LoadTestExportService.exportCollection(
+        exportCollectionId,
+        format,
+        environmentId || undefined,
+        stages
+      );
+      const blob = new Blob([content], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setExportStatus(`Successfully exported ${fileName}`);
+    } catch (error) {
+      setExportStatus(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-800">Load Test Export</h2>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Export Collection as a Load Test</h3>
+        <p className="text-sm text-slate-500">
+          Every request runs once per iteration and is checked against the status of its last saved response.
+          Variables come from the collection and the chosen environment; secrets are left to be passed on the command line.
+        </p>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select Collection to Export
+            </label>
+            <select
+              value={exportCollectionId}
+              onChange={(e) => setExportCollectionId(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">Choose a collection...</option>
+              {collections.filter(c => !c.parentId).map(collection => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Environment
+            </label>
+            <select
+              value={environmentId}
+              onChange={(e) => setEnvironmentId(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">No environment</option>
+              {environments.map(environment => (
+                <option key={environment.id} value={environment.id}>
+                  {environment.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Format
+            </label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as LoadTestFormat)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="k6">k6 (JavaScript)</option>
+              <option value="artillery">Artillery (YAML)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Stages
+            </label>
+            <div className="space-y-2">
+              {stages.map((stage, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm text-slate-600">
+                  <span>Ramp to</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={stage.target}
+                    onChange={(e) => updateStage(index, { target: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-20 px-2 py-1 border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  />
+                  <span>{format === 'artillery' ? 'new users per second over' : 'users over'}</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={stage.duration}
+                    onChange={(e) => updateStage(index, { duration: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-20 px-2 py-1 border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  />
+                  <span>seconds</span>
+                  <button
+                    onClick={() => setStages(stages.filter((_, i) => i !== index))}
+                    className="text-slate-400 hover:text-red-600 transition-colors"
+                    title="Remove stage"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setStages([...stages, { duration: 30, target: stages[stages.length - 1]?.target ?? 10 }])}
+                className="text-sm text-orange-600 hover:text-orange-700"
+              >
+                + Add stage
+              </button>
+            </div>
+            {format === 'artillery' && (
+              <p className="text-xs text-slate-500 mt-2">
+                Artillery targets are arrival rates: how many users start each second, not how many run at once.
+              </p>
+            )}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={!exportCollectionId}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Export Load Test
+          </button>
+        </div>
+      </div>
+
+      {/* Status Message */}
+      {exportStatus && (
+        <div className={`p-3 rounded-lg ${
+          exportStatus.includes('Successfully')
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {exportStatus}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoadTestExport;
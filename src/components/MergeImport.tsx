@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { MergeImportService } from '../services/mergeImportService';
+import type { ConflictResolution, MergeItem, MergeStatus } from '../services/mergeImportService';
+
+interface MergeImportProps {
+  onImportComplete: () => void;
+  requestPassphrase?: () => Promise<string | null>;
+}
+
+const SECTIONS: { status: MergeStatus; title: string; className: string }[] = [
+  { status: 'conflict', title: 'Conflicts', className: 'bg-yellow-50 text-yellow-800 border-yellow-200' },
+  { status: 'changed', title: 'Changed (newer in the file)', className: 'bg-blue-50 text-blue-800 border-blue-200' },
+  { status: 'added', title: 'Added', className: 'bg-green-50 text-green-800 border-green-200' }
+];
+
+const KIND_LABELS: Record<MergeItem['kind'], string> = {
+  collection: 'Collection',
+  request: 'Request',
+  environment: 'Environment'
+};
+
+const MergeImport: React.FC<MergeImportProps> = ({ onImportComplete, requestPassphrase }) => {
+  const [items, setItems] = useState<MergeItem[] | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [status, setStatus] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsLoading(true);
+    setItems(null);
+    setResolutions({});
+    setStatus('');
+    try {
+      const data = await MergeImportService.readExportFile(file, requestPassphrase);
+      setItems(await MergeImportService.previewWithDatabase(data));
+    } catch (error) {
+      setStatus(`Preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(
+      (items ?? []).filter(item => item.status === 'conflict').map(item => [item.key, resolution])
+    ));
+  };
+
+  const handleApply = async () => {
+    if (!items) return;
+
+    setIsLoading(true);
+    try {
+      const summary = await MergeImportService.apply(items, resolutions);
+      alert(`Merge complete: ${summary.added} added, ${summary.updated} updated, ${summary.copied} kept as copies, ${summary.kept} left unchanged.`);
+      onImportComplete();
+    } catch (error) {
+      console.error('Merge failed:', error);
+      setStatus(`Merge failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const count = (itemStatus: MergeStatus) => items?.filter(item => item.status === itemStatus).length ?? 0;
+  const hasChanges = !!items && items.some(item => item.status !== 'unchanged');
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Select a JSON export or git-friendly zip
+        </label>
+        <input
+          type="file"
+          accept=".json,.zip"
+          onChange={handleFileChange}
+          disabled={isLoading}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {items && (
+        <>
+          <p className="text-sm text-gray-600">
+            {count('added')} added, {count('changed')} changed, {count('conflict')} conflicts, {count('unchanged')} unchanged
+          </p>
+
+          {count('conflict') > 0 && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <span>Resolve all conflicts:</span>
+              <button onClick={() => setAllResolutions('keep-mine')} className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50">Keep mine</button>
+              <button onClick={() => setAllResolutions('take-theirs')} className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50">Take theirs</button>
+              <button onClick={() => setAllResolutions('keep-both')} className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50">Keep both</button>
+            </div>
+          )}
+
+          {SECTIONS.filter(section => count(section.status) > 0).map(section => (
+            <div key={section.status} className={`p-3 rounded-lg border ${section.className}`}>
+              <h4 className="font-semibold mb-2">{section.title} ({count(section.status)})</h4>
+              <ul className="text-sm space-y-1 max-h-48 overflow-y-auto">
+                {items.filter(item => item.status === section.status).map(item => (
+                  <li key={item.key} className="flex items-center justify-between gap-3">
+                    <span className="min-w-0">
+                      <span className="font-medium">{KIND_LABELS[item.kind]}:</span> {item.path}
+                      {item.fields.length > 0 && (
+                        <span className="opacity-75"> — {item.fields.join(', ')}</span>
+                      )}
+                      {item.matchedBy === 'path' && (
+                        <span className="opacity-75"> (matched by name)</span>
+                      )}
+                    </span>
+                    {item.status === 'conflict' && (
+                      <select
+                        value={resolutions[item.key] ?? 'keep-mine'}
+                        onChange={(e) => setResolutions(prev => ({ ...prev, [item.key]: e.target.value as ConflictResolution }))}
+                        className="shrink-0 px-2 py-1 border border-gray-300 rounded bg-white text-gray-700"
+                      >
+                        <option value="keep-mine">Keep mine</option>
+                        <option value="take-theirs">Take theirs</option>
+                        <option value="keep-both">Keep both</option>
+                      </select>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          {!hasChanges && (
+            <p className="text-sm text-gray-600">Everything in the file already matches your data.</p>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleApply}
+              disabled={isLoading || !hasChanges}
+              className="px-6 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Merging...' : 'Apply Merge'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {status && (
+        <div className="p-3 rounded-lg bg-red-50 text-red-800 border border-red-200">
+          {status}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MergeImport;
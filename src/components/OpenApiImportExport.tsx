@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { OpenApiService } from '../services/openApiService';
+import type { OpenApiFormat } from '../services/openApiService';
+import { CollectionService } from '../services/collectionService';
+import type { ImportSummary } from '../types';
+
+interface OpenApiImportExportProps {
+  onClose: () => void;
+  onImportComplete?: () => void;
+}
+
+const OpenApiImportExport: React.FC<OpenApiImportExportProps> = ({ onClose, onImportComplete }) => {
+  const { collections, environments, activeEnvironment } = useApp();
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importStatus, setImportStatus] = useState<string>('');
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [hasImported, setHasImported] = useState(false);
+  const [exportCollectionId, setExportCollectionId] = useState<string>('');
+  const [exportEnvironmentId, setExportEnvironmentId] = useState<string>(activeEnvironment?.id || '');
+  const [exportFormat, setExportFormat] = useState<OpenApiFormat>('yaml');
+  const [exportSkipped, setExportSkipped] = useState<string[]>([]);
+
+  // Imports write straight to the database, so the app needs a refresh afterwards
+  const handleClose = () => {
+    if (hasImported && onImportComplete) {
+      onImportComplete();
+    } else {
+      onClose();
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && /\.(json|ya?ml)$/i.test(file.name)) {
+      setImportFile(file);
+      setImportStatus('');
+      setImportSummary(null);
+    } else {
+      setImportStatus('Please select a JSON or YAML file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile) {
+      setImportStatus('Please select a file to import');
+      return;
+    }
+
+    try {
+      const document = OpenApiService.parse(await importFile.text());
+      const result = await OpenApiService.importDocument(document);
+      await CollectionService.saveImport(result);
+
+      const { summary } = result;
+      setHasImported(true);
+      setImportSummary(summary);
+      setExportSkipped([]);
+      setImportStatus(
+        `Successfully imported "${result.collections[0].name}" with ${summary.requests} requests in ` +
+        `${summary.collections - 1} folders and an environment named "${result.environments[0].name}"`
+      );
+    } catch (error) {
+      setImportStatus(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!exportCollectionId) {
+      setImportStatus('Please select a collection to export');
+      return;
+    }
+
+    try {
+      const { fileName, content, skipped } = await OpenApiService.exportCollection(
+        exportCollectionId,
+        exportFormat,
+        exportEnvironmentId || undefined
+      );
+      const blob = new Blob([content], { type: exportFormat === 'yaml' ? 'application/yaml' : 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setImportStatus(`Successfully exported ${fileName}`);
+      setImportSummary(null);
+      setExportSkipped(skipped);
+    } catch (error) {
+      setExportSkipped([]);
+      setImportStatus(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-800">OpenAPI Import/Export</h2>
+        <button
+          onClick={handleClose}
+          className="text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Import Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Import OpenAPI / Swagger Document</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select OpenAPI 3.x or Swagger 2.0 File (JSON or YAML)
+            </label>
+            <input
+              type="file"
+              accept=".json,.yaml,.yml"
+              onChange={handleFileChange}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <button
+            onClick={handleImport}
+            disabled={!importFile}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Import Document
+          </button>
+        </div>
+      </div>
+
+      {/* Export Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Export Collection as OpenAPI 3.1</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select Collection to Export
+            </label>
+            <select
+              value={exportCollectionId}
+              onChange={(e) => setExportCollectionId(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">Choose a collection...</option>
+              {collections.filter(c => !c.parentId).map(collection => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={exportEnvironmentId}
+              onChange={(e) => setExportEnvironmentId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">No environment for server URLs</option>
+              {environments.map(environment => (
+                <option key={environment.id} value={environment.id}>
+                  {environment.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as OpenApiFormat)}
+              className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="yaml">YAML</option>
+              <option value="json">JSON</option>
+            </select>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={!exportCollectionId}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Export Document
+          </button>
+        </div>
+      </div>
+
+      {/* Status Message */}
+      {importStatus && (
+        <div className={`p-3 rounded-lg ${
+          importStatus.includes('Successfully')
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {importStatus}
+        </div>
+      )}
+
+      {/* Import Summary */}
+      {importSummary && importSummary.skipped.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200">
+          <h4 className="font-semibold mb-2">Skipped during import ({importSummary.skipped.length})</h4>
+          <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+            {importSummary.skipped.map((message, index) => (
+              <li key={index}>• {message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {exportSkipped.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200">
+          <h4 className="font-semibold mb-2">Left out of the export ({exportSkipped.length})</h4>
+          <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+            {exportSkipped.map((message, index) => (
+              <li key={index}>• {message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Instructions */}
+      <div className="bg-slate-50 p-4 rounded-lg">
+        <h4 className="font-semibold text-slate-700 mb-2">Instructions</h4>
+        <ul className="text-sm text-slate-600 space-y-1">
+          <li>• <strong>Structure:</strong> Operations are grouped into folders by their first tag</li>
+          <li>• <strong>Requests:</strong> Path parameters become collection variables; optional query parameters and headers are imported disabled</li>
+          <li>• <strong>Bodies:</strong> Example bodies are taken from the document or generated from its schemas</li>
+          <li>• <strong>Environment:</strong> A new environment holds <code>baseUrl</code> from the first server and empty credential variables</li>
+          <li>• <strong>Export:</strong> Folders become tags; response schemas are inferred from saved response examples</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default OpenApiImportExport;
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+
+interface PassphrasePromptProps {
+  onSubmit: (passphrase: string | null) => void;
+}
+
+/**
+ * Asks for the passphrase of an encrypted export; cancelling submits null
+ */
+const PassphrasePrompt: React.FC<PassphrasePromptProps> = ({ onSubmit }) => {
+  const [passphrase, setPassphrase] = useState('');
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center"
+      style={{ zIndex: 100000, backgroundColor: 'rgba(0, 0, 0, 0.3)' }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSubmit(null);
+      }}
+    >
+      <form
+        className="bg-white rounded-xl shadow-2xl w-full max-w-sm mx-4 p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSubmit(passphrase);
+        }}
+      >
+        <div>
+          <h3 className="text-lg font-medium text-gray-800">Encrypted export</h3>
+          <p className="text-sm text-gray-600 mt-1">Enter the passphrase the file was exported with.</p>
+        </div>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => onSubmit(null)}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!passphrase}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Decrypt
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PassphrasePrompt;
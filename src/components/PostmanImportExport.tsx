@@ -1,22 +1,48 @@
 import React, { useState } from 'react';
 import { useApp } from '../context/AppContext';
 import { PostmanService } from '../services/postmanService';
+import type { EnvironmentImportPreview, PostmanVariableScope, PostmanVariableSet } from '../services/postmanService';
+import { CollectionService } from '../services/collectionService';
+import { RedactionService } from '../services/redactionService';
+import type { ImportSummary } from '../types';
 
 interface PostmanImportExportProps {
   onClose: () => void;
+  onImportComplete?: () => void;
 }
 
-const PostmanImportExport: React.FC<PostmanImportExportProps> = ({ onClose }) => {
-  const { collections, requests, createCollection, createRequest } = useApp();
+const PostmanImportExport: React.FC<PostmanImportExportProps> = ({ onClose, onImportComplete }) => {
+  const { collections, environments } = useApp();
   const [importFile, setImportFile] = useState<File | null>(null);
   const [importStatus, setImportStatus] = useState<string>('');
-  const [selectedCollectionId, setSelectedCollectionId] = useState<string>('');
+  const [selectedCollectionIds, setSelectedCollectionIds] = useState<string[]>([]);
+  const [exportAsZip, setExportAsZip] = useState(true);
+  const [redactSecrets, setRedactSecrets] = useState(false);
+  const [variableSet, setVariableSet] = useState<PostmanVariableSet | null>(null);
+  const [variablePreview, setVariablePreview] = useState<EnvironmentImportPreview | null>(null);
+  const [exportEnvironmentId, setExportEnvironmentId] = useState<string>('');
+  const [exportScope, setExportScope] = useState<PostmanVariableScope>('environment');
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [hasImported, setHasImported] = useState(false);
+
+  // Folders are exported as part of their root collection
+  const rootCollections = collections.filter(c => !c.parentId);
+
+  // Imports write straight to the database, so the app needs a refresh afterwards
+  const handleClose = () => {
+    if (hasImported && onImportComplete) {
+      onImportComplete();
+    } else {
+      onClose();
+    }
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && file.type === 'application/json') {
       setImportFile(file);
       setImportStatus('');
+      setImportSummary(null);
     } else {
       setImportStatus('Please select a valid JSON file');
     }
@@ -37,66 +63,126 @@ const PostmanImportExport: React.FC<PostmanImportExportProps> = ({ onClose }) =>
         throw new Error('Invalid Postman collection format');
       }
 
-      const { collection, requests: parsedRequests } = PostmanService.parsePostmanCollection(postmanData);
-      
-      // Create the collection
-      await createCollection(collection.name, collection.description);
-      
-      // Get the created collection (we'll need to find it by name since createCollection doesn't return the ID)
-      const createdCollections = await import('../database').then(m => m.db.collections.toArray());
-      const newCollection = createdCollections.find(c => c.name === collection.name);
-      
-      if (!newCollection) {
-        throw new Error('Failed to create collection');
-      }
-      
-      // Create all requests
-      for (const request of parsedRequests) {
-        await createRequest(
-          request.name,
-          request.method,
-          request.url,
-          newCollection.id
-        );
+      const result = await PostmanService.importCollection(postmanData);
+      await CollectionService.saveImport(result);
+
+      const { summary } = result;
+      setHasImported(true);
+      setImportSummary(summary);
+      setImportStatus(
+        `Successfully imported collection "${result.collections[0].name}" with ${summary.requests} requests, ` +
+        `${summary.collections - 1} folders, ${summary.variables} variables and ${summary.examples} examples`
+      );
+      if (summary.skipped.length === 0) {
+        setTimeout(() => {
+          if (onImportComplete) {
+            onImportComplete();
+          } else {
+            onClose();
+          }
+        }, 2000);
       }
+    } catch (error) {
+      setImportStatus(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
 
-      setImportStatus(`Successfully imported collection "${collection.name}" with ${parsedRequests.length} requests`);
-      setTimeout(() => {
-        onClose();
-      }, 2000);
+  const handleEnvironmentFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setVariableSet(null);
+    setVariablePreview(null);
+    if (!file) return;
+
+    try {
+      const set = PostmanService.parseVariableSet(JSON.parse(await file.text()));
+      setVariableSet(set);
+      setVariablePreview(PostmanService.previewVariableSet(set, environments));
+      setImportStatus('');
     } catch (error) {
       setImportStatus(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const handleExport = () => {
-    if (!selectedCollectionId) {
-      setImportStatus('Please select a collection to export');
-      return;
+  const handleEnvironmentImport = async () => {
+    if (!variableSet || !variablePreview) return;
+
+    try {
+      await PostmanService.saveVariableSet(variableSet);
+      setHasImported(true);
+      setImportStatus(
+        `Successfully imported ${variableSet.scope === 'globals' ? 'globals' : 'environment'} "${variableSet.name}": ` +
+        `${variablePreview.created.length} created, ${variablePreview.overwritten.length} overwritten`
+      );
+      setVariableSet(null);
+      setVariablePreview(null);
+    } catch (error) {
+      setImportStatus(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  };
 
-    const collection = collections.find(c => c.id === selectedCollectionId);
-    if (!collection) {
-      setImportStatus('Collection not found');
+  const handleEnvironmentExport = () => {
+    const environment = environments.find(env => env.id === exportEnvironmentId);
+    if (!environment) {
+      setImportStatus('Please select an environment to export');
       return;
     }
 
-    const collectionRequests = requests.filter(r => r.collectionId === selectedCollectionId);
-    const postmanCollection = PostmanService.exportToPostman(collection, collectionRequests);
-    
-    const json = JSON.stringify(postmanCollection, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
+    const json = PostmanService.exportVariableSet(environment, exportScope);
+    const baseName = exportScope === 'globals' ? 'globals' : environment.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${baseName}.postman_${exportScope}.json`);
+    setImportStatus(`Successfully exported "${environment.name}" as Postman ${exportScope === 'globals' ? 'globals' : 'environment'}`);
+  };
+
+  const toggleExportCollection = (collectionId: string) => {
+    setSelectedCollectionIds(prev =>
+      prev.includes(collectionId) ? prev.filter(id => id !== collectionId) : [...prev, collectionId]
+    );
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${collection.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_collection.json`;
+    a.download = fileName;
     a.click();
     URL.revokeObjectURL(url);
-    
-    setImportStatus(`Successfully exported collection "${collection.name}"`);
-    setTimeout(() => {
-      onClose();
-    }, 2000);
+  };
+
+  const handleExport = async () => {
+    if (selectedCollectionIds.length === 0) {
+      setImportStatus('Please select a collection to export');
+      return;
+    }
+
+    try {
+      const redaction = redactSecrets ? RedactionService.createContext() : undefined;
+      const files = await PostmanService.exportCollections(selectedCollectionIds, redaction);
+      const secretCount = redaction ? Object.keys(redaction.secrets).length : 0;
+      // The secrets travel as their own environment file so they can be kept back
+      if (redaction && secretCount > 0) {
+        files.push(PostmanService.exportSecrets(redaction.secrets, 'Secrets'));
+      }
+
+      if (exportAsZip && files.length > 1) {
+        const { default: JSZip } = await import('jszip');
+        const zip = new JSZip();
+        files.forEach(file => zip.file(file.fileName, file.content));
+        downloadBlob(await zip.generateAsync({ type: 'blob' }), 'postman_collections.zip');
+      } else {
+        files.forEach(file => downloadBlob(new Blob([file.content], { type: 'application/json' }), file.fileName));
+      }
+
+      const collectionCount = selectedCollectionIds.length;
+      setImportStatus(
+        `Successfully exported ${collectionCount} collection${collectionCount === 1 ? '' : 's'}` +
+        (secretCount > 0 ? ` with ${secretCount} secret${secretCount === 1 ? '' : 's'} moved to secrets.postman_environment.json` : '')
+      );
+      setTimeout(() => {
+        onClose();
+      }, 2000);
+    } catch (error) {
+      setImportStatus(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   };
 
   return (
@@ -104,7 +190,7 @@ const PostmanImportExport: React.FC<PostmanImportExportProps> = ({ onClose }) =>
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-bold text-slate-800">Postman Import/Export</h2>
         <button
-          onClick={onClose}
+          onClick={handleClose}
           className="text-slate-400 hover:text-slate-600 transition-colors"
         >
           ×
@@ -142,27 +228,126 @@ const PostmanImportExport: React.FC<PostmanImportExportProps> = ({ onClose }) =>
         <div className="space-y-3">
           <div>
             <label className="block text-sm font-medium text-slate-600 mb-2">
-              Select Collection to Export
+              Select Collections to Export
             </label>
-            <select
-              value={selectedCollectionId}
-              onChange={(e) => setSelectedCollectionId(e.target.value)}
+            <div className="max-h-40 overflow-y-auto border border-slate-300 rounded-lg divide-y divide-slate-100">
+              {rootCollections.length === 0 && (
+                <p className="px-3 py-2 text-sm text-slate-500">No collections yet</p>
+              )}
+              {rootCollections.map(collection => (
+                <label key={collection.id} className="flex items-center gap-2 px-3 py-2 text-sm text-slate-700 cursor-pointer hover:bg-slate-50">
+                  <input
+                    type="checkbox"
+                    checked={selectedCollectionIds.includes(collection.id)}
+                    onChange={() => toggleExportCollection(collection.id)}
+                  />
+                  {collection.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={exportAsZip}
+              onChange={(e) => setExportAsZip(e.target.checked)}
+            />
+            Download multiple collections as a single zip file
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={redactSecrets}
+              onChange={(e) => setRedactSecrets(e.target.checked)}
+            />
+            Replace secrets with placeholders and save them to a separate environment file
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={selectedCollectionIds.length === 0}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Export {selectedCollectionIds.length > 1 ? 'Collections' : 'Collection'}
+          </button>
+        </div>
+      </div>
+
+      {/* Environment Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Environments &amp; Globals</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select Postman Environment or Globals JSON File
+            </label>
+            <input
+              type="file"
+              accept=".json"
+              onChange={handleEnvironmentFileChange}
               className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+
+          {variableSet && variablePreview && (
+            <div className="p-3 rounded-lg border border-slate-200 bg-slate-50 text-sm space-y-2">
+              <p className="text-slate-700">
+                {variablePreview.target
+                  ? <>Variables will be merged into the existing environment <strong>{variableSet.name}</strong></>
+                  : <>A new environment <strong>{variableSet.name}</strong> will be created</>}
+              </p>
+              <ul className="max-h-40 overflow-y-auto space-y-1 font-mono text-xs">
+                {variablePreview.created.map(key => (
+                  <li key={key} className="text-green-700">+ {key}{variableSet.secretKeys.includes(key) ? ' (secret)' : ''}</li>
+                ))}
+                {variablePreview.overwritten.map(key => (
+                  <li key={key} className="text-amber-700">~ {key}{variableSet.secretKeys.includes(key) ? ' (secret)' : ''}</li>
+                ))}
+                {variablePreview.unchanged.map(key => (
+                  <li key={key} className="text-slate-400">= {key}</li>
+                ))}
+              </ul>
+              <p className="text-xs text-slate-500">
+                {variablePreview.created.length} created, {variablePreview.overwritten.length} overwritten, {variablePreview.unchanged.length} unchanged
+              </p>
+            </div>
+          )}
+
+          <button
+            onClick={handleEnvironmentImport}
+            disabled={!variableSet}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Import Variables
+          </button>
+
+          <div className="flex gap-2">
+            <select
+              value={exportEnvironmentId}
+              onChange={(e) => setExportEnvironmentId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
             >
-              <option value="">Choose a collection...</option>
-              {collections.map(collection => (
-                <option key={collection.id} value={collection.id}>
-                  {collection.name}
+              <option value="">Choose an environment...</option>
+              {environments.map(environment => (
+                <option key={environment.id} value={environment.id}>
+                  {environment.name}
                 </option>
               ))}
             </select>
+            <select
+              value={exportScope}
+              onChange={(e) => setExportScope(e.target.value as PostmanVariableScope)}
+              className="px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="environment">as environment</option>
+              <option value="globals">as globals</option>
+            </select>
           </div>
           <button
-            onClick={handleExport}
-            disabled={!selectedCollectionId}
+            onClick={handleEnvironmentExport}
+            disabled={!exportEnvironmentId}
             className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            Export Collection
+            Export Environment
           </button>
         </div>
       </div>
@@ -178,14 +363,27 @@ const PostmanImportExport: React.FC<PostmanImportExportProps> = ({ onClose }) =>
         </div>
       )}
 
+      {/* Import Summary */}
+      {importSummary && importSummary.skipped.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200">
+          <h4 className="font-semibold mb-2">Skipped during import ({importSummary.skipped.length})</h4>
+          <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+            {importSummary.skipped.map((message, index) => (
+              <li key={index}>• {message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Instructions */}
       <div className="bg-slate-50 p-4 rounded-lg">
         <h4 className="font-semibold text-slate-700 mb-2">Instructions</h4>
         <ul className="text-sm text-slate-600 space-y-1">
           <li>• <strong>Import:</strong> Select a Postman collection JSON file to import all requests and folders</li>
-          <li>• <strong>Export:</strong> Choose a collection to export as a Postman-compatible JSON file</li>
+          <li>• <strong>Export:</strong> Choose one or more collections to export as Postman v2.1 files, including nested folders</li>
+          <li>• <strong>Environments:</strong> Import or export Postman environment files and globals dumps, keeping disabled and secret variables</li>
           <li>• <strong>Compatibility:</strong> Supports Postman Collection Format v2.1</li>
-          <li>• <strong>Features:</strong> Preserves requests, headers, parameters, body, and authentication</li>
+          <li>• <strong>Features:</strong> Preserves folders, requests, headers, parameters, body, authentication, variables, scripts and examples</li>
         </ul>
       </div>
     </div>
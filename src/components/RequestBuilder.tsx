@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import type { Tab, RequestConfig, HttpMethod, BodyType, AuthType } from '../types';
 import type { Request } from '../database';
+import { PasteImportService } from '../services/pasteImportService';
 
 interface RequestBuilderProps {
   tab: Tab;
-  onSendRequest: (config: RequestConfig) => void;
+  onSendRequest: (config: RequestConfig, requestId?: string) => void;
+  onSaveRequest?: (requestId: string, config: RequestConfig) => Promise<void>;
   isLoading: boolean;
   onGetRequestConfig?: ((getter: (config: any) => void) => void) | null;
   initialData?: Partial<Request> | null;
@@ -12,6 +14,7 @@ interface RequestBuilderProps {
 
 const RequestBuilder: React.FC<RequestBuilderProps> = ({
   onSendRequest,
+  onSaveRequest,
   isLoading,
   onGetRequestConfig,
   initialData
@@ -30,6 +33,12 @@ const RequestBuilder: React.FC<RequestBuilderProps> = ({
     key: initialData?.auth?.key || '',
     value: initialData?.auth?.value || ''
   });
+  const [preRequestScript, setPreRequestScript] = useState(initialData?.preRequestScript || '');
+  const [testScript, setTestScript] = useState(initialData?.testScript || '');
+  const [pasteNotice, setPasteNotice] = useState<string[]>([]);
+  // The saved request this builder was opened from, if any
+  const [requestId, setRequestId] = useState(initialData?.id);
+  const [isSaving, setIsSaving] = useState(false);
 
   const methods: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
 
@@ -51,6 +60,10 @@ const RequestBuilder: React.FC<RequestBuilderProps> = ({
         key: initialData.auth?.key || '',
         value: initialData.auth?.value || ''
       });
+      setPreRequestScript(initialData.preRequestScript || '');
+      setTestScript(initialData.testScript || '');
+      setRequestId(initialData.id);
+      setPasteNotice([]);
       console.log('RequestBuilder form fields updated with initial data');
     }
   }, [initialData]);
@@ -69,26 +82,67 @@ const RequestBuilder: React.FC<RequestBuilderProps> = ({
           auth: auth !== 'none' ? {
             type: auth,
             ...authConfig
-          } : undefined
+          } : undefined,
+          preRequestScript: preRequestScript || undefined,
+          testScript: testScript || undefined
         };
       });
     }
-  }, [method, url, headers, params, body, bodyType, auth, authConfig, onGetRequestConfig]);
+  }, [method, url, headers, params, body, bodyType, auth, authConfig, preRequestScript, testScript, onGetRequestConfig]);
+
+  const buildConfig = (): RequestConfig => ({
+    method,
+    url,
+    headers,
+    params,
+    body: body || undefined,
+    bodyType,
+    auth: auth !== 'none' ? {
+      type: auth,
+      ...authConfig
+    } : undefined,
+    preRequestScript: preRequestScript || undefined,
+    testScript: testScript || undefined
+  });
 
   const handleSend = () => {
-    const config: RequestConfig = {
-      method,
-      url,
-      headers,
-      params,
-      body: body || undefined,
-      bodyType,
-      auth: auth !== 'none' ? {
-        type: auth,
-        ...authConfig
-      } : undefined
-    };
-    onSendRequest(config);
+    onSendRequest(buildConfig(), requestId);
+  };
+
+  const handleSave = async () => {
+    if (!requestId || !onSaveRequest) return;
+    setIsSaving(true);
+    try {
+      await onSaveRequest(requestId, buildConfig());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Pasting a cURL, fetch, PowerShell or HTTPie command fills the whole request
+  const handleUrlPaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+    const parsed = PasteImportService.parse(event.clipboardData.getData('text'));
+    if (!parsed) {
+      return;
+    }
+
+    event.preventDefault();
+    const { request } = parsed;
+    setMethod(request.method);
+    setUrl(request.url);
+    setHeaders(request.headers);
+    setParams(request.params);
+    setBody(request.body || '');
+    setBodyType(request.bodyType);
+    setAuth(request.auth?.type || 'none');
+    setAuthConfig({
+      token: request.auth?.token || '',
+      username: request.auth?.username || '',
+      password: request.auth?.password || '',
+      key: request.auth?.key || '',
+      value: request.auth?.value || ''
+    });
+    setPasteNotice(parsed.ignored);
   };
 
   const addHeader = () => {
@@ -125,7 +179,8 @@ const RequestBuilder: React.FC<RequestBuilderProps> = ({
             type="text"
             value={url}
             onChange={(e) => setUrl(e.target.value)}
-            placeholder="Enter request URL"
+            onPaste={handleUrlPaste}
+            placeholder="Enter request URL or paste a cURL command"
             className="flex-1 px-4 py-3 border border-slate-300 rounded-xl text-sm bg-white focus:outline-none focus:ring-2 focus:ring-orange-500 shadow-modern transition-all duration-200"
           />
           <button
@@ -135,12 +190,33 @@ const RequestBuilder: React.FC<RequestBuilderProps> = ({
           >
             {isLoading ? 'Sending...' : 'Send'}
           </button>
+          {requestId && onSaveRequest && (
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-6 py-3 border border-slate-300 text-slate-700 bg-white rounded-xl hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-all duration-200 shadow-modern"
+              title="Save changes to the collection request"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          )}
         </div>
+        {pasteNotice.length > 0 && (
+          <div className="mt-3 p-3 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200 text-sm flex items-start justify-between">
+            <span>Ignored while pasting: {pasteNotice.join(', ')}</span>
+            <button
+              onClick={() => setPasteNotice([])}
+              className="ml-4 text-yellow-600 hover:text-yellow-800"
+            >
+              ×
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Tabs */}
       <div className="flex border-b border-slate-200 bg-white">
-        {['Params', 'Headers', 'Body', 'Auth'].map(tabName => (
+        {['Params', 'Headers', 'Body', 'Auth', 'Scripts'].map(tabName => (
           <button
             key={tabName}
             className="px-6 py-4 text-sm font-semibold text-slate-600 hover:text-slate-800 border-b-2 border-transparent hover:border-orange-300 hover:bg-slate-50 transition-all duration-200"
@@ -300,6 +376,24 @@ const RequestBuilder: React.FC<RequestBuilderProps> = ({
             </div>
           )}
         </div>
+
+        {/* Scripts */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Pre-request Script</h3>
+          <textarea
+            value={preRequestScript}
+            onChange={(e) => setPreRequestScript(e.target.value)}
+            placeholder="pm.environment.set('timestamp', Date.now());"
+            className="w-full h-24 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+          />
+          <h3 className="text-sm font-medium text-gray-700 mt-4 mb-2">Tests</h3>
+          <textarea
+            value={testScript}
+            onChange={(e) => setTestScript(e.target.value)}
+            placeholder="pm.test('Status is 200', () => pm.response.to.have.status(200));"
+            className="w-full h-24 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+          />
+        </div>
       </div>
     </div>
   );
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
-import type { ResponseData } from '../types';
+import type { ResponseData, ScriptResult } from '../types';
 
 interface ResponseViewerProps {
   response: ResponseData | null;
+  scriptResult?: ScriptResult | null;
 }
 
-const ResponseViewer: React.FC<ResponseViewerProps> = ({ response }) => {
-  const [activeTab, setActiveTab] = useState<'body' | 'headers' | 'cookies'>('body');
+const ResponseViewer: React.FC<ResponseViewerProps> = ({ response, scriptResult }) => {
+  const [activeTab, setActiveTab] = useState<'body' | 'headers' | 'cookies' | 'tests'>('body');
   const [copySuccess, setCopySuccess] = useState(false);
 
   if (!response) {
@@ -98,7 +99,13 @@ const ResponseViewer: React.FC<ResponseViewerProps> = ({ response }) => {
         {[
           { id: 'body', label: 'Body' },
           { id: 'headers', label: 'Headers' },
-          { id: 'cookies', label: 'Cookies' }
+          { id: 'cookies', label: 'Cookies' },
+          {
+            id: 'tests',
+            label: scriptResult && scriptResult.tests.length > 0
+              ? `Tests (${scriptResult.tests.filter(test => test.passed).length}/${scriptResult.tests.length})`
+              : 'Tests'
+          }
         ].map(tab => (
           <button
             key={tab.id}
@@ -160,6 +167,58 @@ const ResponseViewer: React.FC<ResponseViewerProps> = ({ response }) => {
             </div>
           </div>
         )}
+
+        {activeTab === 'tests' && (
+          <div className="p-4 space-y-4">
+            {!scriptResult ? (
+              <div className="text-center text-gray-500">
+                <div className="text-4xl mb-2">🧪</div>
+                <p>No scripts ran for this request</p>
+              </div>
+            ) : (
+              <>
+                {scriptResult.error && (
+                  <div className="p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">
+                    <strong>Script error:</strong> {scriptResult.error}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  {scriptResult.tests.length === 0 ? (
+                    <p className="text-sm text-gray-500">No tests were defined</p>
+                  ) : (
+                    scriptResult.tests.map((test, index) => (
+                      <div key={index} className="flex items-start space-x-3 py-2 border-b border-gray-100">
+                        <span className={`px-2 py-1 text-xs rounded font-semibold ${
+                          test.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {test.passed ? 'PASS' : 'FAIL'}
+                        </span>
+                        <div className="min-w-0">
+                          <div className="text-sm text-gray-700 font-medium">{test.name}</div>
+                          {test.error && (
+                            <div className="text-xs text-red-600 break-all">{test.error}</div>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {scriptResult.logs.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Console</h4>
+                    <div className="bg-gray-900 text-gray-100 rounded-md p-4 font-mono text-xs overflow-auto">
+                      {scriptResult.logs.map((log, index) => (
+                        <pre key={index} className="whitespace-pre-wrap">{log}</pre>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
+import { DEFAULT_SECRET_PATTERNS, RedactionService } from '../services/redactionService';
 
 interface SettingsDialogProps {
   onClose: () => void;
@@ -8,6 +9,7 @@ interface SettingsDialogProps {
 const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
   const [proxyUrl, setProxyUrl] = useState('');
   const [enableProxy, setEnableProxy] = useState(false);
+  const [secretPatterns, setSecretPatterns] = useState('');
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
@@ -18,6 +20,7 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
     
     setProxyUrl(savedProxyUrl);
     setEnableProxy(savedEnableProxy);
+    setSecretPatterns(RedactionService.getPatterns().join('\n'));
   }, []);
 
   useEffect(() => {
@@ -36,6 +39,7 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
   const handleSave = () => {
     localStorage.setItem('webpostman-proxy-url', proxyUrl);
     localStorage.setItem('webpostman-enable-proxy', enableProxy.toString());
+    RedactionService.savePatterns(secretPatterns.split('\n'));
     alert('Settings saved successfully!');
     onClose();
   };
@@ -45,6 +49,8 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
     setEnableProxy(false);
     localStorage.removeItem('webpostman-proxy-url');
     localStorage.removeItem('webpostman-enable-proxy');
+    setSecretPatterns(DEFAULT_SECRET_PATTERNS.join('\n'));
+    RedactionService.resetPatterns();
   };
 
   if (!mounted) return null;
@@ -126,6 +132,28 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ onClose }) => {
             </div>
           </div>
 
+          {/* Secret Redaction */}
+          <div>
+            <h3 className="text-lg font-semibold text-slate-700 mb-4">Secret Redaction</h3>
+
+            <div>
+              <label htmlFor="secretPatterns" className="block text-sm font-medium text-slate-700 mb-2">
+                Secret name patterns
+              </label>
+              <textarea
+                id="secretPatterns"
+                value={secretPatterns}
+                onChange={(e) => setSecretPatterns(e.target.value)}
+                rows={6}
+                className="w-full px-4 py-3 border border-slate-300 rounded-xl font-mono text-sm focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-orange-500 transition-all duration-200"
+              />
+              <p className="mt-2 text-xs text-slate-500">
+                One pattern per line, matched against header, parameter, form field and variable names
+                when exporting with redaction. <code>*</code> matches anything and case is ignored.
+              </p>
+            </div>
+          </div>
+
           {/* Other Settings */}
           <div>
             <h3 className="text-lg font-semibold text-slate-700 mb-4">Other Settings</h3>
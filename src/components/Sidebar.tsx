@@ -205,6 +205,7 @@ const Sidebar: React.FC = () => {
                                        className="flex items-center justify-between p-2 hover:bg-slate-50 rounded-lg cursor-pointer group transition-all duration-200"
                                        onClick={() => {
                                          const initialData: Partial<Request> = {
+                                           id: request.id,
                                            name: request.name,
                                            method: request.method as any,
                                            url: request.url,
@@ -212,7 +213,9 @@ const Sidebar: React.FC = () => {
                                            params: request.params,
                                            body: request.body || '',
                                            bodyType: request.bodyType as any,
-                                           auth: request.auth
+                                           auth: request.auth,
+                                           preRequestScript: request.preRequestScript,
+                                           testScript: request.testScript
                                          };
                                          createTab(undefined, initialData);
                                        }}
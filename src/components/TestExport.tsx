@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { TestExportService } from '../services/testExportService';
+import type { TestFramework } from '../services/testExportService';
+
+interface TestExportProps {
+  onClose: () => void;
+}
+
+const TestExport: React.FC<TestExportProps> = ({ onClose }) => {
+  const { collections } = useApp();
+  const [exportCollectionId, setExportCollectionId] = useState<string>('');
+  const [framework, setFramework] = useState<TestFramework>('playwright');
+  const [exportStatus, setExportStatus] = useState<string>('');
+
+  const handleExport = async () => {
+    if (!exportCollectionId) {
+      setExportStatus('Please select a collection to export');
+      return;
+    }
+
+    try {
+      const { fileName, content } = await TestExportService.exportCollection(exportCollectionId, framework);
+      const blob = new Blob([content], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setExportStatus(`Successfully exported ${fileName}`);
+    } catch (error) {
+      setExportStatus(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-800">Test Suite Export</h2>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-slate-700">Export Collection as API Tests</h3>
+        <p className="text-sm text-slate-500">
+          One test per request, asserting the status of its last saved response.
+          Variables are read from environment variables such as <code>BASE_URL</code> for <code>{'{{baseUrl}}'}</code>.
+        </p>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Select Collection to Export
+            </label>
+            <select
+              value={exportCollectionId}
+              onChange={(e) => setExportCollectionId(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">Choose a collection...</option>
+              {collections.filter(c => !c.parentId).map(collection => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-2">
+              Framework
+            </label>
+            <select
+              value={framework}
+              onChange={(e) => setFramework(e.target.value as TestFramework)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="playwright">Playwright (APIRequestContext)</option>
+              <option value="jest">Jest + fetch</option>
+            </select>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={!exportCollectionId}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Export Tests
+          </button>
+        </div>
+      </div>
+
+      {/* Status Message */}
+      {exportStatus && (
+        <div className={`p-3 rounded-lg ${
+          exportStatus.includes('Successfully')
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {exportStatus}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TestExport;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import type { Tab } from '../types';
 import CodeGenerator from './CodeGenerator';
+import CollectionRunner from './CollectionRunner';
 import ExportImportDialog from './ExportImportDialog';
 import PostmanImportExport from './PostmanImportExport';
 import SettingsDialog from './SettingsDialog';
@@ -32,6 +33,7 @@ const TopBar: React.FC<TopBarProps> = ({
   const [showExportImport, setShowExportImport] = useState(false);
   const [showPostmanImportExport, setShowPostmanImportExport] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showRunner, setShowRunner] = useState(false);
   const [currentRequestConfig, setCurrentRequestConfig] = useState<any>(null);
   return (
     <div className="bg-white border-b border-slate-200 flex items-center shadow-modern">
@@ -113,6 +115,13 @@ const TopBar: React.FC<TopBarProps> = ({
         >
           💻
         </button>
+        <button 
+          onClick={() => setShowRunner(true)}
+          className="p-3 text-slate-500 hover:text-orange-600 hover:bg-orange-50 rounded-xl transition-all duration-200 shadow-modern"
+          title="Run Collection"
+        >
+          ▶️
+        </button>
         <button 
           onClick={() => setShowSettings(true)}
           className="p-3 text-slate-500 hover:text-orange-600 hover:bg-orange-50 rounded-xl transition-all duration-200 shadow-modern"
@@ -161,6 +170,18 @@ const TopBar: React.FC<TopBarProps> = ({
       {showPostmanImportExport && (
         <PostmanImportExport
           onClose={() => setShowPostmanImportExport(false)}
+          onImportComplete={() => {
+            setShowPostmanImportExport(false);
+            if (onImportComplete) {
+              onImportComplete();
+            }
+          }}
+        />
+      )}
+      
+      {showRunner && (
+        <CollectionRunner
+          onClose={() => setShowRunner(false)}
         />
       )}
       
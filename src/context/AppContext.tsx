@@ -74,13 +74,15 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
 
   const loadData = async () => {
     try {
-      const [collectionsData, environmentsData, historyData] = await Promise.all([
+      const [collectionsData, requestsData, environmentsData, historyData] = await Promise.all([
         CollectionService.getCollections(),
+        db.requests.orderBy('order').toArray(),
         db.environments.toArray(),
         db.history.orderBy('timestamp').reverse().toArray()
       ]);
       
       setCollections(collectionsData);
+      setRequests(requestsData);
       setEnvironments(environmentsData);
       setHistory(historyData);
       
@@ -224,6 +226,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     try {
       await db.environments.update(id, { ...updates, updatedAt: new Date() });
       setEnvironments(prev => prev.map(env => env.id === id ? { ...env, ...updates } : env));
+      setActiveEnvironmentState(prev => prev && prev.id === id ? { ...prev, ...updates } : prev);
     } catch (error) {
       console.error('Failed to update environment:', error);
     }
@@ -1,11 +1,16 @@
 import Dexie from 'dexie';
 import type { Table } from 'dexie';
+import type { RequestConfig, TestResult } from './types';
 
 export interface Collection {
   id: string;
   name: string;
   description?: string;
   parentId?: string; // for folders
+  variables?: Record<string, string>;
+  auth?: Request['auth']; // inherited by requests without their own auth
+  preRequestScript?: string;
+  testScript?: string;
   order: number;
   createdAt: Date;
   updatedAt: Date;
@@ -14,10 +19,13 @@ export interface Collection {
 export interface Request {
   id: string;
   name: string;
+  description?: string;
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
   url: string;
   headers: Record<string, string>;
   params: Record<string, string>;
+  disabledHeaders?: Record<string, string>;
+  disabledParams?: Record<string, string>;
   body?: string;
   bodyType: 'raw' | 'form-data' | 'x-www-form-urlencoded';
   auth?: {
@@ -28,6 +36,8 @@ export interface Request {
     key?: string;
     value?: string;
   };
+  preRequestScript?: string;
+  testScript?: string;
   collectionId?: string;
   folderId?: string;
   order: number;
@@ -39,6 +49,8 @@ export interface Environment {
   id: string;
   name: string;
   variables: Record<string, string>;
+  disabledVariables?: Record<string, string>;
+  secretKeys?: string[];
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -72,6 +84,7 @@ export interface HistoryEntry {
 export interface Response {
   id: string;
   requestId: string;
+  name?: string; // set for saved examples
   status: number;
   statusText: string;
   headers: Record<string, string>;
@@ -81,12 +94,49 @@ export interface Response {
   timestamp: Date;
 }
 
+export interface RunResult {
+  iteration: number;
+  requestId: string;
+  name: string;
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  responseTime: number;
+  responseSize: number;
+  tests: TestResult[];
+  passed: boolean;
+  error?: string;
+  dataRow?: Record<string, string>;
+  // The request as sent, after scripts and variables; runs saved before this was recorded lack it
+  request?: Pick<RequestConfig, 'headers' | 'params' | 'body' | 'bodyType' | 'auth'>;
+}
+
+export interface CollectionRun {
+  id: string;
+  collectionId: string;
+  collectionName: string;
+  environmentId?: string;
+  iterations: number;
+  delay: number;
+  stopOnFailure: boolean;
+  dataFileName?: string;
+  results: RunResult[];
+  passed: number;
+  failed: number;
+  totalTime: number;
+  status: 'completed' | 'stopped' | 'failed';
+  startedAt: Date;
+  finishedAt: Date;
+}
+
 export class WebPostmanDB extends Dexie {
   collections!: Table<Collection>;
   requests!: Table<Request>;
   environments!: Table<Environment>;
   history!: Table<HistoryEntry>;
   responses!: Table<Response>;
+  runs!: Table<CollectionRun>;
 
   constructor() {
     super('WebPostmanDB');
@@ -97,6 +147,9 @@ export class WebPostmanDB extends Dexie {
       history: 'id, requestId, method, url, status, timestamp',
       responses: 'id, requestId, timestamp'
     });
+    this.version(2).stores({
+      runs: 'id, collectionId, startedAt'
+    });
   }
 }
 
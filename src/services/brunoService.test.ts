@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { collection, outline, request, rootOutline, sampleWorkspace } from '../test/workspace';
+import { BrunoService } from './brunoService';
+
+describe('Bruno round trip', () => {
+  it('imports exported files as the same tree', async () => {
+    const { collections, requests, environments } = sampleWorkspace();
+
+    const files = BrunoService.exportToBruno('shop', collections, requests, environments);
+    const imported = await BrunoService.importFiles(files);
+
+    expect(rootOutline(imported.collections, imported.requests)).toEqual(outline('shop', collections, requests));
+    // Bruno never writes secret values to files
+    expect(imported.environments.map(({ name, variables, disabledVariables, secretKeys }) => ({ name, variables, disabledVariables, secretKeys }))).toEqual([{
+      name: 'Shop - Staging',
+      variables: { ...environments[0].variables, token: '' },
+      disabledVariables: environments[0].disabledVariables,
+      secretKeys: ['token']
+    }]);
+  });
+
+  it('keeps multi-line values', async () => {
+    const files = BrunoService.exportToBruno(
+      'api',
+      [collection({ id: 'api', name: 'API', variables: { certificate: '-----BEGIN-----\nabc\n\n-----END-----' } })],
+      [request({
+        id: 'note',
+        name: 'Note',
+        collectionId: 'api',
+        method: 'POST',
+        headers: { 'X-Multi': 'one\ntwo' },
+        bodyType: 'x-www-form-urlencoded',
+        body: JSON.stringify({ text: 'first line\n  indented }\nlast' })
+      })]
+    );
+
+    const { collections, requests } = await BrunoService.importFiles(files);
+
+    expect(collections[0].variables).toEqual({ certificate: '-----BEGIN-----\nabc\n\n-----END-----' });
+    expect(requests[0].headers).toEqual({ 'X-Multi': 'one\ntwo' });
+    expect(JSON.parse(requests[0].body!)).toEqual({ text: 'first line\n  indented }\nlast' });
+  });
+});
+
+describe('BrunoService.parseBru', () => {
+  it('reads dictionary, list and text blocks', () => {
+    const blocks = BrunoService.parseBru([
+      'headers {',
+      '  Accept: application/json',
+      '  ~X-Old: yes',
+      '}',
+      '',
+      'vars:secret [',
+      '  token,',
+      '  password',
+      ']',
+      '',
+      'body:json {',
+      '  {',
+      '    "name": "Ann"',
+      '  }',
+      '}'
+    ].join('\n'));
+
+    expect(blocks.map(block => block.name)).toEqual(['headers', 'vars:secret', 'body:json']);
+    expect(blocks[0].entries).toEqual([
+      { key: 'Accept', value: 'application/json', enabled: true },
+      { key: 'X-Old', value: 'yes', enabled: false }
+    ]);
+    expect(blocks[1].entries.map(entry => entry.key)).toEqual(['token', 'password']);
+    expect(blocks[2].text).toBe('{\n  "name": "Ann"\n}');
+  });
+});
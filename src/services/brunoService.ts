@@ -0,0 +1,732 @@
+import type { Collection, Environment, Request } from '../database';
+import type { ImportResult } from '../types';
+import { ExportImportService } from './exportImportService';
+import { HttpService } from './httpService';
+import { RunEngine } from './runEngine';
+import { v4 as uuidv4 } from 'uuid';
+
+const METHODS: Request['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Verb blocks Bruno writes that requests cannot store
+const OTHER_VERBS = ['trace', 'connect'];
+
+const BODY_CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  text: 'text/plain',
+  sparql: 'application/sparql-query'
+};
+
+/**
+ * A file of a Bruno collection, with its path relative to the upload
+ */
+export interface BrunoFile {
+  path: string;
+  content: string;
+}
+
+interface BruEntry {
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+/**
+ * One `name { ... }` or `name [ ... ]` block of a `.bru` file. Dictionary
+ * and list blocks are read into entries, text blocks keep their text.
+ */
+interface BruBlock {
+  name: string;
+  entries: BruEntry[];
+  text: string;
+}
+
+/**
+ * Group settings shared by `collection.bru` and `folder.bru`
+ */
+interface GroupSettings {
+  auth?: Request['auth'];
+  variables?: Record<string, string>;
+  preRequestScript?: string;
+  testScript?: string;
+  description?: string;
+}
+
+/**
+ * Reads and writes Bruno collections: `.bru` request, folder and collection
+ * files plus environment files
+ */
+export class BrunoService {
+  /**
+   * Parse a `.bru` file into its blocks
+   */
+  static parseBru(text: string): BruBlock[] {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: BruBlock[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const header = lines[i].match(/^([\w:-]+)\s*([{[])\s*$/);
+      if (!header) continue;
+
+      const close = header[2] === '{' ? '}' : ']';
+      const body: string[] = [];
+      for (i++; i < lines.length && lines[i].trimEnd() !== close; i++) {
+        body.push(lines[i]);
+      }
+
+      const entries: BruEntry[] = [];
+      for (let j = 0; j < body.length; j++) {
+        const line = body[j].trim();
+        if (!line) continue;
+        if (close === ']') {
+          entries.push({ key: line.replace(/,$/, ''), value: '', enabled: true });
+          continue;
+        }
+        const enabled = !line.startsWith('~');
+        const entry = enabled ? line : line.slice(1);
+        const separator = entry.indexOf(':');
+        if (separator === -1) {
+          entries.push({ key: entry, value: '', enabled });
+          continue;
+        }
+        let value = entry.slice(separator + 1).trim();
+        // Multi-line values sit between ''' lines, indented two spaces more than their key
+        if (value === "'''") {
+          const valueLines: string[] = [];
+          for (j++; j < body.length && body[j].trim() !== "'''"; j++) {
+            valueLines.push(body[j].startsWith('    ') ? body[j].slice(4) : body[j].trimStart());
+          }
+          value = valueLines.join('\n');
+        }
+        entries.push({ key: entry.slice(0, separator).trim(), value, enabled });
+      }
+      // Text blocks are indented by two spaces
+      const blockText = body.map(line => (line.startsWith('  ') ? line.slice(2) : line.trimStart())).join('\n').trim();
+
+      blocks.push({ name: header[1], entries, text: blockText });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Import the files of a Bruno collection folder. The directory holding
+   * `bruno.json` is the collection root; sub-directories become folders and
+   * `environments/*.bru` become environments.
+   */
+  static async importFiles(files: BrunoFile[]): Promise<ImportResult> {
+    const result: ImportResult = {
+      collections: [],
+      requests: [],
+      responses: [],
+      environments: [],
+      summary: { collections: 0, requests: 0, examples: 0, variables: 0, skipped: [] }
+    };
+
+    const normalized = files
+      .map(file => ({ ...file, path: file.path.replace(/\\/g, '/').replace(/^\.?\//, '') }))
+      .filter(file => !file.path.split('/').some(segment => segment === 'node_modules' || segment.startsWith('.')));
+
+    const configFile = normalized
+      .filter(file => file.path.split('/').pop() === 'bruno.json')
+      .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0];
+    const bruFiles = normalized.filter(file => file.path.endsWith('.bru'));
+    if (bruFiles.length === 0) {
+      throw new Error('No .bru files found');
+    }
+
+    const rootDir = configFile
+      ? configFile.path.split('/').slice(0, -1).join('/')
+      : this.commonDirectory(bruFiles.map(file => file.path));
+    const relative = (path: string) => (rootDir ? path.slice(rootDir.length + 1) : path);
+    const inRoot = bruFiles.filter(file => !rootDir || file.path.startsWith(`${rootDir}/`));
+
+    let config: any = {};
+    if (configFile) {
+      try {
+        config = JSON.parse(configFile.content);
+      } catch {
+        result.summary.skipped.push('bruno.json: invalid JSON');
+      }
+    }
+
+    const rootName = config.name || rootDir.split('/').pop() || 'Bruno Collection';
+    const context = { result, rootVariables: {} as Record<string, string> };
+    const root: Collection = {
+      id: uuidv4(),
+      name: rootName,
+      order: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    result.collections.push(root);
+
+    const collectionFile = inRoot.find(file => relative(file.path) === 'collection.bru');
+    if (collectionFile) {
+      Object.assign(root, this.readGroupSettings(this.parseBru(collectionFile.content), rootName, context));
+    }
+
+    inRoot
+      .filter(file => /^environments\/[^/]+\.bru$/.test(relative(file.path)))
+      .forEach(file => {
+        const environment = this.parseEnvironment(file.path.split('/').pop()!.replace(/\.bru$/, ''), file.content);
+        result.environments.push({ ...environment, name: `${rootName} - ${environment.name}` });
+        result.summary.variables += Object.keys(environment.variables).length;
+      });
+
+    // Build the folder tree from the directories, then order each level by seq
+    type Node = { name: string; seq?: number; settings?: GroupSettings; request?: Request; children: Map<string, Node> };
+    const tree: Node = { name: rootName, children: new Map() };
+    inRoot
+      .filter(file => {
+        const path = relative(file.path);
+        return path !== 'collection.bru' && !path.startsWith('environments/');
+      })
+      .forEach(file => {
+        const segments = relative(file.path).split('/');
+        const fileName = segments.pop()!;
+        let node = tree;
+        segments.forEach(segment => {
+          if (!node.children.has(segment)) {
+            node.children.set(segment, { name: segment, children: new Map() });
+          }
+          node = node.children.get(segment)!;
+        });
+
+        const blocks = this.parseBru(file.content);
+        const meta = this.dictionary(blocks, 'meta');
+        if (fileName === 'folder.bru') {
+          node.name = meta.name || node.name;
+          node.seq = meta.seq !== undefined ? Number(meta.seq) : undefined;
+          node.settings = this.readGroupSettings(blocks, relative(file.path), context);
+          return;
+        }
+
+        const itemName = `${segments.concat(meta.name || fileName.replace(/\.bru$/, '')).join(' / ')}`;
+        const request = this.convertRequest(blocks, fileName.replace(/\.bru$/, ''), itemName, context);
+        if (request) {
+          node.children.set(fileName, {
+            name: request.name,
+            seq: meta.seq !== undefined ? Number(meta.seq) : undefined,
+            request,
+            children: new Map()
+          });
+        }
+      });
+
+    const addChildren = (node: Node, collectionId: string) => {
+      [...node.children.values()]
+        .sort((a, b) =>
+          (a.seq ?? Infinity) - (b.seq ?? Infinity) ||
+          // Requests win ties, as RunEngine.getChildren orders them
+          Number(!a.request) - Number(!b.request) ||
+          a.name.localeCompare(b.name)
+        )
+        .forEach((child, order) => {
+          if (child.request) {
+            result.requests.push({ ...child.request, collectionId, order });
+            return;
+          }
+          const folder: Collection = {
+            ...child.settings,
+            id: uuidv4(),
+            name: child.name,
+            parentId: collectionId,
+            order,
+            createdAt: new Date(),
+            updatedAt: new Date()
+          };
+          result.collections.push(folder);
+          addChildren(child, folder.id);
+        });
+    };
+    addChildren(tree, root.id);
+
+    if (Object.keys(context.rootVariables).length > 0) {
+      root.variables = { ...context.rootVariables, ...root.variables };
+    }
+    result.summary.collections = result.collections.length;
+    result.summary.requests = result.requests.length;
+    result.summary.variables += result.collections.reduce((count, collection) => count + Object.keys(collection.variables || {}).length, 0);
+    return result;
+  }
+
+  /**
+   * Parse a Bruno environment file. Secret values are never written to the
+   * file, so secret variables are created empty.
+   */
+  static parseEnvironment(name: string, text: string): Environment {
+    const blocks = this.parseBru(text);
+    const variables: Record<string, string> = {};
+    const disabledVariables: Record<string, string> = {};
+    const secretKeys: string[] = [];
+
+    blocks.find(block => block.name === 'vars')?.entries.forEach(entry => {
+      (entry.enabled ? variables : disabledVariables)[entry.key] = entry.value;
+    });
+    blocks.find(block => block.name === 'vars:secret')?.entries.forEach(entry => {
+      secretKeys.push(entry.key);
+      if (!(entry.key in variables)) variables[entry.key] = '';
+    });
+
+    return {
+      id: uuidv4(),
+      name,
+      variables,
+      disabledVariables: Object.keys(disabledVariables).length > 0 ? disabledVariables : undefined,
+      secretKeys: secretKeys.length > 0 ? secretKeys : undefined,
+      isActive: false,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  private static convertRequest(
+    blocks: BruBlock[],
+    fileName: string,
+    itemName: string,
+    context: { result: ImportResult; rootVariables: Record<string, string> }
+  ): Request | null {
+    const { result } = context;
+    const meta = this.dictionary(blocks, 'meta');
+    if (meta.type && meta.type !== 'http' && meta.type !== 'graphql') {
+      result.summary.skipped.push(`${itemName}: unsupported request type "${meta.type}"`);
+      return null;
+    }
+
+    const verb = blocks.find(block => [...METHODS.map(method => method.toLowerCase()), ...OTHER_VERBS].includes(block.name));
+    if (!verb) {
+      result.summary.skipped.push(`${itemName}: no request`);
+      return null;
+    }
+    if (OTHER_VERBS.includes(verb.name)) {
+      result.summary.skipped.push(`${itemName}: unsupported method ${verb.name.toUpperCase()}`);
+      return null;
+    }
+    const settings = this.dictionary(blocks, verb.name);
+
+    // The query block is authoritative; Bruno mirrors it into the URL
+    const [rawUrl, queryString] = (settings.url || '').split(/\?(.*)/s);
+    const params: Record<string, string> = {};
+    const disabledParams: Record<string, string> = {};
+    const queryBlock = blocks.find(block => block.name === 'params:query' || block.name === 'query');
+    if (queryBlock) {
+      queryBlock.entries.forEach(entry => {
+        (entry.enabled ? params : disabledParams)[entry.key] = entry.value;
+      });
+    } else if (queryString) {
+      new URLSearchParams(queryString).forEach((value, key) => {
+        params[key] = value;
+      });
+    }
+
+    // Path parameters (`:id`) become collection variables
+    let url = rawUrl;
+    blocks.find(block => block.name === 'params:path')?.entries.forEach(entry => {
+      url = url.replace(new RegExp(`/:${entry.key}(?=/|$)`, 'g'), `/{{${entry.key}}}`);
+      if (!(entry.key in context.rootVariables)) context.rootVariables[entry.key] = entry.value;
+    });
+
+    const headers: Record<string, string> = {};
+    const disabledHeaders: Record<string, string> = {};
+    blocks.find(block => block.name === 'headers')?.entries.forEach(entry => {
+      (entry.enabled ? headers : disabledHeaders)[entry.key] = entry.value;
+    });
+
+    const { body, bodyType } = this.convertBody(settings.body || 'none', blocks, headers, itemName, result);
+    const { auth, params: authParams } = this.convertAuth(settings.auth || 'inherit', blocks, itemName, result);
+    Object.assign(params, authParams);
+
+    blocks
+      .filter(block => ['vars:pre-request', 'vars:post-response', 'assert'].includes(block.name) && block.entries.length > 0)
+      .forEach(block => result.summary.skipped.push(`${itemName}: ${block.entries.length} entries in "${block.name}"`));
+
+    return {
+      id: uuidv4(),
+      name: meta.name || fileName,
+      description: blocks.find(block => block.name === 'docs')?.text || undefined,
+      method: verb.name.toUpperCase() as Request['method'],
+      url,
+      headers,
+      params,
+      disabledHeaders: Object.keys(disabledHeaders).length > 0 ? disabledHeaders : undefined,
+      disabledParams: Object.keys(disabledParams).length > 0 ? disabledParams : undefined,
+      body,
+      bodyType,
+      auth,
+      ...this.readScripts(blocks, itemName, result),
+      order: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  private static convertBody(
+    mode: string,
+    blocks: BruBlock[],
+    headers: Record<string, string>,
+    itemName: string,
+    result: ImportResult
+  ): { body?: string; bodyType: Request['bodyType'] } {
+    const hasContentType = Object.keys(headers).some(key => key.toLowerCase() === 'content-type');
+    const block = (name: string) => blocks.find(b => b.name === name);
+
+    switch (mode) {
+      case 'none':
+        return { bodyType: 'raw' };
+      case 'formUrlEncoded':
+      case 'multipartForm': {
+        const kind = mode === 'formUrlEncoded' ? 'form-urlencoded' : 'multipart-form';
+        const fields: Record<string, string> = {};
+        block(`body:${kind}`)?.entries.forEach(entry => {
+          if (!entry.enabled) {
+            result.summary.skipped.push(`${itemName}: disabled ${kind} field "${entry.key}"`);
+          } else if (entry.value.startsWith('@file(')) {
+            result.summary.skipped.push(`${itemName}: file field "${entry.key}" in ${kind} body`);
+          } else {
+            fields[entry.key] = entry.value;
+          }
+        });
+        return {
+          body: JSON.stringify(fields, null, 2),
+          bodyType: mode === 'formUrlEncoded' ? 'x-www-form-urlencoded' : 'form-data'
+        };
+      }
+      case 'graphql': {
+        let variables: unknown = {};
+        try {
+          variables = JSON.parse(block('body:graphql:vars')?.text || '{}');
+        } catch {
+          result.summary.skipped.push(`${itemName}: invalid GraphQL variables`);
+        }
+        result.summary.skipped.push(`${itemName}: GraphQL body imported as raw JSON`);
+        if (!hasContentType) headers['Content-Type'] = 'application/json';
+        return { body: JSON.stringify({ query: block('body:graphql')?.text || '', variables }, null, 2), bodyType: 'raw' };
+      }
+      default: {
+        if (!BODY_CONTENT_TYPES[mode]) {
+          result.summary.skipped.push(`${itemName}: unsupported body mode "${mode}"`);
+          return { bodyType: 'raw' };
+        }
+        // Bruno sets the Content-Type from the body mode when none is given
+        if (!hasContentType) headers['Content-Type'] = BODY_CONTENT_TYPES[mode];
+        return { body: block(`body:${mode}`)?.text || undefined, bodyType: 'raw' };
+      }
+    }
+  }
+
+  /**
+   * `inherit` leaves the auth undefined so the parent's auth applies
+   */
+  private static convertAuth(
+    mode: string,
+    blocks: BruBlock[],
+    itemName: string,
+    result: ImportResult
+  ): { auth: Request['auth']; params: Record<string, string> } {
+    const values = this.dictionary(blocks, `auth:${mode}`);
+    switch (mode) {
+      case 'inherit':
+        return { auth: undefined, params: {} };
+      case 'none':
+        return { auth: { type: 'none' }, params: {} };
+      case 'bearer':
+        return { auth: { type: 'bearer', token: values.token || '' }, params: {} };
+      case 'basic':
+        return { auth: { type: 'basic', username: values.username || '', password: values.password || '' }, params: {} };
+      case 'apikey':
+        if (values.placement === 'queryparams') {
+          return { auth: { type: 'none' }, params: { [values.key || '']: values.value || '' } };
+        }
+        return { auth: { type: 'api-key', key: values.key || '', value: values.value || '' }, params: {} };
+      default:
+        result.summary.skipped.push(`${itemName}: unsupported auth mode "${mode}"`);
+        return { auth: undefined, params: {} };
+    }
+  }
+
+  /**
+   * `collection.bru` and `folder.bru` keep their auth mode in an `auth` block
+   */
+  private static readGroupSettings(
+    blocks: BruBlock[],
+    itemName: string,
+    context: { result: ImportResult; rootVariables: Record<string, string> }
+  ): GroupSettings {
+    const { result } = context;
+    const settings: GroupSettings = {};
+
+    const mode = this.dictionary(blocks, 'auth').mode;
+    if (mode) {
+      const { auth, params } = this.convertAuth(mode, blocks, itemName, result);
+      if (Object.keys(params).length > 0) {
+        result.summary.skipped.push(`${itemName}: API key in query string cannot be set on a folder`);
+      } else {
+        settings.auth = auth;
+      }
+    }
+
+    const variables: Record<string, string> = {};
+    blocks.find(block => block.name === 'vars:pre-request')?.entries.forEach(entry => {
+      if (entry.enabled) variables[entry.key] = entry.value;
+    });
+    if (Object.keys(variables).length > 0) {
+      settings.variables = variables;
+    }
+
+    const headers = blocks.find(block => block.name === 'headers')?.entries ?? [];
+    if (headers.length > 0) {
+      result.summary.skipped.push(`${itemName}: ${headers.length} folder-level headers`);
+    }
+
+    Object.assign(settings, this.readScripts(blocks, itemName, result));
+    settings.description = blocks.find(block => block.name === 'docs')?.text || undefined;
+    return settings;
+  }
+
+  /**
+   * Bruno scripts use its own `bru`, `req` and `res` objects, so they are
+   * imported unchanged and listed for review
+   */
+  private static readScripts(
+    blocks: BruBlock[],
+    itemName: string,
+    result: ImportResult
+  ): { preRequestScript?: string; testScript?: string } {
+    const text = (name: string) => blocks.find(block => block.name === name)?.text || undefined;
+    const preRequestScript = text('script:pre-request');
+    const testScript = [text('script:post-response'), text('tests')].filter(script => script).join('\n\n') || undefined;
+
+    if (preRequestScript || testScript) {
+      result.summary.skipped.push(`${itemName}: scripts imported unchanged and may use Bruno-only APIs`);
+    }
+    return { preRequestScript, testScript };
+  }
+
+  private static dictionary(blocks: BruBlock[], name: string): Record<string, string> {
+    const values: Record<string, string> = {};
+    blocks.find(block => block.name === name)?.entries.forEach(entry => {
+      if (entry.enabled) values[entry.key] = entry.value;
+    });
+    return values;
+  }
+
+  private static commonDirectory(paths: string[]): string {
+    const directories = paths.map(path => path.split('/').slice(0, -1));
+    const common: string[] = [];
+    for (let i = 0; directories.every(segments => i < segments.length && segments[i] === directories[0][i]); i++) {
+      common.push(directories[0][i]);
+    }
+    // An environments directory at the top level belongs to the collection
+    if (common[common.length - 1] === 'environments') {
+      common.pop();
+    }
+    return common.join('/');
+  }
+
+  /**
+   * Write a collection tree as the files of a Bruno collection directory:
+   * `bruno.json`, `collection.bru`, a directory with `folder.bru` per folder,
+   * one `.bru` file per request and the given environments.
+   */
+  static exportToBruno(
+    rootId: string,
+    collections: Collection[],
+    requests: Request[],
+    environments: Environment[] = []
+  ): BrunoFile[] {
+    const root = collections.find(c => c.id === rootId);
+    if (!root) {
+      throw new Error('Collection not found');
+    }
+
+    const directory = ExportImportService.sanitizeFileName(root.name);
+    const files: BrunoFile[] = [
+      {
+        path: `${directory}/bruno.json`,
+        content: `${JSON.stringify({ version: '1', name: root.name, type: 'collection', ignore: ['node_modules', '.git'] }, null, 2)}\n`
+      },
+      { path: `${directory}/collection.bru`, content: this.serializeGroup(root) }
+    ];
+
+    const usedEnvironmentNames = new Set<string>();
+    environments.forEach(environment => {
+      // Imported environments carry the collection name, which Bruno shows anyway
+      const name = environment.name.startsWith(`${root.name} - `) ? environment.name.slice(root.name.length + 3) : environment.name;
+      files.push({
+        path: `${directory}/environments/${ExportImportService.uniqueFileName(name, usedEnvironmentNames)}.bru`,
+        content: this.serializeEnvironment(environment)
+      });
+    });
+
+    const writeChildren = (parentId: string, path: string) => {
+      const usedNames = new Set<string>(['folder', 'collection']);
+      RunEngine.getChildren(parentId, collections, requests)
+        .forEach(({ folder, request }, index) => {
+          if (folder) {
+            const folderPath = `${path}/${ExportImportService.uniqueFileName(folder.name, usedNames)}`;
+            files.push({ path: `${folderPath}/folder.bru`, content: this.serializeGroup(folder, index + 1) });
+            writeChildren(folder.id, folderPath);
+          } else if (request) {
+            files.push({
+              path: `${path}/${ExportImportService.uniqueFileName(request.name, usedNames)}.bru`,
+              content: this.serializeRequest(request, index + 1)
+            });
+          }
+        });
+    };
+    writeChildren(root.id, directory);
+
+    return files;
+  }
+
+  /**
+   * Load a collection and the chosen environments from the database and export them
+   */
+  static async exportCollection(collectionId: string, environmentIds: string[] = []): Promise<BrunoFile[]> {
+    const { db } = await import('../database');
+    const [collections, requests, environments] = await Promise.all([
+      db.collections.toArray(),
+      db.requests.toArray(),
+      db.environments.bulkGet(environmentIds)
+    ]);
+
+    return this.exportToBruno(
+      collectionId,
+      collections,
+      requests,
+      environments.filter((environment): environment is Environment => !!environment)
+    );
+  }
+
+  static serializeRequest(request: Request, seq: number): string {
+    const blocks: string[] = [];
+    blocks.push(this.dictionaryBlock('meta', [['name', request.name], ['type', 'http'], ['seq', String(seq)]]));
+
+    const contentType = Object.entries(request.headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1] || '';
+    const bodyMode = !request.body
+      ? 'none'
+      : request.bodyType === 'form-data'
+        ? 'multipartForm'
+        : request.bodyType === 'x-www-form-urlencoded'
+          ? 'formUrlEncoded'
+          : /json/i.test(contentType) ? 'json' : /xml/i.test(contentType) ? 'xml' : 'text';
+    const authMode = !request.auth ? 'inherit' : request.auth.type === 'api-key' ? 'apikey' : request.auth.type;
+
+    const query = Object.entries(request.params).map(([key, value]) => `${key}=${value}`).join('&');
+    blocks.push(this.dictionaryBlock(request.method.toLowerCase(), [
+      ['url', query ? `${request.url}?${query}` : request.url],
+      ['body', bodyMode],
+      ['auth', authMode]
+    ]));
+
+    const entries = (enabled: Record<string, string>, disabled: Record<string, string> = {}): [string, string][] => [
+      ...Object.entries(enabled),
+      ...Object.entries(disabled).map(([key, value]): [string, string] => [`~${key}`, value])
+    ];
+    if (Object.keys(request.params).length > 0 || Object.keys(request.disabledParams || {}).length > 0) {
+      blocks.push(this.dictionaryBlock('params:query', entries(request.params, request.disabledParams)));
+    }
+    if (Object.keys(request.headers).length > 0 || Object.keys(request.disabledHeaders || {}).length > 0) {
+      blocks.push(this.dictionaryBlock('headers', entries(request.headers, request.disabledHeaders)));
+    }
+
+    const authBlock = this.serializeAuth(request.auth);
+    if (authBlock) blocks.push(authBlock);
+
+    if (request.body) {
+      if (bodyMode === 'multipartForm' || bodyMode === 'formUrlEncoded') {
+        blocks.push(this.dictionaryBlock(
+          bodyMode === 'multipartForm' ? 'body:multipart-form' : 'body:form-urlencoded',
+          HttpService.formFields(request.body)
+        ));
+      } else {
+        blocks.push(this.textBlock(`body:${bodyMode}`, request.body));
+      }
+    }
+
+    blocks.push(...this.serializeScripts(request));
+    if (request.description) {
+      blocks.push(this.textBlock('docs', request.description));
+    }
+    return `${blocks.join('\n\n')}\n`;
+  }
+
+  /**
+   * `collection.bru` for the root, `folder.bru` (with a seq) for folders
+   */
+  private static serializeGroup(collection: Collection, seq?: number): string {
+    const blocks: string[] = [];
+    if (seq !== undefined) {
+      blocks.push(this.dictionaryBlock('meta', [['name', collection.name], ['seq', String(seq)]]));
+    }
+
+    // Without an auth block the group inherits, like an undefined auth
+    if (collection.auth) {
+      blocks.push(this.dictionaryBlock('auth', [['mode', collection.auth.type === 'api-key' ? 'apikey' : collection.auth.type]]));
+      const authBlock = this.serializeAuth(collection.auth);
+      if (authBlock) blocks.push(authBlock);
+    }
+
+    if (collection.variables && Object.keys(collection.variables).length > 0) {
+      blocks.push(this.dictionaryBlock('vars:pre-request', Object.entries(collection.variables)));
+    }
+    blocks.push(...this.serializeScripts(collection));
+    if (collection.description) {
+      blocks.push(this.textBlock('docs', collection.description));
+    }
+    return `${blocks.join('\n\n')}\n`;
+  }
+
+  /**
+   * Secret values stay out of the file, as Bruno does
+   */
+  static serializeEnvironment(environment: Environment): string {
+    const secretKeys = environment.secretKeys || [];
+    const blocks = [
+      this.dictionaryBlock('vars', [
+        ...Object.entries(environment.variables).filter(([key]) => !secretKeys.includes(key)),
+        ...Object.entries(environment.disabledVariables || {}).map(([key, value]): [string, string] => [`~${key}`, value])
+      ])
+    ];
+    if (secretKeys.length > 0) {
+      blocks.push(`vars:secret [\n${secretKeys.map(key => `  ${key}`).join(',\n')}\n]`);
+    }
+    return `${blocks.join('\n\n')}\n`;
+  }
+
+  private static serializeAuth(auth: Request['auth']): string | undefined {
+    switch (auth?.type) {
+      case 'bearer':
+        return this.dictionaryBlock('auth:bearer', [['token', auth.token || '']]);
+      case 'basic':
+        return this.dictionaryBlock('auth:basic', [['username', auth.username || ''], ['password', auth.password || '']]);
+      case 'api-key':
+        return this.dictionaryBlock('auth:apikey', [['key', auth.key || ''], ['value', auth.value || ''], ['placement', 'header']]);
+      default:
+        return undefined;
+    }
+  }
+
+  private static serializeScripts(source: { preRequestScript?: string; testScript?: string }): string[] {
+    const blocks: string[] = [];
+    if (source.preRequestScript) {
+      blocks.push(this.textBlock('script:pre-request', source.preRequestScript));
+    }
+    if (source.testScript) {
+      blocks.push(this.textBlock('tests', source.testScript));
+    }
+    return blocks;
+  }
+
+  private static dictionaryBlock(name: string, entries: [string, string][]): string {
+    const entry = (key: string, value: string) => (value.includes('\n')
+      ? `  ${key}: '''\n${value.split('\n').map(line => (line ? `    ${line}` : '')).join('\n')}\n  '''`
+      : `  ${key}: ${value}`);
+    return `${name} {\n${entries.map(([key, value]) => entry(key, value)).join('\n')}\n}`;
+  }
+
+  private static textBlock(name: string, text: string): string {
+    return `${name} {\n${text.split('\n').map(line => (line ? `  ${line}` : '')).join('\n')}\n}`;
+  }
+}
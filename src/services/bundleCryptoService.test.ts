@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { sampleWorkspace } from '../test/workspace';
+import { BundleCryptoService } from './bundleCryptoService';
+import { ExportImportService } from './exportImportService';
+
+const exportText = () => JSON.stringify({ ...sampleWorkspace(), version: '1.0.0', exportedAt: '2024-01-01T00:00:00.000Z' });
+
+describe('BundleCryptoService', () => {
+  it('decrypts what it encrypted', async () => {
+    const plaintext = exportText();
+
+    const bundle = await BundleCryptoService.encrypt(plaintext, 'correct horse');
+
+    expect(BundleCryptoService.isEncrypted(JSON.parse(JSON.stringify(bundle)))).toBe(true);
+    expect(bundle.data).not.toContain('Shop');
+    expect(await BundleCryptoService.decrypt(bundle, 'correct horse')).toBe(plaintext);
+  });
+
+  it('uses a fresh salt and iv every time', async () => {
+    const [first, second] = [await BundleCryptoService.encrypt('x', 'pass'), await BundleCryptoService.encrypt('x', 'pass')];
+
+    expect(first.kdf.salt).not.toBe(second.kdf.salt);
+    expect(first.cipher.iv).not.toBe(second.cipher.iv);
+  });
+
+  it('rejects a wrong passphrase and a modified file', async () => {
+    const bundle = await BundleCryptoService.encrypt('secret', 'pass');
+    const flipped = (bundle.data[0] === 'A' ? 'B' : 'A') + bundle.data.slice(1);
+
+    await expect(BundleCryptoService.decrypt(bundle, 'Pass')).rejects.toThrow('Wrong passphrase or corrupted file');
+    await expect(BundleCryptoService.decrypt({ ...bundle, data: flipped }, 'pass')).rejects.toThrow('Wrong passphrase or corrupted file');
+    await expect(BundleCryptoService.decrypt({ ...bundle, version: 2 }, 'pass')).rejects.toThrow('Unsupported encrypted bundle version 2');
+  });
+
+  it('requires a passphrase', async () => {
+    await expect(BundleCryptoService.encrypt('secret', '')).rejects.toThrow('A passphrase is required');
+  });
+});
+
+describe('ExportImportService.parseExportFile', () => {
+  it('opens encrypted exports with the requested passphrase', async () => {
+    const text = JSON.stringify(await BundleCryptoService.encrypt(exportText(), 'pass'));
+
+    const data = await ExportImportService.parseExportFile(text, async () => 'pass');
+
+    expect(data.requests.map(r => r.id)).toEqual(sampleWorkspace().requests.map(r => r.id));
+    await expect(ExportImportService.parseExportFile(text, async () => null)).rejects.toThrow('The file is encrypted and no passphrase was given');
+    await expect(ExportImportService.parseExportFile(text)).rejects.toThrow('The file is encrypted and no passphrase was given');
+  });
+
+  it('rejects files that are not exports', async () => {
+    await expect(ExportImportService.parseExportFile('{"collections":[]}')).rejects.toThrow('Invalid export file format');
+  });
+});
@@ -0,0 +1,83 @@
+const FORMAT = 'webpostman-encrypted';
+const FORMAT_VERSION = 1;
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+const ITERATIONS = 600000;
+
+/**
+ * An export encrypted with a passphrase. The key is derived with PBKDF2
+ * and the data sealed with AES-GCM, so a wrong passphrase or a modified
+ * file fails to decrypt instead of producing garbage.
+ */
+export interface EncryptedBundle {
+  format: typeof FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Spreading a large array into fromCharCode overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+export class BundleCryptoService {
+  static isEncrypted(value: unknown): value is EncryptedBundle {
+    return !!value && typeof value === 'object' && (value as EncryptedBundle).format === FORMAT;
+  }
+
+  static async encrypt(plaintext: string, passphrase: string): Promise<EncryptedBundle> {
+    if (!passphrase) {
+      throw new Error('A passphrase is required');
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await this.deriveKey(passphrase, salt, ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+    return {
+      format: FORMAT,
+      version: FORMAT_VERSION,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS, salt: toBase64(salt) },
+      cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+      data: toBase64(new Uint8Array(ciphertext))
+    };
+  }
+
+  static async decrypt(bundle: EncryptedBundle, passphrase: string): Promise<string> {
+    if (bundle.version > FORMAT_VERSION) {
+      throw new Error(`Unsupported encrypted bundle version ${bundle.version}`);
+    }
+
+    const key = await this.deriveKey(passphrase, fromBase64(bundle.kdf.salt), bundle.kdf.iterations);
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(bundle.cipher.iv) },
+        key,
+        fromBase64(bundle.data)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      throw new Error('Wrong passphrase or corrupted file');
+    }
+  }
+
+  private static async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+}
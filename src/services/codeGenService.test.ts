@@ -0,0 +1,208 @@
+import { execFileSync, spawnSync } from 'node:child_process';
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import type { RequestConfig } from '../types';
+import { CodeGenService } from './codeGenService';
+
+const request = (overrides: Partial<RequestConfig> = {}): RequestConfig => ({
+  method: 'GET',
+  url: 'https://api.example.com/users',
+  headers: {},
+  params: {},
+  bodyType: 'raw',
+  ...overrides
+});
+
+// Characters each target language's string literals treat specially
+const AWKWARD = `it's "quoted" $HOME #{id} \`id\` \\ back\nline\ttab\x01 {{var}}`;
+
+// One request per body type, with the awkward value everywhere it can go
+const REQUESTS: Record<string, RequestConfig> = {
+  raw: request({
+    method: 'POST',
+    params: { q: AWKWARD },
+    headers: { 'Content-Type': 'application/json', 'X-Note': AWKWARD },
+    body: JSON.stringify({ note: AWKWARD }),
+    auth: { type: 'bearer', token: AWKWARD }
+  }),
+  'url-encoded': request({
+    method: 'PUT',
+    bodyType: 'x-www-form-urlencoded',
+    body: JSON.stringify({ note: AWKWARD, [AWKWARD]: 'key' }),
+    auth: { type: 'basic', username: 'ann', password: AWKWARD }
+  }),
+  'form-data': request({
+    method: 'POST',
+    bodyType: 'form-data',
+    body: JSON.stringify({ note: AWKWARD, file: '@not-a-file' }),
+    auth: { type: 'api-key', key: 'X-Api-Key', value: AWKWARD }
+  })
+};
+
+const JS_TARGETS = ['javascript', 'node-fetch', 'node-http', 'axios'];
+
+const jsSyntaxErrors = (code: string): string[] =>
+  ts.transpileModule(code, { reportDiagnostics: true, compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext } })
+    .diagnostics!.map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+/**
+ * Run a JavaScript snippet with the given globals standing in for its imports
+ */
+const runJs = async (code: string, globals: Record<string, unknown>): Promise<void> => {
+  const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+  const script = code.replace(/^import \w+ from "\w+";$/m, '');
+  await new AsyncFunction(...Object.keys(globals), script)(...Object.values(globals));
+};
+
+const silentConsole = { log: () => {}, error: () => {} };
+
+/**
+ * The words bash passes to the program of a generated command
+ */
+const shellWords = (command: string): string[] =>
+  execFileSync('bash', ['-c', command.replace(/^\S+/, "printf '%s\\0'")], { encoding: 'utf8' }).split('\0').slice(0, -1);
+
+/**
+ * The value of a PowerShell double-quoted string, for the escapes the generator writes
+ */
+const powershellValue = (literal: string): string => {
+  expect(literal).toMatch(/^"([^`"$]|`[nrt`"$]|\$\(\[char\]0x[0-9a-f]{2}\))*"$/);
+  return literal.slice(1, -1).replace(/`([nrt`"$])|\$\(\[char\]0x([0-9a-f]{2})\)/g, (_, escaped: string | undefined, code: string | undefined) =>
+    escaped ? ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[escaped] ?? escaped : String.fromCharCode(parseInt(code!, 16)));
+};
+
+const installed = (tool: string) => spawnSync('bash', ['-c', `command -v ${tool}`]).status === 0;
+
+// The snippets' libraries are not installed here, so these only parse, and only where the parser is
+const PARSERS: Record<string, { tool: string; args: string[] }> = {
+  python: { tool: 'python3', args: ['-c', 'import ast, sys; ast.parse(sys.stdin.read())'] },
+  go: { tool: 'gofmt', args: ['-e'] },
+  ruby: { tool: 'ruby', args: ['-c'] },
+  rust: { tool: 'rustfmt', args: ['--edition', '2021', '--emit', 'stdout'] }
+};
+
+describe('generated code', () => {
+  describe.each(Object.entries(REQUESTS))('for a %s body', (_, config) => {
+    it.each(JS_TARGETS)('is valid JavaScript for %s', id => {
+      for (const style of ['async', 'callbacks']) {
+        expect(jsSyntaxErrors(CodeGenService.generate(id, config, { options: { style } }))).toEqual([]);
+      }
+    });
+
+    it.each(Object.entries(PARSERS).filter(([, { tool }]) => installed(tool)))('parses for %s', (id, { tool, args }) => {
+      const styles = id === 'rust' ? ['blocking', 'async'] : [undefined];
+      for (const style of styles) {
+        const code = CodeGenService.generate(id, config, { options: style ? { style } : {} });
+        expect(() => execFileSync(tool, args, { input: code, stdio: 'pipe' })).not.toThrow();
+      }
+    });
+  });
+
+  it('escapes values for the JVM, .NET, PHP and Swift string literals', () => {
+    const config = REQUESTS.raw;
+
+    expect(CodeGenService.generate('java', config)).toContain('"it\'s \\"quoted\\" $HOME #{id} `id` \\\\ back\\nline\\ttab\\u0001 {{var}}"');
+    expect(CodeGenService.generate('csharp', config)).toContain('\\ttab\\u0001 {{var}}"');
+    expect(CodeGenService.generate('kotlin', config)).toContain('\\"quoted\\" \\$HOME #{id}');
+    expect(CodeGenService.generate('php', config)).toContain('\\"quoted\\" \\$HOME #{id} `id` \\\\ back\\nline\\ttab\\x01');
+    expect(CodeGenService.generate('swift', config)).toContain('\\ttab\\u{1} {{var}}"');
+  });
+
+  describe('JavaScript snippets', () => {
+    const { raw } = REQUESTS;
+    const basicAuth = `Basic ${Buffer.from(`ann:${AWKWARD}`).toString('base64')}`;
+
+    it('pass fetch the exact values', async () => {
+      for (const id of ['javascript', 'node-fetch']) {
+        const calls: [string, RequestInit][] = [];
+        const fetch = async (url: string, init: RequestInit) => {
+          calls.push([url, init]);
+          return { status: 200, text: async () => '' };
+        };
+
+        await runJs(CodeGenService.generate(id, raw), { fetch, console: silentConsole });
+        await runJs(CodeGenService.generate(id, REQUESTS['url-encoded'], { options: { style: 'callbacks' } }), { fetch, console: silentConsole });
+
+        expect(new URL(calls[0][0]).searchParams.get('q')).toBe(AWKWARD);
+        expect(calls[0][1]).toEqual({
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Note': AWKWARD, Authorization: `Bearer ${AWKWARD}` },
+          body: raw.body
+        });
+        expect((calls[1][1].headers as Record<string, string>).Authorization).toBe(basicAuth);
+        expect([...(calls[1][1].body as URLSearchParams)]).toEqual([['note', AWKWARD], [AWKWARD, 'key']]);
+      }
+    });
+
+    it('pass axios the exact values', async () => {
+      const calls: Record<string, unknown>[] = [];
+      const axios = async (config: Record<string, unknown>) => {
+        calls.push(config);
+        return { status: 200, data: '' };
+      };
+
+      await runJs(CodeGenService.generate('axios', raw), { axios, console: silentConsole });
+      await runJs(CodeGenService.generate('axios', REQUESTS['form-data']), { axios, console: silentConsole });
+
+      expect(calls[0]).toMatchObject({
+        method: 'post',
+        headers: { 'X-Note': AWKWARD, Authorization: `Bearer ${AWKWARD}` },
+        data: raw.body
+      });
+      expect(calls[1].headers).toEqual({ 'X-Api-Key': AWKWARD });
+      expect([...(calls[1].data as FormData)]).toEqual([['note', AWKWARD], ['file', '@not-a-file']]);
+    });
+
+    it('pass Node\'s https module the exact values', async () => {
+      const sent: { url?: string; options?: Record<string, unknown>; body?: string } = {};
+      const https = {
+        request: (url: string, options: Record<string, unknown>) => {
+          Object.assign(sent, { url, options });
+          return { on: () => {}, write: (body: string) => { sent.body = body; }, end: () => {} };
+        }
+      };
+
+      await runJs(CodeGenService.generate('node-http', REQUESTS['url-encoded']), { require: () => https, console: silentConsole });
+
+      expect(sent.options).toMatchObject({ method: 'PUT', auth: `ann:${AWKWARD}` });
+      expect([...new URLSearchParams(sent.body)]).toEqual([['note', AWKWARD], [AWKWARD, 'key']]);
+    });
+  });
+
+  describe('shell snippets', () => {
+    it('pass wget the exact values', () => {
+      const words = shellWords(CodeGenService.generate('wget', REQUESTS.raw));
+
+      expect(words).toContain(`--header=X-Note: ${AWKWARD}`);
+      expect(words).toContain(`--header=Authorization: Bearer ${AWKWARD}`);
+      expect(words).toContain(`--body-data=${REQUESTS.raw.body}`);
+      expect(new URL(words[words.length - 1]).searchParams.get('q')).toBe(AWKWARD);
+      expect(shellWords(CodeGenService.generate('wget', REQUESTS['url-encoded']))).toContain(`--password=${AWKWARD}`);
+    });
+
+    it('pass HTTPie the exact values', () => {
+      const words = shellWords(CodeGenService.generate('httpie', REQUESTS.raw));
+
+      expect(words.slice(0, 4)).toEqual(['--follow', '--raw', REQUESTS.raw.body, 'POST']);
+      expect(words).toContain(`X-Note:${AWKWARD}`);
+      expect(words).toContain(`Authorization:Bearer ${AWKWARD}`);
+      expect(shellWords(CodeGenService.generate('httpie', REQUESTS['url-encoded']))).toContain(`ann:${AWKWARD}`);
+    });
+  });
+
+  describe('PowerShell snippets', () => {
+    it('escape every string literal', () => {
+      const code = CodeGenService.generate('powershell', REQUESTS['url-encoded']);
+      const literal = '("(?:[^`"]|`.)*")';
+      const fields = [...code.matchAll(new RegExp(`^ {4}${literal} = ${literal}$`, 'gm'))]
+        .map(([, name, value]) => [powershellValue(name), powershellValue(value)]);
+
+      expect(fields).toEqual([['note', AWKWARD], [AWKWARD, 'key']]);
+      expect(powershellValue(code.match(new RegExp(`GetBytes\\(${literal}\\)`))![1])).toBe(`ann:${AWKWARD}`);
+    });
+  });
+
+  it('rejects unknown generators', () => {
+    expect(() => CodeGenService.generate('cobol', request())).toThrow('Unknown code generator: cobol');
+  });
+});
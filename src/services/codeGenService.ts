@@ -1,232 +1,1383 @@
 import type { RequestConfig } from '../types';
+import { HttpService } from './httpService';
+import { RedactionService } from './redactionService';
+import type { RedactionContext } from './redactionService';
+
+export type CodeGenOptionValue = string | number | boolean;
+export type CodeGenOptions = Record<string, CodeGenOptionValue>;
+
+/**
+ * An option a generator offers; the code generator dialog renders a
+ * checkbox, number field or select for it depending on the type
+ */
+export interface CodeGenOption {
+  id: string;
+  label: string;
+  type: 'boolean' | 'number' | 'select';
+  default: CodeGenOptionValue;
+  choices?: { value: string; label: string }[];
+}
+
+/**
+ * A snippet target. `syntax` names the highlighting mode of the output.
+ */
+export interface CodeGenerator {
+  id: string;
+  label: string;
+  icon: string;
+  syntax: string;
+  options: CodeGenOption[];
+  generate: (config: RequestConfig, options: CodeGenOptions) => string;
+}
+
+export interface GenerateContext {
+  options?: CodeGenOptions;
+  variables?: Record<string, string>;
+  redaction?: RedactionContext;
+}
+
+/**
+ * Generators write their default indentation; other choices are applied
+ * afterwards, so string literals in the output never span lines
+ */
+export const indentOption = (defaultIndent: '2' | '4' | 'tab'): CodeGenOption => ({
+  id: 'indent',
+  label: 'Indentation',
+  type: 'select',
+  default: defaultIndent,
+  choices: [
+    { value: '2', label: '2 spaces' },
+    { value: '4', label: '4 spaces' },
+    { value: 'tab', label: 'Tabs' }
+  ]
+});
+
+export const styleOption = (choices: { value: string; label: string }[]): CodeGenOption => ({
+  id: 'style',
+  label: 'Style',
+  type: 'select',
+  default: choices[0].value,
+  choices
+});
+
+export const TIMEOUT_OPTION: CodeGenOption = { id: 'timeout', label: 'Timeout in seconds (0 for none)', type: 'number', default: 0 };
+
+// HttpService sends with fetch, which follows redirects
+export const FOLLOW_REDIRECTS_OPTION: CodeGenOption = { id: 'followRedirects', label: 'Follow redirects', type: 'boolean', default: true };
+
+// Applied by CodeGenService.generate before the generator runs
+export const INTERPOLATE_OPTION: CodeGenOption = { id: 'interpolateVariables', label: 'Fill in environment variables', type: 'boolean', default: false };
+
+export const MULTIPART_BOUNDARY = 'WebPostmanBoundary';
+
+const escapeString = (value: string, escapeControl: (code: number) => string): string =>
+  value.replace(/[\\"\x00-\x1f]/g, char => {
+    switch (char) {
+      case '\\': return '\\\\';
+      case '"': return '\\"';
+      case '\n': return '\\n';
+      case '\r': return '\\r';
+      case '\t': return '\\t';
+      default: return escapeControl(char.charCodeAt(0));
+    }
+  });
+
+const hex = (code: number, width: number) => code.toString(16).padStart(width, '0');
+
+// Double-quoted string literals for each target
+const jsString = (value: string) => JSON.stringify(value);
+const pythonString = jsString;
+const goString = (value: string) => `"${escapeString(value, code => `\\x${hex(code, 2)}`)}"`;
+const javaString = (value: string) => `"${escapeString(value, code => `\\u${hex(code, 4)}`)}"`;
+const csharpString = javaString;
+const rustString = (value: string) => `"${escapeString(value, code => `\\u{${hex(code, 1)}}`)}"`;
+const swiftString = rustString;
+const kotlinString = (value: string) => javaString(value).replace(/\$/g, '\\$');
+const phpString = (value: string) => goString(value).replace(/\$/g, '\\$');
+const rubyString = (value: string) => goString(value).replace(/#/g, '\\#');
+const powershellString = (value: string) =>
+  `"${value.replace(/[`"$\x00-\x1f]/g, char => {
+    switch (char) {
+      case '\n': return '`n';
+      case '\r': return '`r';
+      case '\t': return '`t';
+      case '`': case '"': case '$': return `\`${char}`;
+      default: return `$([char]0x${hex(char.charCodeAt(0), 2)})`;
+    }
+  })}"`;
+
+// Single quotes keep everything literal except the quote itself. Control
+// characters other than newlines cannot be typed, so those strings use bash's $'...'.
+const shellString = (value: string) =>
+  /[\x00-\x09\x0b-\x1f]/.test(value)
+    ? `$'${value.replace(/[\\'\x00-\x1f]/g, char => {
+      switch (char) {
+        case '\n': return '\\n';
+        case '\r': return '\\r';
+        case '\t': return '\\t';
+        case '\\': case "'": return `\\${char}`;
+        default: return `\\x${hex(char.charCodeAt(0), 2)}`;
+      }
+    })}'`
+    : `'${value.replace(/'/g, "'\\''")}'`;
+
+const indentUnit = (indent: CodeGenOptionValue) => (indent === 'tab' ? '\t' : ' '.repeat(Number(indent)));
+
+const reindent = (code: string, from: CodeGenOptionValue, to: CodeGenOptionValue): string => {
+  const source = indentUnit(from);
+  const target = indentUnit(to);
+  return code.split('\n').map(line => {
+    let level = 0;
+    while (line.startsWith(source.repeat(level + 1))) level++;
+    return target.repeat(level) + line.slice(source.length * level);
+  }).join('\n');
+};
 
 export class CodeGenService {
-  static generateCurl(config: RequestConfig): string {
-    let curl = `curl -X ${config.method}`;
-    
-    // Add headers
-    Object.entries(config.headers).forEach(([key, value]) => {
-      curl += ` \\\n  -H "${key}: ${value}"`;
-    });
-    
-    // Add authentication
-    if (config.auth) {
-      switch (config.auth.type) {
-        case 'bearer':
-          if (config.auth.token) {
-            curl += ` \\\n  -H "Authorization: Bearer ${config.auth.token}"`;
-          }
-          break;
-        case 'basic':
-          if (config.auth.username && config.auth.password) {
-            curl += ` \\\n  -u "${config.auth.username}:${config.auth.password}"`;
-          }
-          break;
-        case 'api-key':
-          if (config.auth.key && config.auth.value) {
-            curl += ` \\\n  -H "${config.auth.key}: ${config.auth.value}"`;
-          }
-          break;
+  private static generators = new Map<string, CodeGenerator>();
+
+  /**
+   * Add a target, replacing any registered with the same id
+   */
+  static register(generator: CodeGenerator): void {
+    this.generators.set(generator.id, generator);
+  }
+
+  static getGenerators(): CodeGenerator[] {
+    return [...this.generators.values()];
+  }
+
+  static getGenerator(id: string): CodeGenerator | undefined {
+    return this.generators.get(id);
+  }
+
+  static defaultOptions(generator: CodeGenerator): CodeGenOptions {
+    return Object.fromEntries(generator.options.map(option => [option.id, option.default]));
+  }
+
+  /**
+   * Generate a snippet with the generator's defaults for options not given.
+   * Variables are filled in before secrets are redacted, so redaction also
+   * covers values that came from the environment.
+   */
+  static generate(id: string, config: RequestConfig, { options = {}, variables = {}, redaction }: GenerateContext = {}): string {
+    const generator = this.generators.get(id);
+    if (!generator) {
+      throw new Error(`Unknown code generator: ${id}`);
+    }
+
+    const resolved = { ...this.defaultOptions(generator), ...options };
+    let request = resolved.interpolateVariables ? HttpService.interpolateRequest(config, variables) : config;
+    if (redaction) {
+      request = RedactionService.redactRequest(request, redaction);
+    }
+
+    const code = generator.generate(request, resolved);
+    const indent = generator.options.find(option => option.id === 'indent');
+    return indent && resolved.indent !== indent.default ? reindent(code, indent.default, resolved.indent) : code;
+  }
+
+  static generateCurl(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const timeout = Number(options.timeout) || 0;
+    const basic = this.basicAuth(config);
+    // curl -X HEAD waits for a body that never comes
+    let command = `curl${options.followRedirects !== false ? ' -L' : ''} ${config.method === 'HEAD' ? '-I' : `-X ${config.method}`}`;
+    if (timeout > 0) {
+      command += ` --max-time ${timeout}`;
+    }
+
+    // A header ending in a semicolon is how curl sends an empty value
+    const args = [command, ...Object.entries(this.buildHeaders(config)).map(([name, value]) =>
+      `-H ${shellString(value ? `${name}: ${value}` : `${name};`)}`
+    )];
+    if (basic) {
+      args.push(`-u ${shellString(`${basic.username}:${basic.password}`)}`);
+    }
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        args.push(`--data-raw ${shellString(config.body!)}`);
+      } else {
+        // --form-string keeps values starting with @ or < from being read as files
+        const flag = config.bodyType === 'x-www-form-urlencoded' ? '--data-urlencode' : '--form-string';
+        this.formFields(config).forEach(([key, value]) => args.push(`${flag} ${shellString(`${key}=${value}`)}`));
       }
     }
-    
-    // Add body
-    if (config.body && ['POST', 'PUT', 'PATCH'].includes(config.method)) {
+    args.push(shellString(this.buildUrl(config)));
+
+    return args.join(' \\\n  ');
+  }
+
+  static generateHttpie(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const timeout = Number(options.timeout) || 0;
+    const basic = this.basicAuth(config);
+    // Escape separators in the name, and at the start of the value where they would
+    // turn `=` into `=@` (a file) or `==` (a query parameter)
+    const item = (name: string, separator: string, value: string) =>
+      shellString(`${name.replace(/[:=@;\\]/g, '\\$&')}${separator}${value.replace(/^[:=@]/, '\\$&')}`);
+
+    const flags: string[] = [];
+    if (options.followRedirects !== false) {
+      flags.push('--follow');
+    }
+    if (timeout > 0) {
+      flags.push(`--timeout=${timeout}`);
+    }
+    if (basic) {
+      flags.push(`--auth ${shellString(`${basic.username}:${basic.password}`)}`);
+    }
+
+    const items = Object.entries(this.buildHeaders(config)).map(([name, value]) => (value ? item(name, ':', value) : item(name, ';', '')));
+    if (HttpService.hasBody(config)) {
       if (config.bodyType === 'raw') {
-        curl += ` \\\n  -d '${config.body}'`;
+        flags.push(`--raw ${shellString(config.body!)}`);
+      } else {
+        flags.push(config.bodyType === 'x-www-form-urlencoded' ? '--form' : '--multipart');
+        this.formFields(config).forEach(([key, value]) => items.push(item(key, '=', value)));
+      }
+    }
+
+    return [`http ${[...flags, config.method].join(' ')} ${shellString(this.buildUrl(config))}`, ...items].join(' \\\n  ');
+  }
+
+  static generateWget(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const timeout = Number(options.timeout) || 0;
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    // --content-on-error prints the body of 4xx and 5xx responses too
+    const args = [`wget --content-on-error -O - --method=${config.method}`];
+    if (timeout > 0) {
+      args[0] += ` --timeout=${timeout}`;
+    }
+    if (options.followRedirects === false) {
+      args[0] += ' --max-redirect=0';
+    }
+
+    let body: string | undefined;
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        body = config.body!;
       } else if (config.bodyType === 'x-www-form-urlencoded') {
-        curl += ` \\\n  -d '${config.body}'`;
-      } else if (config.bodyType === 'form-data') {
-        // For form-data, we need to handle it differently
-        try {
-          const parsed = JSON.parse(config.body);
-          Object.entries(parsed).forEach(([key, value]) => {
-            curl += ` \\\n  -F "${key}=${value}"`;
-          });
-        } catch {
-          // If not JSON, treat as form data
-          const lines = config.body.split('\n');
-          lines.forEach(line => {
-            const [key, value] = line.split('=');
-            if (key && value) {
-              curl += ` \\\n  -F "${key.trim()}=${value.trim()}"`;
-            }
-          });
-        }
+        headers.push(['Content-Type', 'application/x-www-form-urlencoded']);
+        body = this.urlEncoded(fields);
+      } else {
+        headers.push(['Content-Type', `multipart/form-data; boundary=${MULTIPART_BOUNDARY}`]);
+        body = this.multipartBody(fields);
       }
     }
-    
-    // Add URL
-    const url = new URL(config.url);
-    Object.entries(config.params).forEach(([key, value]) => {
-      url.searchParams.append(key, value);
-    });
-    curl += ` \\\n  "${url.toString()}"`;
-    
-    return curl;
-  }
-
-  static generateJavaScript(config: RequestConfig): string {
-    let js = `fetch('${config.url}'`;
-    
-    // Add query parameters
-    const url = new URL(config.url);
-    Object.entries(config.params).forEach(([key, value]) => {
-      url.searchParams.append(key, value);
-    });
-    
-    js = `fetch('${url.toString()}'`;
-    
-    // Prepare options
-    const options: any = {
-      method: config.method
-    };
-    
-    // Add headers
-    if (Object.keys(config.headers).length > 0) {
-      options.headers = config.headers;
-    }
-    
-    // Add authentication
-    if (config.auth) {
-      if (!options.headers) options.headers = {};
-      
-      switch (config.auth.type) {
-        case 'bearer':
-          if (config.auth.token) {
-            options.headers['Authorization'] = `Bearer ${config.auth.token}`;
-          }
-          break;
-        case 'basic':
-          if (config.auth.username && config.auth.password) {
-            const credentials = btoa(`${config.auth.username}:${config.auth.password}`);
-            options.headers['Authorization'] = `Basic ${credentials}`;
-          }
-          break;
-        case 'api-key':
-          if (config.auth.key && config.auth.value) {
-            options.headers[config.auth.key] = config.auth.value;
-          }
-          break;
+
+    headers.forEach(([name, value]) => args.push(`--header=${shellString(`${name}: ${value}`)}`));
+    if (basic) {
+      // wget only sends credentials after a 401 unless told not to wait for one
+      args.push(
+        '--auth-no-challenge',
+        `--user=${shellString(basic.username)}`,
+        `--password=${shellString(basic.password)}`
+      );
+    }
+    if (body !== undefined) {
+      args.push(`--body-data=${shellString(body)}`);
+    }
+    args.push(shellString(this.buildUrl(config)));
+
+    return args.join(' \\\n  ');
+  }
+
+  static generatePowerShell(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const timeout = Number(options.timeout) || 0;
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+    const lines = ['# PowerShell 7+', ''];
+    const params = [`    Uri = ${powershellString(this.buildUrl(config))}`];
+
+    if (methods.includes(config.method)) {
+      params.push(`    Method = ${powershellString(config.method.charAt(0) + config.method.slice(1).toLowerCase())}`);
+    } else {
+      params.push(`    CustomMethod = ${powershellString(config.method)}`);
+    }
+
+    // Invoke-RestMethod takes the content type as a parameter rather than a header
+    const contentType = headers.find(([name]) => name.toLowerCase() === 'content-type');
+    const otherHeaders = headers.filter(header => header !== contentType);
+    if (otherHeaders.length > 0 || basic) {
+      lines.push(
+        '$headers = @{',
+        ...otherHeaders.map(([name, value]) => `    ${powershellString(name)} = ${powershellString(value)}`)
+      );
+      if (basic) {
+        lines.push(`    "Authorization" = "Basic " + [Convert]::ToBase64String([Text.Encoding]::UTF8.GetBytes(${powershellString(`${basic.username}:${basic.password}`)}))`);
       }
+      lines.push('}', '');
+      params.push('    Headers = $headers');
     }
-    
-    // Add body
-    if (config.body && ['POST', 'PUT', 'PATCH'].includes(config.method)) {
+    if (contentType) {
+      params.push(`    ContentType = ${powershellString(contentType[1])}`);
+    }
+
+    if (HttpService.hasBody(config)) {
       if (config.bodyType === 'raw') {
-        options.body = config.body;
+        lines.push(`$body = ${powershellString(config.body!)}`, '');
+        params.push('    Body = $body');
+      } else {
+        // A hashtable body is sent url-encoded; -Form sends multipart
+        lines.push('$form = @{', ...fields.map(([key, value]) => `    ${powershellString(key)} = ${powershellString(value)}`), '}', '');
+        params.push(config.bodyType === 'x-www-form-urlencoded' ? '    Body = $form' : '    Form = $form');
+      }
+    }
+    if (timeout > 0) {
+      params.push(`    TimeoutSec = ${timeout}`);
+    }
+    if (options.followRedirects === false) {
+      params.push('    MaximumRedirection = 0');
+    }
+    params.push('    SkipHttpErrorCheck = $true', '    StatusCodeVariable = "statusCode"');
+
+    lines.push(
+      '$params = @{',
+      ...params,
+      '}',
+      '',
+      '$response = Invoke-RestMethod @params',
+      '$statusCode',
+      '$response',
+      ''
+    );
+    return lines.join('\n');
+  }
+
+  static generateJavaScript(config: RequestConfig, options: CodeGenOptions = {}): string {
+    return this.fetchSnippet(config, options, credentials => `btoa(${credentials})`);
+  }
+
+  static generateNodeFetch(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const code = this.fetchSnippet(config, options, credentials => `Buffer.from(${credentials}).toString("base64")`);
+    return options.style === 'callbacks' ? code : `// Top-level await needs an ES module: save as .mjs\n${code}`;
+  }
+
+  static generateNodeHttp(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const url = this.buildUrl(config);
+    const module = url.startsWith('http:') ? 'http' : 'https';
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const lines = [`const ${module} = require("${module}");`, ''];
+    let hasBody = false;
+
+    if (HttpService.hasBody(config)) {
+      hasBody = true;
+      if (config.bodyType === 'raw') {
+        lines.push(`const body = ${jsString(config.body!)};`);
       } else if (config.bodyType === 'x-www-form-urlencoded') {
-        options.body = config.body;
-        options.headers['Content-Type'] = 'application/x-www-form-urlencoded';
-      } else if (config.bodyType === 'form-data') {
-        const formData = new FormData();
-        try {
-          const parsed = JSON.parse(config.body);
-          Object.entries(parsed).forEach(([key, value]) => {
-            formData.append(key, String(value));
-          });
-        } catch {
-          const lines = config.body.split('\n');
-          lines.forEach(line => {
-            const [key, value] = line.split('=');
-            if (key && value) {
-              formData.append(key.trim(), value.trim());
-            }
-          });
-        }
-        options.body = formData;
-      }
-    }
-    
-    js += `, ${JSON.stringify(options, null, 2)})`;
-    js += `\n  .then(response => response.json())`;
-    js += `\n  .then(data => console.log(data))`;
-    js += `\n  .catch(error => console.error('Error:', error));`;
-    
-    return js;
-  }
-
-  static generatePython(config: RequestConfig): string {
-    let python = `import requests\n\n`;
-    
-    // Prepare URL
-    const url = new URL(config.url);
-    Object.entries(config.params).forEach(([key, value]) => {
-      url.searchParams.append(key, value);
-    });
-    
-    python += `url = "${url.toString()}"\n`;
-    
-    // Prepare headers
-    const headers = { ...config.headers };
-    
-    // Add authentication
-    if (config.auth) {
-      switch (config.auth.type) {
-        case 'bearer':
-          if (config.auth.token) {
-            headers['Authorization'] = `Bearer ${config.auth.token}`;
-          }
-          break;
-        case 'basic':
-          if (config.auth.username && config.auth.password) {
-            headers['Authorization'] = `Basic ${btoa(`${config.auth.username}:${config.auth.password}`)}`;
-          }
-          break;
-        case 'api-key':
-          if (config.auth.key && config.auth.value) {
-            headers[config.auth.key] = config.auth.value;
+        headers.push(['Content-Type', 'application/x-www-form-urlencoded']);
+        lines.push(`const body = ${jsString(this.urlEncoded(fields))};`);
+      } else {
+        headers.push(['Content-Type', `multipart/form-data; boundary=${MULTIPART_BOUNDARY}`]);
+        lines.push(`const body = ${jsString(this.multipartBody(fields))};`);
+      }
+      lines.push('');
+    }
+
+    const requestOptions = [`  method: ${jsString(config.method)}`];
+    if (headers.length > 0) {
+      requestOptions.push(`  headers: {\n${headers.map(([name, value]) => `    ${jsString(name)}: ${jsString(value)}`).join(',\n')}\n  }`);
+    }
+    if (basic) {
+      requestOptions.push(`  auth: ${jsString(`${basic.username}:${basic.password}`)}`);
+    }
+    if (timeout > 0) {
+      requestOptions.push(`  timeout: ${timeout * 1000}`);
+    }
+
+    lines.push(
+      `const req = ${module}.request(${jsString(url)}, {`,
+      requestOptions.join(',\n'),
+      '}, res => {',
+      '  let data = "";',
+      '  res.setEncoding("utf8");',
+      '  res.on("data", chunk => data += chunk);',
+      '  res.on("end", () => {',
+      '    console.log(res.statusCode);',
+      '    console.log(data);',
+      '  });',
+      '});',
+      '',
+      'req.on("error", error => console.error(error));'
+    );
+    if (timeout > 0) {
+      // The timeout option only emits an event; the request has to be ended by hand
+      lines.push('req.on("timeout", () => req.destroy(new Error("Request timed out")));');
+    }
+    if (hasBody) {
+      lines.push('req.write(body);');
+    }
+    lines.push('req.end();', '');
+    return lines.join('\n');
+  }
+
+  static generateAxios(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const lines = ['import axios from "axios";', ''];
+
+    const requestOptions = [
+      `  method: ${jsString(config.method.toLowerCase())}`,
+      `  url: ${jsString(this.buildUrl(config))}`
+    ];
+    if (headers.length > 0) {
+      requestOptions.push(`  headers: {\n${headers.map(([name, value]) => `    ${jsString(name)}: ${jsString(value)}`).join(',\n')}\n  }`);
+    }
+    if (basic) {
+      requestOptions.push(`  auth: {\n    username: ${jsString(basic.username)},\n    password: ${jsString(basic.password)}\n  }`);
+    }
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        requestOptions.push(`  data: ${jsString(config.body!)}`);
+      } else {
+        lines.push(`const data = new ${config.bodyType === 'form-data' ? 'FormData' : 'URLSearchParams'}();`);
+        fields.forEach(([key, value]) => lines.push(`data.append(${jsString(key)}, ${jsString(value)});`));
+        lines.push('');
+        requestOptions.push('  data');
+      }
+    }
+    if (options.followRedirects === false) {
+      requestOptions.push('  maxRedirects: 0');
+    }
+    if (timeout > 0) {
+      requestOptions.push(`  timeout: ${timeout * 1000}`);
+    }
+    // axios rejects 4xx and 5xx responses unless told otherwise
+    requestOptions.push('  validateStatus: () => true');
+
+    const call = `axios({\n${requestOptions.join(',\n')}\n})`;
+    if (options.style === 'callbacks') {
+      lines.push(
+        call,
+        '  .then(response => {',
+        '    console.log(response.status);',
+        '    console.log(response.data);',
+        '  })',
+        '  .catch(error => console.error(error));'
+      );
+    } else {
+      lines.push(
+        `const response = await ${call};`,
+        'console.log(response.status);',
+        'console.log(response.data);'
+      );
+    }
+
+    return [...lines, ''].join('\n');
+  }
+
+  static generatePython(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const lines = ['import requests', '', `url = ${pythonString(this.buildUrl(config))}`];
+    const args = ['url'];
+
+    if (headers.length > 0) {
+      lines.push('headers = {', ...headers.map(([name, value]) => `    ${pythonString(name)}: ${pythonString(value)},`), '}');
+      args.push('headers=headers');
+    }
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        lines.push(`data = ${pythonString(config.body!)}`);
+        args.push('data=data');
+      } else if (config.bodyType === 'x-www-form-urlencoded') {
+        lines.push('data = {', ...fields.map(([key, value]) => `    ${pythonString(key)}: ${pythonString(value)},`), '}');
+        args.push('data=data');
+      } else {
+        // A (None, value) tuple makes requests send a plain multipart field rather than a file
+        lines.push('files = {', ...fields.map(([key, value]) => `    ${pythonString(key)}: (None, ${pythonString(value)}),`), '}');
+        args.push('files=files');
+      }
+    }
+    if (basic) {
+      args.push(`auth=(${pythonString(basic.username)}, ${pythonString(basic.password)})`);
+    }
+    // requests.head is the one helper that does not follow redirects by default
+    const followsByDefault = config.method !== 'HEAD';
+    if ((options.followRedirects !== false) !== followsByDefault) {
+      args.push(`allow_redirects=${options.followRedirects !== false ? 'True' : 'False'}`);
+    }
+    if (timeout > 0) {
+      args.push(`timeout=${timeout}`);
+    }
+
+    lines.push(
+      '',
+      `response = requests.${config.method.toLowerCase()}(${args.join(', ')})`,
+      'print(response.status_code)',
+      'print(response.text)',
+      ''
+    );
+    return lines.join('\n');
+  }
+
+  static generateGo(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const headers = this.buildHeaders(config);
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const imports = new Set(['fmt', 'io', 'net/http']);
+    const lines: string[] = [];
+
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        imports.add('strings');
+        lines.push(`\tbody := strings.NewReader(${goString(config.body!)})`);
+      } else if (config.bodyType === 'x-www-form-urlencoded') {
+        imports.add('net/url').add('strings');
+        lines.push('\tform := url.Values{}');
+        fields.forEach(([key, value]) => lines.push(`\tform.Add(${goString(key)}, ${goString(value)})`));
+        lines.push('\tbody := strings.NewReader(form.Encode())');
+        headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      } else {
+        imports.add('bytes').add('mime/multipart');
+        lines.push('\tbody := &bytes.Buffer{}', '\twriter := multipart.NewWriter(body)');
+        fields.forEach(([key, value]) => lines.push(`\twriter.WriteField(${goString(key)}, ${goString(value)})`));
+        lines.push('\twriter.Close()');
+      }
+      lines.push('');
+    }
+
+    lines.push(
+      `\treq, err := http.NewRequest(${goString(config.method)}, ${goString(this.buildUrl(config))}, ${HttpService.hasBody(config) ? 'body' : 'nil'})`,
+      '\tif err != nil {',
+      '\t\tpanic(err)',
+      '\t}'
+    );
+    Object.entries(headers).forEach(([name, value]) => lines.push(`\treq.Header.Set(${goString(name)}, ${goString(value)})`));
+    if (HttpService.hasBody(config) && config.bodyType === 'form-data') {
+      lines.push('\treq.Header.Set("Content-Type", writer.FormDataContentType())');
+    }
+    if (basic) {
+      lines.push(`\treq.SetBasicAuth(${goString(basic.username)}, ${goString(basic.password)})`);
+    }
+
+    const client: string[] = [];
+    if (timeout > 0) {
+      imports.add('time');
+      client.push(`\t\tTimeout: ${timeout} * time.Second,`);
+    }
+    if (options.followRedirects === false) {
+      client.push(
+        '\t\tCheckRedirect: func(req *http.Request, via []*http.Request) error {',
+        '\t\t\treturn http.ErrUseLastResponse',
+        '\t\t},'
+      );
+    }
+    if (client.length > 0) {
+      lines.push('', '\tclient := &http.Client{', ...client, '\t}');
+    }
+
+    lines.push(
+      '',
+      `\tresp, err := ${client.length > 0 ? 'client' : 'http.DefaultClient'}.Do(req)`,
+      '\tif err != nil {',
+      '\t\tpanic(err)',
+      '\t}',
+      '\tdefer resp.Body.Close()',
+      '',
+      '\tdata, err := io.ReadAll(resp.Body)',
+      '\tif err != nil {',
+      '\t\tpanic(err)',
+      '\t}',
+      '\tfmt.Println(resp.StatusCode)',
+      '\tfmt.Println(string(data))'
+    );
+
+    return [
+      'package main',
+      '',
+      'import (',
+      ...[...imports].sort().map(name => `\t"${name}"`),
+      ')',
+      '',
+      'func main() {',
+      ...lines,
+      '}',
+      ''
+    ].join('\n');
+  }
+
+  static generateJava(config: RequestConfig, options: CodeGenOptions = {}): string {
+    // HttpClient refuses to set these itself
+    const restricted = ['connection', 'content-length', 'expect', 'host', 'upgrade'];
+    const headers = Object.entries(this.buildHeaders(config)).filter(([name]) => !restricted.includes(name.toLowerCase()));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const imports = new Set(['java.net.URI', 'java.net.http.HttpClient', 'java.net.http.HttpRequest', 'java.net.http.HttpResponse']);
+    const body: string[] = [];
+    let publisher = 'HttpRequest.BodyPublishers.noBody()';
+
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        body.push(`        String body = ${javaString(config.body!)};`);
+      } else if (config.bodyType === 'x-www-form-urlencoded') {
+        body.push(`        String body = ${javaString(this.urlEncoded(fields))};`);
+        headers.push(['Content-Type', 'application/x-www-form-urlencoded']);
+      } else {
+        body.push(`        String body = ${javaString(this.multipartBody(fields))};`);
+        headers.push(['Content-Type', `multipart/form-data; boundary=${MULTIPART_BOUNDARY}`]);
+      }
+      body.push('');
+      publisher = 'HttpRequest.BodyPublishers.ofString(body)';
+    }
+
+    const builder = [
+      '        HttpRequest request = HttpRequest.newBuilder()',
+      `            .uri(URI.create(${javaString(this.buildUrl(config))}))`,
+      ...headers.map(([name, value]) => `            .header(${javaString(name)}, ${javaString(value)})`)
+    ];
+    if (basic) {
+      imports.add('java.nio.charset.StandardCharsets').add('java.util.Base64');
+      builder.push(
+        `            .header("Authorization", "Basic " + Base64.getEncoder().encodeToString(${javaString(`${basic.username}:${basic.password}`)}.getBytes(StandardCharsets.UTF_8)))`
+      );
+    }
+    if (timeout > 0) {
+      imports.add('java.time.Duration');
+      builder.push(`            .timeout(Duration.ofSeconds(${timeout}))`);
+    }
+    builder.push(`            .method(${javaString(config.method)}, ${publisher})`, '            .build();');
+
+    // HttpClient never follows redirects unless asked to
+    const client = options.followRedirects === false
+      ? '        HttpClient client = HttpClient.newHttpClient();'
+      : '        HttpClient client = HttpClient.newBuilder().followRedirects(HttpClient.Redirect.NORMAL).build();';
+    const send = options.style === 'async'
+      ? [
+        '        client.sendAsync(request, HttpResponse.BodyHandlers.ofString())',
+        '            .thenAccept(response -> {',
+        '                System.out.println(response.statusCode());',
+        '                System.out.println(response.body());',
+        '            })',
+        '            .join();'
+      ]
+      : [
+        '        HttpResponse<String> response = client.send(request, HttpResponse.BodyHandlers.ofString());',
+        '        System.out.println(response.statusCode());',
+        '        System.out.println(response.body());'
+      ];
+
+    return [
+      ...[...imports].sort().map(name => `import ${name};`),
+      '',
+      'public class Main {',
+      '    public static void main(String[] args) throws Exception {',
+      client,
+      '',
+      ...body,
+      ...builder,
+      '',
+      ...send,
+      '    }',
+      '}',
+      ''
+    ].join('\n');
+  }
+
+  static generateCSharp(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const usings = new Set(['System', 'System.Net.Http']);
+    const lines = [
+      options.followRedirects === false
+        ? 'var client = new HttpClient(new HttpClientHandler { AllowAutoRedirect = false });'
+        : 'var client = new HttpClient();',
+      ...(timeout > 0 ? [`client.Timeout = TimeSpan.FromSeconds(${timeout});`] : []),
+      `var request = new HttpRequestMessage(new HttpMethod(${csharpString(config.method)}), ${csharpString(this.buildUrl(config))});`
+    ];
+
+    // Content headers belong to the body, not the request
+    const isContentHeader = (name: string) => /^content-/i.test(name);
+    headers.filter(([name]) => !isContentHeader(name))
+      .forEach(([name, value]) => lines.push(`request.Headers.TryAddWithoutValidation(${csharpString(name)}, ${csharpString(value)});`));
+    if (basic) {
+      usings.add('System.Net.Http.Headers').add('System.Text');
+      lines.push(
+        'request.Headers.Authorization = new AuthenticationHeaderValue(',
+        `    "Basic", Convert.ToBase64String(Encoding.UTF8.GetBytes(${csharpString(`${basic.username}:${basic.password}`)})));`
+      );
+    }
+
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        lines.push(`request.Content = new StringContent(${csharpString(config.body!)});`);
+        headers.filter(([name]) => isContentHeader(name)).forEach(([name, value]) => {
+          if (name.toLowerCase() === 'content-type') {
+            usings.add('System.Net.Http.Headers');
+            lines.push(`request.Content.Headers.ContentType = MediaTypeHeaderValue.Parse(${csharpString(value)});`);
+          } else {
+            lines.push(`request.Content.Headers.TryAddWithoutValidation(${csharpString(name)}, ${csharpString(value)});`);
           }
-          break;
+        });
+      } else if (config.bodyType === 'x-www-form-urlencoded') {
+        usings.add('System.Collections.Generic');
+        lines.push(
+          'request.Content = new FormUrlEncodedContent(new List<KeyValuePair<string, string>>',
+          '{',
+          ...fields.map(([key, value]) => `    new KeyValuePair<string, string>(${csharpString(key)}, ${csharpString(value)}),`),
+          '});'
+        );
+      } else {
+        lines.push('var content = new MultipartFormDataContent();');
+        fields.forEach(([key, value]) => lines.push(`content.Add(new StringContent(${csharpString(value)}), ${csharpString(key)});`));
+        lines.push('request.Content = content;');
+      }
+    }
+
+    return [
+      ...[...usings].sort().map(name => `using ${name};`),
+      '',
+      ...lines,
+      '',
+      'var response = await client.SendAsync(request);',
+      'Console.WriteLine((int)response.StatusCode);',
+      'Console.WriteLine(await response.Content.ReadAsStringAsync());',
+      ''
+    ].join('\n');
+  }
+
+  static generatePhp(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    // Guzzle throws on 4xx and 5xx unless told otherwise
+    const requestOptions = ["    'http_errors' => false,"];
+    if (options.followRedirects === false) {
+      requestOptions.push("    'allow_redirects' => false,");
+    }
+    if (timeout > 0) {
+      requestOptions.push(`    'timeout' => ${timeout},`);
+    }
+
+    if (headers.length > 0) {
+      requestOptions.push("    'headers' => [", ...headers.map(([name, value]) => `        ${phpString(name)} => ${phpString(value)},`), '    ],');
+    }
+    if (basic) {
+      requestOptions.push(`    'auth' => [${phpString(basic.username)}, ${phpString(basic.password)}],`);
+    }
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        requestOptions.push(`    'body' => ${phpString(config.body!)},`);
+      } else if (config.bodyType === 'x-www-form-urlencoded') {
+        requestOptions.push("    'form_params' => [", ...fields.map(([key, value]) => `        ${phpString(key)} => ${phpString(value)},`), '    ],');
+      } else {
+        requestOptions.push(
+          "    'multipart' => [",
+          ...fields.map(([key, value]) => `        ['name' => ${phpString(key)}, 'contents' => ${phpString(value)}],`),
+          '    ],'
+        );
+      }
+    }
+
+    return [
+      '<?php',
+      "require 'vendor/autoload.php';",
+      '',
+      'use GuzzleHttp\\Client;',
+      '',
+      '$client = new Client();',
+      `$response = $client->request(${phpString(config.method)}, ${phpString(this.buildUrl(config))}, [`,
+      ...requestOptions,
+      ']);',
+      '',
+      'echo $response->getStatusCode() . "\\n";',
+      'echo $response->getBody();',
+      ''
+    ].join('\n');
+  }
+
+  static generateRuby(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const requestClass = config.method.charAt(0) + config.method.slice(1).toLowerCase();
+    const lines = [
+      `uri = URI(${rubyString(this.buildUrl(config))})`,
+      `request = Net::HTTP::${requestClass}.new(uri)`,
+      ...headers.map(([name, value]) => `request[${rubyString(name)}] = ${rubyString(value)}`)
+    ];
+    if (basic) {
+      lines.push(`request.basic_auth(${rubyString(basic.username)}, ${rubyString(basic.password)})`);
+    }
+    if (HttpService.hasBody(config)) {
+      const pairs = `[${fields.map(([key, value]) => `[${rubyString(key)}, ${rubyString(value)}]`).join(', ')}]`;
+      if (config.bodyType === 'raw') {
+        lines.push(`request.body = ${rubyString(config.body!)}`);
+      } else if (config.bodyType === 'x-www-form-urlencoded') {
+        lines.push(`request.set_form_data(${pairs})`);
+      } else {
+        lines.push(`request.set_form(${pairs}, 'multipart/form-data')`);
       }
     }
-    
-    if (Object.keys(headers).length > 0) {
-      python += `headers = ${JSON.stringify(headers, null, 2)}\n`;
+
+    return [
+      "require 'net/http'",
+      "require 'uri'",
+      '',
+      ...lines,
+      '',
+      `response = Net::HTTP.start(uri.hostname, uri.port, use_ssl: uri.scheme == 'https'${timeout > 0 ? `, open_timeout: ${timeout}, read_timeout: ${timeout}` : ''}) do |http|`,
+      '  http.request(request)',
+      'end',
+      '',
+      'puts response.code',
+      'puts response.body',
+      ''
+    ].join('\n');
+  }
+
+  static generateRust(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const isMultipart = HttpService.hasBody(config) && config.bodyType === 'form-data';
+    const isAsync = options.style === 'async';
+    const crate = isAsync ? 'reqwest' : 'reqwest::blocking';
+    const timeout = Number(options.timeout) || 0;
+    const uses = [`use ${crate}::Client;`, 'use reqwest::Method;'];
+    const client: string[] = [];
+    if (timeout > 0) {
+      uses.push('use std::time::Duration;');
+      client.push(`        .timeout(Duration::from_secs(${timeout}))`);
+    }
+    if (options.followRedirects === false) {
+      uses.push('use reqwest::redirect;');
+      client.push('        .redirect(redirect::Policy::none())');
+    }
+    const lines = client.length > 0
+      ? ['    let client = Client::builder()', ...client, '        .build()?;']
+      : ['    let client = Client::new();'];
+
+    if (isMultipart) {
+      lines.push(`    let form = ${crate}::multipart::Form::new()`);
+      fields.forEach(([key, value]) => lines.push(`        .text(${rustString(key)}, ${rustString(value)})`));
+      lines[lines.length - 1] += ';';
+    }
+
+    lines.push(
+      '    let response = client',
+      `        .request(Method::${config.method}, ${rustString(this.buildUrl(config))})`,
+      ...headers.map(([name, value]) => `        .header(${rustString(name)}, ${rustString(value)})`)
+    );
+    if (basic) {
+      lines.push(`        .basic_auth(${rustString(basic.username)}, Some(${rustString(basic.password)}))`);
+    }
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        lines.push(`        .body(${rustString(config.body!)})`);
+      } else if (config.bodyType === 'x-www-form-urlencoded') {
+        lines.push(`        .form(&[${fields.map(([key, value]) => `(${rustString(key)}, ${rustString(value)})`).join(', ')}])`);
+      } else {
+        lines.push('        .multipart(form)');
+      }
+    }
+    const wait = isAsync ? '.await' : '';
+    lines.push(`        .send()${wait}?;`);
+
+    const features = [...(isAsync ? [] : ['"blocking"']), ...(isMultipart ? ['"multipart"'] : [])];
+    const cargo = [
+      `reqwest = { version = "0.12"${features.length > 0 ? `, features = [${features.join(', ')}]` : ''} }`,
+      ...(isAsync ? ['tokio = { version = "1", features = ["full"] }'] : [])
+    ];
+    return [
+      `// Cargo.toml: ${cargo.join(', ')}`,
+      ...uses.sort(),
+      '',
+      ...(isAsync
+        ? ['#[tokio::main]', 'async fn main() -> Result<(), Box<dyn std::error::Error>> {']
+        : ['fn main() -> Result<(), Box<dyn std::error::Error>> {']),
+      ...lines,
+      '',
+      '    println!("{}", response.status());',
+      `    println!("{}", response.text()${wait}?);`,
+      '    Ok(())',
+      '}',
+      ''
+    ].join('\n');
+  }
+
+  static generateSwift(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const headers = Object.entries(this.buildHeaders(config));
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const lines = [
+      `var request = URLRequest(url: URL(string: ${swiftString(this.buildUrl(config))})!)`,
+      `request.httpMethod = ${swiftString(config.method)}`,
+      ...(timeout > 0 ? [`request.timeoutInterval = ${timeout}`] : []),
+      ...headers.map(([name, value]) => `request.setValue(${swiftString(value)}, forHTTPHeaderField: ${swiftString(name)})`)
+    ];
+    if (basic) {
+      lines.push(
+        `let credentials = Data(${swiftString(`${basic.username}:${basic.password}`)}.utf8).base64EncodedString()`,
+        'request.setValue("Basic \\(credentials)", forHTTPHeaderField: "Authorization")'
+      );
     }
-    
-    // Add body
-    if (config.body && ['POST', 'PUT', 'PATCH'].includes(config.method)) {
+    if (HttpService.hasBody(config)) {
       if (config.bodyType === 'raw') {
-        python += `data = ${JSON.stringify(config.body)}\n`;
+        lines.push(`request.httpBody = Data(${swiftString(config.body!)}.utf8)`);
       } else if (config.bodyType === 'x-www-form-urlencoded') {
-        python += `data = "${config.body}"\n`;
-      } else if (config.bodyType === 'form-data') {
-        python += `files = {}\n`;
-        try {
-          const parsed = JSON.parse(config.body);
-          Object.entries(parsed).forEach(([key, value]) => {
-            python += `files['${key}'] = '${value}'\n`;
-          });
-        } catch {
-          const lines = config.body.split('\n');
-          lines.forEach(line => {
-            const [key, value] = line.split('=');
-            if (key && value) {
-              python += `files['${key.trim()}'] = '${value.trim()}'\n`;
-            }
-          });
+        lines.push(
+          'request.setValue("application/x-www-form-urlencoded", forHTTPHeaderField: "Content-Type")',
+          `request.httpBody = Data(${swiftString(this.urlEncoded(fields))}.utf8)`
+        );
+      } else {
+        lines.push(
+          `request.setValue("multipart/form-data; boundary=${MULTIPART_BOUNDARY}", forHTTPHeaderField: "Content-Type")`,
+          `request.httpBody = Data(${swiftString(this.multipartBody(fields))}.utf8)`
+        );
+      }
+    }
+
+    const send = options.style === 'callbacks'
+      ? [
+        'let task = URLSession.shared.dataTask(with: request) { data, response, error in',
+        '    if let error = error {',
+        '        print(error)',
+        '    } else if let response = response as? HTTPURLResponse, let data = data {',
+        '        print(response.statusCode)',
+        '        print(String(data: data, encoding: .utf8) ?? "")',
+        '    }',
+        '    exit(0)',
+        '}',
+        'task.resume()',
+        'dispatchMain()'
+      ]
+      : [
+        'let (data, response) = try await URLSession.shared.data(for: request)',
+        'print((response as! HTTPURLResponse).statusCode)',
+        'print(String(data: data, encoding: .utf8) ?? "")'
+      ];
+
+    return ['import Foundation', '', ...lines, '', ...send, ''].join('\n');
+  }
+
+  static generateKotlin(config: RequestConfig, options: CodeGenOptions = {}): string {
+    const headers = this.buildHeaders(config);
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const imports = new Set(['okhttp3.OkHttpClient', 'okhttp3.Request']);
+    const client: string[] = [];
+    if (timeout > 0) {
+      imports.add('java.util.concurrent.TimeUnit');
+      client.push(`        .callTimeout(${timeout}, TimeUnit.SECONDS)`);
+    }
+    if (options.followRedirects === false) {
+      client.push('        .followRedirects(false)');
+    }
+    const lines = client.length > 0
+      ? ['    val client = OkHttpClient.Builder()', ...client, '        .build()', '']
+      : ['    val client = OkHttpClient()', ''];
+    let body = 'null';
+
+    if (HttpService.hasBody(config)) {
+      body = 'body';
+      if (config.bodyType === 'raw') {
+        imports.add('okhttp3.RequestBody.Companion.toRequestBody');
+        // The body's media type wins over a Content-Type header
+        const contentTypeName = Object.keys(headers).find(name => name.toLowerCase() === 'content-type');
+        if (contentTypeName) {
+          imports.add('okhttp3.MediaType.Companion.toMediaType');
+          lines.push(`    val body = ${kotlinString(config.body!)}.toRequestBody(${kotlinString(headers[contentTypeName])}.toMediaType())`);
+          delete headers[contentTypeName];
+        } else {
+          lines.push(`    val body = ${kotlinString(config.body!)}.toRequestBody()`);
         }
+      } else if (config.bodyType === 'x-www-form-urlencoded') {
+        imports.add('okhttp3.FormBody');
+        lines.push('    val body = FormBody.Builder()', ...fields.map(([key, value]) => `        .add(${kotlinString(key)}, ${kotlinString(value)})`), '        .build()');
+      } else {
+        imports.add('okhttp3.MultipartBody');
+        lines.push(
+          '    val body = MultipartBody.Builder()',
+          '        .setType(MultipartBody.FORM)',
+          ...fields.map(([key, value]) => `        .addFormDataPart(${kotlinString(key)}, ${kotlinString(value)})`),
+          '        .build()'
+        );
       }
+      lines.push('');
+    } else if (['POST', 'PUT', 'PATCH'].includes(config.method)) {
+      // OkHttp requires a body for these methods
+      imports.add('okhttp3.RequestBody.Companion.toRequestBody');
+      body = '"".toRequestBody()';
     }
-    
-    // Generate request
-    python += `\nresponse = requests.${config.method.toLowerCase()}(url`;
-    if (Object.keys(headers).length > 0) {
-      python += `, headers=headers`;
+
+    lines.push(
+      '    val request = Request.Builder()',
+      `        .url(${kotlinString(this.buildUrl(config))})`,
+      `        .method(${kotlinString(config.method)}, ${body})`,
+      ...Object.entries(headers).map(([name, value]) => `        .header(${kotlinString(name)}, ${kotlinString(value)})`)
+    );
+    if (basic) {
+      imports.add('okhttp3.Credentials');
+      lines.push(`        .header("Authorization", Credentials.basic(${kotlinString(basic.username)}, ${kotlinString(basic.password)}))`);
     }
-    if (config.body && ['POST', 'PUT', 'PATCH'].includes(config.method)) {
-      if (config.bodyType === 'form-data') {
-        python += `, files=files`;
+    lines.push('        .build()', '');
+
+    if (options.style === 'callbacks') {
+      ['okhttp3.Call', 'okhttp3.Callback', 'okhttp3.Response', 'java.io.IOException'].forEach(name => imports.add(name));
+      lines.push(
+        '    client.newCall(request).enqueue(object : Callback {',
+        '        override fun onFailure(call: Call, e: IOException) {',
+        '            e.printStackTrace()',
+        '        }',
+        '',
+        '        override fun onResponse(call: Call, response: Response) {',
+        '            response.use {',
+        '                println(it.code)',
+        '                println(it.body?.string())',
+        '            }',
+        '        }',
+        '    })'
+      );
+    } else {
+      lines.push(
+        '    client.newCall(request).execute().use { response ->',
+        '        println(response.code)',
+        '        println(response.body?.string())',
+        '    }'
+      );
+    }
+
+    return [
+      ...[...imports].sort().map(name => `import ${name}`),
+      '',
+      'fun main() {',
+      ...lines,
+      '}',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * A fetch call, shared by the browser and Node.js targets which only
+   * differ in how they base64-encode basic auth credentials
+   */
+  private static fetchSnippet(config: RequestConfig, options: CodeGenOptions, base64: (credentials: string) => string): string {
+    const headers = Object.entries(this.buildHeaders(config)).map(([name, value]) => `    ${jsString(name)}: ${jsString(value)}`);
+    const basic = this.basicAuth(config);
+    const fields = this.formFields(config);
+    const timeout = Number(options.timeout) || 0;
+    const lines: string[] = [];
+
+    if (basic) {
+      headers.push(`    "Authorization": "Basic " + ${base64(jsString(`${basic.username}:${basic.password}`))}`);
+    }
+
+    const init = [`  method: ${jsString(config.method)}`];
+    if (headers.length > 0) {
+      init.push(`  headers: {\n${headers.join(',\n')}\n  }`);
+    }
+    if (HttpService.hasBody(config)) {
+      if (config.bodyType === 'raw') {
+        init.push(`  body: ${jsString(config.body!)}`);
       } else {
-        python += `, data=data`;
+        lines.push(`const body = new ${config.bodyType === 'form-data' ? 'FormData' : 'URLSearchParams'}();`);
+        fields.forEach(([key, value]) => lines.push(`body.append(${jsString(key)}, ${jsString(value)});`));
+        lines.push('');
+        init.push('  body');
       }
     }
-    python += `)\n`;
-    
-    python += `print(response.status_code)\n`;
-    python += `print(response.text)\n`;
-    
-    return python;
+    if (options.followRedirects === false) {
+      init.push('  redirect: "manual"');
+    }
+    if (timeout > 0) {
+      init.push(`  signal: AbortSignal.timeout(${timeout * 1000})`);
+    }
+
+    const call = `fetch(${jsString(this.buildUrl(config))}, {\n${init.join(',\n')}\n})`;
+    if (options.style === 'callbacks') {
+      lines.push(
+        call,
+        '  .then(response => {',
+        '    console.log(response.status);',
+        '    return response.text();',
+        '  })',
+        '  .then(text => console.log(text))',
+        '  .catch(error => console.error(error));'
+      );
+    } else {
+      lines.push(
+        `const response = await ${call};`,
+        'console.log(response.status);',
+        'console.log(await response.text());'
+      );
+    }
+
+    return [...lines, ''].join('\n');
+  }
+
+  /**
+   * The URL with the query parameters appended. URL parsing would percent-encode
+   * {{variables}}, so URLs holding them, and URLs that do not parse, get the
+   * query string added by hand.
+   */
+  private static buildUrl(config: RequestConfig): string {
+    const params = Object.entries(config.params);
+    if (![config.url, ...params.flat()].some(text => text.includes('{{'))) {
+      try {
+        const url = new URL(config.url);
+        params.forEach(([key, value]) => url.searchParams.append(key, value));
+        return url.toString();
+      } catch {
+        // Added by hand below
+      }
+    }
+    return this.appendQuery(config.url, params);
+  }
+
+  /**
+   * Append query parameters with literal text percent-encoded and {{variables}}
+   * left as they are, so they can still be filled in
+   */
+  static appendQuery(url: string, params: [string, string][]): string {
+    if (params.length === 0) {
+      return url;
+    }
+    const encode = (text: string) => text.split(/(\{\{[^}]+\}\})/).map((part, index) => (index % 2 === 0 ? encodeURIComponent(part) : part)).join('');
+    return `${url}${url.includes('?') ? '&' : '?'}${params.map(([key, value]) => `${encode(key)}=${encode(value)}`).join('&')}`;
+  }
+
+  /**
+   * Headers as HttpService sends them, with bearer and API key auth applied.
+   * Basic auth is left to each target, most of which have a helper for it.
+   * Form bodies drop Content-Type since their encoders set it.
+   */
+  private static buildHeaders(config: RequestConfig): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const set = (name: string, value: string) => {
+      Object.keys(headers).filter(key => key.toLowerCase() === name.toLowerCase()).forEach(key => delete headers[key]);
+      headers[name] = value;
+    };
+
+    Object.entries(config.headers).forEach(([name, value]) => set(name, value));
+    if (config.auth?.type === 'bearer' && config.auth.token) {
+      set('Authorization', `Bearer ${config.auth.token}`);
+    } else if (config.auth?.type === 'api-key' && config.auth.key && config.auth.value) {
+      set(config.auth.key, config.auth.value);
+    }
+
+    if (HttpService.hasBody(config) && config.bodyType !== 'raw') {
+      Object.keys(headers).filter(name => name.toLowerCase() === 'content-type').forEach(name => delete headers[name]);
+    }
+    return headers;
+  }
+
+  private static basicAuth(config: RequestConfig): { username: string; password: string } | null {
+    const auth = config.auth;
+    return auth?.type === 'basic' && auth.username && auth.password ? { username: auth.username, password: auth.password } : null;
+  }
+
+  private static formFields(config: RequestConfig): [string, string][] {
+    return config.body && config.bodyType !== 'raw' ? HttpService.formFields(config.body) : [];
+  }
+
+  private static urlEncoded(fields: [string, string][]): string {
+    return new URLSearchParams(fields).toString();
+  }
+
+  /**
+   * A multipart/form-data body of text fields, separated by MULTIPART_BOUNDARY
+   */
+  static multipartBody(fields: [string, string][]): string {
+    return [
+      ...fields.map(([key, value]) =>
+        `--${MULTIPART_BOUNDARY}\r\nContent-Disposition: form-data; name="${key.replace(/"/g, '%22')}"\r\n\r\n${value}\r\n`
+      ),
+      `--${MULTIPART_BOUNDARY}--\r\n`
+    ].join('');
   }
 }
+
+const ASYNC_STYLES = [
+  { value: 'async', label: 'async/await' },
+  { value: 'callbacks', label: 'Callbacks' }
+];
+
+const NETWORK_OPTIONS = [TIMEOUT_OPTION, FOLLOW_REDIRECTS_OPTION, INTERPOLATE_OPTION];
+
+CodeGenService.register({
+  id: 'curl',
+  label: 'cURL',
+  icon: '🌐',
+  syntax: 'bash',
+  options: NETWORK_OPTIONS,
+  generate: (config, options) => CodeGenService.generateCurl(config, options)
+});
+
+CodeGenService.register({
+  id: 'httpie',
+  label: 'HTTPie',
+  icon: '🥧',
+  syntax: 'bash',
+  options: NETWORK_OPTIONS,
+  generate: (config, options) => CodeGenService.generateHttpie(config, options)
+});
+
+CodeGenService.register({
+  id: 'wget',
+  label: 'wget',
+  icon: '📥',
+  syntax: 'bash',
+  options: NETWORK_OPTIONS,
+  generate: (config, options) => CodeGenService.generateWget(config, options)
+});
+
+CodeGenService.register({
+  id: 'powershell',
+  label: 'PowerShell',
+  icon: '🟦',
+  syntax: 'powershell',
+  options: [indentOption('4'), ...NETWORK_OPTIONS],
+  generate: (config, options) => CodeGenService.generatePowerShell(config, options)
+});
+
+CodeGenService.register({
+  id: 'javascript',
+  label: 'JavaScript',
+  icon: '🟨',
+  syntax: 'javascript',
+  options: [indentOption('2'), styleOption(ASYNC_STYLES), ...NETWORK_OPTIONS],
+  generate: (config, options) => CodeGenService.generateJavaScript(config, options)
+});
+
+CodeGenService.register({
+  id: 'node-fetch',
+  label: 'Node.js fetch',
+  icon: '🟩',
+  syntax: 'javascript',
+  options: [indentOption('2'), styleOption(ASYNC_STYLES), ...NETWORK_OPTIONS],
+  generate: (config, options) => CodeGenService.generateNodeFetch(config, options)
+});
+
+// The http module never follows redirects and only takes callbacks
+CodeGenService.register({
+  id: 'node-http',
+  label: 'Node.js http',
+  icon: '🟩',
+  syntax: 'javascript',
+  options: [indentOption('2'), TIMEOUT_OPTION, INTERPOLATE_OPTION],
+  generate: (config, options) => CodeGenService.generateNodeHttp(config, options)
+});
+
+CodeGenService.register({
+  id: 'axios',
+  label: 'axios',
+  icon: '🅰️',
+  syntax: 'javascript',
+  options: [indentOption('2'), styleOption(ASYNC_STYLES), ...NETWORK_OPTIONS],
+  generate: (config, options) => CodeGenService.generateAxios(config, options)
+});
+
+CodeGenService.register({
+  id: 'python',
+  label: 'Python',
+  icon: '🐍',
+  syntax: 'python',
+  options: [indentOption('4'), ...NETWORK_OPTIONS],
+  generate: (config, options) => CodeGenService.generatePython(config, options)
+});
+
+// gofmt only accepts tabs, so Go has no indentation option
+CodeGenService.register({
+  id: 'go',
+  label: 'Go',
+  icon: '🐹',
+  syntax: 'go',
+  options: NETWORK_OPTIONS,
+  generate: (config, options) => CodeGenService.generateGo(config, options)
+});
+
+CodeGenService.register({
+  id: 'java',
+  label: 'Java',
+  icon: '☕',
+  syntax: 'java',
+  options: [
+    indentOption('4'),
+    styleOption([{ value: 'sync', label: 'Blocking' }, { value: 'async', label: 'sendAsync' }]),
+    ...NETWORK_OPTIONS
+  ],
+  generate: (config, options) => CodeGenService.generateJava(config, options)
+});
+
+CodeGenService.register({
+  id: 'csharp',
+  label: 'C#',
+  icon: '🟪',
+  syntax: 'csharp',
+  options: [indentOption('4'), ...NETWORK_OPTIONS],
+  generate: (config, options) => CodeGenService.generateCSharp(config, options)
+});
+
+CodeGenService.register({
+  id: 'php',
+  label: 'PHP',
+  icon: '🐘',
+  syntax: 'php',
+  options: [indentOption('4'), ...NETWORK_OPTIONS],
+  generate: (config, options) => CodeGenService.generatePhp(config, options)
+});
+
+// Net::HTTP never follows redirects
+CodeGenService.register({
+  id: 'ruby',
+  label: 'Ruby',
+  icon: '💎',
+  syntax: 'ruby',
+  options: [indentOption('2'), TIMEOUT_OPTION, INTERPOLATE_OPTION],
+  generate: (config, options) => CodeGenService.generateRuby(config, options)
+});
+
+CodeGenService.register({
+  id: 'rust',
+  label: 'Rust',
+  icon: '🦀',
+  syntax: 'rust',
+  options: [
+    indentOption('4'),
+    styleOption([{ value: 'blocking', label: 'Blocking' }, { value: 'async', label: 'async/await (tokio)' }]),
+    ...NETWORK_OPTIONS
+  ],
+  generate: (config, options) => CodeGenService.generateRust(config, options)
+});
+
+// URLSession needs a delegate to stop following redirects, which is more than a snippet should carry
+CodeGenService.register({
+  id: 'swift',
+  label: 'Swift',
+  icon: '🐦',
+  syntax: 'swift',
+  options: [indentOption('4'), styleOption(ASYNC_STYLES), TIMEOUT_OPTION, INTERPOLATE_OPTION],
+  generate: (config, options) => CodeGenService.generateSwift(config, options)
+});
+
+CodeGenService.register({
+  id: 'kotlin',
+  label: 'Kotlin',
+  icon: '🟧',
+  syntax: 'kotlin',
+  options: [
+    indentOption('4'),
+    styleOption([{ value: 'blocking', label: 'Blocking' }, { value: 'callbacks', label: 'Callbacks' }]),
+    ...NETWORK_OPTIONS
+  ],
+  generate: (config, options) => CodeGenService.generateKotlin(config, options)
+});
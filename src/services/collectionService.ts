@@ -1,5 +1,6 @@
 import { db } from '../database';
 import type { Collection, Request } from '../database';
+import type { ImportResult, ResponseData } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
 export class CollectionService {
@@ -67,6 +68,24 @@ export class CollectionService {
     });
   }
 
+  /**
+   * Persist the output of an importer in a single transaction, placing the
+   * imported top-level collections after the existing ones
+   */
+  static async saveImport(result: ImportResult): Promise<void> {
+    await db.transaction('rw', [db.collections, db.requests, db.responses, db.environments], async () => {
+      let order = await db.collections.filter(collection => !collection.parentId).count();
+      const collections = result.collections.map(collection =>
+        collection.parentId ? collection : { ...collection, order: order++ }
+      );
+
+      await db.collections.bulkAdd(collections);
+      await db.requests.bulkAdd(result.requests);
+      await db.responses.bulkAdd(result.responses);
+      await db.environments.bulkAdd(result.environments);
+    });
+  }
+
   private static async getNextOrder(parentId?: string): Promise<number> {
     const collections = await db.collections
       .where('parentId')
@@ -115,6 +134,17 @@ export class RequestService {
     await db.requests.delete(id);
   }
 
+  /**
+   * Keep the latest response of a saved request; exports read it for status
+   * checks and response types. Named responses are examples and stay.
+   */
+  static async saveLastResponse(requestId: string, response: ResponseData): Promise<void> {
+    await db.transaction('rw', db.responses, async () => {
+      await db.responses.where('requestId').equals(requestId).filter(saved => !saved.name).delete();
+      await db.responses.add({ ...response, id: uuidv4(), requestId, timestamp: new Date() });
+    });
+  }
+
   static async getRequestsByCollection(collectionId: string): Promise<Request[]> {
     return await db.requests
       .where('collectionId')
@@ -0,0 +1,125 @@
+import { execFileSync } from 'node:child_process';
+import { describe, expect, it } from 'vitest';
+import type { RequestConfig } from '../types';
+import { CodeGenService } from './codeGenService';
+import { CurlService } from './curlService';
+
+const request = (overrides: Partial<RequestConfig> = {}): RequestConfig => ({
+  method: 'GET',
+  url: 'https://api.example.com/users',
+  headers: {},
+  params: {},
+  bodyType: 'raw',
+  ...overrides
+});
+
+// Values a shell would otherwise expand, split or stop at
+const AWKWARD = `it's "quoted" $HOME \`id\` \\ back\nline\ttab; && | *`;
+
+/**
+ * The words bash passes to curl for a generated command
+ */
+const shellWords = (command: string): string[] =>
+  execFileSync('bash', ['-c', command.replace(/^curl/, "printf '%s\\0'")], { encoding: 'utf8' }).split('\0').slice(0, -1);
+
+describe('CurlService.parse', () => {
+  it('reads quoting, continuations and combined short options', () => {
+    const parsed = CurlService.parse(`curl -sSL -XPOST 'https://api.example.com/users?page=2' \\
+  -H "Content-Type: application/json" \\
+  -H $'X-Note: a\\tb' \\
+  --data-raw '{"name":"it'\\''s"}'`);
+
+    expect(parsed?.request).toMatchObject({
+      method: 'POST',
+      url: 'https://api.example.com/users',
+      params: { page: '2' },
+      headers: { 'Content-Type': 'application/json', 'X-Note': 'a\tb' },
+      bodyType: 'raw',
+      body: '{"name":"it\'s"}'
+    });
+    expect(parsed?.ignored).toEqual(['-s', '-S', '-L']);
+  });
+
+  it('turns -G data into query parameters and reports data that is not name=value pairs', () => {
+    const parsed = CurlService.parse(`curl -G https://api.example.com/search -d 'q=a%20b' -d '{"raw":true}'`);
+
+    expect(parsed?.request.method).toBe('GET');
+    expect(parsed?.request.params).toEqual({ q: 'a b' });
+    expect(parsed?.ignored).toEqual(['-G data {"raw":true} (not name=value pairs)']);
+  });
+
+  it('reports file uploads and options without an equivalent', () => {
+    const parsed = CurlService.parse('curl -F file=@photo.jpg -o out.txt --compressed https://api.example.com/upload');
+
+    expect(parsed?.ignored).toEqual(['-F file=@photo.jpg (file uploads are not supported)', '-o out.txt', '--compressed']);
+  });
+
+  it('splits several commands', () => {
+    const parsed = CurlService.parseAll('curl https://a.example.com && curl https://b.example.com\ncurl https://c.example.com');
+
+    expect(parsed.map(command => command.request.url)).toEqual(['https://a.example.com', 'https://b.example.com', 'https://c.example.com']);
+  });
+});
+
+describe('cURL round trip', () => {
+  it('parses a generated command back into the same request', () => {
+    const original = request({
+      method: 'PUT',
+      headers: { 'X-Awkward': AWKWARD, 'X-Empty': '' },
+      params: { filter: 'a&b=c', name: AWKWARD },
+      body: AWKWARD,
+      auth: { type: 'basic', username: 'ann', password: 'p:ss' }
+    });
+
+    const parsed = CurlService.parse(CodeGenService.generateCurl(original));
+
+    expect(parsed?.request).toMatchObject({
+      method: 'PUT',
+      url: original.url,
+      params: original.params,
+      headers: original.headers,
+      body: AWKWARD,
+      auth: original.auth
+    });
+  });
+
+  it('keeps url-encoded and multipart fields', () => {
+    const fields = { name: AWKWARD, file: '@not-a-file' };
+    const urlEncoded = CurlService.parse(CodeGenService.generateCurl(request({
+      method: 'POST',
+      bodyType: 'x-www-form-urlencoded',
+      body: JSON.stringify(fields)
+    })));
+    const multipart = CurlService.parse(CodeGenService.generateCurl(request({
+      method: 'POST',
+      bodyType: 'form-data',
+      body: JSON.stringify(fields)
+    })));
+
+    expect(urlEncoded?.request.bodyType).toBe('x-www-form-urlencoded');
+    expect(JSON.parse(urlEncoded!.request.body!)).toEqual(fields);
+    expect(multipart?.request.bodyType).toBe('form-data');
+    expect(JSON.parse(multipart!.request.body!)).toEqual(fields);
+  });
+});
+
+describe('cURL shell quoting', () => {
+  it('passes header and body values to curl unchanged', () => {
+    const words = shellWords(CodeGenService.generateCurl(request({
+      method: 'POST',
+      headers: { 'X-Awkward': AWKWARD },
+      body: AWKWARD
+    })));
+
+    expect(words).toContain(`X-Awkward: ${AWKWARD}`);
+    expect(words[words.indexOf('--data-raw') + 1]).toBe(AWKWARD);
+    expect(words[words.length - 1]).toBe('https://api.example.com/users');
+  });
+
+  it('quotes control characters', () => {
+    const body = 'bell\x07 escape\x1b\r\n';
+    const words = shellWords(CodeGenService.generateCurl(request({ method: 'POST', body })));
+
+    expect(words[words.indexOf('--data-raw') + 1]).toBe(body);
+  });
+});
@@ -0,0 +1,411 @@
+import type { HttpMethod, ParsedCommand, RequestConfig } from '../types';
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Options whose value is consumed but has no equivalent in a request
+const IGNORED_WITH_VALUE = new Set([
+  '-o', '--output', '-w', '--write-out', '-m', '--max-time', '--connect-timeout', '--retry', '--retry-delay',
+  '--retry-max-time', '-x', '--proxy', '-U', '--proxy-user', '--cacert', '--capath', '-E', '--cert', '--key',
+  '--cert-type', '--key-type', '--pass', '-c', '--cookie-jar', '-T', '--upload-file', '-r', '--range',
+  '-y', '--speed-time', '-Y', '--speed-limit', '--limit-rate', '--max-redirs', '--resolve', '--connect-to',
+  '--interface', '--dns-servers', '-K', '--config', '--trace', '--trace-ascii', '--stderr', '-D', '--dump-header',
+  '-z', '--time-cond', '--unix-socket', '--abstract-unix-socket', '--ciphers', '--tls-max', '--aws-sigv4'
+]);
+
+// Short options that take a value; any other short option is a plain flag
+const SHORT_WITH_VALUE = new Set(['X', 'H', 'd', 'F', 'u', 'A', 'e', 'b', 'o', 'w', 'm', 'x', 'U', 'E', 'c', 'T', 'r', 'y', 'Y', 'K', 'D', 'z']);
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', e: '\x1b', E: '\x1b', f: '\f', v: '\v', '\\': '\\', "'": "'", '"': '"', '?': '?'
+};
+
+export class CurlService {
+  /**
+   * Parse every curl command in a pasted text. Commands may span lines with
+   * backslash continuations and be separated by newlines, `;` or `&&`.
+   */
+  static parseAll(text: string): ParsedCommand[] {
+    return this.splitCommands(text)
+      .filter(words => words[0] === 'curl' || words[0] === 'curl.exe')
+      .map(words => this.parseWords(words.slice(1)));
+  }
+
+  /**
+   * Parse a single curl command, or return null if the text is not one
+   */
+  static parse(text: string): ParsedCommand | null {
+    return this.parseAll(text)[0] ?? null;
+  }
+
+  /**
+   * Split text into shell words, grouped per command. Handles single,
+   * double and $'...' quoting, backslash escapes and line continuations.
+   */
+  static splitCommands(text: string): string[][] {
+    const commands: string[][] = [];
+    let words: string[] = [];
+    let word = '';
+    let inWord = false;
+
+    const endWord = () => {
+      if (inWord) words.push(word);
+      word = '';
+      inWord = false;
+    };
+    const endCommand = () => {
+      endWord();
+      if (words.length > 0) commands.push(words);
+      words = [];
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (char === '\\') {
+        const next = text[i + 1];
+        if (next === '\n' || (next === '\r' && text[i + 2] === '\n')) {
+          i += next === '\r' ? 2 : 1;
+        } else if (next !== undefined) {
+          word += next;
+          inWord = true;
+          i++;
+        }
+        continue;
+      }
+
+      if (char === "'") {
+        const end = text.indexOf("'", i + 1);
+        word += text.slice(i + 1, end === -1 ? text.length : end);
+        inWord = true;
+        i = end === -1 ? text.length : end;
+        continue;
+      }
+
+      if (char === '$' && text[i + 1] === "'") {
+        const { value, end } = this.readAnsiC(text, i + 2);
+        word += value;
+        inWord = true;
+        i = end;
+        continue;
+      }
+
+      if (char === '"') {
+        let j = i + 1;
+        for (; j < text.length && text[j] !== '"'; j++) {
+          // Inside double quotes a backslash only escapes \ " $ ` and newlines
+          if (text[j] === '\\' && '\\"$`\n'.includes(text[j + 1])) {
+            j++;
+            if (text[j] !== '\n') word += text[j];
+          } else {
+            word += text[j];
+          }
+        }
+        inWord = true;
+        i = j;
+        continue;
+      }
+
+      if (char === '\n' || char === ';') {
+        endCommand();
+        continue;
+      }
+      if ((char === '&' && text[i + 1] === '&') || (char === '|' && text[i + 1] === '|')) {
+        endCommand();
+        i++;
+        continue;
+      }
+      if (/\s/.test(char)) {
+        endWord();
+        continue;
+      }
+
+      word += char;
+      inWord = true;
+    }
+
+    endCommand();
+    return commands;
+  }
+
+  private static readAnsiC(text: string, start: number): { value: string; end: number } {
+    let value = '';
+    let i = start;
+    for (; i < text.length && text[i] !== "'"; i++) {
+      if (text[i] !== '\\') {
+        value += text[i];
+        continue;
+      }
+
+      const next = text[++i];
+      if (next === 'x') {
+        const hex = text.slice(i + 1, i + 3).match(/^[0-9a-fA-F]{1,2}/)?.[0] || '';
+        value += String.fromCharCode(parseInt(hex || '0', 16));
+        i += hex.length;
+      } else if (next === 'u' || next === 'U') {
+        const hex = text.slice(i + 1, i + (next === 'u' ? 5 : 9)).match(/^[0-9a-fA-F]+/)?.[0] || '';
+        value += String.fromCodePoint(parseInt(hex || '0', 16));
+        i += hex.length;
+      } else if (/[0-7]/.test(next)) {
+        const octal = text.slice(i, i + 3).match(/^[0-7]{1,3}/)![0];
+        value += String.fromCharCode(parseInt(octal, 8));
+        i += octal.length - 1;
+      } else if (next !== undefined) {
+        value += ANSI_C_ESCAPES[next] ?? `\\${next}`;
+      }
+    }
+    return { value, end: i };
+  }
+
+  /**
+   * Map curl options to a request
+   */
+  private static parseWords(args: string[]): ParsedCommand {
+    const ignored: string[] = [];
+    const headers: Record<string, string> = {};
+    const data: string[] = [];
+    const form: Record<string, string> = {};
+    const urls: string[] = [];
+    let method: string | undefined;
+    let auth: RequestConfig['auth'];
+    let dataAsQuery = false;
+    let optionsEnded = false;
+
+    const queue = [...args];
+    while (queue.length > 0) {
+      let arg = queue.shift()!;
+
+      if (optionsEnded || !arg.startsWith('-') || arg === '-') {
+        urls.push(arg);
+        continue;
+      }
+      if (arg === '--') {
+        optionsEnded = true;
+        continue;
+      }
+
+      let value: string | undefined;
+      if (arg.startsWith('--')) {
+        const separator = arg.indexOf('=');
+        if (separator > 0) {
+          value = arg.slice(separator + 1);
+          arg = arg.slice(0, separator);
+        }
+      } else if (arg.length > 2) {
+        // Combined short options such as -sSL or an attached value such as -XPOST;
+        // in -sXPOST the first option taking a value consumes the rest of the group
+        const letter = arg[1];
+        if (SHORT_WITH_VALUE.has(letter)) {
+          value = arg.slice(2);
+        } else {
+          queue.unshift(`-${arg.slice(2)}`);
+        }
+        arg = `-${letter}`;
+      }
+
+      const takeValue = () => {
+        if (value === undefined) value = queue.shift() ?? '';
+        return value;
+      };
+
+      switch (arg) {
+        case '-X':
+        case '--request':
+          method = takeValue().toUpperCase();
+          break;
+        case '--url':
+          urls.push(takeValue());
+          break;
+        case '-H':
+        case '--header': {
+          const header = takeValue();
+          const separator = header.indexOf(':');
+          if (header.startsWith('@')) {
+            ignored.push(`${arg} ${header}`);
+          } else if (separator > 0) {
+            headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+          } else if (header.endsWith(';')) {
+            // "Name;" sends the header with an empty value
+            headers[header.slice(0, -1).trim()] = '';
+          } else {
+            ignored.push(`${arg} ${header}`);
+          }
+          break;
+        }
+        case '-d':
+        case '--data':
+        case '--data-ascii':
+        case '--data-binary':
+        case '--data-raw':
+        case '--json': {
+          const body = takeValue();
+          if (body.startsWith('@') && arg !== '--data-raw') {
+            ignored.push(`${arg} ${body} (file contents cannot be read)`);
+          } else {
+            data.push(body);
+          }
+          if (arg === '--json') {
+            headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+            headers.Accept = headers.Accept || 'application/json';
+          }
+          break;
+        }
+        case '--data-urlencode':
+          data.push(this.urlencodeData(takeValue()));
+          break;
+        case '-F':
+        case '--form':
+        case '--form-string': {
+          const field = takeValue();
+          const separator = field.indexOf('=');
+          const name = separator > 0 ? field.slice(0, separator) : field;
+          const fieldValue = separator > 0 ? field.slice(separator + 1) : '';
+          if (arg !== '--form-string' && /^[@<]/.test(fieldValue)) {
+            ignored.push(`${arg} ${field} (file uploads are not supported)`);
+          } else {
+            form[name] = fieldValue;
+          }
+          break;
+        }
+        case '-u':
+        case '--user': {
+          const credentials = takeValue();
+          const separator = credentials.indexOf(':');
+          auth = separator >= 0
+            ? { type: 'basic', username: credentials.slice(0, separator), password: credentials.slice(separator + 1) }
+            : { type: 'basic', username: credentials, password: '' };
+          break;
+        }
+        case '--oauth2-bearer':
+          auth = { type: 'bearer', token: takeValue() };
+          break;
+        case '-A':
+        case '--user-agent':
+          headers['User-Agent'] = takeValue();
+          break;
+        case '-e':
+        case '--referer':
+          headers.Referer = takeValue();
+          break;
+        case '-b':
+        case '--cookie': {
+          const cookie = takeValue();
+          if (cookie.includes('=')) {
+            headers.Cookie = headers.Cookie ? `${headers.Cookie}; ${cookie}` : cookie;
+          } else {
+            ignored.push(`${arg} ${cookie} (cookie files are not supported)`);
+          }
+          break;
+        }
+        case '-G':
+        case '--get':
+          dataAsQuery = true;
+          break;
+        case '-I':
+        case '--head':
+          method = 'HEAD';
+          break;
+        default:
+          if (IGNORED_WITH_VALUE.has(arg) || (arg.length === 2 && SHORT_WITH_VALUE.has(arg[1]))) {
+            ignored.push(`${arg} ${takeValue()}`);
+          } else {
+            ignored.push(arg);
+          }
+      }
+    }
+
+    if (urls.length > 1) {
+      ignored.push(...urls.slice(1).map(url => `additional URL ${url}`));
+    }
+
+    const { url, params } = this.splitUrl(urls[0] || '');
+    let body: string | undefined;
+    let bodyType: RequestConfig['bodyType'] = 'raw';
+
+    if (dataAsQuery) {
+      data.forEach(chunk => {
+        const pairs = this.parsePairs(chunk);
+        if (pairs) {
+          Object.assign(params, pairs);
+        } else {
+          ignored.push(`-G data ${chunk} (not name=value pairs)`);
+        }
+      });
+    } else if (Object.keys(form).length > 0) {
+      bodyType = 'form-data';
+      body = JSON.stringify(form, null, 2);
+      // The boundary of a copied multipart header no longer matches the body
+      Object.keys(headers)
+        .filter(name => name.toLowerCase() === 'content-type' && headers[name].startsWith('multipart/'))
+        .forEach(name => delete headers[name]);
+    } else if (data.length > 0) {
+      const joined = data.join('&');
+      const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] || '';
+      const pairs = this.parsePairs(joined);
+      if ((!contentType || contentType.includes('application/x-www-form-urlencoded')) && pairs) {
+        bodyType = 'x-www-form-urlencoded';
+        body = JSON.stringify(pairs, null, 2);
+      } else {
+        body = joined;
+      }
+    }
+
+    if (method && !METHODS.includes(method as HttpMethod)) {
+      ignored.push(`-X ${method} (unsupported method)`);
+      method = undefined;
+    }
+    const resolvedMethod = (method || (!dataAsQuery && body !== undefined ? 'POST' : 'GET')) as HttpMethod;
+
+    return {
+      name: url || 'Imported request',
+      request: { method: resolvedMethod, url, headers, params, body, bodyType, auth },
+      ignored
+    };
+  }
+
+  /**
+   * Split query parameters off the URL. curl assumes http:// when no scheme is given.
+   */
+  private static splitUrl(rawUrl: string): { url: string; params: Record<string, string> } {
+    const withScheme = rawUrl && !/^[a-z][a-z0-9+.-]*:\/\//i.test(rawUrl) && !rawUrl.startsWith('{{')
+      ? `http://${rawUrl}`
+      : rawUrl;
+    const [base, ...rest] = withScheme.split('#')[0].split('?');
+    return { url: base, params: this.parsePairs(rest.join('?'), false) || {} };
+  }
+
+  /**
+   * Decode `a=1&b=2`. In strict mode, returns null unless every part is a
+   * name=value pair, so other bodies are kept as raw text.
+   */
+  private static parsePairs(text: string, strict = true): Record<string, string> | null {
+    if (!text) {
+      return {};
+    }
+    const pairs = text.split('&').filter(pair => pair);
+    if (strict && pairs.some(pair => !/^[^=\s{}[\]"]+=/.test(pair))) {
+      return null;
+    }
+
+    const decode = (value: string) => {
+      try {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+      } catch {
+        return value;
+      }
+    };
+    return Object.fromEntries(pairs.map(pair => {
+      const separator = pair.indexOf('=');
+      return separator === -1 ? [decode(pair), ''] : [decode(pair.slice(0, separator)), decode(pair.slice(separator + 1))];
+    }));
+  }
+
+  /**
+   * --data-urlencode accepts `content`, `=content` or `name=content`
+   */
+  private static urlencodeData(value: string): string {
+    const separator = value.indexOf('=');
+    if (separator === -1) return encodeURIComponent(value);
+    if (separator === 0) return encodeURIComponent(value.slice(1));
+    return `${value.slice(0, separator)}=${encodeURIComponent(value.slice(separator + 1))}`;
+  }
+}
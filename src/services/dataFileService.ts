@@ -0,0 +1,102 @@
+export type DataRow = Record<string, string>;
+
+export class DataFileService {
+  /**
+   * Parse an uploaded CSV or JSON data file into one row per iteration
+   */
+  static parse(text: string, fileName: string): DataRow[] {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return [];
+    }
+
+    if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[')) {
+      return this.parseJson(trimmed);
+    }
+
+    return this.parseCsv(text);
+  }
+
+  static parseJson(text: string): DataRow[] {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) {
+      throw new Error('JSON data file must contain an array of objects');
+    }
+
+    return data.map((row, index) => {
+      if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        throw new Error(`Row ${index + 1} is not an object`);
+      }
+      const result: DataRow = {};
+      Object.entries(row).forEach(([key, value]) => {
+        result[key] = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '');
+      });
+      return result;
+    });
+  }
+
+  /**
+   * Parse RFC 4180 CSV: the first record holds the column names
+   */
+  static parseCsv(text: string): DataRow[] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new Error('Unterminated quoted field in CSV data file');
+    }
+
+    if (field || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+    if (nonEmpty.length === 0) {
+      return [];
+    }
+
+    const [header, ...rows] = nonEmpty;
+    const columns = header.map(column => column.trim());
+
+    return rows.map(row => {
+      const result: DataRow = {};
+      columns.forEach((column, index) => {
+        if (column) {
+          result[column] = row[index] ?? '';
+        }
+      });
+      return result;
+    });
+  }
+}
@@ -1,4 +1,9 @@
 import type { Collection, Request, Environment } from '../database';
+import { PasteImportService } from './pasteImportService';
+import { BundleCryptoService } from './bundleCryptoService';
+import { RedactionService } from './redactionService';
+import type { RedactionContext } from './redactionService';
+import { v4 as uuidv4 } from 'uuid';
 
 export interface ExportData {
   collections: Collection[];
@@ -8,6 +13,11 @@ export interface ExportData {
   exportedAt: string;
 }
 
+export interface ExportOptions {
+  passphrase?: string;
+  redaction?: RedactionContext;
+}
+
 export class ExportImportService {
   static async exportData(): Promise<ExportData> {
     const { db } = await import('../database');
@@ -45,9 +55,17 @@ export class ExportImportService {
     ]);
   }
 
-  static async exportToFile(): Promise<void> {
-    const data = await this.exportData();
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  /**
+   * Download all data as JSON, with secrets redacted into the context and
+   * encrypted when a passphrase is given
+   */
+  static async exportToFile({ passphrase, redaction }: ExportOptions = {}): Promise<void> {
+    const exported = await this.exportData();
+    const data = redaction ? RedactionService.redactExportData(exported, redaction) : exported;
+    const content = passphrase
+      ? JSON.stringify(await BundleCryptoService.encrypt(JSON.stringify(data), passphrase), null, 2)
+      : JSON.stringify(data, null, 2);
+    const blob = new Blob([content], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     
     const a = document.createElement('a');
@@ -59,7 +77,27 @@ export class ExportImportService {
     URL.revokeObjectURL(url);
   }
 
-  static async importFromFile(): Promise<void> {
+  /**
+   * Parse an exported JSON file, asking for the passphrase if it is encrypted
+   */
+  static async parseExportFile(text: string, requestPassphrase?: () => Promise<string | null>): Promise<ExportData> {
+    let data = JSON.parse(text);
+    if (BundleCryptoService.isEncrypted(data)) {
+      const passphrase = requestPassphrase ? await requestPassphrase() : null;
+      if (!passphrase) {
+        throw new Error('The file is encrypted and no passphrase was given');
+      }
+      data = JSON.parse(await BundleCryptoService.decrypt(data, passphrase));
+    }
+
+    // Validate data structure
+    if (!data.collections || !data.requests || !data.environments) {
+      throw new Error('Invalid export file format');
+    }
+    return data as ExportData;
+  }
+
+  static async importFromFile(requestPassphrase?: () => Promise<string | null>): Promise<void> {
     return new Promise((resolve, reject) => {
       const input = document.createElement('input');
       input.type = 'file';
@@ -73,14 +111,7 @@ export class ExportImportService {
         }
 
         try {
-          const text = await file.text();
-          const data = JSON.parse(text) as ExportData;
-          
-          // Validate data structure
-          if (!data.collections || !data.requests || !data.environments) {
-            throw new Error('Invalid export file format');
-          }
-
+          const data = await this.parseExportFile(await file.text(), requestPassphrase);
           await this.importData(data);
           resolve();
         } catch (error) {
@@ -92,82 +123,47 @@ export class ExportImportService {
     });
   }
 
-  static generateCurlImport(text: string): Request[] {
-    const requests: Request[] = [];
-    const lines = text.split('\n');
-    let currentRequest: Partial<Request> | null = null;
-    let requestIndex = 0;
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      if (trimmedLine.startsWith('curl ')) {
-        // Save previous request if exists
-        if (currentRequest && currentRequest.url) {
-          requests.push({
-            id: `imported-${requestIndex++}`,
-            name: currentRequest.url,
-            method: currentRequest.method || 'GET',
-            url: currentRequest.url,
-            headers: currentRequest.headers || {},
-            params: currentRequest.params || {},
-            bodyType: 'raw',
-            order: requestIndex - 1,
-            createdAt: new Date(),
-            updatedAt: new Date()
-          } as Request);
-        }
+  /**
+   * Convert pasted cURL, fetch, PowerShell or HTTPie commands into requests,
+   * listing the options that have no equivalent so the caller can show them
+   */
+  static generateCurlImport(text: string): { requests: Request[]; ignored: string[] } {
+    const commands = PasteImportService.parseAll(text);
+
+    const requests = commands.map((command, index): Request => ({
+      id: uuidv4(),
+      name: command.name,
+      ...command.request,
+      order: index,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }));
+    const ignored = commands.flatMap(command =>
+      command.ignored.map(option => (commands.length > 1 ? `${command.name}: ${option}` : option))
+    );
+
+    return { requests, ignored };
+  }
 
-        // Start new request
-        currentRequest = {
-          method: 'GET',
-          headers: {},
-          params: {}
-        };
-
-        // Extract URL
-        const urlMatch = trimmedLine.match(/-X\s+(\w+)\s+['"]([^'"]+)['"]/);
-        if (urlMatch) {
-          currentRequest.method = urlMatch[1] as any;
-          currentRequest.url = urlMatch[2];
-        } else {
-          const urlMatch2 = trimmedLine.match(/['"]([^'"]+)['"]/);
-          if (urlMatch2) {
-            currentRequest.url = urlMatch2[1];
-          }
-        }
-      } else if (trimmedLine.startsWith('-H ')) {
-        // Extract header
-        const headerMatch = trimmedLine.match(/-H\s+['"]([^:]+):\s*([^'"]+)['"]/);
-        if (headerMatch && currentRequest) {
-          currentRequest.headers = currentRequest.headers || {};
-          currentRequest.headers[headerMatch[1]] = headerMatch[2];
-        }
-      } else if (trimmedLine.startsWith('-d ')) {
-        // Extract body
-        const bodyMatch = trimmedLine.match(/-d\s+['"]([^'"]+)['"]/);
-        if (bodyMatch && currentRequest) {
-          currentRequest.body = bodyMatch[1];
-        }
-      }
-    }
+  /**
+   * A name with the characters file systems reject replaced
+   */
+  static sanitizeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|]/g, '-').trim() || 'untitled';
+  }
 
-    // Add last request
-    if (currentRequest && currentRequest.url) {
-      requests.push({
-        id: `imported-${requestIndex++}`,
-        name: currentRequest.url,
-        method: currentRequest.method || 'GET',
-        url: currentRequest.url,
-        headers: currentRequest.headers || {},
-        params: currentRequest.params || {},
-        bodyType: 'raw',
-        order: requestIndex - 1,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      } as Request);
+  /**
+   * A sanitized file name not yet in `usedNames`, numbered on a clash. Names
+   * compare case-insensitively with `extension` added, and the chosen one is
+   * recorded; the extension is left for the caller to append.
+   */
+  static uniqueFileName(name: string, usedNames: Set<string>, extension = ''): string {
+    const base = this.sanitizeFileName(name);
+    let unique = base;
+    for (let suffix = 2; usedNames.has(`${unique}${extension}`.toLowerCase()); suffix++) {
+      unique = `${base} ${suffix}`;
     }
-
-    return requests;
+    usedNames.add(`${unique}${extension}`.toLowerCase());
+    return unique;
   }
 }
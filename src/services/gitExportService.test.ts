@@ -0,0 +1,66 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import type { ExportData } from './exportImportService';
+import { collection, outline, request, sampleWorkspace } from '../test/workspace';
+import { GitExportService } from './gitExportService';
+
+const exportData = (): ExportData => ({ ...sampleWorkspace(), version: '1.0.0', exportedAt: '2024-01-01T00:00:00.000Z' });
+
+describe('git zip round trip', () => {
+  it('parses built files back into the same data', () => {
+    const data = exportData();
+
+    const parsed = GitExportService.parseFiles(GitExportService.buildFiles(data));
+
+    expect(outline('shop', parsed.collections, parsed.requests)).toEqual(outline('shop', data.collections, data.requests));
+    expect(parsed.collections.map(c => c.id).sort()).toEqual(data.collections.map(c => c.id).sort());
+    expect(parsed.environments.map(({ createdAt, updatedAt, ...environment }) => environment))
+      .toEqual(data.environments.map(({ createdAt, updatedAt, ...environment }) => environment));
+  });
+
+  it('reads a zip, also when everything is wrapped in one more directory', async () => {
+    const zip = new JSZip();
+    GitExportService.buildFiles(exportData()).forEach(file => zip.file(`webpostman-main/${file.path}`, file.content));
+    const blob = new Blob([await zip.generateAsync({ type: 'uint8array' })]);
+
+    const parsed = await GitExportService.readZip(blob);
+
+    expect(parsed.requests).toHaveLength(5);
+    expect(parsed.collections.find(c => c.id === 'admin')?.parentId).toBe('users');
+  });
+
+  it('writes identical files for unchanged data', () => {
+    const data = exportData();
+    const later = { ...exportData(), exportedAt: '2025-06-01T00:00:00.000Z' };
+    later.requests = later.requests.map(r => ({ ...r, updatedAt: new Date('2025-06-01T00:00:00Z') }));
+
+    expect(GitExportService.buildFiles(later)).toEqual(GitExportService.buildFiles(data));
+  });
+
+  it('gives requests with the same name their own files', () => {
+    const files = GitExportService.buildFiles({
+      collections: [collection({ id: 'api', name: 'API' })],
+      requests: [
+        request({ id: 'a', name: 'Get: user', collectionId: 'api', order: 0 }),
+        request({ id: 'b', name: 'Get/ user', collectionId: 'api', order: 1 }),
+        request({ id: 'c', name: 'Loose', order: 0 })
+      ],
+      environments: [],
+      version: '1.0.0',
+      exportedAt: ''
+    });
+
+    expect(files.map(file => file.path)).toEqual([
+      'webpostman.yaml',
+      'collections/API/_collection.yaml',
+      'collections/API/Get- user.yaml',
+      'collections/API/Get- user 2.yaml',
+      'requests/Loose.yaml'
+    ]);
+  });
+
+  it('rejects zips that are not git exports', () => {
+    expect(() => GitExportService.parseFiles([{ path: 'README.md', content: '' }])).toThrow('webpostman.yaml is missing');
+    expect(() => GitExportService.parseFiles([{ path: 'webpostman.yaml', content: 'format: other' }])).toThrow('Not a git-friendly export');
+  });
+});
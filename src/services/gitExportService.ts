@@ -0,0 +1,299 @@
+import { dump as dumpYaml, load as loadYaml } from 'js-yaml';
+import type { Collection, Environment, Request } from '../database';
+import { ExportImportService } from './exportImportService';
+import type { ExportData } from './exportImportService';
+import { RedactionService } from './redactionService';
+import type { RedactionContext } from './redactionService';
+import { RunEngine } from './runEngine';
+
+const FORMAT = 'webpostman-git';
+const FORMAT_VERSION = 1;
+
+// Directory metadata lives next to the requests; the underscore keeps it first in listings
+const COLLECTION_FILE = '_collection.yaml';
+
+/**
+ * A file inside the export zip, with its path from the zip root
+ */
+export interface GitExportFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Drop undefined and empty values so files only list what is set
+ */
+const compact = (record: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(record).filter(([, value]) =>
+    value !== undefined && value !== '' && !(typeof value === 'object' && value !== null && Object.keys(value).length === 0)
+  ));
+
+/**
+ * Exports all data as a zip laid out for version control: a directory per
+ * collection and folder, one YAML file per request and per environment.
+ * Keys are always written in the same order and timestamps are left out,
+ * so exporting unchanged data produces identical files.
+ */
+export class GitExportService {
+  static buildFiles(data: ExportData): GitExportFile[] {
+    const files: GitExportFile[] = [
+      { path: 'webpostman.yaml', content: this.dump({ format: FORMAT, version: FORMAT_VERSION }) }
+    ];
+
+    const writeCollection = (collection: Collection, directory: string) => {
+      files.push({ path: `${directory}/${COLLECTION_FILE}`, content: this.dump(this.collectionRecord(collection)) });
+
+      const usedNames = new Set<string>([COLLECTION_FILE]);
+      RunEngine.getChildren(collection.id, data.collections, data.requests).forEach(({ folder, request }) => {
+        if (folder) {
+          writeCollection(folder, `${directory}/${ExportImportService.uniqueFileName(folder.name, usedNames)}`);
+        } else {
+          const fileName = `${ExportImportService.uniqueFileName(request.name, usedNames, '.yaml')}.yaml`;
+          files.push({ path: `${directory}/${fileName}`, content: this.dump(this.requestRecord(request)) });
+        }
+      });
+    };
+
+    const usedRootNames = new Set<string>();
+    this.sortByOrder(data.collections.filter(collection => !collection.parentId))
+      .forEach(collection => writeCollection(collection, `collections/${ExportImportService.uniqueFileName(collection.name, usedRootNames)}`));
+
+    // Requests saved outside any collection
+    const collectionIds = new Set(data.collections.map(collection => collection.id));
+    const usedRequestNames = new Set<string>();
+    this.sortByOrder(data.requests.filter(request => !collectionIds.has(request.collectionId ?? request.folderId ?? '')))
+      .forEach(request => {
+        const fileName = `${ExportImportService.uniqueFileName(request.name, usedRequestNames, '.yaml')}.yaml`;
+        files.push({ path: `requests/${fileName}`, content: this.dump(this.requestRecord({ ...request, collectionId: undefined })) });
+      });
+
+    const usedEnvironmentNames = new Set<string>();
+    [...data.environments]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(environment => {
+        const fileName = `${ExportImportService.uniqueFileName(environment.name, usedEnvironmentNames, '.yaml')}.yaml`;
+        files.push({ path: `environments/${fileName}`, content: this.dump(this.environmentRecord(environment)) });
+      });
+
+    return files;
+  }
+
+  /**
+   * Rebuild export data from the files of a zip. Directories give the
+   * collection tree; ids in the files are kept so references still resolve.
+   */
+  static parseFiles(files: GitExportFile[]): ExportData {
+    const byPath = new Map(files.map(file => [file.path.replace(/\\/g, '/'), file.content]));
+
+    // Zips made by hand often wrap everything in one more directory
+    const manifestPath = [...byPath.keys()]
+      .filter(path => path.split('/').pop() === 'webpostman.yaml')
+      .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+    if (!manifestPath) {
+      throw new Error('Not a git-friendly export: webpostman.yaml is missing');
+    }
+    const manifest: any = loadYaml(byPath.get(manifestPath)!);
+    if (manifest?.format !== FORMAT) {
+      throw new Error('Not a git-friendly export');
+    }
+    if (Number(manifest.version) > FORMAT_VERSION) {
+      throw new Error(`Unsupported export version ${manifest.version}`);
+    }
+
+    const prefix = manifestPath.slice(0, -'webpostman.yaml'.length);
+    const entries = [...byPath.entries()]
+      .filter(([path]) => path.startsWith(prefix) && path.endsWith('.yaml'))
+      .map(([path, content]) => ({ path: path.slice(prefix.length), content }));
+
+    const now = new Date();
+    const collections: Collection[] = [];
+    const requests: Request[] = [];
+    const environments: Environment[] = [];
+
+    // Parents are read before their children because shorter paths sort first
+    const collectionIdsByDirectory = new Map<string, string>();
+    entries
+      .filter(({ path }) => path.startsWith('collections/') && path.endsWith(`/${COLLECTION_FILE}`))
+      .sort((a, b) => a.path.split('/').length - b.path.split('/').length)
+      .forEach(({ path, content }) => {
+        const record = this.load(content, path);
+        const directory = path.slice(0, -COLLECTION_FILE.length - 1);
+        const parentDirectory = directory.split('/').slice(0, -1).join('/');
+        const collection = {
+          ...record,
+          id: String(record.id),
+          name: String(record.name ?? directory.split('/').pop()),
+          parentId: collectionIdsByDirectory.get(parentDirectory),
+          order: Number(record.order) || 0,
+          createdAt: now,
+          updatedAt: now
+        } as Collection;
+        collectionIdsByDirectory.set(directory, collection.id);
+        collections.push(collection);
+      });
+
+    entries
+      .filter(({ path }) => (path.startsWith('collections/') || path.startsWith('requests/')) && !path.endsWith(`/${COLLECTION_FILE}`))
+      .forEach(({ path, content }) => {
+        const record = this.load(content, path);
+        const directory = path.split('/').slice(0, -1).join('/');
+        const collectionId = collectionIdsByDirectory.get(directory);
+        if (path.startsWith('collections/') && !collectionId) {
+          throw new Error(`${path}: the directory has no ${COLLECTION_FILE}`);
+        }
+        requests.push({
+          headers: {},
+          params: {},
+          bodyType: 'raw',
+          ...record,
+          id: String(record.id),
+          name: String(record.name ?? path.split('/').pop()!.replace(/\.yaml$/, '')),
+          method: String(record.method || 'GET').toUpperCase(),
+          url: String(record.url ?? ''),
+          collectionId,
+          order: Number(record.order) || 0,
+          createdAt: now,
+          updatedAt: now
+        } as Request);
+      });
+
+    entries
+      .filter(({ path }) => path.startsWith('environments/'))
+      .forEach(({ path, content }) => {
+        const record = this.load(content, path);
+        environments.push({
+          variables: {},
+          ...record,
+          id: String(record.id),
+          name: String(record.name ?? path.split('/').pop()!.replace(/\.yaml$/, '')),
+          isActive: !!record.isActive,
+          createdAt: now,
+          updatedAt: now
+        } as Environment);
+      });
+
+    return { collections, requests, environments, version: '1.0.0', exportedAt: now.toISOString() };
+  }
+
+  /**
+   * Download all data as `webpostman-<date>.zip`, with secrets redacted into the context if one is given
+   */
+  static async exportToZip(redaction?: RedactionContext): Promise<void> {
+    const data = await ExportImportService.exportData();
+    const files = this.buildFiles(redaction ? RedactionService.redactExportData(data, redaction) : data);
+    const { default: JSZip } = await import('jszip');
+    const zip = new JSZip();
+    files.forEach(file => zip.file(file.path, file.content));
+
+    const url = URL.createObjectURL(await zip.generateAsync({ type: 'blob' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `webpostman-${new Date().toISOString().split('T')[0]}.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Unpack a zip and parse its files
+   */
+  static async readZip(file: Blob): Promise<ExportData> {
+    const { default: JSZip } = await import('jszip');
+    const zip = await JSZip.loadAsync(file);
+    const files = await Promise.all(
+      Object.values(zip.files)
+        .filter(entry => !entry.dir)
+        .map(async entry => ({ path: entry.name, content: await entry.async('string') }))
+    );
+    return this.parseFiles(files);
+  }
+
+  /**
+   * Let the user pick a zip and replace all data with its contents
+   */
+  static async importFromZip(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.zip';
+
+      input.onchange = async (event) => {
+        const file = (event.target as HTMLInputElement).files?.[0];
+        if (!file) {
+          reject(new Error('No file selected'));
+          return;
+        }
+
+        try {
+          await ExportImportService.importData(await this.readZip(file));
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      input.click();
+    });
+  }
+
+  private static collectionRecord(collection: Collection): Record<string, unknown> {
+    return compact({
+      id: collection.id,
+      name: collection.name,
+      order: collection.order,
+      description: collection.description,
+      auth: collection.auth,
+      variables: collection.variables,
+      preRequestScript: collection.preRequestScript,
+      testScript: collection.testScript
+    });
+  }
+
+  private static requestRecord(request: Request): Record<string, unknown> {
+    return compact({
+      id: request.id,
+      name: request.name,
+      order: request.order,
+      description: request.description,
+      method: request.method,
+      url: request.url,
+      params: request.params,
+      disabledParams: request.disabledParams,
+      headers: request.headers,
+      disabledHeaders: request.disabledHeaders,
+      auth: request.auth,
+      bodyType: request.bodyType,
+      body: request.body,
+      preRequestScript: request.preRequestScript,
+      testScript: request.testScript
+    });
+  }
+
+  private static environmentRecord(environment: Environment): Record<string, unknown> {
+    return compact({
+      id: environment.id,
+      name: environment.name,
+      isActive: environment.isActive || undefined,
+      variables: environment.variables,
+      disabledVariables: environment.disabledVariables,
+      secretKeys: environment.secretKeys
+    });
+  }
+
+  private static dump(record: Record<string, unknown>): string {
+    return dumpYaml(record, { lineWidth: -1, noRefs: true });
+  }
+
+  private static load(content: string, path: string): Record<string, any> {
+    const record = loadYaml(content);
+    if (!record || typeof record !== 'object' || !('id' in record)) {
+      throw new Error(`${path}: missing id`);
+    }
+    return record as Record<string, any>;
+  }
+
+  private static sortByOrder<T extends { order: number; name: string }>(items: T[]): T[] {
+    return [...items].sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+  }
+}
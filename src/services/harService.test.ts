@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { CollectionRun, HistoryEntry } from '../database';
+import { request } from '../test/workspace';
+import { HarService } from './harService';
+
+const entry = (overrides: Partial<HistoryEntry>): HistoryEntry => ({
+  id: 'entry',
+  name: 'Entry',
+  method: 'GET',
+  url: 'https://api.example.com/users',
+  timestamp: new Date('2024-01-01T00:00:00Z'),
+  status: 200,
+  statusText: 'OK',
+  responseTime: 42,
+  responseSize: 10,
+  ...overrides
+});
+
+describe('HAR round trip', () => {
+  it('imports exported history as the requests that were sent', async () => {
+    const har = HarService.exportHistory([
+      entry({
+        url: '{{baseUrl}}/users',
+        params: { q: 'a b&c', page: '2' },
+        headers: { Accept: 'application/json' },
+        auth: { type: 'bearer', token: '{{token}}' }
+      }),
+      entry({
+        method: 'POST',
+        url: '{{baseUrl}}/login',
+        bodyType: 'x-www-form-urlencoded',
+        body: JSON.stringify({ user: 'ann', password: 'p&ss word' })
+      }),
+      entry({
+        method: 'PUT',
+        url: '{{baseUrl}}/avatar',
+        bodyType: 'form-data',
+        body: JSON.stringify({ caption: 'me' })
+      }),
+      entry({
+        method: 'PATCH',
+        url: '{{baseUrl}}/users/1',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"name":"Ann"}'
+      })
+    ], { baseUrl: 'https://api.example.com', token: 'secret' });
+
+    const { requests, responses, summary } = await HarService.importHar(JSON.parse(har), 'History');
+
+    expect(requests.map(({ method, url, params, headers }) => ({ method, url, params, headers }))).toEqual([
+      {
+        method: 'GET',
+        url: 'https://api.example.com/users',
+        params: { q: 'a b&c', page: '2' },
+        headers: { Accept: 'application/json', Authorization: 'Bearer secret' }
+      },
+      { method: 'POST', url: 'https://api.example.com/login', params: {}, headers: {} },
+      { method: 'PUT', url: 'https://api.example.com/avatar', params: {}, headers: {} },
+      { method: 'PATCH', url: 'https://api.example.com/users/1', params: {}, headers: { 'Content-Type': 'application/json' } }
+    ]);
+    expect(requests[1].bodyType).toBe('x-www-form-urlencoded');
+    expect(JSON.parse(requests[1].body!)).toEqual({ user: 'ann', password: 'p&ss word' });
+    expect(requests[2].bodyType).toBe('form-data');
+    expect(JSON.parse(requests[2].body!)).toEqual({ caption: 'me' });
+    expect(requests[3]).toMatchObject({ bodyType: 'raw', body: '{"name":"Ann"}' });
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200, 200]);
+    expect(summary.skipped).toEqual([]);
+  });
+
+  it('exports a run with the requests as they were sent', async () => {
+    const run: CollectionRun = {
+      id: 'run',
+      collectionId: 'shop',
+      collectionName: 'Shop',
+      iterations: 1,
+      delay: 0,
+      stopOnFailure: false,
+      results: [{
+        iteration: 0,
+        requestId: 'saved',
+        name: 'Create user',
+        method: 'POST',
+        url: 'https://api.example.com/users?dry=1',
+        status: 201,
+        statusText: 'Created',
+        responseTime: 30,
+        responseSize: 2,
+        tests: [],
+        passed: true,
+        request: { headers: { 'Content-Type': 'application/json' }, params: {}, body: '{"name":"Ann"}', bodyType: 'raw' }
+      }],
+      passed: 1,
+      failed: 0,
+      totalTime: 30,
+      status: 'completed',
+      startedAt: new Date('2024-01-01T00:00:00Z'),
+      finishedAt: new Date('2024-01-01T00:00:01Z')
+    };
+
+    const har = JSON.parse(HarService.exportRun(run, [request({ id: 'saved', name: 'Create user', body: 'stale' })]));
+    const { requests } = await HarService.importHar(har);
+
+    expect(har.log.pages[0].title).toBe('Shop');
+    expect(har.log.entries[0].comment).toBe('Iteration 1: Create user');
+    expect(requests[0]).toMatchObject({ method: 'POST', url: 'https://api.example.com/users', params: { dry: '1' }, body: '{"name":"Ann"}' });
+  });
+
+  it('reports entries it cannot import', async () => {
+    const { requests, summary } = await HarService.importHar({
+      log: {
+        entries: [
+          { request: { method: 'CONNECT', url: 'https://api.example.com' } },
+          {},
+          {
+            request: {
+              method: 'POST',
+              url: 'https://api.example.com/upload',
+              headers: [{ name: ':authority', value: 'api.example.com' }, { name: 'Content-Length', value: '3' }],
+              postData: { mimeType: 'multipart/form-data', params: [{ name: 'file', fileName: 'a.png' }, { name: 'title', value: 'A' }] }
+            }
+          }
+        ]
+      }
+    });
+
+    expect(summary.skipped).toEqual([
+      'CONNECT https://api.example.com: unsupported method',
+      'Entry 2: no request',
+      'POST https://api.example.com/upload: file field "file" in form body'
+    ]);
+    expect(requests[0].headers).toEqual({});
+    expect(JSON.parse(requests[0].body!)).toEqual({ title: 'A' });
+  });
+});
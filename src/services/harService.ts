@@ -0,0 +1,361 @@
+import type { Collection, CollectionRun, HistoryEntry, Request } from '../database';
+import type { AuthConfig, ImportResult } from '../types';
+import { HttpService } from './httpService';
+import { v4 as uuidv4 } from 'uuid';
+
+const METHODS: Request['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Headers the browser computes itself; replaying them would only cause errors
+const GENERATED_HEADERS = ['content-length', 'host', 'connection', 'accept-encoding'];
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * Reads and writes HTTP Archive (HAR 1.2) files
+ */
+export class HarService {
+  /**
+   * Import every entry of a HAR log as a request of a new collection.
+   * Captured responses are kept as saved examples of their request.
+   */
+  static async importHar(har: any, name?: string): Promise<ImportResult> {
+    const entries = har?.log?.entries;
+    if (!Array.isArray(entries)) {
+      throw new Error('Invalid HAR file format');
+    }
+
+    const result: ImportResult = {
+      collections: [],
+      requests: [],
+      responses: [],
+      environments: [],
+      summary: { collections: 0, requests: 0, examples: 0, variables: 0, skipped: [] }
+    };
+
+    const collection: Collection = {
+      id: uuidv4(),
+      name: name || har.log.pages?.[0]?.title || `HAR Import ${new Date().toLocaleString()}`,
+      description: har.log.comment || undefined,
+      order: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    result.collections.push(collection);
+
+    entries.forEach((entry: any, index: number) => {
+      const harRequest = entry?.request;
+      if (!harRequest?.url) {
+        result.summary.skipped.push(`Entry ${index + 1}: no request`);
+        return;
+      }
+
+      const method = String(harRequest.method || 'GET').toUpperCase();
+      const label = `${method} ${harRequest.url}`;
+      if (!METHODS.includes(method as Request['method'])) {
+        result.summary.skipped.push(`${label}: unsupported method`);
+        return;
+      }
+
+      const [url, queryString] = harRequest.url.split('?');
+      const params: Record<string, string> = {};
+      const query: HarNameValue[] = Array.isArray(harRequest.queryString) && harRequest.queryString.length > 0
+        ? harRequest.queryString
+        : [...new URLSearchParams(queryString || '')].map(([key, value]) => ({ name: key, value }));
+      query.forEach(({ name: key, value }) => {
+        params[key] = value ?? '';
+      });
+
+      const headers: Record<string, string> = {};
+      (harRequest.headers || []).forEach(({ name: key, value }: HarNameValue) => {
+        // HTTP/2 pseudo headers such as :authority are not real headers
+        if (!key || key.startsWith(':') || GENERATED_HEADERS.includes(key.toLowerCase())) return;
+        headers[key] = value ?? '';
+      });
+
+      const { body, bodyType } = this.readPostData(harRequest.postData, label, result);
+
+      const request: Request = {
+        id: uuidv4(),
+        name: this.requestName(method, url),
+        method: method as Request['method'],
+        url,
+        headers,
+        params,
+        body,
+        bodyType,
+        collectionId: collection.id,
+        order: result.requests.length,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      result.requests.push(request);
+
+      const harResponse = entry.response;
+      if (harResponse && harResponse.status > 0) {
+        const responseBody = this.readContent(harResponse.content);
+        const responseHeaders: Record<string, string> = {};
+        (harResponse.headers || []).forEach(({ name: key, value }: HarNameValue) => {
+          if (key) responseHeaders[key] = value ?? '';
+        });
+
+        result.responses.push({
+          id: uuidv4(),
+          requestId: request.id,
+          name: `${harResponse.status} ${harResponse.statusText || ''}`.trim(),
+          status: harResponse.status,
+          statusText: harResponse.statusText || '',
+          headers: responseHeaders,
+          body: responseBody,
+          responseTime: Math.round(Number(entry.time) || 0),
+          responseSize: harResponse.content?.size > 0 ? harResponse.content.size : new TextEncoder().encode(responseBody).length,
+          timestamp: entry.startedDateTime ? new Date(entry.startedDateTime) : new Date()
+        });
+      }
+    });
+
+    result.summary.collections = result.collections.length;
+    result.summary.requests = result.requests.length;
+    result.summary.examples = result.responses.length;
+    return result;
+  }
+
+  /**
+   * Export history entries as HAR. History keeps the request as typed, so
+   * variables are resolved with the given values first.
+   */
+  static exportHistory(entries: HistoryEntry[], variables: Record<string, string> = {}): string {
+    const harEntries = entries.map(entry => {
+      const config = HttpService.interpolateRequest({
+        method: entry.method as Request['method'],
+        url: entry.url,
+        headers: entry.headers || {},
+        params: entry.params || {},
+        body: entry.body,
+        bodyType: (entry.bodyType as Request['bodyType']) || 'raw',
+        auth: entry.auth as AuthConfig | undefined
+      }, variables);
+
+      return this.toHarEntry({
+        startedDateTime: new Date(entry.timestamp),
+        method: config.method,
+        url: config.url,
+        params: config.params,
+        headers: { ...config.headers, ...this.authHeaders(config.auth) },
+        body: config.body,
+        bodyType: config.bodyType,
+        status: entry.status,
+        statusText: entry.statusText,
+        time: entry.responseTime,
+        size: entry.responseSize
+      });
+    });
+
+    return this.toHar(harEntries);
+  }
+
+  /**
+   * Export a collection run as HAR, using the request each result recorded as
+   * sent. Runs saved before results recorded it fall back to the saved requests.
+   */
+  static exportRun(run: CollectionRun, requests: Request[]): string {
+    // Results carry no timestamps, so entries are laid out back to back from the run start
+    let startedAt = new Date(run.startedAt).getTime();
+
+    const harEntries = run.results.map(result => {
+      const request = result.request ?? requests.find(r => r.id === result.requestId);
+      const [url, queryString] = result.url.split('?');
+      const harEntry = this.toHarEntry({
+        startedDateTime: new Date(startedAt),
+        method: result.method,
+        url,
+        params: { ...request?.params, ...Object.fromEntries(new URLSearchParams(queryString || '')) },
+        headers: { ...request?.headers, ...this.authHeaders(request?.auth) },
+        body: request?.body,
+        bodyType: request?.bodyType || 'raw',
+        status: result.status,
+        statusText: result.statusText,
+        time: result.responseTime,
+        size: result.responseSize,
+        error: result.error
+      });
+      startedAt += result.responseTime;
+      return { ...harEntry, comment: `Iteration ${result.iteration + 1}: ${result.name}` };
+    });
+
+    return this.toHar(harEntries, run.collectionName);
+  }
+
+  private static toHar(entries: any[], title?: string): string {
+    const log: any = {
+      version: '1.2',
+      creator: { name: 'WebPostman', version: '1.0.0' },
+      entries
+    };
+    if (title) {
+      const pageId = 'page_1';
+      log.pages = [{
+        startedDateTime: entries[0]?.startedDateTime ?? new Date().toISOString(),
+        id: pageId,
+        title,
+        pageTimings: {}
+      }];
+      entries.forEach(entry => {
+        entry.pageref = pageId;
+      });
+    }
+    return JSON.stringify({ log }, null, 2);
+  }
+
+  private static toHarEntry(data: {
+    startedDateTime: Date;
+    method: string;
+    url: string;
+    params: Record<string, string>;
+    headers: Record<string, string>;
+    body?: string;
+    bodyType: string;
+    status?: number;
+    statusText?: string;
+    time?: number;
+    size?: number;
+    error?: string;
+  }): any {
+    const queryString = Object.entries(data.params).map(([name, value]) => ({ name, value }));
+    const query = new URLSearchParams(data.params).toString();
+    const time = data.time || 0;
+
+    const harEntry: any = {
+      startedDateTime: data.startedDateTime.toISOString(),
+      time,
+      request: {
+        method: data.method,
+        url: query ? `${data.url}${data.url.includes('?') ? '&' : '?'}${query}` : data.url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: Object.entries(data.headers).map(([name, value]) => ({ name, value })),
+        queryString,
+        headersSize: -1,
+        bodySize: data.body ? new TextEncoder().encode(data.body).length : 0
+      },
+      response: {
+        status: data.status || 0,
+        statusText: data.statusText || '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [],
+        // Response bodies are not kept in history or run results
+        content: { size: data.size || 0, mimeType: '' },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: data.size ?? -1
+      },
+      cache: {},
+      timings: { send: 0, wait: time, receive: 0 }
+    };
+
+    if (data.body && data.method !== 'GET' && data.method !== 'HEAD') {
+      harEntry.request.postData = this.toPostData(data.body, data.bodyType, data.headers);
+    }
+    if (data.error) {
+      harEntry.response._error = data.error;
+    }
+    return harEntry;
+  }
+
+  private static toPostData(body: string, bodyType: string, headers: Record<string, string>): any {
+    const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+    if (bodyType === 'raw') {
+      return { mimeType: contentType || 'text/plain', text: body };
+    }
+
+    const params = HttpService.formFields(body).map(([name, value]) => ({ name, value }));
+    if (bodyType === 'form-data') {
+      return { mimeType: contentType || 'multipart/form-data', params };
+    }
+    return {
+      mimeType: contentType || 'application/x-www-form-urlencoded',
+      params,
+      text: new URLSearchParams(params.map(({ name, value }) => [name, value])).toString()
+    };
+  }
+
+  private static readPostData(postData: any, label: string, result: ImportResult): {
+    body?: string;
+    bodyType: Request['bodyType'];
+  } {
+    if (!postData) {
+      return { bodyType: 'raw' };
+    }
+
+    const mimeType = String(postData.mimeType || '').toLowerCase();
+    const isForm = mimeType.startsWith('multipart/form-data') || mimeType.startsWith('application/x-www-form-urlencoded');
+    if (isForm && Array.isArray(postData.params) && postData.params.length > 0) {
+      const fields: Record<string, string> = {};
+      postData.params.forEach((param: any) => {
+        if (param.fileName) {
+          result.summary.skipped.push(`${label}: file field "${param.name}" in form body`);
+          return;
+        }
+        fields[param.name] = param.value ?? '';
+      });
+      return {
+        body: JSON.stringify(fields, null, 2),
+        bodyType: mimeType.startsWith('multipart') ? 'form-data' : 'x-www-form-urlencoded'
+      };
+    }
+
+    if (mimeType.startsWith('application/x-www-form-urlencoded') && postData.text) {
+      const fields = Object.fromEntries(new URLSearchParams(postData.text));
+      return { body: JSON.stringify(fields, null, 2), bodyType: 'x-www-form-urlencoded' };
+    }
+
+    return { body: postData.text || undefined, bodyType: 'raw' };
+  }
+
+  /**
+   * Response content may be base64 encoded; binary content is not kept
+   */
+  private static readContent(content: any): string {
+    if (!content?.text) {
+      return '';
+    }
+    if (content.encoding !== 'base64') {
+      return content.text;
+    }
+
+    const mimeType = String(content.mimeType || '');
+    if (!/^text\/|json|xml|javascript/.test(mimeType)) {
+      return '';
+    }
+    try {
+      const bytes = Uint8Array.from(atob(content.text), char => char.charCodeAt(0));
+      return new TextDecoder().decode(bytes);
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * The headers HttpService adds for an auth setting, so the archive shows what was sent
+   */
+  private static authHeaders(auth?: AuthConfig | Request['auth']): Record<string, string> {
+    switch (auth?.type) {
+      case 'bearer':
+        return auth.token ? { Authorization: `Bearer ${auth.token}` } : {};
+      case 'basic':
+        return auth.username && auth.password ? { Authorization: `Basic ${HttpService.basicCredentials(auth.username, auth.password)}` } : {};
+      case 'api-key':
+        return auth.key && auth.value ? { [auth.key]: auth.value } : {};
+      default:
+        return {};
+    }
+  }
+
+  private static requestName(method: string, url: string): string {
+    const path = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '') || '/';
+    return `${method} ${path}`;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { collection, request, sampleWorkspace } from '../test/workspace';
+import { HttpFileService } from './httpFileService';
+
+describe('.http round trip', () => {
+  it('imports a generated file as the same requests', async () => {
+    const { collections, requests } = sampleWorkspace();
+
+    const text = HttpFileService.generateHttpFile('shop', collections, requests);
+    const imported = await HttpFileService.importHttpFile(text, 'shop.http');
+
+    const summary = (list: typeof requests) => list
+      .map(({ name, method, url, params, bodyType, body }) => ({
+        name,
+        method,
+        url,
+        params,
+        bodyType,
+        body: bodyType === 'raw' ? body || undefined : JSON.parse(body!)
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    expect(summary(imported.requests)).toEqual(summary(requests));
+    // The collection is named after the file
+    expect(imported.collections.map(c => c.name).sort()).toEqual(['Admin', 'Users', 'shop']);
+    expect(imported.collections.find(c => !c.parentId)!.variables).toEqual(collections[0].variables);
+  });
+
+  it('writes inherited auth into each request', async () => {
+    const { collections, requests } = sampleWorkspace();
+
+    const imported = await HttpFileService.importHttpFile(HttpFileService.generateHttpFile('shop', collections, requests), 'shop.http');
+    const auth = Object.fromEntries(imported.requests.map(r => [r.name, { auth: r.auth, apiKey: r.headers['X-Api-Key'] }]));
+
+    expect(auth['Health']).toEqual({ auth: { type: 'bearer', token: '{{token}}' }, apiKey: undefined });
+    expect(auth['Create user']).toEqual({ auth: undefined, apiKey: '{{adminKey}}' });
+    expect(auth['Log in'].auth).toEqual({ type: 'basic', username: 'ann', password: 'secret' });
+  });
+
+  it('percent-encodes url-encoded fields but not their {{variables}}', () => {
+    const text = HttpFileService.generateHttpFile(
+      'api',
+      [collection({ id: 'api', name: 'API' })],
+      [request({
+        id: 'login',
+        name: 'Log in',
+        collectionId: 'api',
+        method: 'POST',
+        bodyType: 'x-www-form-urlencoded',
+        body: JSON.stringify({ 'user name': '{{user}}', password: 'a&b=c {{suffix}}' })
+      })]
+    );
+
+    expect(text).toContain('user%20name={{user}}\n&password=a%26b%3Dc%20{{suffix}}');
+  });
+});
@@ -0,0 +1,443 @@
+import type { Collection, Request } from '../database';
+import type { ImportResult } from '../types';
+import { HttpService } from './httpService';
+import { RunEngine } from './runEngine';
+import { v4 as uuidv4 } from 'uuid';
+
+const METHODS: Request['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+const MULTIPART_BOUNDARY = 'WebPostmanBoundary';
+
+const decodeQueryComponent = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+// {{variables}} are left as they are so the client can still fill them in
+const encodeQueryComponent = (value: string): string =>
+  value.split(/(\{\{[^}]+\}\})/).map((part, index) => (index % 2 === 0 ? encodeURIComponent(part) : part)).join('');
+
+/**
+ * Reads and writes `.http` files as used by the VS Code REST Client and the
+ * JetBrains HTTP client
+ */
+export class HttpFileService {
+  /**
+   * Import a `.http` file as one collection. `@name = value` declarations
+   * become collection variables and every `###`-separated block a request;
+   * titles like `### Users / List users` recreate folders.
+   */
+  static async importHttpFile(text: string, fileName: string): Promise<ImportResult> {
+    const result: ImportResult = {
+      collections: [],
+      requests: [],
+      responses: [],
+      environments: [],
+      summary: { collections: 0, requests: 0, examples: 0, variables: 0, skipped: [] }
+    };
+
+    const collection: Collection = {
+      id: uuidv4(),
+      name: fileName.replace(/\.(http|rest)$/i, '') || 'HTTP File',
+      order: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    result.collections.push(collection);
+
+    const variables: Record<string, string> = {};
+    const blocks: { title: string; lines: string[] }[] = [{ title: '', lines: [] }];
+    text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+      if (line.startsWith('###')) {
+        blocks.push({ title: line.slice(3).trim(), lines: [] });
+      } else {
+        blocks[blocks.length - 1].lines.push(line);
+      }
+    });
+
+    const folders = new Map<string, Collection>();
+    const orders = new Map<string, number>();
+    const nextOrder = (collectionId: string) => {
+      const order = orders.get(collectionId) ?? 0;
+      orders.set(collectionId, order + 1);
+      return order;
+    };
+
+    blocks.forEach((block, index) => {
+      const request = this.parseBlock(block.title, block.lines, `Request ${index + 1}`, variables, result);
+      if (!request) return;
+
+      const path = request.name.split(' / ');
+      let parent = collection;
+      path.slice(0, -1).forEach((folderName, depth) => {
+        const key = path.slice(0, depth + 1).join(' / ');
+        let folder = folders.get(key);
+        if (!folder) {
+          folder = {
+            id: uuidv4(),
+            name: folderName,
+            parentId: parent.id,
+            order: nextOrder(parent.id),
+            createdAt: new Date(),
+            updatedAt: new Date()
+          };
+          folders.set(key, folder);
+          result.collections.push(folder);
+        }
+        parent = folder;
+      });
+
+      result.requests.push({ ...request, name: path[path.length - 1], collectionId: parent.id, order: nextOrder(parent.id) });
+    });
+
+    if (result.requests.length === 0) {
+      throw new Error('No requests found in the file');
+    }
+    if (Object.keys(variables).length > 0) {
+      collection.variables = variables;
+    }
+    result.summary.collections = result.collections.length;
+    result.summary.requests = result.requests.length;
+    result.summary.variables = Object.keys(variables).length;
+    return result;
+  }
+
+  /**
+   * Parse one block: comments, annotations and variables, then the request
+   * line, headers, a blank line and the body
+   */
+  private static parseBlock(
+    title: string,
+    lines: string[],
+    fallbackName: string,
+    variables: Record<string, string>,
+    result: ImportResult
+  ): Request | null {
+    let name = title;
+    let method: string | undefined;
+    let url = '';
+    let state: 'preamble' | 'headers' | 'body' = 'preamble';
+    const headers: Record<string, string> = {};
+    const bodyLines: string[] = [];
+    const comments: string[] = [];
+    const label = () => name || fallbackName;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const trimmed = line.trim();
+
+      if (state === 'preamble') {
+        if (!trimmed) continue;
+
+        const declaration = trimmed.match(/^@([\w.-]+)\s*=\s*(.*)$/);
+        if (declaration) {
+          variables[declaration[1]] = declaration[2].trim();
+          continue;
+        }
+
+        const comment = trimmed.match(/^(?:#|\/\/)\s*(.*)$/);
+        if (comment) {
+          const annotation = comment[1].match(/^@([\w-]+)\s*=?\s*(.*)$/);
+          if (annotation?.[1] === 'name') {
+            // A `###` title is the more readable name when both are given
+            name = title || annotation[2].trim();
+          } else if (annotation?.[1] === 'prompt') {
+            const [variable] = annotation[2].trim().split(/\s+/);
+            if (variable && !(variable in variables)) variables[variable] = '';
+            result.summary.skipped.push(`${label()}: prompt for "${variable}" imported as an empty collection variable`);
+          } else if (annotation) {
+            result.summary.skipped.push(`${label()}: annotation @${annotation[1]}`);
+          } else {
+            comments.push(comment[1]);
+          }
+          continue;
+        }
+
+        const requestLine = trimmed.match(/^(?:([A-Za-z]+)\s+)?(\S.*?)(?:\s+HTTP\/[\d.]+)?$/);
+        method = requestLine?.[1] || 'GET';
+        url = requestLine?.[2] || trimmed;
+        state = 'headers';
+        continue;
+      }
+
+      if (state === 'headers') {
+        if (!trimmed) {
+          state = 'body';
+        } else if (/^[?&]/.test(trimmed) && Object.keys(headers).length === 0) {
+          // Query parameters may continue on the following lines
+          url += trimmed.replace(/\s+HTTP\/[\d.]+$/, '');
+        } else if (/^(#|\/\/)/.test(trimmed)) {
+          continue;
+        } else {
+          const separator = trimmed.indexOf(':');
+          if (separator > 0) {
+            headers[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1).trim();
+          } else {
+            result.summary.skipped.push(`${label()}: unreadable header line "${trimmed}"`);
+          }
+        }
+        continue;
+      }
+
+      // Response handlers and output redirects follow the body
+      if (/^>\s*\{%/.test(trimmed) || /^<\s*\{%/.test(trimmed)) {
+        while (i < lines.length && !lines[i].includes('%}')) i++;
+        result.summary.skipped.push(`${label()}: ${trimmed.startsWith('<') ? 'pre-request' : 'response handler'} script`);
+        continue;
+      }
+      if (/^(>>!?|<>|>)\s/.test(trimmed)) {
+        result.summary.skipped.push(`${label()}: "${trimmed}"`);
+        continue;
+      }
+      bodyLines.push(line);
+    }
+
+    if (!method) {
+      return null;
+    }
+
+    const upperMethod = method.toUpperCase();
+    if (!METHODS.includes(upperMethod as Request['method'])) {
+      result.summary.skipped.push(`${label()}: unsupported method ${method}`);
+      return null;
+    }
+
+    while (bodyLines.length > 0 && !bodyLines[bodyLines.length - 1].trim()) {
+      bodyLines.pop();
+    }
+    let body: string | undefined = bodyLines.join('\n') || undefined;
+    if (body && /^<@?\s/.test(body.trim())) {
+      result.summary.skipped.push(`${label()}: body read from file "${body.trim().replace(/^<@?\s*/, '')}"`);
+      body = undefined;
+    }
+
+    const [baseUrl, ...queryParts] = url.split('?');
+    const params: Record<string, string> = {};
+    queryParts.join('?').split('&').filter(pair => pair).forEach(pair => {
+      const [key, ...value] = pair.split('=');
+      params[decodeQueryComponent(key)] = decodeQueryComponent(value.join('='));
+    });
+
+    if (/\{\{\s*[\w-]+\.(request|response)\./.test(lines.join('\n'))) {
+      result.summary.skipped.push(`${label()}: references to other requests' responses are kept as text`);
+    }
+    const systemVariables = [...new Set(lines.join('\n').match(/\{\{\s*\$\w+/g) || [])];
+    if (systemVariables.length > 0) {
+      result.summary.skipped.push(`${label()}: system variables ${systemVariables.map(v => `${v.replace(/\s/g, '')}}}`).join(', ')} are kept as text`);
+    }
+
+    const { body: convertedBody, bodyType } = this.convertBody(body, headers, label(), result);
+    const path = baseUrl.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '').replace(/^\{\{\w+\}\}/, '') || '/';
+    return {
+      id: uuidv4(),
+      name: name || `${upperMethod} ${path}`,
+      description: comments.join('\n').trim() || undefined,
+      method: upperMethod as Request['method'],
+      url: baseUrl,
+      headers,
+      params,
+      body: convertedBody,
+      bodyType,
+      auth: this.readAuthorization(headers),
+      order: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  /**
+   * Form bodies are stored as fields; a multipart Content-Type is dropped
+   * because its boundary is regenerated when sending
+   */
+  private static convertBody(
+    body: string | undefined,
+    headers: Record<string, string>,
+    label: string,
+    result: ImportResult
+  ): { body?: string; bodyType: Request['bodyType'] } {
+    const contentTypeKey = Object.keys(headers).find(key => key.toLowerCase() === 'content-type');
+    const contentType = contentTypeKey ? headers[contentTypeKey] : '';
+    if (!body || !contentTypeKey) {
+      return { body, bodyType: 'raw' };
+    }
+
+    if (contentType.toLowerCase().startsWith('application/x-www-form-urlencoded')) {
+      const fields = Object.fromEntries(new URLSearchParams(body.split('\n').map(line => line.trim()).join('')));
+      return { body: JSON.stringify(fields, null, 2), bodyType: 'x-www-form-urlencoded' };
+    }
+
+    const boundary = contentType.match(/boundary=("?)([^";]+)\1/i)?.[2];
+    if (contentType.toLowerCase().startsWith('multipart/form-data') && boundary) {
+      const fields: Record<string, string> = {};
+      body.split(`--${boundary}`).slice(1).forEach(part => {
+        if (part.startsWith('--')) return;
+        const [head, ...content] = part.replace(/^\n/, '').split(/\n\n/);
+        const fieldName = head.match(/name="([^"]*)"/i)?.[1];
+        if (!fieldName) return;
+        if (/filename=/i.test(head)) {
+          result.summary.skipped.push(`${label}: file field "${fieldName}" in form-data body`);
+          return;
+        }
+        fields[fieldName] = content.join('\n\n').replace(/\n$/, '');
+      });
+      delete headers[contentTypeKey];
+      return { body: JSON.stringify(fields, null, 2), bodyType: 'form-data' };
+    }
+
+    return { body, bodyType: 'raw' };
+  }
+
+  /**
+   * Bearer and Basic Authorization headers become request auth. Both
+   * clients accept `Basic user password` and `Basic user:password`
+   * besides the base64 form.
+   */
+  private static readAuthorization(headers: Record<string, string>): Request['auth'] {
+    const key = Object.keys(headers).find(name => name.toLowerCase() === 'authorization');
+    const match = key ? headers[key].match(/^(Bearer|Basic)\s+(.+)$/i) : null;
+    if (!key || !match) {
+      return undefined;
+    }
+
+    const [, scheme, rawCredentials] = match;
+    const credentials = rawCredentials.trim();
+    let auth: Request['auth'];
+    if (scheme.toLowerCase() === 'bearer') {
+      auth = { type: 'bearer', token: credentials };
+    } else if (credentials.includes(':') || /\s/.test(credentials)) {
+      const separator = credentials.includes(':') ? ':' : ' ';
+      const [username, ...password] = credentials.split(separator === ':' ? ':' : /\s+/);
+      auth = { type: 'basic', username, password: password.join(separator) };
+    } else {
+      try {
+        const [username, ...password] = atob(credentials).split(':');
+        auth = { type: 'basic', username, password: password.join(':') };
+      } catch {
+        return undefined;
+      }
+    }
+
+    delete headers[key];
+    return auth;
+  }
+
+  /**
+   * Write a collection tree as a `.http` file. Folders have no equivalent,
+   * so their names prefix the request titles and their variables and auth
+   * are resolved into each request.
+   */
+  static generateHttpFile(rootId: string, collections: Collection[], requests: Request[]): string {
+    const root = collections.find(c => c.id === rootId);
+    if (!root) {
+      throw new Error('Collection not found');
+    }
+
+    const variables: Record<string, string> = { ...root.variables };
+    const blocks: string[] = [];
+    const usedNames = new Set<string>();
+
+    const writeChildren = (parent: Collection, path: string, inheritedAuth: Request['auth']) => {
+      RunEngine.getChildren(parent.id, collections, requests)
+        .forEach(({ folder, request }) => {
+          if (folder) {
+            // The file has a single variable scope; the first definition wins
+            Object.entries(folder.variables || {}).forEach(([key, value]) => {
+              if (!(key in variables)) variables[key] = value;
+            });
+            writeChildren(folder, `${path}${folder.name} / `, folder.auth ?? inheritedAuth);
+          } else if (request) {
+            blocks.push(this.writeRequest(request, `${path}${request.name}`, request.auth ?? inheritedAuth, usedNames));
+          }
+        });
+    };
+    writeChildren(root, '', root.auth);
+
+    const declarations = Object.entries(variables).map(([key, value]) => `@${key} = ${value}`);
+    const header = [root.description ? root.description.split('\n').map(line => `# ${line}`).join('\n') : '', declarations.join('\n')]
+      .filter(section => section)
+      .join('\n\n');
+    return `${[header, ...blocks].filter(section => section).join('\n\n')}\n`;
+  }
+
+  /**
+   * Load a collection from the database and write it as a `.http` file
+   */
+  static async exportCollection(collectionId: string): Promise<{ fileName: string; content: string }> {
+    const { db } = await import('../database');
+    const [collections, requests] = await Promise.all([db.collections.toArray(), db.requests.toArray()]);
+
+    const content = this.generateHttpFile(collectionId, collections, requests);
+    const baseName = collections.find(c => c.id === collectionId)!.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    return { fileName: `${baseName}.http`, content };
+  }
+
+  private static writeRequest(request: Request, title: string, auth: Request['auth'], usedNames: Set<string>): string {
+    const lines = [`### ${title}`];
+
+    // @name must be a single word; it lets other requests reference the response
+    const baseName = request.name
+      .split(/[^a-z0-9]+/i)
+      .filter(word => word)
+      .map((word, index) => {
+        if (index > 0) return `${word[0].toUpperCase()}${word.slice(1)}`;
+        return word === word.toUpperCase() ? word.toLowerCase() : `${word[0].toLowerCase()}${word.slice(1)}`;
+      })
+      .join('') || 'request';
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    usedNames.add(name);
+    lines.push(`# @name ${name}`);
+    request.description?.split('\n').forEach(line => lines.push(`# ${line}`));
+
+    const query = Object.entries(request.params).map(([key, value]) => `${encodeQueryComponent(key)}=${encodeQueryComponent(value)}`).join('&');
+    lines.push(`${request.method} ${query ? `${request.url}${request.url.includes('?') ? '&' : '?'}${query}` : request.url}`);
+
+    const headers: Record<string, string> = { ...request.headers };
+    switch (auth?.type) {
+      case 'bearer':
+        headers.Authorization = `Bearer ${auth.token || ''}`;
+        break;
+      case 'basic':
+        headers.Authorization = `Basic ${auth.username || ''} ${auth.password || ''}`;
+        break;
+      case 'api-key':
+        if (auth.key) headers[auth.key] = auth.value || '';
+        break;
+    }
+
+    const body = this.writeBody(request, headers);
+    Object.entries(headers).forEach(([key, value]) => lines.push(`${key}: ${value}`));
+    if (body) {
+      lines.push('', body);
+    }
+    return lines.join('\n');
+  }
+
+  private static writeBody(request: Request, headers: Record<string, string>): string | undefined {
+    if (!request.body || request.bodyType === 'raw') {
+      return request.body || undefined;
+    }
+
+    const fields = HttpService.formFields(request.body);
+
+    Object.keys(headers)
+      .filter(key => key.toLowerCase() === 'content-type')
+      .forEach(key => delete headers[key]);
+
+    if (request.bodyType === 'x-www-form-urlencoded') {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      return fields.map(([key, value]) => `${encodeQueryComponent(key)}=${encodeQueryComponent(value)}`).join('\n&');
+    }
+
+    headers['Content-Type'] = `multipart/form-data; boundary=${MULTIPART_BOUNDARY}`;
+    return [
+      ...fields.map(([key, value]) => `--${MULTIPART_BOUNDARY}\nContent-Disposition: form-data; name="${key}"\n\n${value}`),
+      `--${MULTIPART_BOUNDARY}--`
+    ].join('\n');
+  }
+}
@@ -1,14 +1,28 @@
 import type { RequestConfig, ResponseData } from '../types';
 
+export interface SendOptions {
+  proxyUrl?: string;
+}
+
 export class HttpService {
-  static async sendRequest(config: RequestConfig): Promise<ResponseData> {
+  /**
+   * Read proxy settings saved by the settings dialog. Returns no proxy
+   * outside the browser so the service can be shared with the CLI.
+   */
+  static getDefaultOptions(): SendOptions {
+    if (typeof localStorage === 'undefined') {
+      return {};
+    }
+
+    const enableProxy = localStorage.getItem('webpostman-enable-proxy') === 'true';
+    const proxyUrl = localStorage.getItem('webpostman-proxy-url');
+    return enableProxy && proxyUrl ? { proxyUrl } : {};
+  }
+
+  static async sendRequest(config: RequestConfig, options: SendOptions = this.getDefaultOptions()): Promise<ResponseData> {
     const startTime = Date.now();
     
     try {
-      // Check if proxy is enabled
-      const enableProxy = localStorage.getItem('webpostman-enable-proxy') === 'true';
-      const proxyUrl = localStorage.getItem('webpostman-proxy-url');
-      
       // Build URL with query parameters
       let url = new URL(config.url);
       Object.entries(config.params).forEach(([key, value]) => {
@@ -16,8 +30,8 @@ export class HttpService {
       });
       
       // Use proxy if enabled
-      if (enableProxy && proxyUrl) {
-        const proxy = new URL(proxyUrl);
+      if (options.proxyUrl) {
+        const proxy = new URL(options.proxyUrl);
         proxy.searchParams.set('url', url.toString());
         url = proxy;
       }
@@ -35,8 +49,7 @@ export class HttpService {
             break;
           case 'basic':
             if (config.auth.username && config.auth.password) {
-              const credentials = btoa(`${config.auth.username}:${config.auth.password}`);
-              headers.set('Authorization', `Basic ${credentials}`);
+              headers.set('Authorization', `Basic ${this.basicCredentials(config.auth.username, config.auth.password)}`);
             }
             break;
           case 'api-key':
@@ -54,45 +67,15 @@ export class HttpService {
       };
 
       // Add body for methods that support it
-      if (['POST', 'PUT', 'PATCH'].includes(config.method) && config.body) {
+      if (this.hasBody(config)) {
         if (config.bodyType === 'raw') {
           requestOptions.body = config.body;
         } else if (config.bodyType === 'x-www-form-urlencoded') {
-          const formData = new URLSearchParams();
-          try {
-            const parsed = JSON.parse(config.body);
-            Object.entries(parsed).forEach(([key, value]) => {
-              formData.append(key, String(value));
-            });
-          } catch {
-            // If not JSON, treat as form data
-            const lines = config.body.split('\n');
-            lines.forEach(line => {
-              const [key, value] = line.split('=');
-              if (key && value) {
-                formData.append(key.trim(), value.trim());
-              }
-            });
-          }
-          requestOptions.body = formData.toString();
+          requestOptions.body = new URLSearchParams(this.formFields(config.body!)).toString();
           headers.set('Content-Type', 'application/x-www-form-urlencoded');
         } else if (config.bodyType === 'form-data') {
           const formData = new FormData();
-          try {
-            const parsed = JSON.parse(config.body);
-            Object.entries(parsed).forEach(([key, value]) => {
-              formData.append(key, String(value));
-            });
-          } catch {
-            // If not JSON, treat as form data
-            const lines = config.body.split('\n');
-            lines.forEach(line => {
-              const [key, value] = line.split('=');
-              if (key && value) {
-                formData.append(key.trim(), value.trim());
-              }
-            });
-          }
+          this.formFields(config.body!).forEach(([key, value]) => formData.append(key, value));
           requestOptions.body = formData;
         }
       }
@@ -103,7 +86,7 @@ export class HttpService {
       
       // Get response body
       const body = await response.text();
-      const responseSize = new Blob([body]).size;
+      const responseSize = new TextEncoder().encode(body).length;
       
       // Convert headers to object
       const responseHeaders: Record<string, string> = {};
@@ -133,8 +116,90 @@ export class HttpService {
     }
   }
 
+  /**
+   * Only POST, PUT and PATCH send a body
+   */
+  static hasBody(config: Pick<RequestConfig, 'method' | 'body'>): boolean {
+    return !!config.body && ['POST', 'PUT', 'PATCH'].includes(config.method);
+  }
+
+  /**
+   * Form bodies are stored as a JSON object or as key=value lines. A line's
+   * value runs to its end, so values may contain `=`.
+   */
+  static formFields(body: string): [string, string][] {
+    const object = this.formObject(body);
+    if (object) {
+      return Object.entries(object);
+    }
+    return body.split('\n').flatMap((line): [string, string][] => {
+      const separator = line.indexOf('=');
+      return separator > 0 ? [[line.slice(0, separator).trim(), line.slice(separator + 1).trim()]] : [];
+    });
+  }
+
+  /**
+   * The fields of a form body stored as a JSON object, or null for key=value lines
+   */
+  static formObject(body: string): Record<string, string> | null {
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return Object.fromEntries(Object.entries(parsed).map(([key, value]) => [
+          key,
+          value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value)
+        ]));
+      }
+    } catch {
+      // Not JSON, so key=value lines
+    }
+    return null;
+  }
+
+  /**
+   * Base64 of `username:password` as UTF-8; btoa alone throws outside Latin-1
+   */
+  static basicCredentials(username: string, password: string): string {
+    const bytes = new TextEncoder().encode(`${username}:${password}`);
+    return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+  }
+
+  /**
+   * Fill in {{variables}} everywhere a request can hold them, auth included,
+   * since imports and secret redaction leave credentials as placeholders
+   */
+  static interpolateRequest(config: RequestConfig, variables: Record<string, string>): RequestConfig {
+    const interpolateRecord = (record: Record<string, string>) => {
+      const result: Record<string, string> = {};
+      Object.entries(record).forEach(([key, value]) => {
+        result[key] = this.interpolateVariables(value, variables);
+      });
+      return result;
+    };
+    const interpolateOptional = (text?: string) => (text ? this.interpolateVariables(text, variables) : text);
+
+    return {
+      ...config,
+      url: this.interpolateVariables(config.url, variables),
+      headers: interpolateRecord(config.headers),
+      params: interpolateRecord(config.params),
+      body: config.body ? this.interpolateVariables(config.body, variables) : undefined,
+      auth: config.auth && {
+        ...config.auth,
+        token: interpolateOptional(config.auth.token),
+        username: interpolateOptional(config.auth.username),
+        password: interpolateOptional(config.auth.password),
+        key: interpolateOptional(config.auth.key),
+        value: interpolateOptional(config.auth.value)
+      }
+    };
+  }
+
+  /**
+   * Names may hold any characters but braces, as imported path parameters such as {{user-id}} do
+   */
   static interpolateVariables(text: string, variables: Record<string, string>): string {
-    return text.replace(/\{\{(\w+)\}\}/g, (match, variableName) => {
+    return text.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (match, variableName) => {
       return variables[variableName] || match;
     });
   }
@@ -0,0 +1,39 @@
+import { dump as dumpYaml } from 'js-yaml';
+import { describe, expect, it } from 'vitest';
+import { effectiveRequests, sampleWorkspace } from '../test/workspace';
+import { InsomniaService } from './insomniaService';
+
+// Insomnia keeps auth and scripts on requests and folders only, so the workspace's own settings move down
+describe('Insomnia round trip', () => {
+  it('imports an exported workspace as requests that send the same', async () => {
+    const { collections, requests, environments } = sampleWorkspace();
+
+    const exported = InsomniaService.exportToInsomnia('shop', collections, requests, environments);
+    const imported = await InsomniaService.importExport(InsomniaService.parse(JSON.stringify(exported)));
+
+    expect(effectiveRequests(imported.collections, imported.requests)).toEqual(effectiveRequests(collections, requests));
+    expect(imported.collections[0].variables).toEqual(collections[0].variables);
+    expect(imported.environments.map(({ name, variables }) => ({ name, variables }))).toEqual([
+      { name: 'Shop - Staging', variables: environments[0].variables }
+    ]);
+  });
+
+  it('reads YAML exports', async () => {
+    const { collections, requests } = sampleWorkspace();
+
+    const exported = InsomniaService.exportToInsomnia('shop', collections, requests);
+    const imported = await InsomniaService.importExport(InsomniaService.parse(dumpYaml(exported)));
+
+    expect(effectiveRequests(imported.collections, imported.requests)).toEqual(effectiveRequests(collections, requests));
+  });
+
+  it('quotes variable names that are not identifiers', () => {
+    const { collections, requests } = sampleWorkspace();
+
+    const exported = InsomniaService.exportToInsomnia('shop', collections, requests);
+    const listUsers = exported.resources.find((resource: any) => resource.name === 'List users');
+
+    expect(listUsers.url).toBe('{{ _.baseUrl }}/users');
+    expect(listUsers.headers).toContainEqual({ name: 'X-Trace', value: "{{ _['trace-id'] }}" });
+  });
+});
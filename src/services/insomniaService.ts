@@ -0,0 +1,693 @@
+import { dump as dumpYaml, load as loadYaml } from 'js-yaml';
+import type { Collection, Environment, Request } from '../database';
+import type { ImportResult } from '../types';
+import { HttpService } from './httpService';
+import { RunEngine } from './runEngine';
+import { v4 as uuidv4 } from 'uuid';
+
+const METHODS: Request['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Resource types that carry nothing we can use and are dropped without a note
+const IGNORED_RESOURCE_TYPES = ['api_spec', 'proto_file', 'proto_directory', 'mock_server', 'mock_route'];
+
+export type InsomniaFormat = 'json' | 'yaml';
+
+/**
+ * State shared while importing one workspace; prompt tags collect their defaults here
+ */
+interface ImportContext {
+  result: ImportResult;
+  prompts: Record<string, string>;
+}
+
+const decodeQueryComponent = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Reads and writes Insomnia v4 exports (JSON or YAML)
+ */
+export class InsomniaService {
+  /**
+   * Parse an Insomnia export from JSON or YAML text
+   */
+  static parse(text: string): any {
+    const trimmed = text.trim();
+    const data: any = trimmed.startsWith('{') ? JSON.parse(trimmed) : loadYaml(trimmed);
+    if (!data || typeof data !== 'object' || data._type !== 'export' || !Array.isArray(data.resources)) {
+      throw new Error('Not an Insomnia export');
+    }
+    if (Number(data.__export_format) !== 4) {
+      throw new Error(`Only Insomnia v4 exports are supported (found format ${data.__export_format})`);
+    }
+    return data;
+  }
+
+  /**
+   * Import every workspace of an export as a collection. Request groups
+   * become folders, the base environment becomes collection variables and
+   * each sub-environment becomes an environment. Template tags we cannot
+   * evaluate are kept as text and listed in the summary.
+   */
+  static async importExport(data: any): Promise<ImportResult> {
+    const result: ImportResult = {
+      collections: [],
+      requests: [],
+      responses: [],
+      environments: [],
+      summary: { collections: 0, requests: 0, examples: 0, variables: 0, skipped: [] }
+    };
+
+    const resources: any[] = data.resources.filter((resource: any) => resource && resource._id);
+    const childrenOf = (parentId: string) => resources
+      .map((resource, index) => ({ resource, index }))
+      .filter(({ resource }) => resource.parentId === parentId)
+      // Insomnia orders siblings by metaSortKey; the file order breaks ties
+      .sort((a, b) => (Number(a.resource.metaSortKey) || 0) - (Number(b.resource.metaSortKey) || 0) || a.index - b.index)
+      .map(({ resource }) => resource);
+
+    const workspaces = resources.filter(resource => resource._type === 'workspace');
+    if (workspaces.length === 0) {
+      throw new Error('The export contains no workspace');
+    }
+
+    workspaces.forEach(workspace => {
+      const workspaceName = workspace.name || 'Insomnia Workspace';
+      const prompts: Record<string, string> = {};
+      const context: ImportContext = { result, prompts };
+
+      const root: Collection = {
+        id: uuidv4(),
+        name: workspaceName,
+        description: workspace.description || undefined,
+        order: 0,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      result.collections.push(root);
+
+      const baseEnvironments = childrenOf(workspace._id).filter(resource => resource._type === 'environment');
+      const rootVariables: Record<string, string> = {};
+      baseEnvironments.forEach(base => {
+        Object.assign(rootVariables, this.flattenData(base.data, `${workspaceName} / ${base.name}`, context));
+
+        childrenOf(base._id)
+          .filter(resource => resource._type === 'environment')
+          .forEach(subEnvironment => {
+            const variables = this.flattenData(subEnvironment.data, `${workspaceName} / ${subEnvironment.name}`, context);
+            result.environments.push({
+              id: uuidv4(),
+              name: `${workspaceName} - ${subEnvironment.name || 'Environment'}`,
+              variables,
+              isActive: false,
+              createdAt: new Date(),
+              updatedAt: new Date()
+            });
+            result.summary.variables += Object.keys(variables).length;
+          });
+      });
+
+      this.importChildren(workspace._id, root.id, `${workspaceName} / `, childrenOf, context);
+
+      // Prompt tags become collection variables holding their default value
+      Object.entries(prompts).forEach(([key, value]) => {
+        if (!(key in rootVariables)) rootVariables[key] = value;
+      });
+      if (Object.keys(rootVariables).length > 0) {
+        root.variables = rootVariables;
+        result.summary.variables += Object.keys(rootVariables).length;
+      }
+    });
+
+    resources
+      .filter(resource => resource._type === 'cookie_jar' && Array.isArray(resource.cookies) && resource.cookies.length > 0)
+      .forEach(jar => {
+        const count = jar.cookies.length;
+        result.summary.skipped.push(`${jar.name || 'Cookie jar'}: ${count} cookie${count === 1 ? '' : 's'}`);
+      });
+    const unsupported = new Map<string, number>();
+    resources
+      .filter(resource => !['workspace', 'environment', 'request_group', 'request', 'cookie_jar', ...IGNORED_RESOURCE_TYPES].includes(resource._type))
+      .forEach(resource => unsupported.set(resource._type, (unsupported.get(resource._type) ?? 0) + 1));
+    unsupported.forEach((count, type) => {
+      result.summary.skipped.push(`${count} ${type.replace(/_/g, ' ')} resource${count === 1 ? '' : 's'}: not supported`);
+    });
+
+    result.summary.collections = result.collections.length;
+    result.summary.requests = result.requests.length;
+    return result;
+  }
+
+  /**
+   * Convert the request groups and requests below one parent, recursing into groups
+   */
+  private static importChildren(
+    parentId: string,
+    collectionId: string,
+    path: string,
+    childrenOf: (parentId: string) => any[],
+    context: ImportContext
+  ): void {
+    const { result } = context;
+    let order = 0;
+
+    childrenOf(parentId).forEach(resource => {
+      if (resource._type === 'request_group') {
+        const folderName = `${path}${resource.name || 'Folder'}`;
+        const variables = this.flattenData(resource.environment, folderName, context);
+        const folder: Collection = {
+          id: uuidv4(),
+          name: resource.name || 'Folder',
+          description: resource.description || undefined,
+          parentId: collectionId,
+          variables: Object.keys(variables).length > 0 ? variables : undefined,
+          order: order++,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        const { auth, params, headers } = this.convertAuth(resource.authentication, folderName, context);
+        if (Object.keys(params).length > 0 || Object.keys(headers).length > 0) {
+          result.summary.skipped.push(`${folderName}: API key outside a header cannot be set on a folder`);
+        } else {
+          folder.auth = auth;
+        }
+        Object.assign(folder, this.readScripts(resource));
+        result.collections.push(folder);
+        result.summary.variables += Object.keys(variables).length;
+
+        this.importChildren(resource._id, folder.id, `${folderName} / `, childrenOf, context);
+      } else if (resource._type === 'request') {
+        result.requests.push(this.convertRequest(resource, collectionId, order++, `${path}${resource.name || 'Request'}`, context));
+      }
+    });
+  }
+
+  private static convertRequest(
+    resource: any,
+    collectionId: string,
+    order: number,
+    itemName: string,
+    context: ImportContext
+  ): Request {
+    const { result } = context;
+    const convert = (text: unknown) => this.convertTemplate(String(text ?? ''), itemName, context);
+
+    let method = String(resource.method || 'GET').toUpperCase() as Request['method'];
+    if (!METHODS.includes(method)) {
+      result.summary.skipped.push(`${itemName}: unsupported method ${method}, imported as GET`);
+      method = 'GET';
+    }
+
+    // Query strings may be typed into the URL as well as listed as parameters
+    const [url, ...queryParts] = convert(resource.url).split('?');
+    const params: Record<string, string> = {};
+    const disabledParams: Record<string, string> = {};
+    queryParts.join('?').split('&').filter(pair => pair).forEach(pair => {
+      const [key, ...value] = pair.split('=');
+      params[decodeQueryComponent(key)] = decodeQueryComponent(value.join('='));
+    });
+    (resource.parameters || []).forEach((parameter: any) => {
+      if (!parameter?.name) return;
+      (parameter.disabled ? disabledParams : params)[convert(parameter.name)] = convert(parameter.value);
+    });
+
+    const headers: Record<string, string> = {};
+    const disabledHeaders: Record<string, string> = {};
+    (resource.headers || []).forEach((header: any) => {
+      if (!header?.name) return;
+      (header.disabled ? disabledHeaders : headers)[convert(header.name)] = convert(header.value);
+    });
+
+    const { body, bodyType } = this.convertBody(resource.body, headers, itemName, context);
+    const { auth, params: authParams, headers: authHeaders } = this.convertAuth(resource.authentication, itemName, context);
+    Object.assign(params, authParams);
+    Object.assign(headers, authHeaders);
+
+    return {
+      id: uuidv4(),
+      name: resource.name || 'Request',
+      description: resource.description || undefined,
+      method,
+      url,
+      headers,
+      params,
+      disabledHeaders: Object.keys(disabledHeaders).length > 0 ? disabledHeaders : undefined,
+      disabledParams: Object.keys(disabledParams).length > 0 ? disabledParams : undefined,
+      body,
+      bodyType,
+      auth,
+      ...this.readScripts(resource),
+      collectionId,
+      order,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  private static convertBody(
+    insomniaBody: any,
+    headers: Record<string, string>,
+    itemName: string,
+    context: ImportContext
+  ): { body?: string; bodyType: Request['bodyType'] } {
+    const { result } = context;
+    const mimeType = String(insomniaBody?.mimeType || '');
+    const convert = (text: unknown) => this.convertTemplate(String(text ?? ''), itemName, context);
+    const hasContentType = Object.keys(headers).some(key => key.toLowerCase() === 'content-type');
+
+    if (mimeType === 'multipart/form-data' || mimeType === 'application/x-www-form-urlencoded') {
+      const kind = mimeType === 'multipart/form-data' ? 'form-data' : 'urlencoded';
+      const fields: Record<string, string> = {};
+      (insomniaBody.params || []).forEach((param: any) => {
+        if (!param?.name) return;
+        if (param.disabled) {
+          result.summary.skipped.push(`${itemName}: disabled ${kind} field "${param.name}"`);
+        } else if (param.type === 'file') {
+          result.summary.skipped.push(`${itemName}: file field "${param.name}" in ${kind} body`);
+        } else {
+          fields[convert(param.name)] = convert(param.value);
+        }
+      });
+      // The boundary Insomnia stored no longer matches once we rebuild the body
+      Object.keys(headers)
+        .filter(key => key.toLowerCase() === 'content-type' && kind === 'form-data')
+        .forEach(key => delete headers[key]);
+      return {
+        body: JSON.stringify(fields, null, 2),
+        bodyType: kind === 'form-data' ? 'form-data' : 'x-www-form-urlencoded'
+      };
+    }
+
+    if (insomniaBody?.fileName !== undefined) {
+      result.summary.skipped.push(`${itemName}: binary file body`);
+      return { bodyType: 'raw' };
+    }
+
+    if (mimeType === 'application/graphql') {
+      result.summary.skipped.push(`${itemName}: GraphQL body imported as raw JSON`);
+      if (!hasContentType) headers['Content-Type'] = 'application/json';
+    } else if (mimeType && !hasContentType) {
+      headers['Content-Type'] = mimeType;
+    }
+
+    return { body: insomniaBody?.text ? convert(insomniaBody.text) : undefined, bodyType: 'raw' };
+  }
+
+  /**
+   * An empty authentication object means the request inherits from its folder
+   */
+  private static convertAuth(
+    authentication: any,
+    itemName: string,
+    context: ImportContext
+  ): { auth: Request['auth']; params: Record<string, string>; headers: Record<string, string> } {
+    const { result } = context;
+    const convert = (text: unknown) => this.convertTemplate(String(text ?? ''), itemName, context);
+    const none = { auth: undefined, params: {}, headers: {} };
+
+    if (!authentication || !authentication.type) {
+      return none;
+    }
+    if (authentication.disabled || authentication.type === 'none') {
+      return { ...none, auth: { type: 'none' } };
+    }
+
+    switch (authentication.type) {
+      case 'bearer':
+        if (authentication.prefix && authentication.prefix.toLowerCase() !== 'bearer') {
+          result.summary.skipped.push(`${itemName}: bearer prefix "${authentication.prefix}" replaced by "Bearer"`);
+        }
+        return { ...none, auth: { type: 'bearer', token: convert(authentication.token) } };
+      case 'basic':
+        return {
+          ...none,
+          auth: { type: 'basic', username: convert(authentication.username), password: convert(authentication.password) }
+        };
+      case 'apikey': {
+        const key = convert(authentication.key);
+        const value = convert(authentication.value);
+        // Keys sent outside a header cannot be expressed as api-key auth, so they move to the request itself
+        if (authentication.addTo === 'queryParams') {
+          return { auth: { type: 'none' }, params: { [key]: value }, headers: {} };
+        }
+        if (authentication.addTo === 'cookie') {
+          return { auth: { type: 'none' }, params: {}, headers: { Cookie: `${key}=${value}` } };
+        }
+        return { ...none, auth: { type: 'api-key', key, value } };
+      }
+      case 'oauth2':
+        result.summary.skipped.push(`${itemName}: OAuth 2.0 imported as bearer token {{accessToken}}`);
+        return { ...none, auth: { type: 'bearer', token: '{{accessToken}}' } };
+      default:
+        result.summary.skipped.push(`${itemName}: unsupported auth type "${authentication.type}"`);
+        return none;
+    }
+  }
+
+  /**
+   * Insomnia scripts use an `insomnia` object with the same shape as `pm`
+   */
+  private static readScripts(resource: any): { preRequestScript?: string; testScript?: string } {
+    const convert = (script: unknown) =>
+      typeof script === 'string' && script.trim() ? script.replace(/\binsomnia\./g, 'pm.') : undefined;
+    return {
+      preRequestScript: convert(resource.preRequestScript),
+      testScript: convert(resource.afterResponseScript)
+    };
+  }
+
+  /**
+   * Flatten environment data into variables. Nested objects are joined with
+   * underscores, the way {{ _.a.b }} templates are rewritten; other names,
+   * such as trace-id, are kept as they are.
+   */
+  private static flattenData(
+    data: any,
+    itemName: string,
+    context: ImportContext,
+    prefix = ''
+  ): Record<string, string> {
+    const variables: Record<string, string> = {};
+    if (!data || typeof data !== 'object') {
+      return variables;
+    }
+
+    Object.entries(data).forEach(([key, value]) => {
+      const name = `${prefix}${key}`;
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        Object.assign(variables, this.flattenData(value, itemName, context, `${name}_`));
+      } else {
+        const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+        variables[name] = this.convertTemplate(text, itemName, context);
+      }
+    });
+    return variables;
+  }
+
+  /**
+   * Rewrite Nunjucks variables (`{{ _.a.b }}`) to `{{a_b}}` and evaluate the
+   * template tags that have a static result
+   */
+  private static convertTemplate(
+    text: string,
+    itemName: string,
+    context: ImportContext
+  ): string {
+    if (!text.includes('{{') && !text.includes('{%')) {
+      return text;
+    }
+
+    const converted = text
+      .replace(/\{\{\s*(?:_\.)?([\w.]+)\s*\}\}/g, (_, path: string) => `{{${path.replace(/\./g, '_')}}}`)
+      // Names that are not identifiers are quoted: {{ _['trace-id'] }}
+      .replace(/\{\{\s*_\[\s*'((?:[^'\\]|\\.)*)'\s*\]\s*\}\}/g, (_, name: string) => `{{${name.replace(/\\(.)/g, '$1')}}}`);
+    return converted.replace(/\{%\s*(\w+)\s*(.*?)\s*%\}/gs, (tag: string, name: string, rawArgs: string) => {
+      const args = [...rawArgs.matchAll(/'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(-?[\d.]+|true|false)/g)]
+        .map(match => match[1] ?? match[2] ?? match[3]);
+
+      if (name === 'prompt') {
+        const variable = (args[1] || args[0] || 'prompt').replace(/\W+/g, '_').replace(/^_|_$/g, '') || 'prompt';
+        context.prompts[variable] = args[2] ?? '';
+        context.result.summary.skipped.push(`${itemName}: prompt "${args[0] || variable}" replaced by {{${variable}}}`);
+        return `{{${variable}}}`;
+      }
+      if (name === 'base64' && args.length >= 3 && !args[2].includes('{{')) {
+        const [action, kind, value] = args;
+        const alphabet = (encoded: string) => (kind === 'url' ? encoded.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '') : encoded);
+        try {
+          if (action === 'encode') {
+            return alphabet(btoa(String.fromCharCode(...new TextEncoder().encode(value))));
+          }
+          const standard = value.replace(/-/g, '+').replace(/_/g, '/');
+          return new TextDecoder().decode(Uint8Array.from(atob(standard), char => char.charCodeAt(0)));
+        } catch {
+          // Invalid input: keep the tag
+        }
+      }
+
+      context.result.summary.skipped.push(`${itemName}: template tag "${name}" kept as text`);
+      return tag;
+    });
+  }
+
+  /**
+   * Export a collection tree as an Insomnia v4 workspace. Collection
+   * variables become the base environment and the given environments its
+   * sub-environments.
+   */
+  static exportToInsomnia(
+    rootId: string,
+    collections: Collection[],
+    requests: Request[],
+    environments: Environment[] = []
+  ): any {
+    const root = collections.find(c => c.id === rootId);
+    if (!root) {
+      throw new Error('Collection not found');
+    }
+
+    const now = Date.now();
+    const workspaceId = this.resourceId('wrk', root.id);
+    const baseEnvironmentId = this.resourceId('env', root.id);
+    const resources: any[] = [
+      {
+        _id: workspaceId,
+        _type: 'workspace',
+        parentId: null,
+        modified: now,
+        created: now,
+        name: root.name,
+        description: root.description || '',
+        scope: 'collection'
+      },
+      {
+        _id: baseEnvironmentId,
+        _type: 'environment',
+        parentId: workspaceId,
+        modified: now,
+        created: now,
+        name: 'Base Environment',
+        data: this.exportVariables(root.variables),
+        dataPropertyOrder: null,
+        color: null,
+        isPrivate: false,
+        metaSortKey: 0
+      },
+      ...environments.map((environment, index) => ({
+        _id: this.resourceId('env', environment.id),
+        _type: 'environment',
+        parentId: baseEnvironmentId,
+        modified: now,
+        created: now,
+        // Imported sub-environments carry the workspace name, which Insomnia shows anyway
+        name: environment.name.startsWith(`${root.name} - `) ? environment.name.slice(root.name.length + 3) : environment.name,
+        data: this.exportVariables(environment.variables),
+        dataPropertyOrder: null,
+        color: null,
+        isPrivate: false,
+        metaSortKey: index
+      }))
+    ];
+
+    this.exportChildren(root, workspaceId, collections, requests, resources, now);
+
+    return {
+      _type: 'export',
+      __export_format: 4,
+      __export_date: new Date(now).toISOString(),
+      __export_source: 'webpostman',
+      resources
+    };
+  }
+
+  /**
+   * Load a collection and the chosen environments from the database and export them
+   */
+  static async exportCollection(
+    collectionId: string,
+    format: InsomniaFormat,
+    environmentIds: string[] = []
+  ): Promise<{ fileName: string; content: string }> {
+    const { db } = await import('../database');
+    const [collections, requests, environments] = await Promise.all([
+      db.collections.toArray(),
+      db.requests.toArray(),
+      db.environments.bulkGet(environmentIds)
+    ]);
+
+    const data = this.exportToInsomnia(
+      collectionId,
+      collections,
+      requests,
+      environments.filter((environment): environment is Environment => !!environment)
+    );
+    const baseName = collections.find(c => c.id === collectionId)!.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    return {
+      fileName: `${baseName}.insomnia.${format}`,
+      content: format === 'yaml' ? dumpYaml(data, { noRefs: true, lineWidth: -1 }) : JSON.stringify(data, null, 2)
+    };
+  }
+
+  /**
+   * Workspaces have no auth or scripts, so the root collection's settings
+   * are pushed down onto its direct children
+   */
+  private static exportChildren(
+    parent: Collection,
+    parentResourceId: string,
+    collections: Collection[],
+    requests: Request[],
+    resources: any[],
+    now: number
+  ): void {
+    const isRoot = !parent.parentId;
+    const inherited = (child: { auth?: Request['auth']; preRequestScript?: string; testScript?: string }) => ({
+      auth: isRoot ? child.auth ?? parent.auth : child.auth,
+      preRequestScript: isRoot ? this.joinScripts(parent.preRequestScript, child.preRequestScript) : child.preRequestScript,
+      testScript: isRoot ? this.joinScripts(parent.testScript, child.testScript) : child.testScript
+    });
+
+    RunEngine.getChildren(parent.id, collections, requests)
+      .forEach(({ folder, request }, index) => {
+        if (folder) {
+          const settings = inherited(folder);
+          const groupId = this.resourceId('fld', folder.id);
+          resources.push({
+            _id: groupId,
+            _type: 'request_group',
+            parentId: parentResourceId,
+            modified: now,
+            created: now,
+            name: folder.name,
+            description: folder.description || '',
+            environment: this.exportVariables(folder.variables),
+            environmentPropertyOrder: null,
+            metaSortKey: index,
+            authentication: this.convertAuthToInsomnia(settings.auth),
+            ...this.exportScripts(settings)
+          });
+          this.exportChildren(folder, groupId, collections, requests, resources, now);
+        } else if (request) {
+          resources.push(this.convertRequestToInsomnia({ ...request, ...inherited(request) }, parentResourceId, index, now));
+        }
+      });
+  }
+
+  private static convertRequestToInsomnia(request: Request, parentId: string, metaSortKey: number, now: number): any {
+    const convert = (text: string | undefined) => this.exportTemplate(text || '');
+    const toPairs = (enabled: Record<string, string>, disabled: Record<string, string> = {}) => [
+      ...Object.entries(enabled).map(([name, value]) => ({ name: convert(name), value: convert(value) })),
+      ...Object.entries(disabled).map(([name, value]) => ({ name: convert(name), value: convert(value), disabled: true }))
+    ];
+
+    return {
+      _id: this.resourceId('req', request.id),
+      _type: 'request',
+      parentId,
+      modified: now,
+      created: now,
+      name: request.name,
+      description: request.description || '',
+      method: request.method,
+      url: convert(request.url),
+      body: this.convertBodyToInsomnia(request),
+      parameters: toPairs(request.params, request.disabledParams),
+      headers: toPairs(request.headers, request.disabledHeaders),
+      authentication: this.convertAuthToInsomnia(request.auth),
+      metaSortKey,
+      isPrivate: false,
+      settingStoreCookies: true,
+      settingSendCookies: true,
+      settingDisableRenderRequestBody: false,
+      settingEncodeUrl: true,
+      settingRebuildPath: true,
+      settingFollowRedirects: 'global',
+      ...this.exportScripts(request)
+    };
+  }
+
+  private static convertBodyToInsomnia(request: Request): any {
+    if (!request.body) {
+      return {};
+    }
+
+    if (request.bodyType !== 'raw') {
+      return {
+        mimeType: request.bodyType === 'form-data' ? 'multipart/form-data' : 'application/x-www-form-urlencoded',
+        params: HttpService.formFields(request.body).map(([name, value]) => ({
+          name: this.exportTemplate(name),
+          value: this.exportTemplate(value)
+        }))
+      };
+    }
+
+    const contentType = Object.entries(request.headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1];
+    let mimeType = contentType?.split(';')[0].trim();
+    if (!mimeType) {
+      try {
+        JSON.parse(request.body);
+        mimeType = 'application/json';
+      } catch {
+        mimeType = 'text/plain';
+      }
+    }
+    return { mimeType, text: this.exportTemplate(request.body) };
+  }
+
+  /**
+   * An undefined auth is written as `{}`, which Insomnia inherits from the folder
+   */
+  private static convertAuthToInsomnia(auth: Request['auth']): any {
+    switch (auth?.type) {
+      case 'none':
+        return { type: 'none' };
+      case 'bearer':
+        return { type: 'bearer', token: this.exportTemplate(auth.token || ''), prefix: '' };
+      case 'basic':
+        return { type: 'basic', username: this.exportTemplate(auth.username || ''), password: this.exportTemplate(auth.password || '') };
+      case 'api-key':
+        return { type: 'apikey', key: this.exportTemplate(auth.key || ''), value: this.exportTemplate(auth.value || ''), addTo: 'header' };
+      default:
+        return {};
+    }
+  }
+
+  private static exportScripts(source: { preRequestScript?: string; testScript?: string }): Record<string, string> {
+    const scripts: Record<string, string> = {};
+    if (source.preRequestScript) {
+      scripts.preRequestScript = source.preRequestScript.replace(/\bpm\./g, 'insomnia.');
+    }
+    if (source.testScript) {
+      scripts.afterResponseScript = source.testScript.replace(/\bpm\./g, 'insomnia.');
+    }
+    return scripts;
+  }
+
+  private static exportVariables(variables: Record<string, string> = {}): Record<string, string> {
+    return Object.fromEntries(Object.entries(variables).map(([key, value]) => [key, this.exportTemplate(value)]));
+  }
+
+  /**
+   * Our `{{name}}` placeholders become Insomnia's `{{ _.name }}`, or
+   * `{{ _['trace-id'] }}` when the name is not an identifier
+   */
+  private static exportTemplate(text: string): string {
+    return text.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (_, name: string) =>
+      (/^[A-Za-z_$][\w$]*$/.test(name) ? `{{ _.${name} }}` : `{{ _['${name.replace(/[\\']/g, '\\$&')}'] }}`));
+  }
+
+  private static joinScripts(parent?: string, child?: string): string | undefined {
+    return [parent, child].filter(script => script && script.trim()).join('\n\n') || undefined;
+  }
+
+  /**
+   * Ids are derived from ours so repeated exports of the same data match
+   */
+  private static resourceId(prefix: string, id: string): string {
+    return `${prefix}_${id.replace(/-/g, '')}`;
+  }
+}
@@ -0,0 +1,175 @@
+import { load as loadYaml } from 'js-yaml';
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import type { Response } from '../database';
+import { collection, request, sampleWorkspace } from '../test/workspace';
+import { LoadTestExportService } from './loadTestExportService';
+
+const response = (requestId: string, status: number, timestamp: string): Response => ({
+  id: `${requestId}-${timestamp}`,
+  requestId,
+  status,
+  statusText: '',
+  headers: {},
+  body: '',
+  responseTime: 1,
+  responseSize: 0,
+  timestamp: new Date(timestamp)
+});
+
+const RESPONSES = [
+  response('list-users', 500, '2024-01-01T00:00:00Z'),
+  response('list-users', 200, '2024-03-01T00:00:00Z'),
+  response('create-user', 201, '2024-01-01T00:00:00Z')
+];
+
+const SECRETS = { adminKey: 'k3y', basicPassword: 'basic', password: 'form', token: 't0ken', userId: '7' };
+
+interface K6Request {
+  group: string;
+  method: string;
+  url: string;
+  body: unknown;
+  headers: Record<string, string>;
+  checks: Record<string, boolean>;
+}
+
+/**
+ * Run one iteration of a k6 script with stand-ins for the k6 modules, answering every request with `status`
+ */
+const runK6 = (code: string, env: Record<string, string>, status = 200) => {
+  const sent: K6Request[] = [];
+  const groups: string[] = [];
+  const modules: Record<string, unknown> = {
+    'k6/http': {
+      default: {
+        request: (method: string, url: string, body: unknown, params: { headers: Record<string, string> }) => {
+          sent.push({ group: groups.join(' / '), method, url, body, headers: params.headers, checks: {} });
+          return { status };
+        }
+      }
+    },
+    'k6/encoding': { default: { b64encode: (text: string) => Buffer.from(text).toString('base64') } },
+    k6: {
+      group: (name: string, body: () => void) => {
+        groups.push(name);
+        body();
+        groups.pop();
+      },
+      check: (res: unknown, checks: Record<string, (res: unknown) => boolean>) => {
+        sent[sent.length - 1].checks = Object.fromEntries(Object.entries(checks).map(([name, test]) => [name, test(res)]));
+      },
+      sleep: () => {}
+    }
+  };
+
+  const { outputText } = ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } });
+  const exports: Record<string, any> = {};
+  new Function('exports', 'require', '__ENV', outputText)(exports, (name: string) => modules[name], env);
+  exports.default();
+  return { sent, options: exports.options };
+};
+
+describe('LoadTestExportService.generateK6', () => {
+  const { collections, requests, environments } = sampleWorkspace();
+
+  it('sends every request in runner order with its variables filled in', () => {
+    const { sent, options } = runK6(LoadTestExportService.generateK6('shop', collections, requests, RESPONSES), SECRETS);
+
+    expect(options).toEqual({ stages: [{ duration: '30s', target: 10 }, { duration: '60s', target: 10 }, { duration: '30s', target: 0 }] });
+    expect(sent.map(({ group, method, url }) => `${group}: ${method} ${url}`)).toEqual([
+      'Shop / Health: GET https://shop.example.com/health',
+      'Shop / Users / List users: GET https://shop.example.com/users?page=2&q=a%20b%26c',
+      'Shop / Users / Admin / Create user: POST https://shop.example.com/users',
+      'Shop / Users / Admin / Log in: POST https://shop.example.com/login',
+      'Shop / Users / Upload avatar: PUT https://shop.example.com/users/7/avatar'
+    ]);
+    expect(sent[1].headers).toEqual({ Accept: 'application/json', 'X-Trace': 'abc', Authorization: 'Bearer t0ken' });
+    expect(sent[2]).toMatchObject({ body: '{\n  "name": "Ann"\n}', headers: { 'X-Api-Key': 'k3y' } });
+    expect(sent[3]).toMatchObject({
+      body: { user: 'ann', password: 'form' },
+      headers: { Authorization: `Basic ${Buffer.from('ann:basic').toString('base64')}` }
+    });
+    expect(sent[4].body).toContain('name="caption"\r\n\r\nme\r\n');
+  });
+
+  it('checks the status of the last saved response, or any 2xx', () => {
+    const code = LoadTestExportService.generateK6('shop', collections, requests, RESPONSES);
+
+    const checks = runK6(code, SECRETS, 201).sent.map(({ checks }) => checks);
+
+    expect(checks[0]).toEqual({ 'status is 2xx': true });
+    expect(checks[1]).toEqual({ 'status is 200': false });
+    expect(checks[2]).toEqual({ 'status is 201': true });
+  });
+
+  it('lets -e flags and the environment override collection values', () => {
+    const staging = { ...environments[0], variables: { ...environments[0].variables, baseUrl: 'https://staging.example.com' } };
+    const code = LoadTestExportService.generateK6('shop', collections, requests, [], staging);
+
+    expect(runK6(code, SECRETS).sent[0].url).toBe('https://staging.example.com/health');
+    expect(runK6(code, { ...SECRETS, baseUrl: 'https://cli.example.com' }).sent[0].url).toBe('https://cli.example.com/health');
+    // The environment's secret token is redacted, so it has to come from -e
+    expect(code).not.toContain(environments[0].variables.token);
+    const { token, ...withoutToken } = SECRETS;
+    expect(() => runK6(code, withoutToken)).toThrow('Set token with k6 run -e token=value');
+  });
+
+  it('uses the given stages', () => {
+    const code = LoadTestExportService.generateK6('shop', collections, requests, [], undefined, [{ duration: 5, target: 50 }]);
+
+    expect(runK6(code, SECRETS).options).toEqual({ stages: [{ duration: '5s', target: 50 }] });
+  });
+});
+
+describe('LoadTestExportService.generateArtillery', () => {
+  const { collections, requests } = sampleWorkspace();
+
+  it('writes a scenario with one step per request in runner order', () => {
+    const document: any = loadYaml(LoadTestExportService.generateArtillery('shop', collections, requests, RESPONSES));
+
+    expect(document.config).toMatchObject({
+      target: 'https://shop.example.com',
+      phases: [
+        { duration: 30, arrivalRate: 0, rampTo: 10 },
+        { duration: 60, arrivalRate: 10, rampTo: 10 },
+        { duration: 30, arrivalRate: 10, rampTo: 0 }
+      ],
+      variables: { baseUrl: 'https://shop.example.com', 'trace-id': 'abc' }
+    });
+    const steps = document.scenarios[0].flow.map((step: Record<string, any>) => {
+      const [[method, spec]] = Object.entries(step);
+      return { method, name: spec.name, expect: spec.expect };
+    });
+    expect(steps).toEqual([
+      { method: 'get', name: 'Health', expect: [{ statusCode: [200, 201, 202, 204] }] },
+      { method: 'get', name: 'Users / List users', expect: [{ statusCode: 200 }] },
+      { method: 'post', name: 'Users / Admin / Create user', expect: [{ statusCode: 201 }] },
+      { method: 'post', name: 'Users / Admin / Log in', expect: [{ statusCode: [200, 201, 202, 204] }] },
+      { method: 'put', name: 'Users / Upload avatar', expect: [{ statusCode: [200, 201, 202, 204] }] }
+    ]);
+  });
+
+  it('reads variables without a saved value from the process environment', () => {
+    const document: any = loadYaml(LoadTestExportService.generateArtillery('shop', collections, requests));
+    const [, listUsers, , logIn, upload] = document.scenarios[0].flow;
+
+    expect(listUsers.get).toMatchObject({
+      url: '{{ baseUrl }}/users',
+      headers: { Authorization: 'Bearer {{ $env.token }}', 'X-Trace': '{{ trace-id }}' },
+      qs: { page: '2', q: 'a b&c' }
+    });
+    expect(logIn.post).toMatchObject({ auth: { user: 'ann', pass: '{{ $env.basicPassword }}' }, form: { password: '{{ $env.password }}' } });
+    expect(upload.put).toMatchObject({ url: '{{ baseUrl }}/users/{{ $env.userId }}/avatar', formData: { caption: 'me', size: 'large' } });
+  });
+
+  it('falls back to localhost when no request has an absolute URL', () => {
+    const document: any = loadYaml(LoadTestExportService.generateArtillery(
+      'api',
+      [collection({ id: 'api', name: 'API' })],
+      [request({ id: 'r', name: 'Relative', collectionId: 'api', url: '/health' })]
+    ));
+
+    expect(document.config.target).toBe('http://localhost');
+  });
+});
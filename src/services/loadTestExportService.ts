@@ -0,0 +1,329 @@
+import { dump as dumpYaml } from 'js-yaml';
+import type { Collection, Environment, Request, Response } from '../database';
+import { CodeGenService, MULTIPART_BOUNDARY } from './codeGenService';
+import { HttpService } from './httpService';
+import { RedactionService } from './redactionService';
+import { RunEngine } from './runEngine';
+
+export type LoadTestFormat = 'k6' | 'artillery';
+
+/**
+ * Ramp to `target` virtual users over `duration` seconds
+ */
+export interface LoadStage {
+  duration: number;
+  target: number;
+}
+
+export const DEFAULT_STAGES: LoadStage[] = [
+  { duration: 30, target: 10 },
+  { duration: 60, target: 10 },
+  { duration: 30, target: 0 }
+];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Throws in the init context, so k6 stops before any virtual user starts
+const K6_ENV_HELPER = [
+  'function env(name, fallback) {',
+  '  const value = __ENV[name] !== undefined ? __ENV[name] : fallback;',
+  '  if (value === undefined) {',
+  '    throw new Error(`Set ${name} with k6 run -e ${name}=value`);',
+  '  }',
+  '  return value;',
+  '}'
+];
+
+/**
+ * A request with where it sits in the collection and the status to check
+ */
+interface LoadStep {
+  request: Request;
+  auth: Request['auth'];
+  path: string[];
+  status?: number;
+}
+
+const indentLines = (text: string) => text.split('\n').map(line => `  ${line}`).join('\n');
+
+const objectLiteral = (entries: string[]) => (entries.length > 0 ? `{\n${entries.map(indentLines).join(',\n')}\n}` : '{}');
+
+/**
+ * Converts a collection into load-test scripts for k6 and Artillery. Requests
+ * keep their {{variables}}: k6 reads them from a `vars` object that -e flags
+ * override, Artillery gets them as config variables and templates them itself.
+ * Variables are taken from the collection and the environment like the
+ * collection runner does, with secrets left for the command line.
+ */
+export class LoadTestExportService {
+  static generateK6(
+    rootId: string,
+    collections: Collection[],
+    requests: Request[],
+    responses: Response[] = [],
+    environment?: Environment,
+    stages: LoadStage[] = DEFAULT_STAGES
+  ): string {
+    const { root, steps, variables } = this.prepare(rootId, collections, requests, responses, environment);
+    const used = new Set<string>();
+    const value = (text: string) => this.k6Value(text, used);
+    let usesEncoding = false;
+
+    const stepCode = (step: LoadStep): string => {
+      const { request, auth } = step;
+      const headers = Object.entries(request.headers).map(([name, text]) => `${JSON.stringify(name)}: ${value(text)}`);
+      if (auth?.type === 'bearer' && auth.token) {
+        headers.push(`"Authorization": ${value(`Bearer ${auth.token}`)}`);
+      } else if (auth?.type === 'basic' && auth.username && auth.password) {
+        usesEncoding = true;
+        headers.push(`"Authorization": "Basic " + encoding.b64encode(${value(`${auth.username}:${auth.password}`)})`);
+      } else if (auth?.type === 'api-key' && auth.key && auth.value) {
+        headers.push(`${JSON.stringify(auth.key)}: ${value(auth.value)}`);
+      }
+
+      // k6 sends an object body url-encoded; multipart without files is written out by hand
+      let body = 'null';
+      if (HttpService.hasBody(request)) {
+        const fields = HttpService.formFields(request.body!);
+        if (request.bodyType === 'raw') {
+          body = value(request.body!);
+        } else if (request.bodyType === 'x-www-form-urlencoded') {
+          body = objectLiteral(fields.map(([key, text]) => `${JSON.stringify(key)}: ${value(text)}`));
+        } else {
+          headers.push(`"Content-Type": "multipart/form-data; boundary=${MULTIPART_BOUNDARY}"`);
+          body = value(CodeGenService.multipartBody(fields));
+        }
+      }
+
+      const name = JSON.stringify(request.name);
+      return [
+        `group(${name}, () => {`,
+        indentLines(`const res = http.request(${JSON.stringify(request.method)}, ${value(CodeGenService.appendQuery(request.url, Object.entries(request.params)))}, ${body}, ${objectLiteral([
+          `headers: ${objectLiteral(headers)}`,
+          `tags: { name: ${name} }`
+        ])});`),
+        step.status !== undefined
+          ? `  check(res, { "status is ${step.status}": r => r.status === ${step.status} });`
+          : '  check(res, { "status is 2xx": r => r.status >= 200 && r.status < 300 });',
+        '});'
+      ].join('\n');
+    };
+
+    // Steps arrive in tree order, so folders are contiguous and become nested groups
+    const render = (items: LoadStep[], depth: number): string[] => {
+      const blocks: string[] = [];
+      for (let index = 0; index < items.length;) {
+        const folder = items[index].path[depth];
+        if (folder === undefined) {
+          blocks.push(stepCode(items[index++]));
+          continue;
+        }
+        const start = index;
+        while (index < items.length && items[index].path[depth] === folder) index++;
+        blocks.push(`group(${JSON.stringify(folder)}, () => {\n${render(items.slice(start, index), depth + 1).map(indentLines).join('\n\n')}\n});`);
+      }
+      return blocks;
+    };
+    const flow = render(steps, 0);
+
+    const names = [...used].sort();
+    // Variables without a saved value, such as redacted secrets, must be passed with -e
+    const varEntries = names.map(name =>
+      `${IDENTIFIER.test(name) ? name : JSON.stringify(name)}: env(${[name, ...(name in variables ? [variables[name]] : [])].map(text => JSON.stringify(text)).join(', ')})`
+    );
+
+    return [
+      `// ${root.name} load test, exported from WebPostman. Run with: k6 run script.js`,
+      'import http from "k6/http";',
+      ...(usesEncoding ? ['import encoding from "k6/encoding";'] : []),
+      'import { check, group, sleep } from "k6";',
+      '',
+      `export const options = ${objectLiteral([
+        `stages: [\n${stages.map(stage => `  { duration: "${stage.duration}s", target: ${stage.target} }`).join(',\n')}\n]`
+      ])};`,
+      '',
+      ...(names.length > 0
+        ? [...K6_ENV_HELPER, '', '// Collection and environment variables; override them with k6 run -e name=value', `const vars = ${objectLiteral(varEntries)};`, '']
+        : []),
+      'export default function () {',
+      indentLines(`group(${JSON.stringify(root.name)}, () => {\n${flow.map(indentLines).join('\n\n')}\n});`).replace(/^ +$/gm, ''),
+      '  sleep(1);',
+      '}',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Artillery starts virtual users at a rate rather than keeping a number of
+   * them running, so each stage ramps the arrival rate per second instead
+   */
+  static generateArtillery(
+    rootId: string,
+    collections: Collection[],
+    requests: Request[],
+    responses: Response[] = [],
+    environment?: Environment,
+    stages: LoadStage[] = DEFAULT_STAGES
+  ): string {
+    const { root, steps, variables } = this.prepare(rootId, collections, requests, responses, environment);
+    const used = new Set<string>();
+    // Variables without a saved value, such as redacted secrets, come from the process environment
+    const template = (text: string) => text.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, name: string) => {
+      used.add(name);
+      return name in variables ? `{{ ${name} }}` : `{{ $env.${name} }}`;
+    });
+    const templateFields = (fields: [string, string][]) => Object.fromEntries(fields.map(([key, text]) => [key, template(text)]));
+
+    const flow = steps.map(step => {
+      const { request, auth } = step;
+      const spec: Record<string, unknown> = {
+        url: template(request.url),
+        name: [...step.path, request.name].join(' / ')
+      };
+      const headers = templateFields(Object.entries(request.headers));
+      if (auth?.type === 'bearer' && auth.token) {
+        headers.Authorization = template(`Bearer ${auth.token}`);
+      } else if (auth?.type === 'basic' && auth.username && auth.password) {
+        spec.auth = { user: template(auth.username), pass: template(auth.password) };
+      } else if (auth?.type === 'api-key' && auth.key && auth.value) {
+        headers[auth.key] = template(auth.value);
+      }
+      if (Object.keys(headers).length > 0) {
+        spec.headers = headers;
+      }
+      if (Object.keys(request.params).length > 0) {
+        spec.qs = templateFields(Object.entries(request.params));
+      }
+
+      if (HttpService.hasBody(request)) {
+        if (request.bodyType === 'raw') {
+          spec.body = template(request.body!);
+        } else {
+          spec[request.bodyType === 'form-data' ? 'formData' : 'form'] = templateFields(HttpService.formFields(request.body!));
+        }
+      }
+      spec.expect = [step.status !== undefined ? { statusCode: step.status } : { statusCode: [200, 201, 202, 204] }];
+
+      return { [request.method.toLowerCase()]: spec };
+    });
+
+    const configVariables = Object.fromEntries([...used].filter(name => name in variables).sort().map(name => [name, variables[name]]));
+    const document = {
+      config: {
+        target: this.target(steps, variables),
+        phases: stages.map((stage, index) => ({
+          duration: stage.duration,
+          arrivalRate: index === 0 ? 0 : stages[index - 1].target,
+          rampTo: stage.target,
+          name: `Ramp to ${stage.target} users per second`
+        })),
+        ...(Object.keys(configVariables).length > 0 ? { variables: configVariables } : {}),
+        plugins: { expect: {} }
+      },
+      scenarios: [{ name: root.name, flow }]
+    };
+
+    return `# ${root.name} load test, exported from WebPostman. Run with: artillery run scenario.yml\n${dumpYaml(document, { noRefs: true, lineWidth: -1 })}`;
+  }
+
+  /**
+   * Load a collection and an environment from the database and generate a script
+   */
+  static async exportCollection(
+    collectionId: string,
+    format: LoadTestFormat,
+    environmentId?: string,
+    stages: LoadStage[] = DEFAULT_STAGES
+  ): Promise<{ fileName: string; content: string }> {
+    const { db } = await import('../database');
+    const [collections, requests, responses, environment] = await Promise.all([
+      db.collections.toArray(),
+      db.requests.toArray(),
+      db.responses.toArray(),
+      environmentId ? db.environments.get(environmentId) : undefined
+    ]);
+
+    const content = format === 'k6'
+      ? this.generateK6(collectionId, collections, requests, responses, environment, stages)
+      : this.generateArtillery(collectionId, collections, requests, responses, environment, stages);
+    const collection = collections.find(c => c.id === collectionId)!;
+    const baseName = collection.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    return { fileName: format === 'k6' ? `${baseName}.k6.js` : `${baseName}.artillery.yml`, content };
+  }
+
+  /**
+   * Redact secrets into variables, then list the requests in tree order with
+   * their inherited auth and the status of their last saved response
+   */
+  private static prepare(
+    rootId: string,
+    collections: Collection[],
+    requests: Request[],
+    responses: Response[],
+    environment?: Environment
+  ): { root: Collection; steps: LoadStep[]; variables: Record<string, string> } {
+    const root = collections.find(c => c.id === rootId);
+    if (!root) {
+      throw new Error('Collection not found');
+    }
+
+    const redaction = RedactionService.createContext();
+    const steps: LoadStep[] = [];
+    const visit = (collection: Collection, inheritedAuth: Request['auth'], path: string[]) => {
+      const auth = RedactionService.redactCollection(collection, redaction).auth || inheritedAuth;
+      // Steps follow the order the collection runner sends requests in
+      RunEngine.getChildren(collection.id, collections, requests).forEach(({ folder, request }) => {
+        if (folder) {
+          visit(folder, auth, [...path, folder.name]);
+          return;
+        }
+        const redacted = RedactionService.redactRequest(request, redaction);
+        const lastResponse = responses
+          .filter(response => response.requestId === request.id)
+          .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+        steps.push({ request: redacted, auth: redacted.auth || auth, path, status: lastResponse?.status });
+      });
+    };
+    visit(root, undefined, []);
+
+    // Environment values win over collection values, as in the collection runner; emptied secrets are dropped
+    const collectionVariables = RedactionService.redactCollection(root, redaction).variables || {};
+    const environmentVariables = environment ? RedactionService.redactEnvironment(environment, redaction).variables : {};
+    const variables = Object.fromEntries(
+      Object.entries({ ...collectionVariables, ...environmentVariables }).filter(([, value]) => value !== '')
+    );
+    return { root, steps, variables };
+  }
+
+  /**
+   * Artillery needs a target even when every URL is absolute; the first request's origin serves
+   */
+  private static target(steps: LoadStep[], variables: Record<string, string>): string {
+    const url = steps[0]?.request.url.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (match, name: string) => variables[name] ?? match) ?? '';
+    try {
+      return new URL(url).origin;
+    } catch {
+      return 'http://localhost';
+    }
+  }
+
+  /**
+   * A string literal, or a template literal reading `vars` when the text references {{variables}}
+   */
+  private static k6Value(text: string, used: Set<string>): string {
+    const parts = text.split(/\{\{\s*([^}]+?)\s*\}\}/);
+    if (parts.length === 1) {
+      return JSON.stringify(text);
+    }
+    const lookup = (name: string) => {
+      used.add(name);
+      return IDENTIFIER.test(name) ? `vars.${name}` : `vars[${JSON.stringify(name)}]`;
+    };
+    if (parts.length === 3 && !parts[0] && !parts[2]) {
+      return lookup(parts[1]);
+    }
+    return `\`${parts.map((part, index) =>
+      index % 2 === 0 ? JSON.stringify(part).slice(1, -1).replace(/`|\$\{/g, match => `\\${match}`) : `\${${lookup(part)}}`
+    ).join('')}\``;
+  }
+}
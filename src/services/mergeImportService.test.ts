@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { ExportData } from './exportImportService';
+import { request, sampleWorkspace } from '../test/workspace';
+import { GitExportService } from './gitExportService';
+import { MergeImportService } from './mergeImportService';
+
+const LATER = new Date('2024-06-01T00:00:00Z');
+
+const exportData = (): ExportData => ({ ...sampleWorkspace(), version: '1.0.0', exportedAt: '2024-01-01T00:00:00.000Z' });
+
+const statusOf = (items: ReturnType<typeof MergeImportService.preview>, key: string) => {
+  const item = items.find(entry => entry.key === key)!;
+  return { status: item.status, matchedBy: item.matchedBy, fields: item.fields, path: item.path };
+};
+
+describe('MergeImportService.preview', () => {
+  it('finds nothing to do for the same data', () => {
+    const items = MergeImportService.preview(exportData(), exportData());
+
+    expect(items).toHaveLength(9);
+    expect(items.every(item => item.status === 'unchanged')).toBe(true);
+  });
+
+  it('finds nothing to do for a git zip of the same data', () => {
+    const local = exportData();
+    const incoming = GitExportService.parseFiles(GitExportService.buildFiles(local));
+
+    const items = MergeImportService.preview(incoming, local);
+
+    expect(items.filter(item => item.status !== 'unchanged').map(item => ({ key: item.key, fields: item.fields }))).toEqual([]);
+  });
+
+  it('updates records that only the incoming side changed', () => {
+    const incoming = exportData();
+    incoming.requests = incoming.requests.map(r => r.id === 'health' ? { ...r, url: '{{baseUrl}}/status', updatedAt: LATER } : r);
+
+    const items = MergeImportService.preview(incoming, exportData());
+
+    expect(statusOf(items, 'request:health')).toEqual({ status: 'changed', matchedBy: 'id', fields: ['url'], path: 'Shop / Health' });
+  });
+
+  it('flags a conflict when the local copy is at least as new', () => {
+    const incoming = exportData();
+    incoming.requests = incoming.requests.map(r => r.id === 'health' ? { ...r, url: '{{baseUrl}}/status' } : r);
+    const local = exportData();
+    local.requests = local.requests.map(r => r.id === 'health' ? { ...r, url: '{{baseUrl}}/ping', updatedAt: LATER } : r);
+
+    expect(statusOf(MergeImportService.preview(incoming, local), 'request:health').status).toBe('conflict');
+  });
+
+  it('matches records with new ids by path and always asks about them', () => {
+    const incoming = exportData();
+    incoming.requests = incoming.requests.map(r => r.id === 'health'
+      ? { ...r, id: 'other-health', method: 'HEAD', updatedAt: LATER }
+      : r);
+
+    const items = MergeImportService.preview(incoming, exportData());
+
+    expect(statusOf(items, 'request:other-health')).toEqual({ status: 'conflict', matchedBy: 'path', fields: ['method'], path: 'Shop / Health' });
+  });
+
+  it('reports moved, added and renamed records', () => {
+    const incoming = exportData();
+    incoming.requests = incoming.requests
+      .map(r => r.id === 'login' ? { ...r, collectionId: 'shop', updatedAt: LATER } : r)
+      .concat(request({ id: 'orders', name: 'Orders', collectionId: 'shop' }));
+    incoming.environments = incoming.environments.map(e => ({ ...e, name: 'Production' }));
+
+    const items = MergeImportService.preview(incoming, exportData());
+
+    expect(statusOf(items, 'request:login')).toMatchObject({ status: 'changed', fields: ['location'], path: 'Shop / Log in' });
+    expect(statusOf(items, 'request:orders')).toEqual({ status: 'added', matchedBy: undefined, fields: [], path: 'Shop / Orders' });
+    expect(statusOf(items, 'environment:staging')).toMatchObject({ status: 'conflict', fields: ['name'] });
+  });
+});
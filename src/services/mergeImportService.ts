@@ -0,0 +1,243 @@
+import type { Collection, Environment, Request } from '../database';
+import { ExportImportService } from './exportImportService';
+import type { ExportData } from './exportImportService';
+import { GitExportService } from './gitExportService';
+import { v4 as uuidv4 } from 'uuid';
+
+export type MergeKind = 'collection' | 'request' | 'environment';
+export type MergeStatus = 'added' | 'changed' | 'conflict' | 'unchanged';
+export type ConflictResolution = 'keep-mine' | 'take-theirs' | 'keep-both';
+
+/**
+ * One incoming record and what merging it would do
+ */
+export interface MergeItem {
+  key: string;
+  kind: MergeKind;
+  status: MergeStatus;
+  path: string;
+  matchedBy?: 'id' | 'path';
+  fields: string[];
+  incoming: Collection | Request | Environment;
+  local?: Collection | Request | Environment;
+}
+
+export interface MergeSummary {
+  added: number;
+  updated: number;
+  copied: number;
+  kept: number;
+}
+
+// Fields that differ between any two copies and say nothing about the content
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', 'parentId', 'collectionId', 'folderId', 'order', 'isActive'];
+
+/**
+ * Merges exported data into the local database instead of replacing it.
+ * Records are matched by id first, then by their name path; matched
+ * records that differ are either updates or conflicts the user resolves.
+ */
+export class MergeImportService {
+  /**
+   * Read a JSON export, possibly encrypted, or a git-friendly zip
+   */
+  static async readExportFile(file: File, requestPassphrase?: () => Promise<string | null>): Promise<ExportData> {
+    const isZip = /\.zip$/i.test(file.name);
+    const data = isZip
+      ? await GitExportService.readZip(file)
+      : await ExportImportService.parseExportFile(await file.text(), requestPassphrase);
+
+    // Timestamps decide which side is newer. JSON stores them as strings and
+    // the zip has none, so nothing in it counts as newer than the local copy.
+    const dated = <T extends { createdAt: Date; updatedAt: Date }>(record: T): T => ({
+      ...record,
+      createdAt: isZip ? new Date(0) : new Date(record.createdAt),
+      updatedAt: isZip ? new Date(0) : new Date(record.updatedAt)
+    });
+    return {
+      ...data,
+      collections: data.collections.map(dated),
+      requests: data.requests.map(dated),
+      environments: data.environments.map(dated)
+    };
+  }
+
+  /**
+   * Compare incoming data with the local database
+   */
+  static async previewWithDatabase(incoming: ExportData): Promise<MergeItem[]> {
+    return this.preview(incoming, await ExportImportService.exportData());
+  }
+
+  /**
+   * Classify every incoming record. A record matched by id is `changed`
+   * when the incoming copy is newer and `conflict` when the local copy is
+   * at least as new; a record matched only by path always conflicts.
+   */
+  static preview(incoming: ExportData, local: ExportData): MergeItem[] {
+    const incomingPaths = this.collectionPaths(incoming.collections);
+    const localPaths = this.collectionPaths(local.collections);
+    const requestPath = (request: Request, paths: Map<string, string>) => {
+      const parent = paths.get(request.collectionId ?? request.folderId ?? '');
+      return parent ? `${parent} / ${request.name}` : request.name;
+    };
+
+    const classify = <T extends Collection | Request | Environment>(
+      kind: MergeKind,
+      records: T[],
+      localRecords: T[],
+      pathOf: (record: T, isLocal: boolean) => string
+    ): MergeItem[] => {
+      const localById = new Map(localRecords.map(record => [record.id, record]));
+      const localByPath = new Map<string, T>();
+      localRecords.forEach(record => {
+        const path = pathOf(record, true);
+        if (!localByPath.has(path)) localByPath.set(path, record);
+      });
+
+      return records.map(record => {
+        const path = pathOf(record, false);
+        const byId = localById.get(record.id);
+        const match = byId ?? localByPath.get(path);
+        const item: MergeItem = { key: `${kind}:${record.id}`, kind, status: 'added', path, fields: [], incoming: record };
+        if (!match) {
+          return item;
+        }
+
+        item.local = match;
+        item.matchedBy = byId ? 'id' : 'path';
+        item.fields = this.changedFields(record, match);
+        // Paths end with the record's name, so a rename alone is not a move
+        const parentPath = (value: string, named: T) => value.slice(0, value.length - named.name.length);
+        if (parentPath(pathOf(match, true), match) !== parentPath(path, record)) {
+          item.fields.unshift('location');
+        }
+
+        if (item.fields.length === 0) {
+          item.status = 'unchanged';
+        } else if (byId && new Date(record.updatedAt).getTime() > new Date(match.updatedAt).getTime()) {
+          item.status = 'changed';
+        } else {
+          item.status = 'conflict';
+        }
+        return item;
+      });
+    };
+
+    return [
+      ...classify('collection', incoming.collections, local.collections, (collection, isLocal) =>
+        (isLocal ? localPaths : incomingPaths).get(collection.id)!),
+      ...classify('request', incoming.requests, local.requests, (request, isLocal) =>
+        requestPath(request, isLocal ? localPaths : incomingPaths)),
+      ...classify('environment', incoming.environments, local.environments, environment => environment.name)
+    ];
+  }
+
+  /**
+   * Write the merge in one transaction. Unresolved conflicts keep the local copy.
+   */
+  static async apply(items: MergeItem[], resolutions: Record<string, ConflictResolution>): Promise<MergeSummary> {
+    const { db } = await import('../database');
+    const summary: MergeSummary = { added: 0, updated: 0, copied: 0, kept: 0 };
+    const now = new Date();
+
+    const actionOf = (item: MergeItem): 'add' | 'update' | 'copy' | 'keep' => {
+      if (item.status === 'added') return 'add';
+      if (item.status === 'changed') return 'update';
+      if (item.status === 'unchanged') return 'keep';
+      const resolution = resolutions[item.key] ?? 'keep-mine';
+      return resolution === 'take-theirs' ? 'update' : resolution === 'keep-both' ? 'copy' : 'keep';
+    };
+
+    // Incoming collection ids point at the local record they were merged into, or at their copy
+    const collectionIds = new Map<string, string>();
+    const collectionItems = items.filter(item => item.kind === 'collection');
+    collectionItems.forEach(item => {
+      const action = actionOf(item);
+      collectionIds.set(item.incoming.id, action === 'copy' ? uuidv4() : action === 'add' ? item.incoming.id : item.local!.id);
+    });
+    const mapParent = (id?: string) => (id ? collectionIds.get(id) ?? id : undefined);
+
+    await db.transaction('rw', [db.collections, db.requests, db.environments], async () => {
+      let rootOrder = await db.collections.filter(collection => !collection.parentId).count();
+
+      for (const item of items) {
+        const action = actionOf(item);
+        if (action === 'keep') {
+          summary.kept++;
+          continue;
+        }
+
+        const local = action === 'update' ? item.local : undefined;
+        const id = item.kind === 'collection'
+          ? collectionIds.get(item.incoming.id)!
+          : action === 'copy' ? uuidv4() : local?.id ?? item.incoming.id;
+        const base = {
+          ...item.incoming,
+          id,
+          name: action === 'copy' ? `${item.incoming.name} (imported)` : item.incoming.name,
+          createdAt: local?.createdAt ?? now,
+          updatedAt: now
+        };
+
+        if (item.kind === 'collection') {
+          const collection = base as Collection;
+          collection.parentId = mapParent(collection.parentId);
+          if (!collection.parentId && action !== 'update') {
+            collection.order = rootOrder++;
+          }
+          await db.collections.put(collection);
+        } else if (item.kind === 'request') {
+          const request = base as Request;
+          request.collectionId = mapParent(request.collectionId ?? request.folderId);
+          request.folderId = undefined;
+          await db.requests.put(request);
+        } else {
+          // Merging never switches the active environment
+          await db.environments.put({ ...(base as Environment), isActive: (local as Environment | undefined)?.isActive ?? false });
+        }
+
+        summary[action === 'add' ? 'added' : action === 'update' ? 'updated' : 'copied']++;
+      }
+    });
+
+    return summary;
+  }
+
+  private static collectionPaths(collections: Collection[]): Map<string, string> {
+    const byId = new Map(collections.map(collection => [collection.id, collection]));
+    const paths = new Map<string, string>();
+    const pathOf = (collection: Collection, seen: Set<string>): string => {
+      const cached = paths.get(collection.id);
+      if (cached) return cached;
+      const parent = collection.parentId ? byId.get(collection.parentId) : undefined;
+      // Guard against parent cycles in hand-edited files
+      const path = parent && !seen.has(parent.id)
+        ? `${pathOf(parent, new Set(seen).add(collection.id))} / ${collection.name}`
+        : collection.name;
+      paths.set(collection.id, path);
+      return path;
+    };
+    collections.forEach(collection => pathOf(collection, new Set([collection.id])));
+    return paths;
+  }
+
+  private static changedFields(incoming: object, local: object): string[] {
+    const normalize = (value: unknown) => JSON.stringify(value ?? null, (_, nested) =>
+      nested && typeof nested === 'object' && !Array.isArray(nested)
+        ? Object.fromEntries(Object.entries(nested).filter(([, v]) => v !== undefined).sort(([a], [b]) => a.localeCompare(b)))
+        : nested
+    );
+    const isEmpty = (value: unknown) =>
+      value === undefined || value === '' || (typeof value === 'object' && value !== null && Object.keys(value).length === 0);
+
+    const keys = new Set([...Object.keys(incoming), ...Object.keys(local)]);
+    return [...keys]
+      .filter(key => !IGNORED_FIELDS.includes(key))
+      .filter(key => {
+        const a = (incoming as Record<string, unknown>)[key];
+        const b = (local as Record<string, unknown>)[key];
+        return !(isEmpty(a) && isEmpty(b)) && normalize(a) !== normalize(b);
+      });
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { collection, request, sampleWorkspace } from '../test/workspace';
+import { OpenApiService } from './openApiService';
+
+const petstore = {
+  openapi: '3.0.3',
+  info: { title: 'Petstore', description: 'Pets for sale' },
+  servers: [{ url: 'https://{region}.pets.example.com/v1/', variables: { region: { default: 'eu' } } }],
+  tags: [{ name: 'pets', description: 'Everything about pets' }],
+  security: [{ bearer: [] }],
+  components: {
+    securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+    schemas: {
+      Pet: {
+        type: 'object',
+        properties: { name: { type: 'string', example: 'Rex' }, age: { type: 'integer' } }
+      }
+    }
+  },
+  paths: {
+    '/pets/{petId}': {
+      parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' }, example: 7 }],
+      get: {
+        tags: ['pets'],
+        summary: 'Get a pet',
+        parameters: [
+          { name: 'fields', in: 'query', required: true, schema: { type: 'string' }, example: 'name' },
+          { name: 'X-Debug', in: 'header', schema: { type: 'boolean' } }
+        ],
+        responses: {
+          200: { description: 'The pet', content: { 'application/json': { example: { name: 'Rex', age: 3 } } } }
+        }
+      },
+      put: {
+        tags: ['pets'],
+        summary: 'Update a pet',
+        requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+        responses: { 204: { description: 'Updated' } }
+      }
+    },
+    '/health': {
+      get: { operationId: 'health', security: [], responses: { 200: { description: 'Up' } } }
+    }
+  }
+};
+
+describe('OpenAPI import', () => {
+  it('creates a folder per tag and a request per operation', async () => {
+    const result = await OpenApiService.importDocument(petstore);
+    const [root, pets] = result.collections;
+
+    expect(root).toMatchObject({ name: 'Petstore', description: 'Pets for sale', auth: { type: 'bearer', token: '{{bearerToken}}' } });
+    expect(root.variables).toEqual({ petId: '7' });
+    expect(pets).toMatchObject({ name: 'pets', description: 'Everything about pets', parentId: root.id });
+
+    const getPet = result.requests.find(request => request.name === 'Get a pet');
+    expect(getPet).toMatchObject({
+      method: 'GET',
+      url: '{{baseUrl}}/pets/{{petId}}',
+      params: { fields: 'name' },
+      disabledHeaders: { 'X-Debug': '' },
+      collectionId: pets.id
+    });
+    expect(JSON.parse(result.requests.find(request => request.name === 'Update a pet')!.body!)).toEqual({ name: 'Rex', age: 0 });
+  });
+
+  it('fills in server variables and keeps operations that opt out of security', async () => {
+    const result = await OpenApiService.importDocument(petstore);
+
+    expect(result.environments[0].variables).toEqual({ baseUrl: 'https://eu.pets.example.com/v1', bearerToken: '' });
+    expect(result.requests.find(request => request.name === 'health')).toMatchObject({
+      auth: { type: 'none' },
+      collectionId: result.collections[0].id
+    });
+    expect(result.responses).toMatchObject([{ status: 200, body: JSON.stringify({ name: 'Rex', age: 3 }, null, 2) }]);
+  });
+
+  it('reads Swagger 2 hosts and form parameters', async () => {
+    const result = await OpenApiService.importDocument(OpenApiService.parse(`
+swagger: "2.0"
+info:
+  title: Uploads
+host: files.example.com
+basePath: /api
+schemes: [http, https]
+consumes: [multipart/form-data]
+paths:
+  /files:
+    post:
+      summary: Upload
+      parameters:
+        - { name: title, in: formData, type: string, default: Report }
+        - { name: file, in: formData, type: file }
+      responses:
+        201: { description: Created }
+`));
+
+    expect(result.environments[0].variables.baseUrl).toBe('https://files.example.com/api');
+    expect(result.requests[0]).toMatchObject({ method: 'POST', url: '{{baseUrl}}/files', bodyType: 'form-data' });
+    expect(JSON.parse(result.requests[0].body!)).toEqual({ title: 'Report', file: '' });
+    expect(result.summary.skipped).toEqual(['POST /files: file field "file" in form body']);
+  });
+
+  it('rejects documents it cannot read', async () => {
+    expect(() => OpenApiService.parse('{"info": {}}')).toThrow('Not an OpenAPI or Swagger document');
+    await expect(OpenApiService.importDocument({ openapi: '3.0.0' })).rejects.toThrow('The document has no paths');
+  });
+});
+
+describe('OpenAPI export', () => {
+  it('imports a generated document as the same operations', async () => {
+    const { collections, requests } = sampleWorkspace();
+
+    const { document, skipped } = OpenApiService.generateDocument('shop', collections, requests);
+    const imported = await OpenApiService.importDocument(OpenApiService.parse(JSON.stringify(document)));
+
+    expect(skipped).toEqual([]);
+    expect(document.servers).toEqual([{ url: '{baseUrl}', variables: { baseUrl: { default: 'https://shop.example.com' } } }]);
+    expect(imported.requests.map(({ name, method, url }) => ({ name, method, url }))).toEqual(
+      requests.map(({ name, method, url }) => ({ name, method, url }))
+    );
+    expect(imported.requests.find(r => r.name === 'List users')).toMatchObject({
+      params: { page: '2', q: 'a b&c' },
+      disabledParams: { debug: 'true' },
+      headers: { Accept: 'application/json', 'X-Trace': '{{trace-id}}' }
+    });
+    expect(JSON.parse(imported.requests.find(r => r.name === 'Log in')!.body!)).toEqual({ user: 'ann', password: 'p&ss word' });
+  });
+
+  it('includes requests stored with a folderId', () => {
+    const { document } = OpenApiService.generateDocument(
+      'api',
+      [collection({ id: 'api', name: 'API' })],
+      [request({ id: 'legacy', name: 'Legacy', folderId: 'api', url: 'https://api.example.com/legacy' })]
+    );
+
+    expect(document.paths['/legacy'].get.summary).toBe('Legacy');
+  });
+
+  it('reports requests describing an operation that is already in the document', () => {
+    const { document, skipped } = OpenApiService.generateDocument(
+      'api',
+      [collection({ id: 'api', name: 'API' })],
+      [
+        request({ id: 'first', name: 'First', collectionId: 'api', url: 'https://api.example.com/items', order: 0 }),
+        request({ id: 'second', name: 'Second', collectionId: 'api', url: 'https://api.example.com/items?page=2', order: 1 })
+      ]
+    );
+
+    expect(document.paths['/items'].get.summary).toBe('First');
+    expect(skipped).toEqual(['Second: another request already describes GET /items']);
+  });
+
+  it('keeps object and array shapes when merging differing schemas', () => {
+    const merged = OpenApiService.mergeSchemas(
+      OpenApiService.inferSchema({ id: 1, tags: ['a'] }),
+      OpenApiService.inferSchema('none')
+    );
+
+    expect(merged).toEqual({
+      type: ['object', 'string'],
+      properties: { id: { type: 'integer' }, tags: { type: 'array', items: { type: 'string' } } },
+      required: ['id', 'tags']
+    });
+  });
+});
@@ -0,0 +1,956 @@
+import { dump as dumpYaml, load as loadYaml } from 'js-yaml';
+import type { Collection, Request, Response } from '../database';
+import type { ImportResult } from '../types';
+import { HttpService } from './httpService';
+import { RunEngine } from './runEngine';
+import { v4 as uuidv4 } from 'uuid';
+
+const OPERATION_METHODS: Request['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Nested schemas deeper than this are left as empty values in generated examples
+const MAX_EXAMPLE_DEPTH = 8;
+
+export type OpenApiFormat = 'json' | 'yaml';
+
+interface OperationAuth {
+  auth?: Request['auth'];
+  headers: Record<string, string>;
+  params: Record<string, string>;
+}
+
+/**
+ * Converts OpenAPI 3.x and Swagger 2.0 documents into collections
+ */
+export class OpenApiService {
+  /**
+   * Parse an OpenAPI document from JSON or YAML text
+   */
+  static parse(text: string): any {
+    const trimmed = text.trim();
+    const document = trimmed.startsWith('{') ? JSON.parse(trimmed) : loadYaml(trimmed);
+    if (!document || typeof document !== 'object' || (!document.openapi && !document.swagger)) {
+      throw new Error('Not an OpenAPI or Swagger document');
+    }
+    return document;
+  }
+
+  /**
+   * Import a document as a collection with one folder per tag and one
+   * request per operation. Server URLs and credentials become variables of
+   * a new environment so requests work once it is activated.
+   */
+  static async importDocument(document: any): Promise<ImportResult> {
+    const isSwagger = String(document?.swagger || '').startsWith('2');
+    if (!isSwagger && !String(document?.openapi || '').startsWith('3')) {
+      throw new Error('Only OpenAPI 3.x and Swagger 2.0 documents are supported');
+    }
+    if (!document.paths || typeof document.paths !== 'object') {
+      throw new Error('The document has no paths');
+    }
+
+    const result: ImportResult = {
+      collections: [],
+      requests: [],
+      responses: [],
+      environments: [],
+      summary: { collections: 0, requests: 0, examples: 0, variables: 0, skipped: [] }
+    };
+
+    const title = document.info?.title || 'Imported API';
+    const environmentVariables: Record<string, string> = { baseUrl: this.readBaseUrl(document, isSwagger) };
+    const pathVariables: Record<string, string> = {};
+
+    const root: Collection = {
+      id: uuidv4(),
+      name: title,
+      description: document.info?.description || undefined,
+      auth: this.convertSecurity(document.security, document, isSwagger, environmentVariables, result, title).auth,
+      order: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    result.collections.push(root);
+
+    // Declared tags come first, in document order, then any others as they appear
+    const tagFolders = new Map<string, Collection>();
+    let rootOrder = 0;
+    const getTagFolder = (tag: string): Collection => {
+      let folder = tagFolders.get(tag);
+      if (!folder) {
+        folder = {
+          id: uuidv4(),
+          name: tag,
+          description: (document.tags || []).find((t: any) => t?.name === tag)?.description || undefined,
+          parentId: root.id,
+          order: rootOrder++,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        tagFolders.set(tag, folder);
+        result.collections.push(folder);
+      }
+      return folder;
+    };
+    (document.tags || []).forEach((tag: any) => {
+      if (tag?.name) getTagFolder(tag.name);
+    });
+
+    const folderOrders = new Map<string, number>();
+    Object.entries<any>(document.paths).forEach(([path, pathItem]) => {
+      pathItem = this.resolve(pathItem, document);
+      if (!pathItem || typeof pathItem !== 'object') return;
+
+      Object.entries<any>(pathItem).forEach(([key, operation]) => {
+        const method = key.toUpperCase() as Request['method'];
+        if (!OPERATION_METHODS.includes(method)) {
+          if (key === 'trace') {
+            result.summary.skipped.push(`${key.toUpperCase()} ${path}: unsupported method`);
+          }
+          return;
+        }
+
+        const tag = operation.tags?.[0];
+        const folder = tag ? getTagFolder(tag) : root;
+        const order = folder === root ? rootOrder++ : folderOrders.get(folder.id) ?? 0;
+        folderOrders.set(folder.id, order + 1);
+
+        const request = this.convertOperation(
+          path, method, operation, pathItem, document, isSwagger, folder.id, order,
+          environmentVariables, pathVariables, result
+        );
+        result.requests.push(request);
+        result.responses.push(...this.convertResponseExamples(operation, request.id, document, isSwagger));
+      });
+    });
+
+    if (Object.keys(pathVariables).length > 0) {
+      root.variables = pathVariables;
+    }
+    result.environments.push({
+      id: uuidv4(),
+      name: title,
+      variables: environmentVariables,
+      isActive: false,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    result.summary.collections = result.collections.length;
+    result.summary.requests = result.requests.length;
+    result.summary.examples = result.responses.length;
+    result.summary.variables = Object.keys(pathVariables).length + Object.keys(environmentVariables).length;
+    return result;
+  }
+
+  /**
+   * The first server becomes `baseUrl`; server variables are filled with their defaults
+   */
+  private static readBaseUrl(document: any, isSwagger: boolean): string {
+    if (isSwagger) {
+      if (!document.host) {
+        return (document.basePath || '').replace(/\/$/, '');
+      }
+      const scheme = document.schemes?.includes('https') ? 'https' : document.schemes?.[0] || 'https';
+      return `${scheme}://${document.host}${document.basePath || ''}`.replace(/\/$/, '');
+    }
+
+    const server = document.servers?.[0];
+    if (!server?.url) {
+      return '';
+    }
+    return server.url
+      .replace(/\{([^}]+)\}/g, (match: string, name: string) => server.variables?.[name]?.default ?? match)
+      .replace(/\/$/, '');
+  }
+
+  private static convertOperation(
+    path: string,
+    method: Request['method'],
+    operation: any,
+    pathItem: any,
+    document: any,
+    isSwagger: boolean,
+    collectionId: string,
+    order: number,
+    environmentVariables: Record<string, string>,
+    pathVariables: Record<string, string>,
+    result: ImportResult
+  ): Request {
+    const name = operation.summary || operation.operationId || `${method} ${path}`;
+    const itemName = `${method} ${path}`;
+
+    const headers: Record<string, string> = {};
+    const params: Record<string, string> = {};
+    const disabledHeaders: Record<string, string> = {};
+    const disabledParams: Record<string, string> = {};
+    const formFields: Record<string, string> = {};
+    let body: string | undefined;
+    let bodyType: Request['bodyType'] = 'raw';
+
+    // Operation parameters override path-level ones with the same name and location
+    const parameters = new Map<string, any>();
+    [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach(parameter => {
+      const resolved = this.resolve(parameter, document);
+      if (resolved?.name && resolved.in) {
+        parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+      }
+    });
+
+    parameters.forEach(parameter => {
+      const value = this.parameterValue(parameter, document, isSwagger);
+      switch (parameter.in) {
+        case 'path':
+          if (!(parameter.name in pathVariables)) {
+            pathVariables[parameter.name] = value;
+          }
+          break;
+        case 'query':
+          (parameter.required ? params : disabledParams)[parameter.name] = value;
+          break;
+        case 'header':
+          (parameter.required ? headers : disabledHeaders)[parameter.name] = value;
+          break;
+        case 'body':
+          body = this.stringifyExample(this.sampleFromSchema(parameter.schema, document));
+          break;
+        case 'formData':
+          formFields[parameter.name] = parameter.type === 'file' ? '' : value;
+          if (parameter.type === 'file') {
+            result.summary.skipped.push(`${itemName}: file field "${parameter.name}" in form body`);
+          }
+          break;
+        default:
+          result.summary.skipped.push(`${itemName}: ${parameter.in} parameter "${parameter.name}"`);
+      }
+    });
+
+    if (isSwagger) {
+      const consumes: string[] = operation.consumes || document.consumes || [];
+      if (Object.keys(formFields).length > 0) {
+        bodyType = consumes.includes('multipart/form-data') ? 'form-data' : 'x-www-form-urlencoded';
+        body = JSON.stringify(formFields, null, 2);
+      } else if (body !== undefined) {
+        headers['Content-Type'] = consumes.find(type => type.includes('json')) || consumes[0] || 'application/json';
+      }
+    } else if (operation.requestBody) {
+      const requestBody = this.resolve(operation.requestBody, document);
+      const content = requestBody?.content || {};
+      const contentType = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+      if (contentType) {
+        const media = content[contentType];
+        const example = this.mediaExample(media, document);
+        if (contentType === 'multipart/form-data' || contentType === 'application/x-www-form-urlencoded') {
+          bodyType = contentType === 'multipart/form-data' ? 'form-data' : 'x-www-form-urlencoded';
+          body = JSON.stringify(this.toFormFields(example), null, 2);
+        } else {
+          headers['Content-Type'] = contentType;
+          body = this.stringifyExample(example);
+        }
+      }
+    }
+
+    // Swagger/OpenAPI path templates use {name}; our variables use {{name}}
+    const url = `{{baseUrl}}${path.replace(/\{([^}]+)\}/g, '{{$1}}')}`;
+
+    // An operation-level security list replaces the document default; an empty list means no auth
+    let auth: Request['auth'];
+    if (operation.security) {
+      const security = this.convertSecurity(operation.security, document, isSwagger, environmentVariables, result, itemName);
+      auth = security.auth || { type: 'none' };
+      Object.assign(headers, security.headers);
+      Object.assign(params, security.params);
+    } else {
+      const security = this.convertSecurity(document.security, document, isSwagger, environmentVariables, result, itemName, false);
+      Object.assign(headers, security.headers);
+      Object.assign(params, security.params);
+    }
+
+    return {
+      id: uuidv4(),
+      name,
+      description: operation.description || undefined,
+      method,
+      url,
+      headers,
+      params,
+      disabledHeaders: Object.keys(disabledHeaders).length > 0 ? disabledHeaders : undefined,
+      disabledParams: Object.keys(disabledParams).length > 0 ? disabledParams : undefined,
+      body,
+      bodyType,
+      auth,
+      collectionId,
+      order,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  /**
+   * Map the first usable security requirement to request auth. Credentials
+   * are left as {{placeholders}} added to the environment. API keys sent in a
+   * query string or cookie cannot be auth settings, so they become params or headers.
+   */
+  private static convertSecurity(
+    requirements: any,
+    document: any,
+    isSwagger: boolean,
+    environmentVariables: Record<string, string>,
+    result: ImportResult,
+    itemName: string,
+    report = true
+  ): OperationAuth {
+    const security: OperationAuth = { headers: {}, params: {} };
+    if (!Array.isArray(requirements) || requirements.length === 0) {
+      return security;
+    }
+
+    const schemes = (isSwagger ? document.securityDefinitions : document.components?.securitySchemes) || {};
+    const requirement = requirements.find((candidate: any) =>
+      candidate && Object.keys(candidate).every(name => this.isSupportedScheme(this.resolve(schemes[name], document)))
+    );
+    if (!requirement) {
+      if (report) {
+        result.summary.skipped.push(`${itemName}: unsupported security scheme ${Object.keys(requirements[0] || {}).join(', ')}`);
+      }
+      return security;
+    }
+
+    const placeholder = (name: string) => {
+      if (!(name in environmentVariables)) {
+        environmentVariables[name] = '';
+      }
+      return `{{${name}}}`;
+    };
+
+    Object.keys(requirement).forEach(name => {
+      const scheme = this.resolve(schemes[name], document);
+      const type = String(scheme.type);
+      const httpScheme = String(scheme.scheme || '').toLowerCase();
+
+      if (type === 'apiKey') {
+        const value = placeholder(name);
+        if (scheme.in === 'query') {
+          security.params[scheme.name] = value;
+        } else if (scheme.in === 'cookie') {
+          security.headers.Cookie = `${scheme.name}=${value}`;
+        } else if (security.auth) {
+          security.headers[scheme.name] = value;
+        } else {
+          security.auth = { type: 'api-key', key: scheme.name, value };
+        }
+        return;
+      }
+
+      if (security.auth) {
+        if (report) {
+          result.summary.skipped.push(`${itemName}: additional security scheme "${name}"`);
+        }
+        return;
+      }
+
+      if (type === 'basic' || (type === 'http' && httpScheme === 'basic')) {
+        security.auth = { type: 'basic', username: placeholder('username'), password: placeholder('password') };
+      } else if (type === 'http' && httpScheme === 'bearer') {
+        security.auth = { type: 'bearer', token: placeholder('bearerToken') };
+      } else {
+        // OAuth 2 and OpenID Connect tokens are sent as bearer tokens obtained elsewhere
+        security.auth = { type: 'bearer', token: placeholder('accessToken') };
+        if (report) {
+          result.summary.skipped.push(`${itemName}: ${type} flow for "${name}" not imported, set {{accessToken}} manually`);
+        }
+      }
+    });
+
+    return security;
+  }
+
+  private static isSupportedScheme(scheme: any): boolean {
+    if (!scheme) return false;
+    if (scheme.type === 'http') {
+      return ['basic', 'bearer'].includes(String(scheme.scheme).toLowerCase());
+    }
+    return ['apiKey', 'basic', 'oauth2', 'openIdConnect'].includes(scheme.type);
+  }
+
+  /**
+   * Response examples given in the document are saved as named responses
+   */
+  private static convertResponseExamples(operation: any, requestId: string, document: any, isSwagger: boolean): Response[] {
+    return Object.entries<any>(operation.responses || {}).flatMap(([code, response]) => {
+      response = this.resolve(response, document);
+      const status = Number(code);
+      if (!response || !status) return [];
+
+      let contentType: string | undefined;
+      let example: unknown;
+      if (isSwagger) {
+        contentType = Object.keys(response.examples || {})[0];
+        example = contentType ? response.examples[contentType] : undefined;
+      } else {
+        contentType = Object.keys(response.content || {}).find(type => {
+          const media = response.content[type];
+          return media?.example !== undefined || media?.examples;
+        });
+        example = contentType ? this.mediaExample(response.content[contentType], document, false) : undefined;
+      }
+      if (example === undefined) return [];
+
+      const body = this.stringifyExample(example) ?? '';
+      const headers: Record<string, string> = contentType ? { 'Content-Type': contentType } : {};
+      return [{
+        id: uuidv4(),
+        requestId,
+        name: response.description ? `${code} ${response.description}` : code,
+        status,
+        statusText: response.description || '',
+        headers,
+        body,
+        responseTime: 0,
+        responseSize: new TextEncoder().encode(body).length,
+        timestamp: new Date()
+      }];
+    });
+  }
+
+  private static parameterValue(parameter: any, document: any, isSwagger: boolean): string {
+    const explicit = parameter.example ?? Object.values<any>(parameter.examples || {})[0]?.value;
+    const value = explicit !== undefined
+      ? explicit
+      : this.sampleFromSchema(isSwagger ? parameter : parameter.schema, document, new Set(), 0, false);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * An explicit example wins; otherwise one is generated from the schema
+   */
+  private static mediaExample(media: any, document: any, fromSchema = true): unknown {
+    if (media?.example !== undefined) {
+      return media.example;
+    }
+    const firstExample = Object.values<any>(media?.examples || {})[0];
+    if (firstExample) {
+      return this.resolve(firstExample, document)?.value;
+    }
+    return fromSchema ? this.sampleFromSchema(media?.schema, document) : undefined;
+  }
+
+  /**
+   * Build an example value from a JSON schema. With `placeholders` off,
+   * schemas without an example, default or enum produce an empty value.
+   */
+  private static sampleFromSchema(
+    schema: any,
+    document: any,
+    seenRefs: Set<string> = new Set(),
+    depth = 0,
+    placeholders = true
+  ): unknown {
+    if (!schema || typeof schema !== 'object' || depth > MAX_EXAMPLE_DEPTH) {
+      return undefined;
+    }
+
+    if (schema.$ref) {
+      if (seenRefs.has(schema.$ref)) return undefined;
+      return this.sampleFromSchema(
+        this.resolve(schema, document), document, new Set([...seenRefs, schema.$ref]), depth + 1, placeholders
+      );
+    }
+
+    if (schema.example !== undefined) return schema.example;
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+    if (schema.default !== undefined) return schema.default;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+    if (schema.const !== undefined) return schema.const;
+
+    if (Array.isArray(schema.allOf)) {
+      const parts = schema.allOf.map((part: any) => this.sampleFromSchema(part, document, seenRefs, depth + 1, placeholders));
+      return parts.every((part: unknown) => part && typeof part === 'object' && !Array.isArray(part))
+        ? Object.assign({}, ...parts)
+        : parts.find((part: unknown) => part !== undefined);
+    }
+    const alternative = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+    if (alternative) {
+      return this.sampleFromSchema(alternative, document, seenRefs, depth + 1, placeholders);
+    }
+
+    // OpenAPI 3.1 allows a list of types
+    const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+
+    if (type === 'object' || (!type && schema.properties)) {
+      const example: Record<string, unknown> = {};
+      Object.entries<any>(schema.properties || {}).forEach(([key, property]) => {
+        if (property?.readOnly) return;
+        example[key] = this.sampleFromSchema(property, document, seenRefs, depth + 1, placeholders);
+      });
+      return example;
+    }
+
+    if (type === 'array') {
+      const item = this.sampleFromSchema(schema.items, document, seenRefs, depth + 1, placeholders);
+      return item === undefined ? [] : [item];
+    }
+
+    if (!placeholders) {
+      return undefined;
+    }
+
+    switch (type) {
+      case 'integer':
+      case 'number':
+        return schema.minimum ?? 0;
+      case 'boolean':
+        return true;
+      case 'string':
+        switch (schema.format) {
+          case 'date-time': return '2024-01-01T00:00:00Z';
+          case 'date': return '2024-01-01';
+          case 'email': return 'user@example.com';
+          case 'uuid': return '00000000-0000-0000-0000-000000000000';
+          case 'uri':
+          case 'url': return 'https://example.com';
+          default: return 'string';
+        }
+      default:
+        return undefined;
+    }
+  }
+
+  private static toFormFields(example: unknown): Record<string, string> {
+    if (!example || typeof example !== 'object' || Array.isArray(example)) {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(example).map(([key, value]) => [key, typeof value === 'object' ? JSON.stringify(value) : String(value ?? '')])
+    );
+  }
+
+  private static stringifyExample(example: unknown): string | undefined {
+    if (example === undefined) return undefined;
+    return typeof example === 'string' ? example : JSON.stringify(example, null, 2);
+  }
+
+  /**
+   * Follow a local `#/...` reference. External references are left unresolved.
+   */
+  private static resolve(value: any, document: any, seen: Set<string> = new Set()): any {
+    const ref = value?.$ref;
+    if (typeof ref !== 'string' || !ref.startsWith('#/') || seen.has(ref)) {
+      return value;
+    }
+
+    const target = ref
+      .slice(2)
+      .split('/')
+      .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((node: any, segment) => node?.[segment], document);
+    return target === undefined ? value : this.resolve(target, document, new Set([...seen, ref]));
+  }
+
+  /**
+   * Generate an OpenAPI 3.1 document from a collection tree. Paths come from
+   * request URLs, schemas are inferred from saved bodies and stored responses.
+   * Requests the document cannot hold are listed in `skipped`.
+   */
+  static generateDocument(
+    rootId: string,
+    collections: Collection[],
+    requests: Request[],
+    responses: Response[] = [],
+    environmentVariables: Record<string, string> = {}
+  ): { document: any; skipped: string[] } {
+    const root = collections.find(c => c.id === rootId);
+    if (!root) {
+      throw new Error('Collection not found');
+    }
+
+    const document: any = {
+      openapi: '3.1.0',
+      info: { title: root.name, version: '1.0.0', ...(root.description ? { description: root.description } : {}) },
+      servers: [],
+      tags: [],
+      paths: {},
+      components: { securitySchemes: {} }
+    };
+
+    // Variables fill in server URLs and path parameter examples
+    const variables = { ...environmentVariables, ...root.variables };
+    const operationIds = new Set<string>();
+    const skipped: string[] = [];
+    const rootSecurity = this.toSecurityRequirement(root.auth, document);
+    if (rootSecurity) {
+      document.security = rootSecurity;
+    }
+
+    const visit = (collection: Collection, tag: string | undefined, inheritedAuth: Request['auth']) => {
+      const auth = collection.auth || inheritedAuth;
+
+      RunEngine.getChildren(collection.id, collections, requests).forEach(({ folder, request }) => {
+        if (folder) {
+          document.tags.push({ name: folder.name, ...(folder.description ? { description: folder.description } : {}) });
+          visit(folder, folder.name, auth);
+          return;
+        }
+        const added = this.addOperation(document, request, tag, request.auth || auth, root.auth, variables, operationIds,
+          responses.filter(response => response.requestId === request.id));
+        if (!added) {
+          skipped.push(`${request.name}: another request already describes ${request.method} ${this.splitUrl(request.url, variables).path}`);
+        }
+      });
+    };
+    visit(root, undefined, undefined);
+
+    // Only keep tags that operations refer to
+    const usedTags = new Set(Object.values<any>(document.paths).flatMap(item => Object.values<any>(item).flatMap(op => op.tags || [])));
+    document.tags = document.tags.filter((tag: any) => usedTags.has(tag.name));
+    ['servers', 'tags'].forEach(key => {
+      if (document[key].length === 0) delete document[key];
+    });
+    if (Object.keys(document.components.securitySchemes).length === 0) {
+      delete document.components;
+    }
+
+    return { document, skipped };
+  }
+
+  /**
+   * Load a collection from the database and render it as JSON or YAML.
+   * The environment, if given, supplies defaults for server variables.
+   */
+  static async exportCollection(
+    collectionId: string,
+    format: OpenApiFormat,
+    environmentId?: string
+  ): Promise<{ fileName: string; content: string; skipped: string[] }> {
+    const { db } = await import('../database');
+    const [collections, requests, responses, environment] = await Promise.all([
+      db.collections.toArray(),
+      db.requests.toArray(),
+      db.responses.toArray(),
+      environmentId ? db.environments.get(environmentId) : undefined
+    ]);
+
+    const { document, skipped } = this.generateDocument(collectionId, collections, requests, responses, environment?.variables);
+    const baseName = document.info.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    return {
+      fileName: `${baseName}.openapi.${format}`,
+      content: format === 'yaml' ? dumpYaml(document, { noRefs: true, lineWidth: -1 }) : JSON.stringify(document, null, 2),
+      skipped
+    };
+  }
+
+  private static addOperation(
+    document: any,
+    request: Request,
+    tag: string | undefined,
+    auth: Request['auth'],
+    rootAuth: Request['auth'],
+    variables: Record<string, string>,
+    operationIds: Set<string>,
+    responses: Response[]
+  ): boolean {
+    const { server, path, query } = this.splitUrl(request.url, variables);
+    if (server && !document.servers.some((s: any) => s.url === server.url)) {
+      document.servers.push(server);
+    }
+
+    const method = request.method.toLowerCase();
+    const pathItem = document.paths[path] || (document.paths[path] = {});
+    if (pathItem[method]) {
+      // Two requests for the same operation; the first one describes it
+      return false;
+    }
+
+    const parameters: any[] = [];
+    const addParameter = (name: string, location: string, value: string, required: boolean) => {
+      if (parameters.some(p => p.name === name && p.in === location)) return;
+      const example = this.parseScalar(value);
+      parameters.push({
+        name,
+        in: location,
+        required,
+        schema: this.inferSchema(example),
+        ...(value ? { example } : {})
+      });
+    };
+
+    [...path.matchAll(/\{([^}]+)\}/g)].forEach(([, name]) => addParameter(name, 'path', variables[name] ?? '', true));
+    Object.entries({ ...query, ...request.params }).forEach(([name, value]) => addParameter(name, 'query', value, true));
+    Object.entries(request.disabledParams || {}).forEach(([name, value]) => addParameter(name, 'query', value, false));
+
+    const contentType = Object.entries(request.headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+    Object.entries(request.headers)
+      .filter(([name]) => !['content-type', 'authorization'].includes(name.toLowerCase()))
+      .forEach(([name, value]) => addParameter(name, 'header', value, true));
+    Object.entries(request.disabledHeaders || {})
+      .filter(([name]) => !['content-type', 'authorization'].includes(name.toLowerCase()))
+      .forEach(([name, value]) => addParameter(name, 'header', value, false));
+
+    const operation: any = {
+      ...(tag ? { tags: [tag] } : {}),
+      summary: request.name,
+      operationId: this.uniqueOperationId(request.name, operationIds),
+      ...(request.description ? { description: request.description } : {}),
+      ...(parameters.length > 0 ? { parameters } : {})
+    };
+
+    const requestBody = this.toRequestBody(request, contentType);
+    if (requestBody) {
+      operation.requestBody = requestBody;
+    }
+
+    // Operation security is only written where it differs from the document default
+    if (JSON.stringify(auth) !== JSON.stringify(rootAuth)) {
+      operation.security = this.toSecurityRequirement(auth, document) || [];
+    }
+
+    const operationResponses = this.toResponses(responses);
+    if (operationResponses) {
+      operation.responses = operationResponses;
+    }
+
+    pathItem[method] = operation;
+    return true;
+  }
+
+  /**
+   * Split a request URL into a server and a templated path. A leading
+   * {{variable}} becomes a server variable so the document stays portable.
+   */
+  static splitUrl(url: string, variables: Record<string, string>): {
+    server?: any;
+    path: string;
+    query: Record<string, string>;
+  } {
+    // A stray % (as in ?q=100%) is kept as typed rather than failing the export
+    const decode = (text: string) => {
+      try {
+        return decodeURIComponent(text);
+      } catch {
+        return text;
+      }
+    };
+    const [base, queryString = ''] = url.split('?');
+    const query = Object.fromEntries(
+      queryString.split('&').filter(pair => pair).map(pair => {
+        const [key, ...value] = pair.split('=');
+        return [decode(key), decode(value.join('='))];
+      })
+    );
+
+    let server: any;
+    let path = base;
+    const variableMatch = base.match(/^\{\{([^}]+)\}\}/);
+    const originMatch = base.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i);
+    if (variableMatch) {
+      const name = variableMatch[1].trim();
+      server = { url: `{${name}}`, variables: { [name]: { default: variables[name] ?? '' } } };
+      path = base.slice(variableMatch[0].length);
+    } else if (originMatch) {
+      server = { url: originMatch[0] };
+      path = base.slice(originMatch[0].length);
+    }
+
+    path = path
+      .replace(/\{\{\s*([^}]+?)\s*\}\}/g, '{$1}')
+      .replace(/\/:([A-Za-z_][\w]*)/g, '/{$1}');
+    return { server, path: path.startsWith('/') ? path : `/${path}`, query };
+  }
+
+  private static toRequestBody(request: Request, contentType?: string): any {
+    if (!request.body?.trim()) {
+      return undefined;
+    }
+
+    if (request.bodyType !== 'raw') {
+      const properties = Object.fromEntries(
+        HttpService.formFields(request.body).map(([key, value]) => [key, { type: 'string', example: value }])
+      );
+      return {
+        content: {
+          [request.bodyType === 'form-data' ? 'multipart/form-data' : 'application/x-www-form-urlencoded']: {
+            schema: { type: 'object', properties }
+          }
+        }
+      };
+    }
+
+    const json = this.tryParseJson(request.body);
+    const type = contentType || (json !== undefined ? 'application/json' : 'text/plain');
+    return {
+      content: {
+        [type]: json !== undefined
+          ? { schema: this.inferSchema(json), example: json }
+          : { schema: { type: 'string' }, example: request.body }
+      }
+    };
+  }
+
+  /**
+   * One response per status code; samples with the same status refine the schema
+   */
+  private static toResponses(responses: Response[]): any {
+    if (responses.length === 0) {
+      return undefined;
+    }
+
+    const byStatus: Record<string, any> = {};
+    responses.forEach(response => {
+      const code = String(response.status || 'default');
+      const contentType = (Object.entries(response.headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] || '')
+        .split(';')[0].trim();
+      const json = this.tryParseJson(response.body);
+      const type = contentType || (json !== undefined ? 'application/json' : 'text/plain');
+      const schema = json !== undefined ? this.inferSchema(json) : { type: 'string' };
+
+      const entry = byStatus[code] || (byStatus[code] = { description: response.statusText || response.name || 'Response' });
+      if (!response.body) return;
+
+      entry.content = entry.content || {};
+      const media = entry.content[type];
+      entry.content[type] = media
+        ? { ...media, schema: this.mergeSchemas(media.schema, schema) }
+        : { schema, example: json ?? response.body };
+    });
+    return byStatus;
+  }
+
+  /**
+   * Register a security scheme for an auth setting and return the requirement
+   */
+  private static toSecurityRequirement(auth: Request['auth'], document: any): any[] | undefined {
+    if (!auth || auth.type === 'none') {
+      return undefined;
+    }
+
+    const schemes = document.components.securitySchemes;
+    let name: string;
+    switch (auth.type) {
+      case 'bearer':
+        name = 'bearerAuth';
+        schemes[name] = { type: 'http', scheme: 'bearer' };
+        break;
+      case 'basic':
+        name = 'basicAuth';
+        schemes[name] = { type: 'http', scheme: 'basic' };
+        break;
+      case 'api-key':
+        name = auth.key && auth.key.toLowerCase() !== 'x-api-key'
+          ? `${auth.key.replace(/[^A-Za-z0-9]/g, '')}ApiKey`
+          : 'apiKeyAuth';
+        schemes[name] = { type: 'apiKey', in: 'header', name: auth.key || 'X-API-Key' };
+        break;
+    }
+    return [{ [name]: [] }];
+  }
+
+  /**
+   * Infer a JSON schema from a sample value
+   */
+  static inferSchema(value: unknown): any {
+    if (value === null) return { type: 'null' };
+    if (Array.isArray(value)) {
+      const items = value.map(item => this.inferSchema(item)).reduce((a, b) => this.mergeSchemas(a, b), undefined);
+      return items ? { type: 'array', items } : { type: 'array' };
+    }
+
+    switch (typeof value) {
+      case 'object': {
+        const entries = Object.entries(value as Record<string, unknown>);
+        return {
+          type: 'object',
+          properties: Object.fromEntries(entries.map(([key, item]) => [key, this.inferSchema(item)])),
+          ...(entries.length > 0 ? { required: entries.map(([key]) => key) } : {})
+        };
+      }
+      case 'number':
+        return { type: Number.isInteger(value) ? 'integer' : 'number' };
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'string': {
+        const format = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) ? 'date-time'
+          : /^\d{4}-\d{2}-\d{2}$/.test(value) ? 'date'
+          : /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value) ? 'uuid'
+          : /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value) ? 'email'
+          : /^https?:\/\//.test(value) ? 'uri'
+          : undefined;
+        return format ? { type: 'string', format } : { type: 'string' };
+      }
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Combine two inferred schemas: object properties are united and only
+   * keys present in both stay required; differing types become a type list
+   */
+  static mergeSchemas(a: any, b: any): any {
+    if (!a) return b;
+    if (!b) return a;
+
+    const typesOf = (schema: any): string[] => (Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []);
+    const types = [...new Set([...typesOf(a), ...typesOf(b)])];
+    if (types.length !== 1) {
+      // integer widens to number; anything else becomes a list of types
+      const widened = types.includes('number') ? types.filter(type => type !== 'integer') : types;
+      const union: any = { type: widened.length === 1 ? widened[0] : widened };
+      // Object and array members keep their properties and items within the union
+      (['object', 'array'] as const).forEach(type => {
+        const members = [a, b].filter(schema => typesOf(schema).includes(type)).map(schema => ({ ...schema, type }));
+        if (members.length > 0) {
+          const shape = this.mergeSchemas(members[0], members[1]);
+          delete shape.type;
+          Object.assign(union, shape);
+        }
+      });
+      return union;
+    }
+
+    if (types[0] === 'object') {
+      const properties: Record<string, any> = { ...a.properties };
+      Object.entries<any>(b.properties || {}).forEach(([key, schema]) => {
+        properties[key] = this.mergeSchemas(properties[key], schema);
+      });
+      const required = (a.required || []).filter((key: string) => (b.required || []).includes(key));
+      return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+    }
+    if (types[0] === 'array') {
+      const items = this.mergeSchemas(a.items, b.items);
+      return items ? { type: 'array', items } : { type: 'array' };
+    }
+    return a.format === b.format ? a : { type: types[0] };
+  }
+
+  static uniqueOperationId(name: string, used: Set<string>): string {
+    // Accents are split off and dropped so that letters like ü keep their base letter
+    const words = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').filter(word => word)
+      // Upper-case words such as HTTP methods are treated as ordinary words
+      .map(word => (word === word.toUpperCase() ? word.toLowerCase() : word));
+    const base = words
+      .map((word, index) => (index === 0 ? word.charAt(0).toLowerCase() : word.charAt(0).toUpperCase()) + word.slice(1))
+      .join('') || 'operation';
+
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix++) {
+      id = `${base}${suffix}`;
+    }
+    used.add(id);
+    return id;
+  }
+
+  static parseScalar(value: string): unknown {
+    if (/^-?\d+$/.test(value)) return Number(value);
+    if (/^-?\d*\.\d+$/.test(value)) return Number(value);
+    if (value === 'true' || value === 'false') return value === 'true';
+    return value;
+  }
+
+  static tryParseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
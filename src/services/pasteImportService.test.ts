@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { RequestConfig } from '../types';
+import { CodeGenService } from './codeGenService';
+import { PasteImportService } from './pasteImportService';
+
+const FETCH = `fetch("https://api.example.com/users?page=2", {
+  "headers": {
+    "accept": "application/json",
+    "authorization": "Bearer abc",
+    "content-type": "application/json"
+  },
+  "referrer": "https://app.example.com/",
+  "body": "{\\"name\\":\\"Ann\\"}",
+  "method": "POST",
+  "mode": "cors",
+  "credentials": "include"
+});`;
+
+const POWERSHELL = `$session = New-Object Microsoft.PowerShell.Commands.WebRequestSession
+$session.UserAgent = "Mozilla/5.0"
+$session.Cookies.Add((New-Object System.Net.Cookie("sid", "x1", "/", "api.example.com")))
+Invoke-WebRequest -UseBasicParsing -Uri "https://api.example.com/users?page=2" \`
+-Method "PUT" \`
+-WebSession $session \`
+-Headers @{
+"authority"="api.example.com"
+  "accept"="application/json"
+  "x-note"="it's \`"quoted\`""
+} \`
+-ContentType "application/json" \`
+-Body "{\`"name\`":\`"Ann\`"}"`;
+
+describe('PasteImportService.detect', () => {
+  it('recognises each format', () => {
+    expect(PasteImportService.detect('curl https://api.example.com')).toBe('curl');
+    expect(PasteImportService.detect(FETCH)).toBe('fetch');
+    expect(PasteImportService.detect(POWERSHELL)).toBe('powershell');
+    expect(PasteImportService.detect('http POST api.example.com name=Ann')).toBe('httpie');
+    expect(PasteImportService.detect('GET https://api.example.com')).toBeNull();
+  });
+});
+
+describe('PasteImportService.parse', () => {
+  it('reads "Copy as fetch"', () => {
+    const parsed = PasteImportService.parse(FETCH);
+
+    expect(parsed?.request).toMatchObject({
+      method: 'POST',
+      url: 'https://api.example.com/users',
+      params: { page: '2' },
+      headers: { accept: 'application/json', 'content-type': 'application/json', Referer: 'https://app.example.com/' },
+      body: '{"name":"Ann"}',
+      auth: { type: 'bearer', token: 'abc' }
+    });
+    expect(parsed?.ignored).toEqual(['credentials: "include" (cookies are sent by the browser, not copied)']);
+  });
+
+  it('reads "Copy as PowerShell" with its web session', () => {
+    const parsed = PasteImportService.parse(POWERSHELL);
+
+    expect(parsed?.request).toMatchObject({
+      method: 'PUT',
+      url: 'https://api.example.com/users',
+      params: { page: '2' },
+      headers: {
+        'User-Agent': 'Mozilla/5.0',
+        Cookie: 'sid=x1',
+        accept: 'application/json',
+        'x-note': 'it\'s "quoted"',
+        'Content-Type': 'application/json'
+      },
+      body: '{"name":"Ann"}'
+    });
+    expect(parsed?.request.headers).not.toHaveProperty('authority');
+  });
+
+  it('reads HTTPie items', () => {
+    const parsed = PasteImportService.parse('https -a token:x -A bearer PATCH :8443/users/1 X-Trace:abc page==2 name=Ann age:=30 avatar@me.png');
+
+    expect(parsed?.request).toMatchObject({
+      method: 'PATCH',
+      url: 'https://localhost:8443/users/1',
+      params: { page: '2' },
+      headers: { 'X-Trace': 'abc', 'Content-Type': 'application/json' },
+      auth: { type: 'bearer', token: 'token' }
+    });
+    expect(JSON.parse(parsed!.request.body!)).toEqual({ name: 'Ann', age: 30 });
+    expect(parsed?.ignored).toEqual(['avatar@me.png (file contents cannot be read)']);
+  });
+});
+
+describe('HTTPie round trip', () => {
+  const request = (overrides: Partial<RequestConfig>): RequestConfig => ({
+    method: 'GET',
+    url: 'https://api.example.com/users',
+    headers: {},
+    params: {},
+    bodyType: 'raw',
+    ...overrides
+  });
+
+  it('parses a generated command back into the same request', () => {
+    const original = request({
+      method: 'PUT',
+      params: { q: 'a b&c' },
+      headers: { 'X-Odd:Name': '=starts with a separator', Accept: 'application/json' },
+      body: '{"quote":"it\'s"}',
+      auth: { type: 'basic', username: 'ann', password: 'p:ss' }
+    });
+
+    const parsed = PasteImportService.parse(CodeGenService.generateHttpie(original));
+
+    expect(parsed?.request).toMatchObject({
+      method: 'PUT',
+      url: original.url,
+      params: original.params,
+      headers: original.headers,
+      body: original.body,
+      auth: original.auth
+    });
+  });
+
+  it('keeps url-encoded and multipart fields', () => {
+    const fields = { name: 'Ann', note: '@not-a-file' };
+    const urlEncoded = PasteImportService.parse(CodeGenService.generateHttpie(request({
+      method: 'POST',
+      bodyType: 'x-www-form-urlencoded',
+      body: JSON.stringify(fields)
+    })));
+    const multipart = PasteImportService.parse(CodeGenService.generateHttpie(request({
+      method: 'POST',
+      bodyType: 'form-data',
+      body: JSON.stringify(fields)
+    })));
+
+    expect(urlEncoded?.request.bodyType).toBe('x-www-form-urlencoded');
+    expect(JSON.parse(urlEncoded!.request.body!)).toEqual(fields);
+    expect(multipart?.request.bodyType).toBe('form-data');
+    expect(JSON.parse(multipart!.request.body!)).toEqual(fields);
+  });
+});
@@ -0,0 +1,551 @@
+import type { HttpMethod, ParsedCommand, RequestConfig } from '../types';
+import { CurlService } from './curlService';
+
+export type PasteFormat = 'curl' | 'fetch' | 'powershell' | 'httpie';
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Chrome lists HTTP/2 pseudo headers without their leading colon in PowerShell snippets
+const PSEUDO_HEADERS = ['authority', 'method', 'path', 'scheme'];
+
+/**
+ * Recognises requests copied as cURL, fetch, Node.js fetch, PowerShell or
+ * HTTPie and converts them into request configs
+ */
+export class PasteImportService {
+  static detect(text: string): PasteFormat | null {
+    const trimmed = text.trim();
+    if (/^(curl|curl\.exe)\s/m.test(trimmed)) return 'curl';
+    if (/^(await\s+)?fetch\s*\(/.test(trimmed)) return 'fetch';
+    if (/(^|\n)\s*(Invoke-WebRequest|Invoke-RestMethod|iwr|irm)\s/i.test(trimmed)) return 'powershell';
+    if (/^(https?|xh|xhs)\s+\S/.test(trimmed)) return 'httpie';
+    return null;
+  }
+
+  /**
+   * Parse every command in the text; all commands must be in the same format
+   */
+  static parseAll(text: string): ParsedCommand[] {
+    switch (this.detect(text)) {
+      case 'curl':
+        return CurlService.parseAll(text);
+      case 'fetch':
+        return this.splitOn(text, /(?=^(?:await\s+)?fetch\s*\()/m).map(part => this.parseFetch(part));
+      case 'powershell':
+        return [this.parsePowerShell(text)];
+      case 'httpie':
+        return CurlService.splitCommands(text)
+          .filter(words => /^(https?|xhs?)$/.test(words[0]))
+          .map(words => this.parseHttpie(words));
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Parse a single pasted command, or return null if the text is not one
+   */
+  static parse(text: string): ParsedCommand | null {
+    return this.parseAll(text)[0] ?? null;
+  }
+
+  private static splitOn(text: string, pattern: RegExp): string[] {
+    return text.split(pattern).map(part => part.trim()).filter(part => part);
+  }
+
+  /**
+   * `fetch(url, init)` as produced by "Copy as fetch" and "Copy as Node.js fetch"
+   */
+  private static parseFetch(text: string): ParsedCommand {
+    const reader = new LiteralReader(text, text.indexOf('(') + 1);
+    const url = String(reader.readValue() ?? '');
+    const init = reader.skipComma() ? reader.readValue() : undefined;
+    const options: Record<string, any> = init && typeof init === 'object' ? init as Record<string, any> : {};
+    const ignored: string[] = [];
+
+    const headers: Record<string, string> = {};
+    const rawHeaders = options.headers;
+    if (Array.isArray(rawHeaders)) {
+      rawHeaders.forEach(([key, value]: [string, unknown]) => {
+        headers[key] = String(value);
+      });
+    } else if (rawHeaders && typeof rawHeaders === 'object') {
+      Object.entries(rawHeaders).forEach(([key, value]) => {
+        headers[key] = String(value);
+      });
+    }
+    if (options.referrer && !Object.keys(headers).some(key => key.toLowerCase() === 'referer')) {
+      headers.Referer = String(options.referrer);
+    }
+
+    Object.keys(options)
+      .filter(key => !['headers', 'body', 'method', 'referrer', 'referrerPolicy', 'mode', 'credentials'].includes(key))
+      .forEach(key => ignored.push(key));
+    if (options.credentials === 'include') {
+      ignored.push('credentials: "include" (cookies are sent by the browser, not copied)');
+    }
+
+    const body = options.body === null || options.body === undefined ? undefined : String(options.body);
+    return this.buildCommand(url, String(options.method || (body ? 'POST' : 'GET')), headers, body, ignored);
+  }
+
+  /**
+   * Invoke-WebRequest / Invoke-RestMethod with -Uri, -Method, -Headers,
+   * -ContentType, -Body and a WebSession carrying the user agent and cookies
+   */
+  private static parsePowerShell(text: string): ParsedCommand {
+    const tokens = tokenizePowerShell(text);
+    const headers: Record<string, string> = {};
+    const cookies: string[] = [];
+    const ignored: string[] = [];
+    let url = '';
+    let method = '';
+    let body: string | undefined;
+
+    // Session setup lines come before the Invoke call
+    const userAgent = text.match(/\$\w+\.UserAgent\s*=\s*("(?:[^"`]|`.)*"|'(?:[^']|'')*')/);
+    if (userAgent) {
+      headers['User-Agent'] = readPowerShellString(userAgent[1]);
+    }
+    for (const match of text.matchAll(/System\.Net\.Cookie\(\s*("(?:[^"`]|`.)*"|'(?:[^']|'')*')\s*,\s*("(?:[^"`]|`.)*"|'(?:[^']|'')*')/g)) {
+      cookies.push(`${readPowerShellString(match[1])}=${readPowerShellString(match[2])}`);
+    }
+
+    const start = tokens.findIndex(token => /^(Invoke-WebRequest|Invoke-RestMethod|iwr|irm)$/i.test(String(token)));
+    for (let i = start + 1; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (typeof token !== 'string' || !token.startsWith('-')) {
+        if (!url && typeof token === 'string') url = token;
+        continue;
+      }
+
+      const name = token.toLowerCase();
+      const value = tokens[i + 1];
+      const takesValue = !['-usebasicparsing', '-usedefaultcredentials', '-skipcertificatecheck', '-disablekeepalive'].includes(name);
+      if (takesValue) i++;
+
+      switch (name) {
+        case '-uri':
+          url = String(value ?? '');
+          break;
+        case '-method':
+          method = String(value ?? '');
+          break;
+        case '-headers':
+          if (value && typeof value === 'object') {
+            Object.entries(value).forEach(([key, headerValue]) => {
+              if (!PSEUDO_HEADERS.includes(key.toLowerCase())) headers[key] = headerValue;
+            });
+          }
+          break;
+        case '-contenttype':
+          headers['Content-Type'] = String(value ?? '');
+          break;
+        case '-useragent':
+          headers['User-Agent'] = String(value ?? '');
+          break;
+        case '-body':
+          body = typeof value === 'string' ? value : undefined;
+          break;
+        case '-websession':
+          break;
+        case '-usebasicparsing':
+          break;
+        default:
+          ignored.push(takesValue && typeof value === 'string' ? `${token} ${value}` : token);
+      }
+    }
+
+    if (cookies.length > 0) {
+      headers.Cookie = cookies.join('; ');
+    }
+    return this.buildCommand(url, method || (body ? 'POST' : 'GET'), headers, body, ignored);
+  }
+
+  /**
+   * `http [flags] [METHOD] URL [items]` where items are `Header:value`,
+   * `param==value`, `field=value` and `field:=json`
+   */
+  private static parseHttpie(words: string[]): ParsedCommand {
+    const command = words[0];
+    const ignored: string[] = [];
+    const headers: Record<string, string> = {};
+    const query: Record<string, string> = {};
+    const fields: Record<string, unknown> = {};
+    const positional: string[] = [];
+    let form = false;
+    let auth: RequestConfig['auth'];
+    let authType = 'basic';
+    let rawBody: string | undefined;
+
+    for (let i = 1; i < words.length; i++) {
+      const word = words[i];
+      if (!word.startsWith('-') || word === '-') {
+        positional.push(word);
+        continue;
+      }
+
+      const [flag, inlineValue] = word.startsWith('--') && word.includes('=')
+        ? [word.slice(0, word.indexOf('=')), word.slice(word.indexOf('=') + 1)]
+        : [word, undefined];
+      const takeValue = () => inlineValue ?? words[++i] ?? '';
+
+      switch (flag) {
+        case '-f':
+        case '--form':
+        case '--multipart':
+          form = true;
+          break;
+        case '-j':
+        case '--json':
+          break;
+        case '-a':
+        case '--auth': {
+          const credentials = takeValue();
+          const separator = credentials.indexOf(':');
+          auth = separator >= 0
+            ? { type: 'basic', username: credentials.slice(0, separator), password: credentials.slice(separator + 1) }
+            : { type: 'basic', username: credentials, password: '' };
+          break;
+        }
+        case '-A':
+        case '--auth-type':
+          authType = takeValue();
+          break;
+        case '--raw':
+          rawBody = takeValue();
+          break;
+        default:
+          // Flags with a value we have no use for
+          if (['--verify', '--timeout', '--cert', '--cert-key', '--proxy', '--output', '-o', '--session', '--print', '-p',
+            '--max-redirects', '--ssl', '--ciphers', '--pretty', '--style', '-s', '--format-options', '--boundary'].includes(flag)) {
+            ignored.push(`${flag} ${takeValue()}`);
+          } else {
+            ignored.push(word);
+          }
+      }
+    }
+
+    if (auth && authType === 'bearer') {
+      auth = { type: 'bearer', token: auth.username };
+    }
+
+    const hasMethod = positional.length > 1 && METHODS.includes(positional[0].toUpperCase() as HttpMethod);
+    const method = hasMethod ? positional.shift()!.toUpperCase() : undefined;
+    const url = this.expandHttpieUrl(positional.shift() || '', command.endsWith('s'));
+
+    positional.forEach(item => {
+      // The first separator in the item decides its meaning
+      const match = item.match(/^((?:\\.|[^:=@\\])+?)(:=@|==|:=|=@|@|=|:)(.*)$/s);
+      if (!match) {
+        ignored.push(item);
+        return;
+      }
+      const [, rawKey, separator, rawValue] = match;
+      const key = rawKey.replace(/\\(.)/g, '$1');
+      // HTTPie only unescapes separator characters, wherever they are
+      const value = rawValue.replace(/\\([:=@;])/g, '$1');
+      switch (separator) {
+        case ':':
+          headers[key] = value;
+          break;
+        case '==':
+          query[key] = value;
+          break;
+        case '=':
+          fields[key] = value;
+          break;
+        case ':=':
+          try {
+            fields[key] = JSON.parse(value);
+          } catch {
+            ignored.push(`${item} (invalid JSON)`);
+          }
+          break;
+        default:
+          ignored.push(`${item} (file contents cannot be read)`);
+      }
+    });
+
+    let body = rawBody;
+    let bodyType: RequestConfig['bodyType'] = 'raw';
+    if (body === undefined && Object.keys(fields).length > 0) {
+      if (form) {
+        bodyType = words.includes('--multipart') ? 'form-data' : 'x-www-form-urlencoded';
+        body = JSON.stringify(Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, String(value)])), null, 2);
+      } else {
+        body = JSON.stringify(fields, null, 2);
+        headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+      }
+    }
+
+    const parsed = this.buildCommand(url, method || (body !== undefined ? 'POST' : 'GET'), headers, body, ignored);
+    Object.assign(parsed.request.params, query);
+    parsed.request.auth = auth;
+    if (bodyType !== 'raw') parsed.request.bodyType = bodyType;
+    return parsed;
+  }
+
+  /**
+   * HTTPie accepts `:3000/path` for localhost and omits the scheme
+   */
+  private static expandHttpieUrl(url: string, https: boolean): string {
+    if (url.startsWith(':')) {
+      return `${https ? 'https' : 'http'}://localhost${url.startsWith(':/') ? url.slice(1) : url}`;
+    }
+    if (url && !/^[a-z][a-z0-9+.-]*:\/\//i.test(url) && !url.startsWith('{{')) {
+      return `${https ? 'https' : 'http'}://${url}`;
+    }
+    return url;
+  }
+
+  /**
+   * Shared tail of every parser: split the query off the URL, turn an
+   * Authorization header into auth and recognise urlencoded bodies
+   */
+  private static buildCommand(
+    rawUrl: string,
+    rawMethod: string,
+    headers: Record<string, string>,
+    body: string | undefined,
+    ignored: string[]
+  ): ParsedCommand {
+    let method = rawMethod.toUpperCase() as HttpMethod;
+    if (!METHODS.includes(method)) {
+      ignored.push(`method ${rawMethod} (unsupported)`);
+      method = 'GET';
+    }
+
+    const [url, ...queryParts] = rawUrl.split('?');
+    const params: Record<string, string> = {};
+    new URLSearchParams(queryParts.join('?')).forEach((value, key) => {
+      params[key] = value;
+    });
+
+    let auth: RequestConfig['auth'];
+    const authHeader = Object.keys(headers).find(key => key.toLowerCase() === 'authorization');
+    const bearer = authHeader && headers[authHeader].match(/^Bearer\s+(.+)$/i);
+    if (authHeader && bearer) {
+      auth = { type: 'bearer', token: bearer[1] };
+      delete headers[authHeader];
+    }
+
+    let bodyType: RequestConfig['bodyType'] = 'raw';
+    const contentType = Object.entries(headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1] || '';
+    if (body && contentType.includes('application/x-www-form-urlencoded')) {
+      bodyType = 'x-www-form-urlencoded';
+      body = JSON.stringify(Object.fromEntries(new URLSearchParams(body)), null, 2);
+    }
+
+    return {
+      name: url || 'Imported request',
+      request: { method, url, headers, params, body, bodyType, auth },
+      ignored
+    };
+  }
+}
+
+/**
+ * Reads JavaScript literals: strings, numbers, booleans, null, objects and
+ * arrays, plus `JSON.stringify(...)` around a literal
+ */
+class LiteralReader {
+  constructor(private text: string, private position: number) {}
+
+  readValue(): unknown {
+    this.skipSpace();
+    const char = this.text[this.position];
+
+    if (char === '"' || char === "'" || char === '`') return this.readString(char);
+    if (char === '{') return this.readObject();
+    if (char === '[') return this.readArray();
+
+    const word = this.text.slice(this.position).match(/^[\w$.]+/)?.[0] || '';
+    this.position += word.length;
+    switch (word) {
+      case 'true': return true;
+      case 'false': return false;
+      case 'null': return null;
+      case 'undefined': return undefined;
+      case 'JSON.stringify': {
+        this.expect('(');
+        const value = this.readValue();
+        this.skipComma();
+        this.skipTo(')');
+        return JSON.stringify(value);
+      }
+      default:
+        return word !== '' && !isNaN(Number(word)) ? Number(word) : undefined;
+    }
+  }
+
+  skipComma(): boolean {
+    this.skipSpace();
+    if (this.text[this.position] === ',') {
+      this.position++;
+      this.skipSpace();
+      return !/[)}\]]/.test(this.text[this.position] ?? ')');
+    }
+    return false;
+  }
+
+  private readString(quote: string): string {
+    let value = '';
+    for (this.position++; this.position < this.text.length && this.text[this.position] !== quote; this.position++) {
+      const char = this.text[this.position];
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+      const next = this.text[++this.position];
+      if (next === 'u') {
+        value += String.fromCharCode(parseInt(this.text.slice(this.position + 1, this.position + 5), 16));
+        this.position += 4;
+      } else if (next === 'x') {
+        value += String.fromCharCode(parseInt(this.text.slice(this.position + 1, this.position + 3), 16));
+        this.position += 2;
+      } else {
+        value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' } as Record<string, string>)[next] ?? next;
+      }
+    }
+    this.position++;
+    return value;
+  }
+
+  private readObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.position++;
+    this.skipSpace();
+    while (this.position < this.text.length && this.text[this.position] !== '}') {
+      const char = this.text[this.position];
+      const key = char === '"' || char === "'"
+        ? this.readString(char)
+        : this.text.slice(this.position).match(/^[\w$]+/)?.[0] || '';
+      if (char !== '"' && char !== "'") this.position += key.length;
+      if (!key) break;
+
+      this.expect(':');
+      result[key] = this.readValue();
+      if (!this.skipComma()) break;
+    }
+    this.skipTo('}');
+    return result;
+  }
+
+  private readArray(): unknown[] {
+    const result: unknown[] = [];
+    this.position++;
+    this.skipSpace();
+    while (this.position < this.text.length && this.text[this.position] !== ']') {
+      result.push(this.readValue());
+      if (!this.skipComma()) break;
+    }
+    this.skipTo(']');
+    return result;
+  }
+
+  private expect(char: string): void {
+    this.skipSpace();
+    if (this.text[this.position] === char) this.position++;
+  }
+
+  private skipTo(char: string): void {
+    this.skipSpace();
+    if (this.text[this.position] === char) this.position++;
+  }
+
+  private skipSpace(): void {
+    while (this.position < this.text.length) {
+      if (/\s/.test(this.text[this.position])) {
+        this.position++;
+      } else if (this.text.startsWith('//', this.position)) {
+        const end = this.text.indexOf('\n', this.position);
+        this.position = end === -1 ? this.text.length : end;
+      } else {
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Decode a PowerShell string literal: backtick escapes in double quotes,
+ * doubled quotes in single quotes
+ */
+const readPowerShellString = (literal: string): string => {
+  if (literal.startsWith("'")) {
+    return literal.slice(1, -1).replace(/''/g, "'");
+  }
+  return literal
+    .slice(1, -1)
+    .replace(/`(.)/g, (_, char: string) => ({ n: '\n', t: '\t', r: '\r', '0': '\0' } as Record<string, string>)[char] ?? char);
+};
+
+/**
+ * Split a PowerShell command into words and hashtables, joining lines
+ * continued with a trailing backtick
+ */
+const tokenizePowerShell = (text: string): (string | Record<string, string>)[] => {
+  const tokens: (string | Record<string, string>)[] = [];
+  let i = 0;
+
+  const readLiteral = (): string => {
+    const quote = text[i];
+    let j = i + 1;
+    while (j < text.length) {
+      if (quote === '"' && text[j] === '`') {
+        j += 2;
+      } else if (text[j] === quote && text[j + 1] === quote) {
+        j += 2;
+      } else if (text[j] === quote) {
+        break;
+      } else {
+        j++;
+      }
+    }
+    const literal = text.slice(i, j + 1);
+    i = j + 1;
+    return readPowerShellString(literal);
+  };
+
+  const readBare = (stop: RegExp): string => {
+    let word = '';
+    while (i < text.length && !stop.test(text[i])) {
+      word += text[i++];
+    }
+    return word;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '`' && /\r?\n/.test(text.slice(i + 1, i + 3))) {
+      i += text[i + 1] === '\r' ? 3 : 2;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"' || char === "'") {
+      tokens.push(readLiteral());
+    } else if (text.startsWith('@{', i)) {
+      i += 2;
+      const table: Record<string, string> = {};
+      while (i < text.length && text[i] !== '}') {
+        if (/[\s;`]/.test(text[i])) {
+          i++;
+          continue;
+        }
+        const key = text[i] === '"' || text[i] === "'" ? readLiteral() : readBare(/[\s=]/).trim();
+        while (/\s/.test(text[i] ?? '')) i++;
+        if (text[i] !== '=') break;
+        i++;
+        while (/\s/.test(text[i] ?? '')) i++;
+        table[key] = text[i] === '"' || text[i] === "'" ? readLiteral() : readBare(/[\s;}]/);
+      }
+      i++;
+      tokens.push(table);
+    } else {
+      tokens.push(readBare(/\s/));
+    }
+  }
+
+  return tokens;
+};
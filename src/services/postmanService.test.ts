@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Response } from '../database';
+import { outline, rootOutline, sampleWorkspace } from '../test/workspace';
+import { PostmanService } from './postmanService';
+
+const SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+describe('Postman round trip', () => {
+  it('imports an exported collection as the same tree', async () => {
+    const { collections, requests } = sampleWorkspace();
+
+    const imported = await PostmanService.importCollection(JSON.parse(PostmanService.exportToPostman('shop', collections, requests)));
+
+    expect(rootOutline(imported.collections, imported.requests)).toEqual(outline('shop', collections, requests));
+    expect(imported.summary.skipped).toEqual([]);
+  });
+
+  it('keeps saved examples', async () => {
+    const { collections, requests } = sampleWorkspace();
+    const example: Response = {
+      id: 'example',
+      requestId: 'health',
+      name: 'Healthy',
+      status: 200,
+      statusText: 'OK',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"ok":true}',
+      responseTime: 0,
+      responseSize: 11,
+      timestamp: new Date('2024-01-01T00:00:00Z')
+    };
+
+    const imported = await PostmanService.importCollection(JSON.parse(PostmanService.exportToPostman('shop', collections, requests, [example])));
+
+    expect(imported.responses).toMatchObject([{ name: 'Healthy', status: 200, headers: example.headers, body: example.body }]);
+    expect(imported.responses[0].requestId).toBe(imported.requests.find(request => request.name === 'Health')!.id);
+  });
+
+  it('writes imported path variables back as path variables', async () => {
+    const postman = {
+      info: { name: 'Posts', schema: SCHEMA },
+      item: [{
+        name: 'Get post',
+        request: {
+          method: 'GET',
+          url: { raw: 'https://api.example.com/users/:userId/posts/:postId', variable: [{ key: 'userId', value: '7' }, { key: 'postId', value: '' }] }
+        }
+      }]
+    };
+
+    const imported = await PostmanService.importCollection(postman);
+    const exported = JSON.parse(PostmanService.exportToPostman(imported.collections[0].id, imported.collections, imported.requests));
+    const reimported = await PostmanService.importCollection(exported);
+
+    expect(imported.requests[0].url).toBe('https://api.example.com/users/{{userId}}/posts/{{postId}}');
+    expect(exported.item[0].request.url).toMatchObject({
+      raw: 'https://api.example.com/users/:userId/posts/:postId',
+      path: ['users', ':userId', 'posts', ':postId'],
+      variable: [{ key: 'userId', value: '{{userId}}' }, { key: 'postId', value: '{{postId}}' }]
+    });
+    expect(reimported.requests[0].url).toBe(imported.requests[0].url);
+    expect(reimported.collections[0].variables).toEqual({ userId: '7', postId: '' });
+  });
+});
+
+describe('Postman environments', () => {
+  it('round-trips enabled, disabled and secret variables', () => {
+    const [environment] = sampleWorkspace().environments;
+
+    const set = PostmanService.parseVariableSet(JSON.parse(PostmanService.exportVariableSet(environment)));
+
+    expect(set).toMatchObject({
+      name: 'Staging',
+      variables: environment.variables,
+      disabledVariables: environment.disabledVariables,
+      secretKeys: environment.secretKeys
+    });
+  });
+});
@@ -1,287 +1,894 @@
-import type { Collection, Request } from '../database';
+import type { Collection, Environment, Request, Response } from '../database';
+import type { ImportResult } from '../types';
+import { HttpService } from './httpService';
+import { RedactionService } from './redactionService';
+import type { RedactionContext } from './redactionService';
+import { RunEngine } from './runEngine';
+import { v4 as uuidv4 } from 'uuid';
+
+const POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const METHODS: Request['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+export type PostmanVariableScope = 'environment' | 'globals';
+
+/**
+ * A parsed Postman environment or globals file, before it is saved
+ */
+export interface PostmanVariableSet {
+  name: string;
+  scope: PostmanVariableScope;
+  variables: Record<string, string>;
+  disabledVariables: Record<string, string>;
+  secretKeys: string[];
+}
+
+export interface EnvironmentImportPreview {
+  target?: Environment;
+  created: string[];
+  overwritten: string[];
+  unchanged: string[];
+}
+
+const decodeQueryComponent = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
 
 export class PostmanService {
   /**
-   * Import a Postman collection JSON and convert it to our app's format
+   * Import a Postman v2.1 collection JSON and convert it to our app's format.
+   * Folders become child collections; anything that cannot be represented is
+   * listed in the summary instead of being dropped silently.
    */
-  static async importCollection(postmanJson: any): Promise<{ collection: Collection; requests: Request[] }> {
-    try {
-      // Validate the collection structure
-      if (!postmanJson || !postmanJson.info) {
-        throw new Error('Invalid Postman collection format');
-      }
-
-      // Create our collection
-      const collection: Collection = {
-        id: Date.now().toString(),
-        name: postmanJson.info.name || 'Imported Collection',
-        description: typeof postmanJson.info.description === 'string' 
-          ? postmanJson.info.description 
-          : postmanJson.info.description?.content || '',
-        parentId: '',
-        order: 0,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+  static async importCollection(postmanJson: any): Promise<ImportResult> {
+    // Validate the collection structure
+    if (!postmanJson || !postmanJson.info || !Array.isArray(postmanJson.item)) {
+      throw new Error('Invalid Postman collection format');
+    }
 
-      const requests: Request[] = [];
-      
-      // Process all items in the collection
-      if (postmanJson.item && Array.isArray(postmanJson.item)) {
-        postmanJson.item.forEach((item: any) => {
-          if (item.request) {
-            const request = this.convertPostmanRequestToAppRequest(item, collection.id);
-            requests.push(request);
-          }
-        });
-      }
+    const result: ImportResult = {
+      collections: [],
+      requests: [],
+      responses: [],
+      environments: [],
+      summary: { collections: 0, requests: 0, examples: 0, variables: 0, skipped: [] }
+    };
 
-      return { collection, requests };
+    try {
+      const pathVariables: Record<string, string> = {};
+      const root = this.convertGroup(postmanJson, postmanJson.info.name || 'Imported Collection', undefined, 0, result, '', pathVariables);
+      root.description = this.readDescription(postmanJson.info.description);
+      // Collection variables win over path variable values of the same name
+      const variables = { ...pathVariables, ...this.readVariables(postmanJson.variable, root.name, result) };
+      root.variables = Object.keys(variables).length > 0 ? variables : undefined;
+      result.summary.variables = Object.keys(variables).length;
     } catch (error) {
       console.error('Error importing Postman collection:', error);
       throw new Error('Failed to import Postman collection. Please check the file format.');
     }
+
+    result.summary.collections = result.collections.length;
+    result.summary.requests = result.requests.length;
+    result.summary.examples = result.responses.length;
+    return result;
+  }
+
+  /**
+   * Convert the collection root or a folder, recursing into nested item groups
+   */
+  private static convertGroup(
+    group: any,
+    name: string,
+    parentId: string | undefined,
+    order: number,
+    result: ImportResult,
+    path: string,
+    pathVariables: Record<string, string>
+  ): Collection {
+    const collection: Collection = {
+      id: uuidv4(),
+      name,
+      description: this.readDescription(group.description),
+      parentId,
+      auth: this.convertAuth(group.auth, `${path}${name}`, result),
+      ...this.readEvents(group.event, `${path}${name}`, result),
+      order,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    result.collections.push(collection);
+
+    const itemPath = `${path}${name} / `;
+    // Folders and requests share one order so their interleaving survives
+    (group.item || []).forEach((item: any, order: number) => {
+      if (Array.isArray(item.item)) {
+        this.convertGroup(item, item.name || 'Folder', collection.id, order, result, itemPath, pathVariables);
+      } else if (item.request) {
+        const request = this.convertPostmanRequestToAppRequest(item, collection.id, order, result, itemPath, pathVariables);
+        result.requests.push(request);
+        this.convertExamples(item.response, request.id, result);
+      } else {
+        result.summary.skipped.push(`${itemPath}${item.name || 'Unnamed item'}: not a request or folder`);
+      }
+    });
+
+    return collection;
   }
 
   /**
    * Convert a Postman request to our app's request format
    */
-  private static convertPostmanRequestToAppRequest(item: any, collectionId: string): Request {
-    const postmanRequest = item.request!;
-    
+  private static convertPostmanRequestToAppRequest(
+    item: any,
+    collectionId: string,
+    order: number,
+    result: ImportResult,
+    path: string,
+    pathVariables: Record<string, string>
+  ): Request {
+    const itemName = `${path}${item.name || 'Unnamed Request'}`;
+    // A request may be given as a bare URL string
+    const postmanRequest = typeof item.request === 'string' ? { url: item.request } : item.request;
+
     // Extract headers
     const headers: Record<string, string> = {};
-    if (postmanRequest.headers) {
-      postmanRequest.headers.each((header: any) => {
-        if (header.key && header.value) {
-          headers[header.key] = header.value;
-        }
-      });
-    }
+    const disabledHeaders: Record<string, string> = {};
+    this.readKeyValues(postmanRequest.header).forEach(header => {
+      (header.disabled ? disabledHeaders : headers)[header.key] = header.value;
+    });
 
-    // Extract query parameters
-    const params: Record<string, string> = {};
-    if (postmanRequest.url && postmanRequest.url.query) {
-      postmanRequest.url.query.each((param: any) => {
-        if (param.key && param.value) {
-          params[param.key] = param.value;
-        }
-      });
-    }
+    // Extract URL and query parameters
+    const { url: rawUrl, params, disabledParams } = this.readUrl(postmanRequest.url);
+    const url = this.convertPathVariables(rawUrl, postmanRequest.url, itemName, pathVariables, result);
 
     // Extract body
-    let body = '';
-    let bodyType: 'raw' | 'form-data' | 'x-www-form-urlencoded' = 'raw';
-    
-    if (postmanRequest.body) {
-      if (postmanRequest.body.mode === 'raw') {
-        body = postmanRequest.body.raw || '';
-        bodyType = 'raw';
-      } else if (postmanRequest.body.mode === 'formdata') {
-        body = JSON.stringify(postmanRequest.body.formdata || []);
-        bodyType = 'form-data';
-      } else if (postmanRequest.body.mode === 'urlencoded') {
-        body = JSON.stringify(postmanRequest.body.urlencoded || []);
-        bodyType = 'x-www-form-urlencoded';
-      }
-    }
+    const { body, bodyType } = this.convertBody(postmanRequest.body, itemName, result);
 
-    // Extract authentication
-    let auth;
-    if (postmanRequest.auth) {
-      if (postmanRequest.auth.type === 'bearer') {
-        auth = {
-          type: 'bearer' as const,
-          token: (postmanRequest.auth as any).bearer?.[0]?.value || ''
-        };
-      } else if (postmanRequest.auth.type === 'basic') {
-        auth = {
-          type: 'basic' as const,
-          username: (postmanRequest.auth as any).basic?.[0]?.value || '',
-          password: (postmanRequest.auth as any).basic?.[1]?.value || ''
-        };
-      } else if (postmanRequest.auth.type === 'apikey') {
-        auth = {
-          type: 'api-key' as const,
-          key: (postmanRequest.auth as any).apikey?.[0]?.value || '',
-          value: (postmanRequest.auth as any).apikey?.[1]?.value || ''
-        };
-      }
+    const method = String(postmanRequest.method || 'GET').toUpperCase();
+    if (!METHODS.includes(method as Request['method'])) {
+      result.summary.skipped.push(`${itemName}: unsupported method ${method}, imported as GET`);
     }
 
     return {
-      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      id: uuidv4(),
       name: item.name || 'Unnamed Request',
-      method: (postmanRequest.method || 'GET').toUpperCase() as any,
-      url: postmanRequest.url?.toString() || '',
+      description: this.readDescription(postmanRequest.description),
+      method: METHODS.includes(method as Request['method']) ? method as Request['method'] : 'GET',
+      url,
       headers,
       params,
+      disabledHeaders: Object.keys(disabledHeaders).length > 0 ? disabledHeaders : undefined,
+      disabledParams: Object.keys(disabledParams).length > 0 ? disabledParams : undefined,
       body,
       bodyType,
-      auth,
+      auth: this.convertAuth(postmanRequest.auth, itemName, result),
+      ...this.readEvents(item.event, itemName, result),
       collectionId,
-      folderId: '',
-      order: 0,
+      order,
       createdAt: new Date(),
       updatedAt: new Date()
     };
   }
 
   /**
-   * Export our app's collections to Postman format
+   * Postman lists are arrays of { key, value, disabled }; older exports may use a header string
    */
-  static exportToPostman(collections: Collection[], requests: Request[]): string {
-    const postmanCollections: any[] = [];
-
-    collections.forEach(collection => {
-      const collectionRequests = requests.filter(req => req.collectionId === collection.id);
-      
-      const postmanCollection = {
-        info: {
-          name: collection.name,
-          description: {
-            content: collection.description || '',
-            type: 'text/plain'
-          },
-          schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
-        },
-        item: collectionRequests.map(request => this.convertAppRequestToPostmanItem(request))
-      };
+  private static readKeyValues(list: any): { key: string; value: string; disabled: boolean }[] {
+    if (typeof list === 'string') {
+      return list.split('\n')
+        .map(line => line.split(':'))
+        .filter(([key]) => key.trim())
+        .map(([key, ...rest]) => ({ key: key.trim(), value: rest.join(':').trim(), disabled: false }));
+    }
 
-      postmanCollections.push(postmanCollection);
-    });
+    if (!Array.isArray(list)) {
+      return [];
+    }
 
-    // If multiple collections, return as array, otherwise return single collection
-    if (postmanCollections.length === 1) {
-      return JSON.stringify(postmanCollections[0], null, 2);
+    return list
+      .filter((entry: any) => entry && entry.key)
+      .map((entry: any) => ({
+        key: String(entry.key),
+        value: entry.value === undefined || entry.value === null ? '' : String(entry.value),
+        disabled: Boolean(entry.disabled)
+      }));
+  }
+
+  private static readUrl(postmanUrl: any): {
+    url: string;
+    params: Record<string, string>;
+    disabledParams: Record<string, string>;
+  } {
+    const params: Record<string, string> = {};
+    const disabledParams: Record<string, string> = {};
+
+    if (!postmanUrl) {
+      return { url: '', params, disabledParams };
+    }
+
+    let raw: string;
+    let query: { key: string; value: string; disabled: boolean }[];
+
+    if (typeof postmanUrl === 'string') {
+      raw = postmanUrl;
+      query = this.parseQueryString(postmanUrl);
     } else {
-      return JSON.stringify(postmanCollections, null, 2);
+      raw = postmanUrl.raw || this.buildRawUrl(postmanUrl);
+      query = Array.isArray(postmanUrl.query)
+        ? this.readKeyValues(postmanUrl.query)
+        : this.parseQueryString(raw);
+    }
+
+    query.forEach(param => {
+      (param.disabled ? disabledParams : params)[param.key] = param.value;
+    });
+
+    // Query parameters are kept in params, so strip them from the stored URL
+    const queryIndex = raw.indexOf('?');
+    const url = queryIndex >= 0 ? raw.slice(0, queryIndex) : raw;
+
+    return { url, params, disabledParams };
+  }
+
+  /**
+   * Path variables (`/:id`) become {{id}} placeholders, with their values kept
+   * as collection variables. Requests giving the same name a different value are reported.
+   */
+  private static convertPathVariables(
+    url: string,
+    postmanUrl: any,
+    itemName: string,
+    pathVariables: Record<string, string>,
+    result: ImportResult
+  ): string {
+    const values = Object.fromEntries(
+      this.readKeyValues(postmanUrl && typeof postmanUrl === 'object' ? postmanUrl.variable : undefined)
+        .map(variable => [variable.key, variable.value])
+    );
+
+    return url.replace(/\/:([^/?#]+)/g, (_, name: string) => {
+      const value = values[name] ?? '';
+      // Our own exports give the variable its {{name}} placeholder, which resolves without a value
+      if (value === `{{${name}}}`) {
+        return `/{{${name}}}`;
+      }
+      if (!pathVariables[name]) {
+        pathVariables[name] = value;
+      } else if (value && pathVariables[name] !== value) {
+        result.summary.skipped.push(`${itemName}: path variable "${name}" uses the collection value "${pathVariables[name]}" instead of "${value}"`);
+      }
+      return `/{{${name}}}`;
+    });
+  }
+
+  private static parseQueryString(raw: string): { key: string; value: string; disabled: boolean }[] {
+    const queryIndex = raw.indexOf('?');
+    if (queryIndex < 0) {
+      return [];
+    }
+
+    return raw.slice(queryIndex + 1).split('#')[0].split('&')
+      .filter(pair => pair)
+      .map(pair => {
+        const [key, ...rest] = pair.split('=');
+        return { key: decodeQueryComponent(key), value: decodeQueryComponent(rest.join('=')), disabled: false };
+      });
+  }
+
+  private static buildRawUrl(postmanUrl: any): string {
+    const host = Array.isArray(postmanUrl.host) ? postmanUrl.host.join('.') : postmanUrl.host || '';
+    const path = Array.isArray(postmanUrl.path) ? postmanUrl.path.join('/') : postmanUrl.path || '';
+    const protocol = postmanUrl.protocol ? `${postmanUrl.protocol}://` : '';
+    const port = postmanUrl.port ? `:${postmanUrl.port}` : '';
+    return `${protocol}${host}${port}${path ? `/${path}` : ''}`;
+  }
+
+  private static convertBody(postmanBody: any, itemName: string, result: ImportResult): {
+    body: string;
+    bodyType: Request['bodyType'];
+  } {
+    if (!postmanBody || postmanBody.disabled) {
+      return { body: '', bodyType: 'raw' };
+    }
+
+    const toObject = (entries: any[], kind: string) => {
+      const values: Record<string, string> = {};
+      (entries || []).forEach((entry: any) => {
+        if (!entry || !entry.key) return;
+        if (entry.disabled) {
+          result.summary.skipped.push(`${itemName}: disabled ${kind} field "${entry.key}"`);
+        } else if (entry.type === 'file') {
+          result.summary.skipped.push(`${itemName}: file field "${entry.key}" in ${kind} body`);
+        } else {
+          values[entry.key] = entry.value === undefined ? '' : String(entry.value);
+        }
+      });
+      return JSON.stringify(values, null, 2);
+    };
+
+    switch (postmanBody.mode) {
+      case 'raw':
+        return { body: postmanBody.raw || '', bodyType: 'raw' };
+      case 'urlencoded':
+        return { body: toObject(postmanBody.urlencoded, 'urlencoded'), bodyType: 'x-www-form-urlencoded' };
+      case 'formdata':
+        return { body: toObject(postmanBody.formdata, 'form-data'), bodyType: 'form-data' };
+      case 'graphql':
+        result.summary.skipped.push(`${itemName}: GraphQL body imported as raw JSON`);
+        return {
+          body: JSON.stringify({
+            query: postmanBody.graphql?.query || '',
+            variables: this.parseJsonOrValue(postmanBody.graphql?.variables)
+          }, null, 2),
+          bodyType: 'raw'
+        };
+      default:
+        result.summary.skipped.push(`${itemName}: unsupported body mode "${postmanBody.mode}"`);
+        return { body: '', bodyType: 'raw' };
+    }
+  }
+
+  /**
+   * Convert Postman auth. Returns undefined when the item inherits auth from its parent.
+   */
+  private static convertAuth(postmanAuth: any, itemName: string, result: ImportResult): Request['auth'] {
+    if (!postmanAuth || postmanAuth.type === 'inherit') {
+      return undefined;
+    }
+
+    // v2.1 stores auth attributes as [{ key, value }], v2.0 as a plain object
+    const attribute = (key: string): string => {
+      const values = postmanAuth[postmanAuth.type];
+      if (Array.isArray(values)) {
+        const entry = values.find((item: any) => item.key === key);
+        return entry?.value === undefined ? '' : String(entry.value);
+      }
+      return values?.[key] === undefined ? '' : String(values[key]);
+    };
+
+    switch (postmanAuth.type) {
+      case 'noauth':
+        return { type: 'none' };
+      case 'bearer':
+        return { type: 'bearer', token: attribute('token') };
+      case 'basic':
+        return { type: 'basic', username: attribute('username'), password: attribute('password') };
+      case 'apikey':
+        if (attribute('in') === 'query') {
+          result.summary.skipped.push(`${itemName}: API key in query string imported as a header`);
+        }
+        return { type: 'api-key', key: attribute('key'), value: attribute('value') };
+      default:
+        result.summary.skipped.push(`${itemName}: unsupported auth type "${postmanAuth.type}"`);
+        return { type: 'none' };
+    }
+  }
+
+  private static readEvents(events: any, itemName: string, result: ImportResult): {
+    preRequestScript?: string;
+    testScript?: string;
+  } {
+    const scripts: { preRequestScript?: string; testScript?: string } = {};
+    if (!Array.isArray(events)) {
+      return scripts;
+    }
+
+    events.forEach((event: any) => {
+      const exec = event.script?.exec;
+      const source = Array.isArray(exec) ? exec.join('\n') : typeof exec === 'string' ? exec : '';
+      if (!source.trim()) return;
+
+      if (event.disabled) {
+        result.summary.skipped.push(`${itemName}: disabled ${event.listen} script`);
+      } else if (event.listen === 'prerequest') {
+        scripts.preRequestScript = source;
+      } else if (event.listen === 'test') {
+        scripts.testScript = source;
+      } else {
+        result.summary.skipped.push(`${itemName}: unsupported "${event.listen}" script`);
+      }
+    });
+
+    return scripts;
+  }
+
+  private static readVariables(variables: any, itemName: string, result: ImportResult): Record<string, string> | undefined {
+    if (!Array.isArray(variables) || variables.length === 0) {
+      return undefined;
+    }
+
+    const values: Record<string, string> = {};
+    variables.forEach((variable: any) => {
+      const key = variable.key || variable.id;
+      if (!key) return;
+      if (variable.disabled) {
+        result.summary.skipped.push(`${itemName}: disabled variable "${key}"`);
+        return;
+      }
+      values[key] = variable.value === undefined || variable.value === null
+        ? ''
+        : typeof variable.value === 'string' ? variable.value : JSON.stringify(variable.value);
+    });
+    return values;
+  }
+
+  /**
+   * Saved examples are stored as named responses of the request
+   */
+  private static convertExamples(examples: any, requestId: string, result: ImportResult): void {
+    if (!Array.isArray(examples)) {
+      return;
+    }
+
+    examples.forEach((example: any) => {
+      const headers: Record<string, string> = {};
+      this.readKeyValues(example.header).forEach(header => {
+        headers[header.key] = header.value;
+      });
+      const body = example.body || '';
+
+      result.responses.push({
+        id: uuidv4(),
+        requestId,
+        name: example.name || 'Example',
+        status: Number(example.code) || 0,
+        statusText: example.status || '',
+        headers,
+        body,
+        responseTime: Number(example.responseTime) || 0,
+        responseSize: new TextEncoder().encode(body).length,
+        timestamp: new Date()
+      });
+    });
+  }
+
+  private static readDescription(description: any): string | undefined {
+    if (typeof description === 'string') {
+      return description || undefined;
+    }
+    return description?.content || undefined;
+  }
+
+  private static parseJsonOrValue(value: any): any {
+    if (typeof value !== 'string') {
+      return value ?? {};
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Export a collection tree as one Postman v2.1 document. Folders, variables,
+   * auth, scripts and saved examples are written so a re-import is equivalent.
+   * With a redaction context, secrets are replaced by placeholders and
+   * collected in the context.
+   */
+  static exportToPostman(
+    rootId: string,
+    collections: Collection[],
+    requests: Request[],
+    responses: Response[] = [],
+    redaction?: RedactionContext
+  ): string {
+    if (redaction) {
+      collections = collections.map(collection => RedactionService.redactCollection(collection, redaction));
+      requests = requests.map(request => RedactionService.redactRequest(request, redaction));
+    }
+
+    const root = collections.find(c => c.id === rootId);
+    if (!root) {
+      throw new Error('Collection not found');
+    }
+
+    const postmanCollection: any = {
+      info: {
+        name: root.name,
+        description: root.description || '',
+        schema: POSTMAN_SCHEMA
+      },
+      item: this.convertChildrenToPostmanItems(root.id, collections, requests, responses)
+    };
+
+    if (root.variables && Object.keys(root.variables).length > 0) {
+      postmanCollection.variable = Object.entries(root.variables).map(([key, value]) => ({ key, value }));
+    }
+    this.applyGroupSettings(postmanCollection, root);
+
+    return JSON.stringify(postmanCollection, null, 2);
+  }
+
+  /**
+   * Load collections from the database and export each as its own v2.1 file
+   */
+  static async exportCollections(
+    collectionIds: string[],
+    redaction?: RedactionContext
+  ): Promise<{ fileName: string; content: string }[]> {
+    const { db } = await import('../database');
+    const [collections, requests, responses] = await Promise.all([
+      db.collections.toArray(),
+      db.requests.toArray(),
+      db.responses.toArray()
+    ]);
+
+    const usedNames = new Set<string>();
+    return collectionIds.map(id => {
+      const content = this.exportToPostman(id, collections, requests, responses, redaction);
+      const baseName = `${collections.find(c => c.id === id)!.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_collection`;
+
+      // Keep file names unique inside a zip
+      let fileName = `${baseName}.json`;
+      for (let suffix = 2; usedNames.has(fileName); suffix++) {
+        fileName = `${baseName}_${suffix}.json`;
+      }
+      usedNames.add(fileName);
+
+      return { fileName, content };
+    });
+  }
+
+  private static convertChildrenToPostmanItems(
+    parentId: string,
+    collections: Collection[],
+    requests: Request[],
+    responses: Response[]
+  ): any[] {
+    return RunEngine.getChildren(parentId, collections, requests).map(({ folder, request }) => request
+      ? this.convertAppRequestToPostmanItem(request, responses.filter(response => response.requestId === request.id && response.name))
+      : this.convertCollectionToPostmanFolder(folder, collections, requests, responses));
+  }
+
+  private static convertCollectionToPostmanFolder(
+    folder: Collection,
+    collections: Collection[],
+    requests: Request[],
+    responses: Response[]
+  ): any {
+    const postmanFolder: any = {
+      name: folder.name,
+      item: this.convertChildrenToPostmanItems(folder.id, collections, requests, responses)
+    };
+
+    if (folder.description) {
+      postmanFolder.description = folder.description;
+    }
+    this.applyGroupSettings(postmanFolder, folder);
+
+    return postmanFolder;
+  }
+
+  /**
+   * Auth and scripts are stored the same way on the collection and its folders
+   */
+  private static applyGroupSettings(target: any, collection: Collection): void {
+    const auth = this.convertAuthToPostman(collection.auth);
+    if (auth) {
+      target.auth = auth;
+    }
+
+    const events = this.convertScriptsToPostmanEvents(collection);
+    if (events.length > 0) {
+      target.event = events;
     }
   }
 
   /**
    * Convert our app's request to Postman item format
    */
-  private static convertAppRequestToPostmanItem(request: Request): any {
+  private static convertAppRequestToPostmanItem(request: Request, examples: Response[] = []): any {
+    const header = [
+      ...Object.entries(request.headers).map(([key, value]) => ({ key, value, type: 'text' })),
+      ...Object.entries(request.disabledHeaders || {}).map(([key, value]) => ({ key, value, type: 'text', disabled: true }))
+    ];
+
     const postmanRequest: any = {
       name: request.name,
       request: {
         method: request.method,
-        header: Object.entries(request.headers).map(([key, value]) => ({
-          key,
-          value,
-          type: 'text'
-        })),
-        url: {
-          raw: request.url,
-          protocol: this.extractProtocol(request.url),
-          host: this.extractHost(request.url),
-          path: this.extractPath(request.url),
-          query: Object.entries(request.params).map(([key, value]) => ({
-            key,
-            value
-          }))
-        }
+        header,
+        url: this.convertUrlToPostman(request)
       }
     };
 
-    // Add body if present
-    if (request.body) {
-      if (request.bodyType === 'raw') {
-        postmanRequest.request.body = {
-          mode: 'raw',
-          raw: request.body
-        };
-      } else if (request.bodyType === 'form-data') {
-        try {
-          const formData = JSON.parse(request.body);
-          postmanRequest.request.body = {
-            mode: 'formdata',
-            formdata: formData
-          };
-        } catch (e) {
-          postmanRequest.request.body = {
-            mode: 'raw',
-            raw: request.body
-          };
-        }
-      } else if (request.bodyType === 'x-www-form-urlencoded') {
-        try {
-          const urlEncoded = JSON.parse(request.body);
-          postmanRequest.request.body = {
-            mode: 'urlencoded',
-            urlencoded: urlEncoded
-          };
-        } catch (e) {
-          postmanRequest.request.body = {
-            mode: 'raw',
-            raw: request.body
-          };
-        }
+    if (request.description) {
+      postmanRequest.request.description = request.description;
+    }
+
+    const body = this.convertBodyToPostman(request);
+    if (body) {
+      postmanRequest.request.body = body;
+    }
+
+    // Requests without auth inherit from their folder or collection
+    const auth = this.convertAuthToPostman(request.auth);
+    if (auth) {
+      postmanRequest.request.auth = auth;
+    }
+
+    const events = this.convertScriptsToPostmanEvents(request);
+    if (events.length > 0) {
+      postmanRequest.event = events;
+    }
+
+    if (examples.length > 0) {
+      postmanRequest.response = examples.map(example => ({
+        name: example.name,
+        originalRequest: {
+          method: request.method,
+          header,
+          url: this.convertUrlToPostman(request)
+        },
+        status: example.statusText,
+        code: example.status,
+        header: Object.entries(example.headers).map(([key, value]) => ({ key, value })),
+        body: example.body
+      }));
+    }
+
+    return postmanRequest;
+  }
+
+  /**
+   * Build a Postman URL object. Works on templated URLs such as
+   * `{{baseUrl}}/users` that the URL constructor rejects. Path segments that
+   * are a whole {{placeholder}}, which is what imported `:id` path variables
+   * become, are written back as path variables resolving to the placeholder.
+   */
+  private static convertUrlToPostman(request: Request): any {
+    const query = [
+      ...Object.entries(request.params).map(([key, value]) => ({ key, value })),
+      ...Object.entries(request.disabledParams || {}).map(([key, value]) => ({ key, value, disabled: true }))
+    ];
+    const enabledQuery = Object.entries(request.params)
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+
+    const protocolMatch = request.url.match(/^([a-z][a-z0-9+.-]*):\/\//i);
+    const withoutProtocol = protocolMatch ? request.url.slice(protocolMatch[0].length) : request.url;
+    const [authority, ...segments] = withoutProtocol.split('/');
+    const portMatch = authority.match(/^(.*):(\d+)$/);
+    const hostname = portMatch ? portMatch[1] : authority;
+
+    const pathVariables: string[] = [];
+    const pathSegments = segments.map(segment => {
+      const name = segment.match(/^\{\{\s*([\w.-]+)\s*\}\}$/)?.[1];
+      if (!name) {
+        return segment;
       }
+      pathVariables.push(name);
+      return `:${name}`;
+    });
+    const rawUrl = [`${protocolMatch?.[0] ?? ''}${authority}`, ...pathSegments].join('/');
+
+    const url: any = {
+      raw: enabledQuery ? `${rawUrl}?${enabledQuery}` : rawUrl,
+      host: hostname.includes('{{') ? [hostname] : hostname.split('.').filter(part => part),
+      path: pathSegments.filter(segment => segment)
+    };
+
+    if (protocolMatch) {
+      url.protocol = protocolMatch[1];
+    }
+    if (portMatch) {
+      url.port = portMatch[2];
+    }
+    if (query.length > 0) {
+      url.query = query;
+    }
+    if (pathVariables.length > 0) {
+      url.variable = [...new Set(pathVariables)].map(name => ({ key: name, value: `{{${name}}}` }));
+    }
+
+    return url;
+  }
+
+  private static convertBodyToPostman(request: Request): any {
+    if (!request.body) {
+      return undefined;
+    }
+
+    if (request.bodyType === 'raw') {
+      return { mode: 'raw', raw: request.body };
+    }
+
+    const mode = request.bodyType === 'form-data' ? 'formdata' : 'urlencoded';
+    const fields = HttpService.formFields(request.body);
+    if (fields.length === 0) {
+      return { mode: 'raw', raw: request.body };
+    }
+
+    return {
+      mode,
+      [mode]: fields.map(([key, value]) => ({ key, value, type: 'text' }))
+    };
+  }
+
+  private static convertAuthToPostman(auth: Request['auth']): any {
+    if (!auth) {
+      return undefined;
     }
 
-    // Add authentication if present
-    if (request.auth) {
-      if (request.auth.type === 'bearer') {
-        postmanRequest.request.auth = {
+    switch (auth.type) {
+      case 'none':
+        return { type: 'noauth' };
+      case 'bearer':
+        return {
           type: 'bearer',
-          bearer: [{ key: 'token', value: request.auth.token || '', type: 'string' }]
+          bearer: [{ key: 'token', value: auth.token || '', type: 'string' }]
         };
-      } else if (request.auth.type === 'basic') {
-        postmanRequest.request.auth = {
+      case 'basic':
+        return {
           type: 'basic',
           basic: [
-            { key: 'username', value: request.auth.username || '', type: 'string' },
-            { key: 'password', value: request.auth.password || '', type: 'string' }
+            { key: 'username', value: auth.username || '', type: 'string' },
+            { key: 'password', value: auth.password || '', type: 'string' }
           ]
         };
-      } else if (request.auth.type === 'api-key') {
-        postmanRequest.request.auth = {
+      case 'api-key':
+        return {
           type: 'apikey',
           apikey: [
-            { key: 'key', value: request.auth.key || '', type: 'string' },
-            { key: 'value', value: request.auth.value || '', type: 'string' }
+            { key: 'key', value: auth.key || '', type: 'string' },
+            { key: 'value', value: auth.value || '', type: 'string' },
+            { key: 'in', value: 'header', type: 'string' }
           ]
         };
-      }
     }
+  }
 
-    return postmanRequest;
+  private static convertScriptsToPostmanEvents(source: { preRequestScript?: string; testScript?: string }): any[] {
+    const events: any[] = [];
+    if (source.preRequestScript) {
+      events.push({
+        listen: 'prerequest',
+        script: { type: 'text/javascript', exec: source.preRequestScript.split('\n') }
+      });
+    }
+    if (source.testScript) {
+      events.push({
+        listen: 'test',
+        script: { type: 'text/javascript', exec: source.testScript.split('\n') }
+      });
+    }
+    return events;
   }
 
   /**
-   * Extract protocol from URL
+   * Parse a Postman environment export or a globals dump. Globals may be the
+   * workspace export object or the older bare array of values.
    */
-  private static extractProtocol(url: string): string {
-    try {
-      return new URL(url).protocol.replace(':', '');
-    } catch {
-      return 'https';
+  static parseVariableSet(postmanJson: any): PostmanVariableSet {
+    const values = Array.isArray(postmanJson) ? postmanJson : postmanJson?.values;
+    if (!Array.isArray(values)) {
+      throw new Error('Invalid Postman environment format');
     }
+
+    const scope: PostmanVariableScope =
+      Array.isArray(postmanJson) || postmanJson._postman_variable_scope === 'globals' ? 'globals' : 'environment';
+    const set: PostmanVariableSet = {
+      // Globals always land in one environment so repeated imports merge
+      name: scope === 'globals' ? 'Globals' : postmanJson.name || 'Imported Environment',
+      scope,
+      variables: {},
+      disabledVariables: {},
+      secretKeys: []
+    };
+
+    values.forEach((variable: any) => {
+      const key = variable?.key;
+      if (!key) return;
+
+      const value = variable.value === undefined || variable.value === null
+        ? ''
+        : typeof variable.value === 'string' ? variable.value : JSON.stringify(variable.value);
+      if (variable.enabled === false || variable.disabled === true) {
+        set.disabledVariables[key] = value;
+      } else {
+        set.variables[key] = value;
+      }
+      if (variable.type === 'secret') {
+        set.secretKeys.push(key);
+      }
+    });
+
+    return set;
   }
 
   /**
-   * Extract host from URL
+   * Work out which variables an import would add to or change in the
+   * environment of the same name
    */
-  private static extractHost(url: string): string[] {
-    try {
-      const urlObj = new URL(url);
-      return urlObj.hostname.split('.');
-    } catch {
-      return ['example', 'com'];
-    }
+  static previewVariableSet(set: PostmanVariableSet, environments: Environment[]): EnvironmentImportPreview {
+    const target = environments.find(env => env.name === set.name);
+    const preview: EnvironmentImportPreview = { target, created: [], overwritten: [], unchanged: [] };
+
+    Object.entries({ ...set.variables, ...set.disabledVariables }).forEach(([key, value]) => {
+      const enabled = key in set.variables;
+      const existing = target?.variables[key] ?? target?.disabledVariables?.[key];
+      if (existing === undefined) {
+        preview.created.push(key);
+      } else if (existing === value && enabled === key in target!.variables) {
+        preview.unchanged.push(key);
+      } else {
+        preview.overwritten.push(key);
+      }
+    });
+
+    return preview;
   }
 
   /**
-   * Extract path from URL
+   * Save an imported variable set, merging into the environment with the
+   * same name if there is one
    */
-  private static extractPath(url: string): string[] {
-    try {
-      const urlObj = new URL(url);
-      return urlObj.pathname.split('/').filter(segment => segment);
-    } catch {
-      return [];
-    }
+  static async saveVariableSet(set: PostmanVariableSet): Promise<Environment> {
+    const { db } = await import('../database');
+
+    return db.transaction('rw', db.environments, async () => {
+      const existing = (await db.environments.toArray()).find(env => env.name === set.name);
+      const importedKeys = [...Object.keys(set.variables), ...Object.keys(set.disabledVariables)];
+
+      const omitImported = (values: Record<string, string> = {}) =>
+        Object.fromEntries(Object.entries(values).filter(([key]) => !importedKeys.includes(key)));
+
+      const environment: Environment = {
+        id: existing?.id ?? uuidv4(),
+        name: set.name,
+        variables: { ...omitImported(existing?.variables), ...set.variables },
+        disabledVariables: { ...omitImported(existing?.disabledVariables), ...set.disabledVariables },
+        secretKeys: [
+          ...(existing?.secretKeys || []).filter(key => !importedKeys.includes(key)),
+          ...set.secretKeys
+        ],
+        isActive: existing?.isActive ?? false,
+        createdAt: existing?.createdAt ?? new Date(),
+        updatedAt: new Date()
+      };
+
+      await db.environments.put(environment);
+      return environment;
+    });
+  }
+
+  /**
+   * Export an environment as a Postman environment file or globals dump
+   */
+  static exportVariableSet(environment: Environment, scope: PostmanVariableScope = 'environment'): string {
+    const secretKeys = environment.secretKeys || [];
+    const toValue = (key: string, value: string, enabled: boolean) => ({
+      key,
+      value,
+      type: secretKeys.includes(key) ? 'secret' : 'default',
+      enabled
+    });
+
+    return JSON.stringify({
+      id: environment.id,
+      name: scope === 'globals' ? 'Globals' : environment.name,
+      values: [
+        ...Object.entries(environment.variables).map(([key, value]) => toValue(key, value, true)),
+        ...Object.entries(environment.disabledVariables || {}).map(([key, value]) => toValue(key, value, false))
+      ],
+      _postman_variable_scope: scope,
+      _postman_exported_at: new Date().toISOString(),
+      _postman_exported_using: 'WebPostman'
+    }, null, 2);
+  }
+
+  /**
+   * Export the secrets taken out by redaction as an environment file of their own
+   */
+  static exportSecrets(secrets: Record<string, string>, name: string): { fileName: string; content: string } {
+    return {
+      fileName: `${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.postman_environment.json`,
+      content: this.exportVariableSet(RedactionService.toEnvironment(secrets, name))
+    };
   }
-}
\ No newline at end of file
+}
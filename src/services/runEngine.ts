@@ -0,0 +1,256 @@
+import type { Collection, CollectionRun, Request, RunResult } from '../database';
+import type { RequestConfig, ResponseData, ScriptContext, ScriptResult } from '../types';
+import { HttpService } from './httpService';
+import type { SendOptions } from './httpService';
+import type { DataRow } from './dataFileService';
+
+export interface EngineOptions {
+  iterations: number;
+  delay: number;
+  stopOnFailure: boolean;
+  data?: DataRow[];
+}
+
+export type CollectionChild =
+  | { order: number; request: Request; folder?: undefined }
+  | { order: number; folder: Collection; request?: undefined };
+
+export interface EngineHooks {
+  runScript: (context: ScriptContext) => Promise<ScriptResult>;
+  sendOptions?: SendOptions;
+  onResult?: (result: RunResult) => void;
+  onResponse?: (requestId: string, response: ResponseData) => void;
+  signal?: AbortSignal;
+}
+
+export interface EngineOutcome {
+  results: RunResult[];
+  status: CollectionRun['status'];
+  iterations: number;
+  variables: Record<string, string>;
+}
+
+/**
+ * DOM-free collection execution shared by the browser runner and the CLI.
+ * Script isolation is supplied by the caller through `hooks.runScript`.
+ */
+export class RunEngine {
+  /**
+   * Order the requests of a collection and its sub-collections. Requests
+   * without their own auth inherit it from the nearest ancestor, and
+   * collection-level scripts run around the request's own scripts.
+   */
+  static collectRequests(
+    collectionId: string,
+    collections: Collection[],
+    requests: Request[],
+    ancestors: Collection[] = this.getAncestors(collectionId, collections)
+  ): Request[] {
+    const collection = collections.find(c => c.id === collectionId);
+    const chain = collection ? [...ancestors, collection] : ancestors;
+
+    return this.getChildren(collectionId, collections, requests).flatMap(({ folder, request }) =>
+      request ? [this.inherit(request, chain)] : this.collectRequests(folder.id, collections, requests, chain)
+    );
+  }
+
+  /**
+   * The requests and sub-collections directly under a collection, interleaved
+   * by order the way a run visits them; requests win ties
+   */
+  static getChildren(collectionId: string, collections: Collection[], requests: Request[]): CollectionChild[] {
+    const items = requests
+      .filter(r => r.collectionId === collectionId || r.folderId === collectionId)
+      .map(request => ({ order: request.order, request }));
+    const folders = collections
+      .filter(c => c.parentId === collectionId)
+      .map(folder => ({ order: folder.order, folder }));
+
+    return [...items, ...folders].sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Collection variables, with nearer collections overriding their ancestors
+   */
+  static collectVariables(collectionId: string, collections: Collection[]): Record<string, string> {
+    return Object.assign({}, ...this.getChain(collectionId, collections).map(c => c.variables || {}));
+  }
+
+  /**
+   * A collection and its ancestors, outermost first
+   */
+  static getChain(collectionId: string, collections: Collection[]): Collection[] {
+    const collection = collections.find(c => c.id === collectionId);
+    return [...this.getAncestors(collectionId, collections), ...(collection ? [collection] : [])];
+  }
+
+  /**
+   * Apply what a request inherits from its collection chain: the nearest auth
+   * when it has none of its own, and collection scripts around its own scripts
+   */
+  static inherit<T extends Pick<Request, 'auth' | 'preRequestScript' | 'testScript'>>(request: T, chain: Collection[]): T {
+    const joinScripts = (scripts: (string | undefined)[]) => scripts.filter(script => script?.trim()).join('\n') || undefined;
+    return {
+      ...request,
+      auth: request.auth || [...chain].reverse().find(c => c.auth)?.auth,
+      preRequestScript: joinScripts([...chain.map(c => c.preRequestScript), request.preRequestScript]),
+      testScript: joinScripts([...chain.map(c => c.testScript), request.testScript])
+    };
+  }
+
+  private static getAncestors(collectionId: string, collections: Collection[]): Collection[] {
+    const ancestors: Collection[] = [];
+    let current = collections.find(c => c.id === collectionId);
+    while (current?.parentId) {
+      const parent = collections.find(c => c.id === current!.parentId);
+      if (!parent || ancestors.includes(parent)) break;
+      ancestors.unshift(parent);
+      current = parent;
+    }
+    return ancestors;
+  }
+
+  static toRequestConfig(request: Request): RequestConfig {
+    return {
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      params: request.params,
+      body: request.body,
+      bodyType: request.bodyType,
+      auth: request.auth,
+      preRequestScript: request.preRequestScript,
+      testScript: request.testScript
+    };
+  }
+
+  static async run(
+    requests: Request[],
+    initialVariables: Record<string, string>,
+    options: EngineOptions,
+    hooks: EngineHooks
+  ): Promise<EngineOutcome> {
+    // With a data file, each row drives exactly one iteration
+    const iterations = options.data && options.data.length > 0 ? options.data.length : options.iterations;
+
+    const results: RunResult[] = [];
+    let variables = { ...initialVariables };
+    let status: CollectionRun['status'] = 'completed';
+
+    try {
+      run: for (let iteration = 0; iteration < iterations; iteration++) {
+        const dataRow = options.data?.[iteration];
+
+        for (let index = 0; index < requests.length; index++) {
+          if (hooks.signal?.aborted) {
+            status = 'stopped';
+            break run;
+          }
+
+          const request = requests[index];
+          const { result, variables: updatedVariables } = await this.executeRequest(request, variables, iteration, hooks, dataRow);
+          variables = updatedVariables;
+          results.push(result);
+          hooks.onResult?.(result);
+
+          if (!result.passed && options.stopOnFailure) {
+            status = 'stopped';
+            break run;
+          }
+
+          const isLast = iteration === iterations - 1 && index === requests.length - 1;
+          if (options.delay > 0 && !isLast) {
+            await new Promise(resolve => setTimeout(resolve, options.delay));
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Collection run failed:', error);
+      status = 'failed';
+    }
+
+    return { results, status, iterations, variables };
+  }
+
+  /**
+   * Execute a single request with its scripts, carrying variables forward.
+   * Data row values take precedence over environment variables.
+   */
+  private static async executeRequest(
+    request: Request,
+    variables: Record<string, string>,
+    iteration: number,
+    hooks: EngineHooks,
+    dataRow?: DataRow
+  ): Promise<{ result: RunResult; variables: Record<string, string> }> {
+    const config = this.toRequestConfig(request);
+
+    const preRequest = await hooks.runScript({
+      script: config.preRequestScript || '',
+      request: config,
+      variables,
+      iterationData: dataRow
+    });
+
+    // A failing pre-request script may have left the request half-prepared, so it is not sent, as in the editor
+    if (preRequest.error) {
+      return {
+        result: {
+          iteration,
+          requestId: request.id,
+          name: request.name,
+          method: config.method,
+          url: config.url,
+          status: 0,
+          statusText: 'Pre-request script failed',
+          responseTime: 0,
+          responseSize: 0,
+          tests: [],
+          passed: false,
+          error: `Request not sent: ${preRequest.error}`,
+          dataRow
+        },
+        variables
+      };
+    }
+
+    const processedConfig = HttpService.interpolateRequest(preRequest.request, { ...preRequest.variables, ...dataRow });
+    const response = await HttpService.sendRequest(processedConfig, hooks.sendOptions);
+    hooks.onResponse?.(request.id, response);
+    const testRun = await hooks.runScript({
+      script: config.testScript || '',
+      request: processedConfig,
+      response,
+      variables: preRequest.variables,
+      iterationData: dataRow
+    });
+
+    const error = response.status === 0 ? response.body : testRun.error;
+
+    return {
+      result: {
+        iteration,
+        requestId: request.id,
+        name: request.name,
+        method: processedConfig.method,
+        url: processedConfig.url,
+        status: response.status,
+        statusText: response.statusText,
+        responseTime: response.responseTime,
+        responseSize: response.responseSize,
+        tests: testRun.tests,
+        passed: !error && testRun.tests.every(test => test.passed),
+        error,
+        dataRow,
+        request: {
+          headers: processedConfig.headers,
+          params: processedConfig.params,
+          body: processedConfig.body,
+          bodyType: processedConfig.bodyType,
+          auth: processedConfig.auth
+        }
+      },
+      variables: testRun.variables
+    };
+  }
+}
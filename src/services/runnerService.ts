@@ -0,0 +1,101 @@
+import { db } from '../database';
+import type { CollectionRun, Request, RunResult } from '../database';
+import type { ResponseData } from '../types';
+import { ScriptService } from './scriptService';
+import { RunEngine } from './runEngine';
+import { RequestService } from './collectionService';
+import type { DataRow } from './dataFileService';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface RunOptions {
+  collectionId: string;
+  environmentId?: string;
+  iterations: number;
+  delay: number;
+  stopOnFailure: boolean;
+  data?: DataRow[];
+  dataFileName?: string;
+}
+
+export class RunnerService {
+  /**
+   * Collect every request in a collection and its sub-collections, in order
+   */
+  static async getCollectionRequests(collectionId: string): Promise<Request[]> {
+    const [collections, requests] = await Promise.all([
+      db.collections.toArray(),
+      db.requests.toArray()
+    ]);
+
+    return RunEngine.collectRequests(collectionId, collections, requests);
+  }
+
+  static async getCollectionVariables(collectionId: string): Promise<Record<string, string>> {
+    return RunEngine.collectVariables(collectionId, await db.collections.toArray());
+  }
+
+  /**
+   * Run a collection and save the outcome to the runs table.
+   * `onResult` is called after each request so the UI can update live.
+   */
+  static async runCollection(
+    options: RunOptions,
+    onResult?: (result: RunResult) => void,
+    signal?: AbortSignal
+  ): Promise<CollectionRun> {
+    const collection = await db.collections.get(options.collectionId);
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+
+    const environment = options.environmentId ? await db.environments.get(options.environmentId) : undefined;
+    const requests = await this.getCollectionRequests(collection.id);
+    const collectionVariables = await this.getCollectionVariables(collection.id);
+
+    // The last response of each request is kept for exports, as when sending from the editor
+    const lastResponses = new Map<string, ResponseData>();
+    const startedAt = new Date();
+    const outcome = await RunEngine.run(requests, { ...collectionVariables, ...environment?.variables }, options, {
+      runScript: context => ScriptService.runScript(context),
+      onResult,
+      onResponse: (requestId, response) => {
+        if (response.status > 0) lastResponses.set(requestId, response);
+      },
+      signal
+    });
+    const finishedAt = new Date();
+    await Promise.all([...lastResponses].map(([requestId, response]) => RequestService.saveLastResponse(requestId, response)));
+
+    const run: CollectionRun = {
+      id: uuidv4(),
+      collectionId: collection.id,
+      collectionName: collection.name,
+      environmentId: environment?.id,
+      iterations: outcome.iterations,
+      delay: options.delay,
+      stopOnFailure: options.stopOnFailure,
+      dataFileName: options.dataFileName,
+      results: outcome.results,
+      passed: outcome.results.filter(r => r.passed).length,
+      failed: outcome.results.filter(r => !r.passed).length,
+      totalTime: finishedAt.getTime() - startedAt.getTime(),
+      status: outcome.status,
+      startedAt,
+      finishedAt
+    };
+
+    await db.runs.add(run);
+    return run;
+  }
+
+  static async getRuns(collectionId?: string): Promise<CollectionRun[]> {
+    const runs = collectionId
+      ? await db.runs.where('collectionId').equals(collectionId).toArray()
+      : await db.runs.toArray();
+    return runs.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  }
+
+  static async deleteRun(id: string): Promise<void> {
+    await db.runs.delete(id);
+  }
+}
@@ -0,0 +1,398 @@
+import type { RequestConfig, ScriptContext, ScriptResult, TestResult } from '../types';
+import { HttpService } from './httpService';
+
+/**
+ * Minimal chai-style assertion used by pm.expect and pm.response.to
+ */
+class Assertion {
+  private negate = false;
+
+  constructor(private actual: unknown, private isResponse = false) {}
+
+  get to() { return this; }
+  get be() { return this; }
+  get been() { return this; }
+  get is() { return this; }
+  get that() { return this; }
+  get which() { return this; }
+  get and() { return this; }
+  get has() { return this; }
+  get have() { return this; }
+  get with() { return this; }
+  get deep() { return this; }
+
+  get not() {
+    this.negate = !this.negate;
+    return this;
+  }
+
+  get ok() {
+    if (this.isResponse) {
+      const code = (this.actual as { code: number }).code;
+      return this.assert(code >= 200 && code < 300, `expected response to be ok but got ${code}`);
+    }
+    return this.assert(Boolean(this.actual), `expected ${format(this.actual)} to be truthy`);
+  }
+
+  get true() {
+    return this.assert(this.actual === true, `expected ${format(this.actual)} to be true`);
+  }
+
+  get false() {
+    return this.assert(this.actual === false, `expected ${format(this.actual)} to be false`);
+  }
+
+  get null() {
+    return this.assert(this.actual === null, `expected ${format(this.actual)} to be null`);
+  }
+
+  get undefined() {
+    return this.assert(this.actual === undefined, `expected ${format(this.actual)} to be undefined`);
+  }
+
+  get empty() {
+    const actual = this.actual;
+    const size = typeof actual === 'string' || Array.isArray(actual)
+      ? actual.length
+      : actual && typeof actual === 'object' ? Object.keys(actual).length : 0;
+    return this.assert(size === 0, `expected ${format(actual)} to be empty`);
+  }
+
+  equal(expected: unknown) {
+    return this.assert(this.actual === expected, `expected ${format(this.actual)} to equal ${format(expected)}`);
+  }
+
+  eql(expected: unknown) {
+    return this.assert(
+      JSON.stringify(this.actual) === JSON.stringify(expected),
+      `expected ${format(this.actual)} to deeply equal ${format(expected)}`
+    );
+  }
+
+  include(expected: unknown) {
+    const actual = this.actual;
+    let pass = false;
+    if (typeof actual === 'string') {
+      pass = typeof expected === 'string' && actual.includes(expected);
+    } else if (Array.isArray(actual)) {
+      pass = actual.includes(expected);
+    } else if (actual && typeof actual === 'object' && expected && typeof expected === 'object') {
+      const fields = actual as Record<string, unknown>;
+      pass = Object.entries(expected).every(([key, value]) => fields[key] === value);
+    }
+    return this.assert(pass, `expected ${format(actual)} to include ${format(expected)}`);
+  }
+
+  property(name: string, value?: unknown) {
+    const actual = this.actual;
+    const exists = actual !== null && actual !== undefined && name in Object(actual);
+    const pass = arguments.length > 1 ? exists && (Object(actual) as Record<string, unknown>)[name] === value : exists;
+    return this.assert(pass, `expected ${format(actual)} to have property '${name}'`);
+  }
+
+  lengthOf(length: number) {
+    const actual = this.actual;
+    const actualLength = typeof actual === 'string' || Array.isArray(actual) ? actual.length : undefined;
+    return this.assert(actualLength === length, `expected ${format(actual)} to have length ${length}`);
+  }
+
+  above(value: number) {
+    return this.assert((this.actual as number) > value, `expected ${format(this.actual)} to be above ${value}`);
+  }
+
+  below(value: number) {
+    return this.assert((this.actual as number) < value, `expected ${format(this.actual)} to be below ${value}`);
+  }
+
+  least(value: number) {
+    return this.assert((this.actual as number) >= value, `expected ${format(this.actual)} to be at least ${value}`);
+  }
+
+  most(value: number) {
+    return this.assert((this.actual as number) <= value, `expected ${format(this.actual)} to be at most ${value}`);
+  }
+
+  oneOf(values: unknown[]) {
+    return this.assert(values.includes(this.actual), `expected ${format(this.actual)} to be one of ${format(values)}`);
+  }
+
+  match(pattern: RegExp) {
+    return this.assert(pattern.test(String(this.actual)), `expected ${format(this.actual)} to match ${pattern}`);
+  }
+
+  a(type: string) {
+    const actual = this.actual;
+    const actualType = Array.isArray(actual) ? 'array' : actual === null ? 'null' : typeof actual;
+    return this.assert(actualType === type.toLowerCase(), `expected ${format(actual)} to be a ${type}`);
+  }
+
+  an(type: string) {
+    return this.a(type);
+  }
+
+  status(code: number) {
+    const actual = (this.actual as { code: number }).code;
+    return this.assert(actual === code, `expected response to have status ${code} but got ${actual}`);
+  }
+
+  header(name: string, value?: string) {
+    const headers = (this.actual as { headers: { get: (key: string) => string | undefined } }).headers;
+    const actualValue = headers.get(name);
+    const pass = value === undefined ? actualValue !== undefined : actualValue === value;
+    return this.assert(pass, `expected response to have header '${name}'`);
+  }
+
+  private assert(pass: boolean, message: string) {
+    if (pass === this.negate) {
+      throw new Error(this.negate ? message.replace('expected', 'expected not') : message);
+    }
+    return this;
+  }
+}
+
+const format = (value: unknown): string => {
+  try {
+    return typeof value === 'string' ? `'${value}'` : JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+interface VariableScope {
+  get: (key: string) => string | undefined;
+  set: (key: string, value: unknown) => void;
+  unset: (key: string) => void;
+  has: (key: string) => boolean;
+  clear: () => void;
+  toObject: () => Record<string, string>;
+  replaceIn: (text: string) => string;
+}
+
+interface PmResponse {
+  code: number;
+  status: string;
+  responseTime: number;
+  responseSize: number;
+  headers: {
+    get: (key: string) => string | undefined;
+    has: (key: string) => boolean;
+    toObject: () => Record<string, string>;
+  };
+  text: () => string;
+  json: () => unknown;
+  readonly to: Assertion;
+}
+
+/**
+ * The `pm` object scripts see, a subset of Postman's
+ */
+interface Pm {
+  environment: VariableScope;
+  variables: VariableScope;
+  request: {
+    url: string;
+    method: RequestConfig['method'];
+    body: string | undefined;
+    headers: {
+      get: (key: string) => string | undefined;
+      has: (key: string) => boolean;
+      add: (header: { key: string; value: string }) => void;
+      upsert: (header: { key: string; value: string }) => void;
+      remove: (key: string) => void;
+      toObject: () => Record<string, string>;
+    };
+    params: {
+      get: (key: string) => string | undefined;
+      set: (key: string, value: string) => void;
+      remove: (key: string) => void;
+    };
+  };
+  iterationData: {
+    get: (key: string) => string | undefined;
+    has: (key: string) => boolean;
+    toObject: () => Record<string, string>;
+  };
+  test: (name: string, fn: () => void) => void;
+  expect: (value: unknown) => Assertion;
+  response?: PmResponse;
+}
+
+const errorMessage = (error: unknown): string =>
+  // Errors thrown inside a vm context are not instances of this realm's Error
+  error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+
+/**
+ * Runs a script body with the given names in scope. Supplied by the isolated
+ * context the sandbox runs in: a locked-down Web Worker or a Node vm context.
+ */
+export type ScriptEvaluator = (script: string, scope: Record<string, unknown>) => void;
+
+/**
+ * Ways a script could compile code from strings and reach the real global
+ * scope. Each must throw under the evaluator before any script is run.
+ */
+const ESCAPE_PROBES = [
+  '(0, eval)("this")',
+  'Function("return this")()',
+  '(() => {}).constructor("return this")()',
+  '(async () => {}).constructor("return this")',
+  'pm.test.constructor("return this")()'
+];
+
+export class ScriptSandbox {
+  /**
+   * Execute a pre-request or test script against a pm-style API.
+   * Must only be called from an isolated context, which supplies `evaluate`.
+   */
+  static execute(context: ScriptContext, evaluate: ScriptEvaluator): ScriptResult {
+    const variables = { ...context.variables };
+    const request: RequestConfig = {
+      ...context.request,
+      headers: { ...context.request.headers },
+      params: { ...context.request.params }
+    };
+    const tests: TestResult[] = [];
+    const logs: string[] = [];
+
+    // pm.variables resolves iteration data first, pm.environment only the environment
+    const createScope = (data: Record<string, string> = {}): VariableScope => ({
+      get: (key: string) => data[key] ?? variables[key],
+      set: (key: string, value: unknown) => {
+        variables[key] = String(value);
+      },
+      unset: (key: string) => {
+        delete variables[key];
+      },
+      has: (key: string) => key in data || key in variables,
+      clear: () => {
+        Object.keys(variables).forEach(key => delete variables[key]);
+      },
+      toObject: () => ({ ...variables, ...data }),
+      replaceIn: (text: string) => HttpService.interpolateVariables(text, { ...variables, ...data })
+    });
+
+    const pm: Pm = {
+      environment: createScope(),
+      variables: createScope(context.iterationData),
+      request: {
+        get url() { return request.url; },
+        set url(value: string) { request.url = value; },
+        get method() { return request.method; },
+        set method(value: RequestConfig['method']) { request.method = value; },
+        get body() { return request.body; },
+        set body(value: string | undefined) { request.body = value; },
+        headers: {
+          get: (key: string) => request.headers[key],
+          has: (key: string) => key in request.headers,
+          add: (header: { key: string; value: string }) => {
+            request.headers[header.key] = header.value;
+          },
+          upsert: (header: { key: string; value: string }) => {
+            request.headers[header.key] = header.value;
+          },
+          remove: (key: string) => {
+            delete request.headers[key];
+          },
+          toObject: () => ({ ...request.headers })
+        },
+        params: {
+          get: (key: string) => request.params[key],
+          set: (key: string, value: string) => {
+            request.params[key] = value;
+          },
+          remove: (key: string) => {
+            delete request.params[key];
+          }
+        }
+      },
+      iterationData: {
+        get: (key: string) => context.iterationData?.[key],
+        has: (key: string) => key in (context.iterationData || {}),
+        toObject: () => ({ ...context.iterationData })
+      },
+      test: (name: string, fn: () => void) => {
+        try {
+          fn();
+          tests.push({ name, passed: true });
+        } catch (error) {
+          tests.push({ name, passed: false, error: errorMessage(error) });
+        }
+      },
+      expect: (value: unknown) => new Assertion(value)
+    };
+
+    if (context.response) {
+      const response = context.response;
+      const headerLookup = Object.fromEntries(
+        Object.entries(response.headers).map(([key, value]) => [key.toLowerCase(), value])
+      );
+      const pmResponse: PmResponse = {
+        code: response.status,
+        status: response.statusText,
+        responseTime: response.responseTime,
+        responseSize: response.responseSize,
+        headers: {
+          get: (key: string) => headerLookup[key.toLowerCase()],
+          has: (key: string) => key.toLowerCase() in headerLookup,
+          toObject: () => ({ ...response.headers })
+        },
+        text: () => response.body,
+        json: () => JSON.parse(response.body),
+        get to() {
+          return new Assertion(pmResponse, true);
+        }
+      };
+      pm.response = pmResponse;
+    }
+
+    const capture = (...args: unknown[]) => {
+      logs.push(args.map(arg => (typeof arg === 'string' ? arg : format(arg))).join(' '));
+    };
+    const sandboxConsole = { log: capture, info: capture, warn: capture, error: capture, debug: capture };
+
+    const scope = { pm, console: sandboxConsole };
+    if (ESCAPE_PROBES.some(probe => this.escapes(evaluate, probe, scope))) {
+      return { request, variables, tests, logs, error: 'Script sandbox is not isolated; refusing to run the script' };
+    }
+
+    let error: string | undefined;
+    try {
+      evaluate(context.script, scope);
+    } catch (scriptError) {
+      error = errorMessage(scriptError);
+    }
+
+    return { request, variables, tests, logs, error };
+  }
+
+  /**
+   * Remove `names`, `eval` and `Function` from a global scope and its prototype
+   * chain, and cut every function's link to its constructor, so nothing run in
+   * this realm afterwards can compile code from strings. Worker-only: the
+   * realm is unusable for anything else once this has run.
+   */
+  static lockdown(scope: object, names: string[]): void {
+    for (let target: object | null = scope; target; target = Object.getPrototypeOf(target)) {
+      for (const name of ['eval', 'Function', ...names]) {
+        if (!Object.prototype.hasOwnProperty.call(target, name)) continue;
+        if (!Reflect.deleteProperty(target, name)) {
+          Object.defineProperty(target, name, { value: undefined });
+        }
+      }
+    }
+
+    const functionKinds = [function () {}, async function () {}, function* () {}, async function* () {}];
+    functionKinds.forEach(fn => {
+      Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined });
+    });
+  }
+
+  private static escapes(evaluate: ScriptEvaluator, probe: string, scope: Record<string, unknown>): boolean {
+    try {
+      evaluate(probe, scope);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import type { ScriptContext, ScriptResult } from '../types';
+
+const SCRIPT_TIMEOUT_MS = 5000;
+
+export class ScriptService {
+  /**
+   * Run a user script in a dedicated Web Worker. The worker is terminated
+   * after every run, so scripts never share state or outlive their timeout.
+   */
+  static async runScript(context: ScriptContext): Promise<ScriptResult> {
+    if (!context.script.trim()) {
+      return {
+        request: context.request,
+        variables: context.variables,
+        tests: [],
+        logs: []
+      };
+    }
+
+    return new Promise(resolve => {
+      const worker = new Worker(new URL('../workers/scriptWorker.ts', import.meta.url), { type: 'module' });
+
+      const finish = (result: ScriptResult) => {
+        clearTimeout(timer);
+        worker.terminate();
+        resolve(result);
+      };
+
+      const fail = (error: string) => finish({
+        request: context.request,
+        variables: context.variables,
+        tests: [],
+        logs: [],
+        error
+      });
+
+      const timer = setTimeout(() => fail(`Script timed out after ${SCRIPT_TIMEOUT_MS}ms`), SCRIPT_TIMEOUT_MS);
+
+      worker.onmessage = (event: MessageEvent<ScriptResult>) => finish(event.data);
+      worker.onerror = (event) => {
+        event.preventDefault();
+        fail(event.message || 'Script worker failed');
+      };
+
+      worker.postMessage(context);
+    });
+  }
+
+  static async runPreRequestScript(
+    script: string,
+    request: ScriptContext['request'],
+    variables: Record<string, string>
+  ): Promise<ScriptResult> {
+    return this.runScript({ script, request, variables });
+  }
+
+  static async runTestScript(
+    script: string,
+    request: ScriptContext['request'],
+    response: NonNullable<ScriptContext['response']>,
+    variables: Record<string, string>
+  ): Promise<ScriptResult> {
+    return this.runScript({ script, request, response, variables });
+  }
+}
@@ -0,0 +1,131 @@
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import type { Response } from '../database';
+import { collection, request, sampleWorkspace } from '../test/workspace';
+import { SdkGenService } from './sdkGenService';
+
+const response = (requestId: string, body: string, status = 200): Response => ({
+  id: `${requestId}-${status}`,
+  requestId,
+  status,
+  statusText: '',
+  headers: {},
+  body,
+  responseTime: 1,
+  responseSize: body.length,
+  timestamp: new Date('2024-01-01T00:00:00Z')
+});
+
+const RESPONSES = [
+  response('list-users', '[{"id":1,"name":"Ann","tags":["admin"]}]'),
+  response('list-users', '[{"id":2,"name":"Bob","manager":null}]'),
+  response('create-user', '{"id":3,"name":"Cy","profile":{"bio":"hi"}}', 201),
+  response('create-user', '{"error":"taken"}', 409),
+  response('login', '"token"'),
+  response('login', '{"token":"t"}')
+];
+
+/**
+ * Type errors in a generated module, checked with strict settings against the browser libraries
+ */
+const typeErrors = (code: string): string[] => {
+  const fileName = '/client.ts';
+  const options: ts.CompilerOptions = {
+    strict: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+    types: []
+  };
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists } = host;
+  host.getSourceFile = (name, version, ...rest) =>
+    name === fileName ? ts.createSourceFile(name, code, version) : getSourceFile(name, version, ...rest);
+  host.fileExists = name => name === fileName || fileExists(name);
+
+  return ts.getPreEmitDiagnostics(ts.createProgram([fileName], options, host))
+    .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+};
+
+/**
+ * The module's exports, with fetch answering every request with the given response
+ */
+const load = (code: string, reply: () => globalThis.Response) => {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const exports: Record<string, any> = {};
+  const { outputText } = ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } });
+  new Function('exports', outputText)(exports);
+  exports.configure({
+    fetch: async (url: URL, init: RequestInit) => {
+      calls.push({ url: url.toString(), init });
+      return reply();
+    }
+  });
+  return { exports, calls };
+};
+
+const json = (body: unknown, status = 200) =>
+  new globalThis.Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('SdkGenService.generate', () => {
+  it('writes a module that type-checks under strict', () => {
+    const { collections, requests } = sampleWorkspace();
+
+    const code = SdkGenService.generate('shop', collections, requests, RESPONSES);
+
+    expect(typeErrors(code)).toEqual([]);
+    expect(code).toContain('export type ListUsersResponse = {');
+    expect(code).toContain('export type LogInResponse = string | {');
+  });
+
+  it('turns any request name into a unique function name', () => {
+    const names = ['delete', '2FA check', 'Send', 'config', 'List users', 'List users', 'Ünïcode & symbols!', ''];
+    const requests = names.map((name, order) => request({ id: `r${order}`, name, collectionId: 'api', order }));
+
+    const code = SdkGenService.generate('api', [collection({ id: 'api', name: 'API' })], requests);
+
+    expect(typeErrors(code)).toEqual([]);
+    expect([...code.matchAll(/^export async function (\w+)/gm)].map(([, name]) => name)).toMatchInlineSnapshot(`
+      [
+        "deleteRequest",
+        "request2faCheck",
+        "send2",
+        "config2",
+        "listUsers",
+        "listUsers2",
+        "unicodeSymbols",
+        "operation",
+      ]
+    `);
+  });
+
+  it('sends path, query, headers, auth and body the way the request was saved', async () => {
+    const { collections, requests } = sampleWorkspace();
+    const { exports, calls } = load(SdkGenService.generate('shop', collections, requests, RESPONSES), () => json([{ id: 1 }]));
+    exports.configure({ baseUrl: 'https://test.example.com/', auth: { type: 'bearer', token: 't' } });
+
+    expect(await exports.listUsers({ page: 2, q: 'a b&c', 'trace-id': 'abc' })).toEqual([{ id: 1 }]);
+    await exports.uploadAvatar({ userId: 'a/b', body: { caption: 'me', size: 'large' } });
+    await exports.logIn({ body: { user: 'ann', password: 'p&ss word' } });
+
+    expect(calls[0].url).toBe('https://test.example.com/users?page=2&q=a+b%26c');
+    expect(calls[0].init).toMatchObject({
+      method: 'GET',
+      headers: { Accept: 'application/json', 'X-Trace': 'abc', Authorization: 'Bearer t' }
+    });
+    expect(calls[1].url).toBe('https://test.example.com/users/a%2Fb/avatar');
+    expect([...(calls[1].init.body as FormData)]).toEqual([['caption', 'me'], ['size', 'large']]);
+    expect(String(calls[2].init.body)).toBe('user=ann&password=p%26ss+word');
+  });
+
+  it('throws ApiError for failed responses', async () => {
+    const { collections, requests } = sampleWorkspace();
+    const { exports } = load(SdkGenService.generate('shop', collections, requests), () => json({ error: 'missing' }, 404));
+
+    const error = await exports.health().catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(exports.ApiError);
+    expect(error).toMatchObject({ status: 404, body: { error: 'missing' }, message: 'Request failed with status 404' });
+  });
+});
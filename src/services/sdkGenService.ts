@@ -0,0 +1,381 @@
+import type { Collection, Request, Response } from '../database';
+import { HttpService } from './httpService';
+import { OpenApiService } from './openApiService';
+import { RedactionService } from './redactionService';
+import { RunEngine } from './runEngine';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Names RUNTIME and the configure section declare, which request functions must not reuse
+const RUNTIME_NAMES = ['send', 'formData', 'configure', 'config', 'ApiError', 'Auth', 'ClientConfig', 'Query'];
+
+// Reserved in strict-mode modules, so not usable as function names
+const RESERVED_WORDS = new Set([
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'implements', 'import', 'in',
+  'instanceof', 'interface', 'let', 'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static',
+  'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+// Everything the generated functions share: configuration, auth and sending
+const RUNTIME = `export type Auth =
+  | { type: "bearer"; token: string }
+  | { type: "basic"; username: string; password: string }
+  | { type: "api-key"; key: string; value: string };
+
+export interface ClientConfig {
+  baseUrl: string;
+  auth?: Auth;
+  /** Sent with every request, after the headers saved in the collection */
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly body: unknown) {
+    super(\`Request failed with status \${status}\`);
+  }
+}
+
+type Query = Record<string, string | number | boolean | undefined>;
+
+async function send<T>(method: string, path: string, query: Query, headers: Record<string, string>, body?: BodyInit): Promise<T> {
+  const url = new URL(/^[a-z][a-z0-9+.-]*:\\/\\//i.test(path) ? path : config.baseUrl.replace(/\\/+$/, "") + path);
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) url.searchParams.append(key, String(value));
+  });
+
+  const requestHeaders: Record<string, string> = { ...headers, ...config.headers };
+  const auth = config.auth;
+  if (auth?.type === "bearer") {
+    requestHeaders["Authorization"] = \`Bearer \${auth.token}\`;
+  } else if (auth?.type === "basic") {
+    requestHeaders["Authorization"] = \`Basic \${btoa(\`\${auth.username}:\${auth.password}\`)}\`;
+  } else if (auth?.type === "api-key") {
+    requestHeaders[auth.key] = auth.value;
+  }
+
+  const response = await (config.fetch ?? fetch)(url, { method, headers: requestHeaders, body });
+  const text = await response.text();
+  const data = text && (response.headers.get("content-type") ?? "").includes("json") ? JSON.parse(text) : text;
+  if (!response.ok) {
+    throw new ApiError(response.status, data);
+  }
+  return data as T;
+}
+
+function formData(fields: Record<string, string>): FormData {
+  const data = new FormData();
+  Object.entries(fields).forEach(([key, value]) => data.append(key, value));
+  return data;
+}
+`;
+
+interface Argument {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+/**
+ * Generates a TypeScript client module for a collection: one typed async
+ * function per request. Path variables, query parameters and the body
+ * become arguments, and response types are inferred from stored responses
+ * with the same schema inference the OpenAPI export uses.
+ */
+export class SdkGenService {
+  static generate(
+    rootId: string,
+    collections: Collection[],
+    requests: Request[],
+    responses: Response[] = [],
+    environmentVariables: Record<string, string> = {}
+  ): string {
+    const root = collections.find(c => c.id === rootId);
+    if (!root) {
+      throw new Error('Collection not found');
+    }
+
+    const variables = { ...environmentVariables, ...root.variables };
+    const redaction = RedactionService.createContext();
+    const functionNames = new Set<string>(RUNTIME_NAMES);
+    const sections: string[] = [];
+    let baseServer: string | undefined;
+    let baseUrl = '';
+    const authTypes = new Set<string>();
+
+    const visit = (collection: Collection, inheritedAuth: Request['auth']) => {
+      const auth = collection.auth || inheritedAuth;
+
+      // Requests and folders in the order the runner sends them
+      RunEngine.getChildren(collection.id, collections, requests).forEach(({ folder, request }) => {
+        if (folder) {
+          visit(folder, auth);
+          return;
+        }
+        const { server, path, query } = OpenApiService.splitUrl(request.url, variables);
+        // The first request decides the default base URL; others on a different server keep theirs
+        if (server && baseServer === undefined) {
+          baseServer = server.url;
+          baseUrl = server.variables ? Object.values<any>(server.variables)[0].default : server.url;
+        }
+        const effectiveAuth = request.auth || auth;
+        if (effectiveAuth && effectiveAuth.type !== 'none') {
+          authTypes.add(effectiveAuth.type);
+        }
+
+        sections.push(this.operation(
+          request,
+          server && server.url !== baseServer ? `${server.url}${path}` : path,
+          query,
+          responses.filter(response => response.requestId === request.id),
+          this.functionName(request.name, functionNames),
+          name => RedactionService.isSecretName(name, redaction)
+        ));
+      });
+    };
+    visit(root, undefined);
+
+    const header = [
+      '/**',
+      ` * ${root.name} API client, generated by WebPostman.`,
+      ...(root.description ? [' *', ...root.description.split('\n').map(line => ` * ${line}`.trimEnd())] : []),
+      ' */',
+      ''
+    ];
+    const configure = [
+      'const config: ClientConfig = {',
+      `  baseUrl: ${JSON.stringify(baseUrl)}`,
+      '};',
+      '',
+      '/**',
+      ' * Set the base URL, credentials and extra headers used by every request.',
+      ...(authTypes.size > 0 ? [` * The collection uses ${[...authTypes].join(' and ')} auth.`] : []),
+      ' */',
+      'export function configure(options: Partial<ClientConfig>): void {',
+      '  Object.assign(config, options);',
+      '}',
+      ''
+    ];
+
+    return [...header, RUNTIME, ...configure, ...sections].join('\n');
+  }
+
+  /**
+   * Load a collection from the database and generate its client module.
+   * The environment, if given, supplies the default base URL.
+   */
+  static async exportCollection(collectionId: string, environmentId?: string): Promise<{ fileName: string; content: string }> {
+    const { db } = await import('../database');
+    const [collections, requests, responses, environment] = await Promise.all([
+      db.collections.toArray(),
+      db.requests.toArray(),
+      db.responses.toArray(),
+      environmentId ? db.environments.get(environmentId) : undefined
+    ]);
+
+    const content = this.generate(collectionId, collections, requests, responses, environment?.variables);
+    const collection = collections.find(c => c.id === collectionId)!;
+    return { fileName: `${collection.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.client.ts`, content };
+  }
+
+  private static operation(
+    request: Request,
+    path: string,
+    query: Record<string, string>,
+    responses: Response[],
+    functionName: string,
+    isSecret: (name: string) => boolean
+  ): string {
+    const typeName = functionName.charAt(0).toUpperCase() + functionName.slice(1);
+    const args: Argument[] = [];
+    const addArgument = (name: string, type: string, optional: boolean) => {
+      if (!args.some(arg => arg.name === name)) {
+        args.push({ name, type, optional });
+      }
+    };
+    const declarations: string[] = [];
+
+    // Path variables, whether written as {{name}}, :name or a server variable
+    const pathTemplate = path.split(/\{([^}]+)\}/).map((part, index) => {
+      if (index % 2 === 0) {
+        return part.replace(/[`\\]|\$\{/g, match => `\\${match}`);
+      }
+      addArgument(part, 'string | number', false);
+      return `\${encodeURIComponent(String(${this.access(part)}))}`;
+    }).join('');
+
+    const queryEntries: string[] = [];
+    const addQuery = (name: string, value: string, optional: boolean) => {
+      addArgument(name, this.scalarType(value), optional);
+      queryEntries.push(`${this.property(name)}: ${this.access(name)}`);
+    };
+    Object.entries({ ...query, ...request.params }).forEach(([name, value]) => addQuery(name, value, false));
+    Object.entries(request.disabledParams || {})
+      .filter(([name]) => !(name in request.params) && !(name in query))
+      .forEach(([name, value]) => addQuery(name, value, true));
+
+    // Auth comes from the client config; secrets saved as headers are left to config.headers
+    const headers = Object.entries(request.headers)
+      .filter(([name]) => name.toLowerCase() !== 'authorization' && !isSecret(name));
+    const headerEntries = headers.map(([name, value]) => `${JSON.stringify(name)}: ${this.template(value, addArgument)}`);
+
+    let body: string | undefined;
+    const hasBody = HttpService.hasBody(request);
+    if (hasBody && request.bodyType !== 'raw') {
+      const fields = HttpService.formFields(request.body!).map(([name]) => name);
+      // A type alias rather than an interface, so it is assignable to Record<string, string>
+      declarations.push(`export type ${typeName}Body = ${
+        fields.length > 0 ? `{\n${fields.map(field => `  ${this.property(field)}: string;`).join('\n')}\n}` : 'Record<string, string>'
+      };`);
+      addArgument('body', `${typeName}Body`, false);
+      body = request.bodyType === 'form-data' ? 'formData(args.body)' : 'new URLSearchParams(args.body)';
+    } else if (hasBody) {
+      const json = OpenApiService.tryParseJson(request.body!);
+      if (json !== undefined) {
+        declarations.push(this.declaration(`${typeName}Body`, this.schemaType(OpenApiService.inferSchema(json))));
+        addArgument('body', `${typeName}Body`, false);
+        body = 'JSON.stringify(args.body)';
+        if (!headers.some(([name]) => name.toLowerCase() === 'content-type')) {
+          headerEntries.push('"Content-Type": "application/json"');
+        }
+      } else {
+        addArgument('body', 'string', false);
+        body = 'args.body';
+      }
+    }
+
+    // Successful responses describe the return type; failures surface as ApiError
+    const schema = responses
+      .filter(response => response.status >= 200 && response.status < 300)
+      .map(response => {
+        const json = response.body ? OpenApiService.tryParseJson(response.body) : undefined;
+        return json !== undefined ? OpenApiService.inferSchema(json) : { type: 'string' };
+      })
+      .reduce((a, b) => OpenApiService.mergeSchemas(a, b), undefined);
+    const responseType = `${typeName}Response`;
+    declarations.push(this.declaration(responseType, schema ? this.schemaType(schema) : 'unknown'));
+
+    if (args.length > 0) {
+      declarations.unshift(
+        `export interface ${typeName}Args {\n${args.map(arg => `  ${this.property(arg.name)}${arg.optional ? '?' : ''}: ${arg.type};`).join('\n')}\n}`
+      );
+    }
+
+    const call = [
+      JSON.stringify(request.method),
+      `\`${pathTemplate}\``,
+      this.objectLiteral(queryEntries),
+      this.objectLiteral(headerEntries),
+      ...(body ? [body] : [])
+    ];
+    const doc = [
+      '/**',
+      ` * ${request.name}`,
+      ...(request.description ? [' *', ...request.description.split('\n').map(line => ` * ${line}`.trimEnd())] : []),
+      ' *',
+      ` * ${request.method} ${path}`,
+      ' */'
+    ];
+
+    return [
+      ...declarations.map(declaration => `${declaration}\n`),
+      ...doc,
+      `export async function ${functionName}(${args.length > 0 ? `args: ${typeName}Args` : ''}): Promise<${responseType}> {`,
+      `  return send<${responseType}>(${call.join(', ')});`,
+      '}',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * A string literal, or a template literal when the value references {{variables}}
+   */
+  private static template(value: string, addArgument: (name: string, type: string, optional: boolean) => void): string {
+    if (!/\{\{[^}]+\}\}/.test(value)) {
+      return JSON.stringify(value);
+    }
+    return `\`${value.split(/\{\{\s*([^}]+?)\s*\}\}/).map((part, index) => {
+      if (index % 2 === 0) {
+        return part.replace(/[`\\]|\$\{/g, match => `\\${match}`);
+      }
+      addArgument(part, 'string', false);
+      return `\${${this.access(part)}}`;
+    }).join('')}\``;
+  }
+
+  private static objectLiteral(entries: string[]): string {
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+  }
+
+  /**
+   * An interface for a single object type. Arrays and unions of objects also start
+   * with a brace but close it before the end, since only the outermost brace is unindented.
+   */
+  private static declaration(name: string, type: string): string {
+    return type.startsWith('{') && type.indexOf('\n}') === type.length - 2
+      ? `export interface ${name} ${type}`
+      : `export type ${name} = ${type};`;
+  }
+
+  /**
+   * The TypeScript type for a schema inferred by OpenApiService.inferSchema
+   */
+  private static schemaType(schema: any, indent = ''): string {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    if (types.length === 0) {
+      return 'unknown';
+    }
+
+    return types.map(type => {
+      switch (type) {
+        case 'object': {
+          const properties = Object.entries<any>(schema.properties || {});
+          if (properties.length === 0) {
+            return 'Record<string, unknown>';
+          }
+          const required: string[] = schema.required || [];
+          return `{\n${properties.map(([name, property]) =>
+            `${indent}  ${this.property(name)}${required.includes(name) ? '' : '?'}: ${this.schemaType(property, `${indent}  `)};`
+          ).join('\n')}\n${indent}}`;
+        }
+        case 'array': {
+          const items = schema.items ? this.schemaType(schema.items, indent) : 'unknown';
+          return items.includes(' | ') ? `(${items})[]` : `${items}[]`;
+        }
+        case 'integer':
+        case 'number':
+          return 'number';
+        case 'string':
+        case 'boolean':
+        case 'null':
+          return type;
+        default:
+          return 'unknown';
+      }
+    }).join(' | ');
+  }
+
+  private static scalarType(value: string): string {
+    const scalar = OpenApiService.parseScalar(value);
+    return typeof scalar === 'number' ? 'number' : typeof scalar === 'boolean' ? 'boolean' : 'string';
+  }
+
+  /**
+   * A camelCase function name that is a valid identifier and unused so far.
+   * Reserved words get a Request suffix and leading digits a request prefix.
+   */
+  private static functionName(name: string, used: Set<string>): string {
+    const base = OpenApiService.uniqueOperationId(name, new Set());
+    const identifier = /^\d/.test(base) ? `request${base}` : RESERVED_WORDS.has(base) ? `${base}Request` : base;
+    return OpenApiService.uniqueOperationId(identifier, used);
+  }
+
+  private static property(name: string): string {
+    return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+  }
+
+  private static access(name: string): string {
+    return IDENTIFIER.test(name) ? `args.${name}` : `args[${JSON.stringify(name)}]`;
+  }
+}
@@ -0,0 +1,130 @@
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import type { Response } from '../database';
+import { sampleWorkspace } from '../test/workspace';
+import type { TestFramework } from './testExportService';
+import { TestExportService } from './testExportService';
+
+const response = (requestId: string, status: number, timestamp: string): Response => ({
+  id: `${requestId}-${timestamp}`,
+  requestId,
+  status,
+  statusText: '',
+  headers: {},
+  body: '',
+  responseTime: 1,
+  responseSize: 0,
+  timestamp: new Date(timestamp)
+});
+
+const ENV = {
+  BASE_URL: 'https://test.example.com',
+  TOKEN: 't0ken',
+  ADMIN_KEY: 'k3y',
+  BASIC_PASSWORD: 'basic',
+  PASSWORD: 'form',
+  USER_ID: '7'
+};
+
+interface SentRequest {
+  test: string;
+  url: string;
+  options: Record<string, any>;
+  checks: [unknown, unknown][];
+}
+
+/**
+ * Run a generated suite with stand-ins for the test framework and HTTP, recording
+ * what each test sends and the values it compares
+ */
+const runSuite = async (framework: TestFramework, code: string, env: Record<string, string>): Promise<SentRequest[]> => {
+  const tests: { name: string; run: () => Promise<unknown> }[] = [];
+  const sent: SentRequest[] = [];
+  const path: string[] = [];
+  let current: SentRequest;
+
+  const describeBlock = (name: string, body: () => void) => {
+    path.push(name);
+    body();
+    path.pop();
+  };
+  const test = Object.assign((name: string, run: (fixtures: unknown) => Promise<void>) => {
+    const fullName = [...path, name].join(' / ');
+    tests.push({ name: fullName, run: () => run({ request: { fetch: send } }) });
+  }, { describe: describeBlock });
+  const check = (actual: unknown) => ({
+    toBe: (expected: unknown) => current.checks.push([actual, expected]),
+    toBeTruthy: () => current.checks.push([actual, true])
+  });
+  const send = async (url: string, options: Record<string, any>) => {
+    Object.assign(current, { url, options });
+    return framework === 'playwright' ? { status: () => 200, ok: () => true } : { status: 200, ok: true };
+  };
+
+  const { outputText } = ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } });
+  new Function('exports', 'require', 'describe', 'test', 'expect', 'fetch', 'process', 'Buffer', outputText)(
+    {}, () => ({ test, expect: check }), describeBlock, test, check, send, { env }, Buffer
+  );
+  for (const { name, run } of tests) {
+    current = { test: name, url: '', options: {}, checks: [] };
+    sent.push(current);
+    await run();
+  }
+  return sent;
+};
+
+const syntaxErrors = (code: string): string[] =>
+  ts.transpileModule(code, { reportDiagnostics: true, compilerOptions: { module: ts.ModuleKind.ESNext } })
+    .diagnostics!.map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+describe('TestExportService.generate', () => {
+  const { collections, requests } = sampleWorkspace();
+  const responses = [
+    response('list-users', 500, '2024-01-01T00:00:00Z'),
+    response('list-users', 200, '2024-03-01T00:00:00Z'),
+    response('list-users', 404, '2024-02-01T00:00:00Z'),
+    response('create-user', 201, '2024-01-01T00:00:00Z')
+  ];
+
+  it.each<TestFramework>(['jest', 'playwright'])('writes valid TypeScript for %s', framework => {
+    expect(syntaxErrors(TestExportService.generate(framework, 'shop', collections, requests, responses))).toEqual([]);
+  });
+
+  it('sends each request in runner order and checks the status of its last response', async () => {
+    const sent = await runSuite('jest', TestExportService.generate('jest', 'shop', collections, requests, responses), ENV);
+
+    expect(sent.map(({ test, url, checks }) => ({ test, url, checks }))).toEqual([
+      { test: 'Shop / Health', url: 'https://test.example.com/health', checks: [[true, true]] },
+      { test: 'Shop / Users / List users', url: 'https://test.example.com/users?page=2&q=a+b%26c', checks: [[200, 200]] },
+      { test: 'Shop / Users / Admin / Create user', url: 'https://test.example.com/users', checks: [[200, 201]] },
+      { test: 'Shop / Users / Admin / Log in', url: 'https://test.example.com/login', checks: [[true, true]] },
+      { test: 'Shop / Users / Upload avatar', url: 'https://test.example.com/users/7/avatar', checks: [[true, true]] }
+    ]);
+    expect(sent[1].options.headers).toEqual({ Accept: 'application/json', 'X-Trace': 'abc', Authorization: 'Bearer t0ken' });
+    expect(sent[2].options.headers).toEqual({ 'Content-Type': 'application/json', 'X-Api-Key': 'k3y' });
+    expect(sent[3].options.headers.Authorization).toBe(`Basic ${Buffer.from('ann:basic').toString('base64')}`);
+    expect([...sent[3].options.body]).toEqual([['user', 'ann'], ['password', 'form']]);
+    expect([...sent[4].options.body]).toEqual([['caption', 'me'], ['size', 'large']]);
+  });
+
+  it('passes Playwright the same values', async () => {
+    const sent = await runSuite('playwright', TestExportService.generate('playwright', 'shop', collections, requests, responses), ENV);
+
+    expect(sent[1]).toMatchObject({
+      url: 'https://test.example.com/users',
+      options: { method: 'GET', params: { page: '2', q: 'a b&c' }, headers: { 'X-Trace': 'abc' } },
+      checks: [[200, 200]]
+    });
+    expect(sent[3].options.form).toEqual({ user: 'ann', password: 'form' });
+    expect(sent[4].options.multipart).toEqual({ caption: 'me', size: 'large' });
+  });
+
+  it('names the environment variables a run needs and keeps secrets out of the file', async () => {
+    const code = TestExportService.generate('jest', 'shop', collections, requests, responses);
+
+    expect(code).toContain(' *   BASIC_PASSWORD\n *   PASSWORD\n *   TOKEN\n');
+    expect(code).not.toContain('secret');
+    expect(code).not.toContain('p&ss word');
+    await expect(runSuite('jest', code, {})).rejects.toThrow('Set the TOKEN environment variable');
+  });
+});
@@ -0,0 +1,241 @@
+import type { Collection, Request, Response } from '../database';
+import { HttpService } from './httpService';
+import { RedactionService } from './redactionService';
+import { RunEngine } from './runEngine';
+
+export type TestFramework = 'playwright' | 'jest';
+
+const FRAMEWORK_FILES: Record<TestFramework, { suffix: string; imports: string[] }> = {
+  playwright: {
+    suffix: 'spec.ts',
+    imports: ['import { test, expect } from "@playwright/test";']
+  },
+  jest: {
+    suffix: 'test.ts',
+    imports: []
+  }
+};
+
+// Reads {{variables}} from the environment, falling back to the collection's value
+const ENV_HELPER = [
+  'function env(name: string, fallback?: string): string {',
+  '  const value = process.env[name] ?? fallback;',
+  '  if (value === undefined) {',
+  '    throw new Error(`Set the ${name} environment variable`);',
+  '  }',
+  '  return value;',
+  '}'
+];
+
+const JEST_HELPERS = [
+  'function withQuery(url: string, params: Record<string, string>): string {',
+  '  const query = new URLSearchParams(params).toString();',
+  '  return query ? `${url}${url.includes("?") ? "&" : "?"}${query}` : url;',
+  '}',
+  '',
+  'function formData(fields: Record<string, string>): FormData {',
+  '  const data = new FormData();',
+  '  Object.entries(fields).forEach(([key, value]) => data.append(key, value));',
+  '  return data;',
+  '}'
+];
+
+/**
+ * Variables referenced so far, and the collection values used as fallbacks in the current folder
+ */
+interface ExportContext {
+  variables: Set<string>;
+  defaults: Record<string, string>;
+}
+
+const indentLines = (text: string) => text.split('\n').map(line => `  ${line}`).join('\n');
+
+const objectLiteral = (entries: string[]) => (entries.length > 0 ? `{\n${entries.map(indentLines).join(',\n')}\n}` : '{}');
+
+/**
+ * Turns a collection into an API test suite: a describe block per folder and
+ * a test per request that sends it and checks the status of its last saved
+ * response. {{variables}} become environment variable lookups, and secrets
+ * saved in requests are redacted into variables first so none end up in the file.
+ */
+export class TestExportService {
+  static generate(
+    framework: TestFramework,
+    rootId: string,
+    collections: Collection[],
+    requests: Request[],
+    responses: Response[] = []
+  ): string {
+    const root = collections.find(c => c.id === rootId);
+    if (!root) {
+      throw new Error('Collection not found');
+    }
+
+    const redaction = RedactionService.createContext();
+    const variables = new Set<string>();
+
+    const describe = framework === 'playwright' ? 'test.describe' : 'describe';
+    const visit = (collection: Collection, inheritedAuth: Request['auth'], inheritedDefaults: Record<string, string>): string => {
+      const redacted = RedactionService.redactCollection(collection, redaction);
+      const auth = redacted.auth || inheritedAuth;
+      // Collection variables are the fallbacks, nearer collections overriding their ancestors like in the runner
+      const context: ExportContext = {
+        variables,
+        defaults: {
+          ...inheritedDefaults,
+          ...Object.fromEntries(Object.entries(redacted.variables || {}).filter(([, value]) => value && !value.includes('{{')))
+        }
+      };
+
+      // Requests and folders in the order the runner sends them
+      const blocks = RunEngine.getChildren(collection.id, collections, requests).map(({ folder, request }) => {
+        if (folder) {
+          return visit(folder, auth, context.defaults);
+        }
+        const redacted = RedactionService.redactRequest(request, redaction);
+        const lastResponse = responses
+          .filter(response => response.requestId === request.id)
+          .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+        return framework === 'playwright'
+          ? this.playwrightTest(redacted, redacted.auth || auth, lastResponse, context)
+          : this.jestTest(redacted, redacted.auth || auth, lastResponse, context);
+      });
+
+      return `${describe}(${JSON.stringify(collection.name)}, () => {\n${blocks.map(indentLines).join('\n\n')}\n});`;
+    };
+    const suite = visit(root, undefined, {});
+
+    const envNames = [...new Set([...variables].map(name => this.envName(name)))].sort();
+    return [
+      '/**',
+      ` * ${root.name} API tests, exported from WebPostman.`,
+      ...(envNames.length > 0 ? [' *', ' * Variables are read from these environment variables:', ...envNames.map(name => ` *   ${name}`)] : []),
+      ' */',
+      ...FRAMEWORK_FILES[framework].imports,
+      '',
+      ...(envNames.length > 0 ? [...ENV_HELPER, ''] : []),
+      ...(framework === 'jest' ? [...JEST_HELPERS, ''] : []),
+      // Blank lines inside the suite were indented along with everything else
+      suite.replace(/^ +$/gm, ''),
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Load a collection from the database and generate its test file
+   */
+  static async exportCollection(collectionId: string, framework: TestFramework): Promise<{ fileName: string; content: string }> {
+    const { db } = await import('../database');
+    const [collections, requests, responses] = await Promise.all([
+      db.collections.toArray(),
+      db.requests.toArray(),
+      db.responses.toArray()
+    ]);
+
+    const content = this.generate(framework, collectionId, collections, requests, responses);
+    const collection = collections.find(c => c.id === collectionId)!;
+    return {
+      fileName: `${collection.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${FRAMEWORK_FILES[framework].suffix}`,
+      content
+    };
+  }
+
+  private static playwrightTest(request: Request, auth: Request['auth'], lastResponse: Response | undefined, context: ExportContext): string {
+    const options = [`method: ${JSON.stringify(request.method)}`];
+    const headers = this.headers(request, auth, context);
+    if (headers.length > 0) {
+      options.push(`headers: ${objectLiteral(headers)}`);
+    }
+    const params = Object.entries(request.params);
+    if (params.length > 0) {
+      options.push(`params: ${objectLiteral(this.entries(params, context))}`);
+    }
+    if (HttpService.hasBody(request)) {
+      options.push(request.bodyType === 'raw'
+        ? `data: ${this.value(request.body!, context)}`
+        : `${request.bodyType === 'form-data' ? 'multipart' : 'form'}: ${objectLiteral(this.entries(HttpService.formFields(request.body!), context))}`);
+    }
+
+    return [
+      `test(${JSON.stringify(request.name)}, async ({ request }) => {`,
+      indentLines(`const response = await request.fetch(${this.value(request.url, context)}, ${objectLiteral(options)});`),
+      lastResponse ? `  expect(response.status()).toBe(${lastResponse.status});` : '  expect(response.ok()).toBeTruthy();',
+      '});'
+    ].join('\n');
+  }
+
+  private static jestTest(request: Request, auth: Request['auth'], lastResponse: Response | undefined, context: ExportContext): string {
+    const options = [`method: ${JSON.stringify(request.method)}`];
+    const headers = this.headers(request, auth, context);
+    if (headers.length > 0) {
+      options.push(`headers: ${objectLiteral(headers)}`);
+    }
+    if (HttpService.hasBody(request)) {
+      options.push(request.bodyType === 'raw'
+        ? `body: ${this.value(request.body!, context)}`
+        : `body: ${request.bodyType === 'form-data' ? 'formData' : 'new URLSearchParams'}(${objectLiteral(this.entries(HttpService.formFields(request.body!), context))})`);
+    }
+
+    const params = Object.entries(request.params);
+    const url = params.length > 0
+      ? `withQuery(${this.value(request.url, context)}, ${objectLiteral(this.entries(params, context))})`
+      : this.value(request.url, context);
+
+    return [
+      `test(${JSON.stringify(request.name)}, async () => {`,
+      indentLines(`const response = await fetch(${url}, ${objectLiteral(options)});`),
+      lastResponse ? `  expect(response.status).toBe(${lastResponse.status});` : '  expect(response.ok).toBe(true);',
+      '});'
+    ].join('\n');
+  }
+
+  /**
+   * Header entries with the request's auth applied, like HttpService sends them
+   */
+  private static headers(request: Request, auth: Request['auth'], context: ExportContext): string[] {
+    const entries = this.entries(Object.entries(request.headers), context);
+    if (auth?.type === 'bearer' && auth.token) {
+      entries.push(`"Authorization": ${this.value(`Bearer ${auth.token}`, context)}`);
+    } else if (auth?.type === 'basic' && auth.username && auth.password) {
+      entries.push(`"Authorization": "Basic " + Buffer.from(${this.value(`${auth.username}:${auth.password}`, context)}).toString("base64")`);
+    } else if (auth?.type === 'api-key' && auth.key && auth.value) {
+      entries.push(`${JSON.stringify(auth.key)}: ${this.value(auth.value, context)}`);
+    }
+    return entries;
+  }
+
+  private static entries(entries: [string, string][], context: ExportContext): string[] {
+    return entries.map(([name, value]) => `${JSON.stringify(name)}: ${this.value(value, context)}`);
+  }
+
+  /**
+   * A string literal, or an expression reading the environment when the text references {{variables}}
+   */
+  private static value(text: string, context: ExportContext): string {
+    const parts = text.split(/\{\{\s*([^}]+?)\s*\}\}/);
+    if (parts.length === 1) {
+      return JSON.stringify(text);
+    }
+    if (parts.length === 3 && !parts[0] && !parts[2]) {
+      return this.lookup(parts[1], context);
+    }
+    return `\`${parts.map((part, index) =>
+      // JSON escaping keeps line breaks out of the literal, which is indented with the code around it
+      index % 2 === 0 ? JSON.stringify(part).slice(1, -1).replace(/`|\$\{/g, match => `\\${match}`) : `\${${this.lookup(part, context)}}`
+    ).join('')}\``;
+  }
+
+  private static lookup(name: string, context: ExportContext): string {
+    context.variables.add(name);
+    const envName = JSON.stringify(this.envName(name));
+    return name in context.defaults ? `env(${envName}, ${JSON.stringify(context.defaults[name])})` : `env(${envName})`;
+  }
+
+  /**
+   * baseUrl and base-url both become BASE_URL
+   */
+  private static envName(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/\W+/g, '_').replace(/^_+|_+$/g, '').toUpperCase() || 'VARIABLE';
+  }
+}
+
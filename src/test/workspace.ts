@@ -0,0 +1,184 @@
+import type { Collection, Environment, Request } from '../database';
+import { RunEngine } from '../services/runEngine';
+
+const CREATED = new Date('2024-01-01T00:00:00Z');
+
+export const collection = (overrides: Partial<Collection> & Pick<Collection, 'id' | 'name'>): Collection => ({
+  order: 0,
+  createdAt: CREATED,
+  updatedAt: CREATED,
+  ...overrides
+});
+
+export const request = (overrides: Partial<Request> & Pick<Request, 'id' | 'name'>): Request => ({
+  method: 'GET',
+  url: 'https://api.example.com',
+  headers: {},
+  params: {},
+  bodyType: 'raw',
+  order: 0,
+  createdAt: CREATED,
+  updatedAt: CREATED,
+  ...overrides
+});
+
+/**
+ * A collection exercising what the importers and exporters have to carry:
+ * nested folders interleaved with requests, variables, inherited auth,
+ * scripts, disabled headers and parameters, and every body type
+ */
+export const sampleWorkspace = (): { collections: Collection[]; requests: Request[]; environments: Environment[] } => ({
+  collections: [
+    collection({
+      id: 'shop',
+      name: 'Shop',
+      description: 'The shop API',
+      variables: { baseUrl: 'https://shop.example.com', 'trace-id': 'abc' },
+      auth: { type: 'bearer', token: '{{token}}' },
+      preRequestScript: 'pm.variables.set("started", Date.now());'
+    }),
+    collection({ id: 'users', name: 'Users', parentId: 'shop', order: 1 }),
+    collection({
+      id: 'admin',
+      name: 'Admin',
+      parentId: 'users',
+      order: 1,
+      auth: { type: 'api-key', key: 'X-Api-Key', value: '{{adminKey}}' }
+    })
+  ],
+  requests: [
+    request({
+      id: 'health',
+      name: 'Health',
+      collectionId: 'shop',
+      url: '{{baseUrl}}/health',
+      order: 0
+    }),
+    request({
+      id: 'list-users',
+      name: 'List users',
+      collectionId: 'users',
+      url: '{{baseUrl}}/users',
+      params: { page: '2', q: 'a b&c' },
+      disabledParams: { debug: 'true' },
+      headers: { Accept: 'application/json', 'X-Trace': '{{trace-id}}' },
+      disabledHeaders: { 'X-Old': 'yes' },
+      testScript: 'pm.test("ok", () => pm.response.to.have.status(200));',
+      order: 0
+    }),
+    request({
+      id: 'create-user',
+      name: 'Create user',
+      collectionId: 'admin',
+      method: 'POST',
+      url: '{{baseUrl}}/users',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{\n  "name": "Ann"\n}',
+      order: 0
+    }),
+    request({
+      id: 'login',
+      name: 'Log in',
+      collectionId: 'admin',
+      method: 'POST',
+      url: '{{baseUrl}}/login',
+      bodyType: 'x-www-form-urlencoded',
+      body: JSON.stringify({ user: 'ann', password: 'p&ss word' }, null, 2),
+      auth: { type: 'basic', username: 'ann', password: 'secret' },
+      order: 1
+    }),
+    request({
+      id: 'upload',
+      name: 'Upload avatar',
+      collectionId: 'users',
+      method: 'PUT',
+      url: '{{baseUrl}}/users/{{userId}}/avatar',
+      bodyType: 'form-data',
+      body: JSON.stringify({ caption: 'me', size: 'large' }, null, 2),
+      order: 2
+    })
+  ],
+  environments: [
+    {
+      id: 'staging',
+      name: 'Staging',
+      variables: { baseUrl: 'https://staging.example.com', token: 'staging-token' },
+      disabledVariables: { adminKey: 'off' },
+      secretKeys: ['token'],
+      isActive: true,
+      createdAt: CREATED,
+      updatedAt: CREATED
+    }
+  ]
+});
+
+// Formats differ in whether they write out empty values at all
+const unlessEmpty = <T>(value: T): T | undefined =>
+  !value || (typeof value === 'object' && Object.keys(value).length === 0) ? undefined : value;
+
+const requestShape = (request: Request) => ({
+  name: request.name,
+  method: request.method,
+  url: request.url,
+  params: request.params,
+  disabledParams: unlessEmpty(request.disabledParams),
+  headers: request.headers,
+  disabledHeaders: unlessEmpty(request.disabledHeaders),
+  bodyType: request.bodyType,
+  body: request.bodyType === 'raw' ? unlessEmpty(request.body) : request.body && JSON.parse(request.body),
+  auth: request.auth?.type === 'none' ? undefined : request.auth,
+  preRequestScript: unlessEmpty(request.preRequestScript),
+  testScript: unlessEmpty(request.testScript)
+});
+
+export type RequestShape = ReturnType<typeof requestShape>;
+
+export interface CollectionOutline {
+  name: string;
+  variables?: Record<string, string>;
+  auth?: Request['auth'];
+  preRequestScript?: string;
+  testScript?: string;
+  children: (CollectionOutline | RequestShape)[];
+}
+
+/**
+ * A collection tree without ids, timestamps or order numbers, children in
+ * run order, so trees read from different formats can be compared
+ */
+export const outline = (rootId: string, collections: Collection[], requests: Request[]): CollectionOutline => {
+  const root = collections.find(c => c.id === rootId)!;
+  return {
+    name: root.name,
+    variables: unlessEmpty(root.variables),
+    auth: root.auth?.type === 'none' ? undefined : root.auth,
+    preRequestScript: unlessEmpty(root.preRequestScript),
+    testScript: unlessEmpty(root.testScript),
+    children: RunEngine.getChildren(rootId, collections, requests).map(({ folder, request }) =>
+      folder ? outline(folder.id, collections, requests) : requestShape(request)
+    )
+  };
+};
+
+/**
+ * The outline of the one top-level collection in a set
+ */
+export const rootOutline = (collections: Collection[], requests: Request[]): CollectionOutline => {
+  const roots = collections.filter(c => !c.parentId);
+  if (roots.length !== 1) {
+    throw new Error(`Expected one top-level collection, found ${roots.length}`);
+  }
+  return outline(roots[0].id, collections, requests);
+};
+
+/**
+ * The requests of the one top-level collection as a run sends them, with
+ * inherited auth and scripts applied, for formats that cannot keep them on folders
+ */
+export const effectiveRequests = (collections: Collection[], requests: Request[]): RequestShape[] => {
+  const roots = collections.filter(c => !c.parentId);
+  if (roots.length !== 1) {
+    throw new Error(`Expected one top-level collection, found ${roots.length}`);
+  }
+  return RunEngine.collectRequests(roots[0].id, collections, requests).map(requestShape);
+};
@@ -1,3 +1,5 @@
+import type { Collection, Environment, Request, Response } from './database';
+
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
 
 export type BodyType = 'raw' | 'form-data' | 'x-www-form-urlencoded';
@@ -21,6 +23,8 @@ export interface RequestConfig {
   body?: string;
   bodyType: BodyType;
   auth?: AuthConfig;
+  preRequestScript?: string;
+  testScript?: string;
 }
 
 export interface ResponseData {
@@ -32,6 +36,53 @@ export interface ResponseData {
   responseSize: number;
 }
 
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+export interface ScriptContext {
+  script: string;
+  request: RequestConfig;
+  response?: ResponseData;
+  variables: Record<string, string>;
+  iterationData?: Record<string, string>;
+}
+
+export interface ScriptResult {
+  request: RequestConfig;
+  variables: Record<string, string>;
+  tests: TestResult[];
+  logs: string[];
+  error?: string;
+}
+
+export interface ImportSummary {
+  collections: number;
+  requests: number;
+  examples: number;
+  variables: number;
+  skipped: string[];
+}
+
+export interface ImportResult {
+  collections: Collection[];
+  requests: Request[];
+  responses: Response[];
+  environments: Environment[];
+  summary: ImportSummary;
+}
+
+/**
+ * A request parsed from a pasted command, with the options that had no equivalent
+ */
+export interface ParsedCommand {
+  name: string;
+  request: RequestConfig;
+  ignored: string[];
+}
+
 export interface Tab {
   id: string;
   name: string;
@@ -0,0 +1,27 @@
+import type { ScriptContext } from '../types';
+import { ScriptSandbox } from '../services/scriptSandbox';
+
+const ctx = self as unknown as Worker;
+
+// Taken before the lockdown removes them from the worker scope
+const compile = Function;
+const reply = ctx.postMessage.bind(ctx);
+
+// Everything in a worker that reaches the network, storage, other contexts or the scope itself
+const BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'Worker', 'SharedWorker',
+  'BroadcastChannel', 'indexedDB', 'caches', 'navigator', 'postMessage', 'setTimeout', 'setInterval', 'self', 'globalThis'
+];
+
+// import() is syntax, so it cannot be removed from the scope like the globals above
+const DYNAMIC_IMPORT = /\bimport\s*(?:\/\*[\s\S]*?\*\/\s*|\/\/[^\n]*\n\s*)*[(.]/;
+
+ctx.onmessage = (event: MessageEvent<ScriptContext>) => {
+  ScriptSandbox.lockdown(ctx, BLOCKED_GLOBALS);
+  reply(ScriptSandbox.execute(event.data, (script, scope) => {
+    if (DYNAMIC_IMPORT.test(script)) {
+      throw new Error('import is not available in scripts');
+    }
+    compile(...Object.keys(scope), `"use strict";\n${script}`)(...Object.values(scope));
+  }));
+};
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Bundles the headless runner into a single Node ESM file
+export default defineConfig({
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist/cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'webpostman-cli.js',
+        // The script worker is started from the bundle's own file, so dynamic imports must not split it
+        inlineDynamicImports: true,
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+  ssr: {
+    noExternal: true,
+  },
+})